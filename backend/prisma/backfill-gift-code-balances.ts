@@ -0,0 +1,49 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Gift cards used to be redeemed in full in a single transaction, with no balance stored
+// Sets the redeemed amount of USED cards to the card value (SKU price), so reversals can
+// give it back and balances add up
+// Safe to re-run: only USED cards with nothing redeemed are touched
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting gift code balance backfill...');
+
+  const usedCodes = await prisma.giftCode.findMany({
+    where: { status: 'USED', redeemedAmount: 0 },
+    include: { sku: { select: { price: true } } },
+  });
+
+  console.log(`Found ${usedCodes.length} used gift codes without a redeemed amount`);
+
+  let updated = 0;
+  for (const giftCode of usedCodes) {
+    await prisma.giftCode.update({
+      where: { code: giftCode.code },
+      data: { redeemedAmount: giftCode.faceValue ?? giftCode.sku.price },
+    });
+    updated++;
+  }
+
+  console.log(`Updated ${updated} gift codes`);
+  console.log('Gift code balance backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Gift code balance backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
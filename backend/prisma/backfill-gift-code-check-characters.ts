@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// GiftCode.checkCharacter marks codes generated here, the only ones that may be typed in any case
+// and whose check character is meaningful
+// Flags the codes of every batch generated before the column existed (gift_code.generate audit
+// entries), uploaded batches keep the default
+// Safe to re-run
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting gift code check character backfill...');
+
+  const generated = await prisma.auditLog.findMany({
+    where: { action: 'gift_code.generate', entityType: 'GiftCodeBatch', entityId: { not: null } },
+    select: { entityId: true },
+  });
+
+  const batchIds = [...new Set(generated.map((entry) => entry.entityId as string))];
+  console.log(`Found ${batchIds.length} generated batches`);
+
+  const updated = await prisma.giftCode.updateMany({
+    where: { batchId: { in: batchIds }, checkCharacter: false },
+    data: { checkCharacter: true },
+  });
+
+  console.log(`Flagged ${updated.count} generated codes`);
+  console.log('Gift code check character backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Gift code check character backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
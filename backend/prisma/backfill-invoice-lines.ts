@@ -0,0 +1,83 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Invoices used to bill the merchant balance and reset it to zero, without recording which
+// transactions they covered
+// Links every CLAIM/ALLOCATION transaction to the first invoice of its merchant issued after it,
+// which is the invoice whose balance included it; later ones stay unbilled
+// Invoice amounts are not changed
+// Safe to re-run: only transactions without an invoice are touched
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting invoice line backfill...');
+
+  const invoices = await prisma.invoice.findMany({
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, merchantId: true, createdAt: true, amount: true, netAmount: true },
+  });
+
+  console.log(`Found ${invoices.length} invoices`);
+
+  let linked = 0;
+  let mismatched = 0;
+  for (const invoice of invoices) {
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        merchantId: invoice.merchantId,
+        paymentMode: { in: ['CLAIM', 'ALLOCATION'] },
+        billedInvoiceId: null,
+        createdAt: { lte: invoice.createdAt },
+      },
+      select: { id: true, amount: true, impactKg: true },
+    });
+
+    if (transactions.length === 0) continue;
+
+    await prisma.$transaction([
+      prisma.invoiceLine.createMany({
+        data: transactions.map((t) => ({
+          invoiceId: invoice.id,
+          transactionId: t.id,
+          amount: t.amount,
+          impactKg: t.impactKg,
+        })),
+        skipDuplicates: true,
+      }),
+      prisma.transaction.updateMany({
+        where: { id: { in: transactions.map((t) => t.id) } },
+        data: { billedInvoiceId: invoice.id },
+      }),
+    ]);
+    linked += transactions.length;
+
+    // Reported only: the invoice was issued for the balance at the time
+    const linesTotal = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+    const billed = Number(invoice.netAmount ?? invoice.amount);
+    if (Math.abs(linesTotal - billed) >= 0.01) {
+      mismatched++;
+      console.log(`Invoice ${invoice.id}: billed €${billed.toFixed(2)}, transactions €${linesTotal.toFixed(2)}`);
+    }
+  }
+
+  console.log(`Linked ${linked} transactions, ${mismatched} invoices don't match their transactions`);
+  console.log('Invoice line backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Invoice line backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,77 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Invoices issued before numbering have no number, fiscal year or buyer details
+// Numbers them in order of issue through the same per-year sequence new invoices use,
+// and copies the merchant's current billing details onto them
+// VAT is left empty: those invoices were billed without it and print "not itemised"
+// Run right after deploying, before the next billing run, so numbers follow the dates
+// Safe to re-run: only invoices without a number are touched
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting invoice number backfill...');
+
+  const invoices = await prisma.invoice.findMany({
+    where: { number: null },
+    include: { merchant: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  console.log(`Found ${invoices.length} invoices without a number`);
+
+  let numbered = 0;
+  for (const invoice of invoices) {
+    const fiscalYear = invoice.createdAt.getFullYear();
+    const { merchant } = invoice;
+    const billingCountry = merchant.billingCountry.toUpperCase();
+
+    await prisma.$transaction(async (tx) => {
+      const { lastNumber } = await tx.invoiceSequence.upsert({
+        where: { fiscalYear },
+        create: { fiscalYear, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } },
+      });
+
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          number: `${fiscalYear}/${String(lastNumber).padStart(5, '0')}`,
+          fiscalYear,
+          sequence: lastNumber,
+          issuedAt: invoice.createdAt,
+          billingName: merchant.legalName || merchant.name,
+          billingAddress: [
+            merchant.billingAddress,
+            [merchant.billingPostalCode, merchant.billingCity].filter(Boolean).join(' '),
+            billingCountry,
+          ].filter(Boolean).join('\n'),
+          billingVatId: merchant.vatId,
+          billingCountry,
+        },
+      });
+    });
+    numbered++;
+  }
+
+  console.log(`Numbered ${numbered} invoices`);
+  console.log('Invoice number backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Invoice number backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,71 @@
+import { PrismaClient, LedgerEntryType, LedgerReason } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Opens the wallet ledger for users created before it existed
+// Writes one OPENING_BALANCE entry per user whose wallet has no ledger entries yet
+// Safe to re-run: users that already have entries are skipped
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting ledger backfill...');
+
+  const users = await prisma.user.findMany({
+    where: { ledgerEntries: { none: {} } },
+    select: {
+      id: true,
+      email: true,
+      walletBalance: true,
+      walletImpactKg: true,
+      maturedImpactKg: true,
+      pendingImpactKg: true,
+    },
+  });
+
+  let opened = 0;
+
+  for (const user of users) {
+    const hasBalance =
+      !user.walletBalance.isZero() ||
+      !user.walletImpactKg.isZero() ||
+      !user.maturedImpactKg.isZero() ||
+      !user.pendingImpactKg.isZero();
+
+    if (!hasBalance) continue;
+
+    await prisma.walletLedgerEntry.create({
+      data: {
+        userId: user.id,
+        type: user.walletBalance.isNegative() ? LedgerEntryType.DEBIT : LedgerEntryType.CREDIT,
+        reason: LedgerReason.OPENING_BALANCE,
+        amountEur: user.walletBalance,
+        impactKg: user.walletImpactKg,
+        maturedKg: user.maturedImpactKg,
+        pendingKg: user.pendingImpactKg,
+        note: 'Opening balance carried over from pre-ledger wallet',
+      },
+    });
+
+    opened++;
+    console.log(`Opened ledger for ${user.email}: €${user.walletBalance.toFixed(2)}`);
+  }
+
+  console.log(`Ledger backfill completed: ${opened} users opened`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Ledger backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,193 @@
+import { PrismaClient, LedgerEntryType, LedgerReason } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Repairs maturation tracking for transactions credited before maturation events existed
+// 1. Creates the missing tranche events for every completed transaction
+//    (tranches already past their date are marked matured, as the old cron moved them)
+// 2. Compares each user's matured/pending kg with the event totals and writes a
+//    CORRECTION ledger entry for any drift caused by the old cron double-counting
+// Safe to re-run: existing events are kept and in-sync users are skipped
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+// 5/45/50 Rule, used when a transaction has no maturation fields stored
+const IMMEDIATE_PERCENT = 0.05;
+const MIDTERM_PERCENT = 0.45;
+const FINAL_PERCENT = 0.50;
+const MIDTERM_WEEKS = 40;
+const FINAL_WEEKS = 80;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Ignore differences below the column precision
+const KG_TOLERANCE = 0.00005;
+
+async function createMissingEvents(now: Date): Promise<number> {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      paymentStatus: 'COMPLETED',
+      maturationEvents: { none: {} },
+    },
+    select: {
+      id: true,
+      userId: true,
+      impactKg: true,
+      maturationTranches: true,
+      immediateImpactKg: true,
+      midTermImpactKg: true,
+      finalImpactKg: true,
+      midTermMaturesAt: true,
+      finalMaturesAt: true,
+      createdAt: true,
+    },
+  });
+
+  for (const tx of transactions) {
+    // Transactions created with a maturation schedule carry their own tranches
+    if (Array.isArray(tx.maturationTranches)) {
+      const tranches = tx.maturationTranches as Array<{ label: string; weeks: number; impactKg: number; maturesAt: string }>;
+
+      await prisma.maturationEvent.createMany({
+        data: tranches.map((tranche, index) => {
+          const maturesAt = new Date(tranche.maturesAt);
+          return {
+            transactionId: tx.id,
+            userId: tx.userId,
+            trancheIndex: index,
+            label: tranche.label,
+            impactKg: tranche.impactKg,
+            maturesAt,
+            maturedAt: tranche.weeks === 0 || maturesAt <= now ? maturesAt : null,
+          };
+        }),
+        skipDuplicates: true,
+      });
+      continue;
+    }
+
+    const impactKg = Number(tx.impactKg);
+    const midTermMaturesAt = tx.midTermMaturesAt || new Date(tx.createdAt.getTime() + MIDTERM_WEEKS * WEEK_MS);
+    const finalMaturesAt = tx.finalMaturesAt || new Date(tx.createdAt.getTime() + FINAL_WEEKS * WEEK_MS);
+
+    await prisma.maturationEvent.createMany({
+      data: [
+        {
+          transactionId: tx.id,
+          userId: tx.userId,
+          trancheIndex: 0,
+          label: 'Immediate',
+          impactKg: tx.immediateImpactKg ?? impactKg * IMMEDIATE_PERCENT,
+          maturesAt: tx.createdAt,
+          maturedAt: tx.createdAt,
+        },
+        {
+          transactionId: tx.id,
+          userId: tx.userId,
+          trancheIndex: 1,
+          label: 'Mid-term',
+          impactKg: tx.midTermImpactKg ?? impactKg * MIDTERM_PERCENT,
+          maturesAt: midTermMaturesAt,
+          maturedAt: midTermMaturesAt <= now ? midTermMaturesAt : null,
+        },
+        {
+          transactionId: tx.id,
+          userId: tx.userId,
+          trancheIndex: 2,
+          label: 'Final',
+          impactKg: tx.finalImpactKg ?? impactKg * FINAL_PERCENT,
+          maturesAt: finalMaturesAt,
+          maturedAt: finalMaturesAt <= now ? finalMaturesAt : null,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  return transactions.length;
+}
+
+async function repairUserBalances(): Promise<number> {
+  const users = await prisma.user.findMany({
+    select: {
+      id: true,
+      email: true,
+      maturedImpactKg: true,
+      pendingImpactKg: true,
+    },
+  });
+
+  let repaired = 0;
+
+  for (const user of users) {
+    const [matured, pending] = await Promise.all([
+      prisma.maturationEvent.aggregate({
+        where: { userId: user.id, maturedAt: { not: null }, cancelledAt: null, transaction: { paymentStatus: 'COMPLETED' } },
+        _sum: { impactKg: true },
+      }),
+      prisma.maturationEvent.aggregate({
+        where: { userId: user.id, maturedAt: null, cancelledAt: null, transaction: { paymentStatus: 'COMPLETED' } },
+        _sum: { impactKg: true },
+      }),
+    ]);
+
+    const maturedDelta = Number(matured._sum.impactKg || 0) - Number(user.maturedImpactKg);
+    const pendingDelta = Number(pending._sum.impactKg || 0) - Number(user.pendingImpactKg);
+
+    if (Math.abs(maturedDelta) < KG_TOLERANCE && Math.abs(pendingDelta) < KG_TOLERANCE) continue;
+
+    await prisma.$transaction([
+      prisma.walletLedgerEntry.create({
+        data: {
+          userId: user.id,
+          type: maturedDelta < 0 ? LedgerEntryType.DEBIT : LedgerEntryType.CREDIT,
+          reason: LedgerReason.CORRECTION,
+          maturedKg: maturedDelta,
+          pendingKg: pendingDelta,
+          note: 'Maturation backfill: matured/pending kg realigned with tranche events',
+        },
+      }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          maturedImpactKg: { increment: maturedDelta },
+          pendingImpactKg: { increment: pendingDelta },
+        },
+      }),
+    ]);
+
+    repaired++;
+    console.log(
+      `Repaired ${user.email}: matured ${maturedDelta >= 0 ? '+' : ''}${maturedDelta.toFixed(4)} kg, pending ${pendingDelta >= 0 ? '+' : ''}${pendingDelta.toFixed(4)} kg`
+    );
+  }
+
+  return repaired;
+}
+
+async function main() {
+  console.log('Starting maturation backfill...');
+
+  const now = new Date();
+
+  const scheduled = await createMissingEvents(now);
+  console.log(`Created maturation events for ${scheduled} transactions`);
+
+  const repaired = await repairUserBalances();
+  console.log(`Maturation backfill completed: ${repaired} users repaired`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Maturation backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
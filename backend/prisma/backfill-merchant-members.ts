@@ -0,0 +1,66 @@
+import { PrismaClient, MerchantMemberRole, UserRole } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Moves merchant logins from email matching to memberships
+// Every merchant without members gets the user with the same email as its OWNER
+// Merchants with no such user are listed: invite an owner from the admin panel
+// Safe to re-run: merchants that already have members are skipped
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting merchant member backfill...');
+
+  const merchants = await prisma.merchant.findMany({
+    where: { members: { none: {} } },
+    select: { id: true, name: true, email: true },
+  });
+
+  let linked = 0;
+
+  for (const merchant of merchants) {
+    const user = await prisma.user.findUnique({ where: { email: merchant.email } });
+
+    if (!user) {
+      console.log(`No user for ${merchant.name} (${merchant.email}), invite an owner`);
+      continue;
+    }
+
+    await prisma.$transaction([
+      prisma.merchantMember.create({
+        data: {
+          merchantId: merchant.id,
+          userId: user.id,
+          role: MerchantMemberRole.OWNER,
+          acceptedAt: new Date(),
+        },
+      }),
+      prisma.user.updateMany({
+        where: { id: user.id, role: UserRole.USER },
+        data: { role: UserRole.MERCHANT },
+      }),
+    ]);
+
+    linked++;
+    console.log(`Linked ${user.email} as owner of ${merchant.name}`);
+  }
+
+  console.log(`Merchant member backfill completed: ${linked} of ${merchants.length} merchants linked`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Merchant member backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,79 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Partner commission used to be estimated from the current rate, nothing was recorded
+// Accrues commission on every COMPLETED transaction of a partner without one, dated like the
+// transaction, at the partner's current rate (the rates in force back then are not known)
+// The next monthly run settles all of it into one statement: commissions already paid out
+// some other way should be linked to a statement by hand first, or this script not run
+// Safe to re-run: transactions with an accrual are skipped
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+async function main() {
+  console.log('Starting partner commission backfill...');
+
+  const partners = await prisma.partner.findMany({
+    where: { commissionRate: { gt: 0 } },
+    select: { id: true, name: true, commissionRate: true },
+  });
+
+  console.log(`Found ${partners.length} partners with a commission rate`);
+
+  let accrued = 0;
+  for (const partner of partners) {
+    const rate = Number(partner.commissionRate);
+
+    // Direct attribution wins over the merchant's partner
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        paymentStatus: 'COMPLETED',
+        amount: { gt: 0 },
+        partnerCommissions: { none: { type: 'ACCRUAL' } },
+        OR: [
+          { partnerId: partner.id },
+          { partnerId: null, merchant: { partnerId: partner.id } },
+        ],
+      },
+      select: { id: true, amount: true, createdAt: true },
+    });
+
+    if (transactions.length === 0) continue;
+
+    const created = await prisma.partnerCommission.createMany({
+      data: transactions.map((t) => ({
+        partnerId: partner.id,
+        transactionId: t.id,
+        type: 'ACCRUAL' as const,
+        baseAmount: t.amount,
+        rate,
+        amount: Math.round(Number(t.amount) * rate) / 100,
+        createdAt: t.createdAt,
+      })),
+      skipDuplicates: true,
+    });
+
+    accrued += created.count;
+    console.log(`${partner.name}: ${created.count} transactions at ${rate}%`);
+  }
+
+  console.log(`Accrued commission on ${accrued} transactions`);
+  console.log('Partner commission backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Partner commission backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
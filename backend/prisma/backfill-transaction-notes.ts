@@ -0,0 +1,91 @@
+import { PrismaClient, PaymentMode } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import pg from 'pg';
+import 'dotenv/config';
+
+// Moves admin notes out of the columns they used to be stored in
+// - Wallet adjustments: "ADMIN_ADJUSTMENT: <reason>" in giftCodeUsed, saved as CLAIM
+//   → paymentMode ADJUSTMENT, reason in note, giftCodeUsed cleared
+// - Manual transactions: "MANUAL:<reason>" in masterId
+//   → reason in note, masterId back to CSR26
+// The admin who made the change is taken from the wallet ledger when available
+// Safe to re-run: only rows that still carry a prefix are touched
+
+const ADJUSTMENT_PREFIX = 'ADMIN_ADJUSTMENT:';
+const MANUAL_PREFIX = 'MANUAL:';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['error'],
+});
+
+// Admin recorded on the ledger entry written together with the transaction
+async function findActorId(transactionId: string): Promise<string | null> {
+  const entry = await prisma.walletLedgerEntry.findFirst({
+    where: { transactionId, actorId: { not: null } },
+    select: { actorId: true },
+  });
+  return entry?.actorId ?? null;
+}
+
+async function main() {
+  console.log('Starting transaction note backfill...');
+
+  const adjustments = await prisma.transaction.findMany({
+    where: { giftCodeUsed: { startsWith: ADJUSTMENT_PREFIX } },
+    select: { id: true, giftCodeUsed: true },
+  });
+
+  for (const t of adjustments) {
+    await prisma.transaction.update({
+      where: { id: t.id },
+      data: {
+        paymentMode: PaymentMode.ADJUSTMENT,
+        giftCodeUsed: null,
+        note: t.giftCodeUsed!.slice(ADJUSTMENT_PREFIX.length).trim(),
+        metadata: {
+          source: 'WALLET_ADJUSTMENT',
+          actorId: await findActorId(t.id),
+          migratedFrom: 'giftCodeUsed',
+        },
+      },
+    });
+  }
+
+  console.log(`Migrated ${adjustments.length} wallet adjustments`);
+
+  const manual = await prisma.transaction.findMany({
+    where: { masterId: { startsWith: MANUAL_PREFIX } },
+    select: { id: true, masterId: true },
+  });
+
+  for (const t of manual) {
+    await prisma.transaction.update({
+      where: { id: t.id },
+      data: {
+        masterId: 'CSR26',
+        note: t.masterId.slice(MANUAL_PREFIX.length).trim(),
+        metadata: {
+          source: 'MANUAL_TRANSACTION',
+          actorId: await findActorId(t.id),
+          migratedFrom: 'masterId',
+        },
+      },
+    });
+  }
+
+  console.log(`Migrated ${manual.length} manual transactions`);
+  console.log('Transaction note backfill completed');
+}
+
+main()
+  .catch((e) => {
+    console.error('Transaction note backfill error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,4 +1,4 @@
-import { PrismaClient, PaymentMode, UserRole } from '@prisma/client';
+import { PrismaClient, PaymentMode, UserRole, MerchantMemberRole } from '@prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import pg from 'pg';
 import 'dotenv/config';
@@ -41,14 +41,14 @@ async function main() {
       description: 'Minimum EUR for monthly billing charge',
     },
     {
-      key: 'ADMIN_SECRET_CODE',
-      value: process.env.ADMIN_SECRET_CODE || 'CSR26-ADMIN-2026',
-      description: 'Secret code for admin login via landing page (CHANGE IN PRODUCTION)',
+      key: 'VAT_RATE',
+      value: '22',
+      description: 'VAT rate in percent charged on domestic invoices',
     },
     {
-      key: 'ADMIN_EMAIL',
-      value: process.env.ADMIN_EMAIL || 'admin@impactcsr26.it',
-      description: 'Admin user email address',
+      key: 'DEFAULT_MATURATION_SCHEDULE',
+      value: 'Standard 5/45/50',
+      description: 'Name of the maturation schedule used when a SKU/merchant has none assigned',
     },
   ];
 
@@ -60,6 +60,26 @@ async function main() {
     });
   }
 
+  // Admins sign in with their own magic link + TOTP, the shared secret code is gone
+  await prisma.setting.deleteMany({
+    where: { key: { in: ['ADMIN_SECRET_CODE', 'ADMIN_EMAIL'] } },
+  });
+
+  // Default maturation schedule (5/45/50 Rule)
+  await prisma.maturationSchedule.upsert({
+    where: { name: 'Standard 5/45/50' },
+    update: {},
+    create: {
+      name: 'Standard 5/45/50',
+      description: '5% immediately, 45% after 40 weeks, 50% after 80 weeks',
+      tranches: [
+        { label: 'Immediate', percent: 5, weeks: 0 },
+        { label: 'Mid-term', percent: 45, weeks: 40 },
+        { label: 'Final', percent: 50, weeks: 80 },
+      ],
+    },
+  });
+
   // ============================================
   // 2. Create Admin User
   // ============================================
@@ -81,6 +101,7 @@ async function main() {
   });
 
   console.log(`Admin user created: ${adminUser.email} (${adminUser.id})`);
+  console.log('Sign in at /admin/login, the authenticator app is set up on the first sign-in');
 
   // ============================================
   // 3. Create Sample Merchants
@@ -111,6 +132,32 @@ async function main() {
 
   console.log(`Merchants created: ${conad.id}, ${altromercato.id}`);
 
+  // Merchant owners sign in with the merchant email (add staff via invitations)
+  for (const merchant of [conad, altromercato]) {
+    const owner = await prisma.user.upsert({
+      where: { email: merchant.email },
+      update: {},
+      create: {
+        email: merchant.email,
+        firstName: merchant.name,
+        role: UserRole.MERCHANT,
+      },
+    });
+
+    await prisma.merchantMember.upsert({
+      where: { merchantId_userId: { merchantId: merchant.id, userId: owner.id } },
+      update: {},
+      create: {
+        merchantId: merchant.id,
+        userId: owner.id,
+        role: MerchantMemberRole.OWNER,
+        acceptedAt: new Date(),
+      },
+    });
+  }
+
+  console.log('Merchant owners created');
+
   // ============================================
   // 4. Create Sample SKUs for all 6 cases
   // ============================================
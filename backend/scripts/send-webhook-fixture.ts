@@ -0,0 +1,54 @@
+import Stripe from 'stripe';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import 'dotenv/config';
+
+// Posts a signed Stripe webhook fixture to the local API
+// Signs with STRIPE_WEBHOOK_SECRET, so no Stripe account or network access is needed
+//
+// Usage: npm run webhook:fixture -- <fixture> <paymentIntentId> [eventId]
+//   fixture          name of a file in fixtures/stripe (without .json), e.g. charge.refunded
+//   paymentIntentId  stripePaymentId of the transaction to target
+//   eventId          optional; reuse an ID to test duplicate delivery (default: new unique ID)
+
+const fixturesDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/stripe');
+
+async function main() {
+  const [fixture, paymentIntentId, eventId] = process.argv.slice(2);
+
+  if (!fixture || !paymentIntentId) {
+    console.error('Usage: npm run webhook:fixture -- <fixture> <paymentIntentId> [eventId]');
+    process.exit(1);
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const template = await readFile(path.join(fixturesDir, `${fixture}.json`), 'utf8');
+  const event = JSON.parse(template.replaceAll('{{PAYMENT_INTENT_ID}}', paymentIntentId));
+  event.id = eventId || `${event.id}_${Date.now()}`;
+
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  const url = `http://localhost:${process.env.PORT || 3000}/api/payments/webhook`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signature,
+    },
+    body: payload,
+  });
+
+  console.log(`${event.type} (${event.id}) -> ${response.status} ${await response.text()}`);
+}
+
+main().catch((e) => {
+  console.error('Webhook fixture error:', e);
+  process.exit(1);
+});
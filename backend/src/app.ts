@@ -4,26 +4,41 @@ import cors from 'cors';
 import routes from './routes/index.js';
 import { handleWebhook } from './controllers/paymentController.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { requestId, withRequestContext } from './middleware/requestId.js';
+import { createLogger } from './lib/logger.js';
+import { startScheduler } from './services/schedulerService.js';
 
 const app = express();
+const log = createLogger('server');
 
 // Environment variables - ALL from .env, NEVER hardcoded
 const PORT = process.env.PORT || 3000;
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
 
+// Behind a reverse proxy req.ip would be the proxy's address (audit log needs the client's)
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
+// Request ID for logs and error responses (first, so every response carries it)
+app.use(requestId);
+
 // CORS configuration
 app.use(cors({
   origin: FRONTEND_URL,
   credentials: true,
+  exposedHeaders: ['X-Request-Id'],
 }));
 
 // CRITICAL: Stripe webhook must be registered BEFORE express.json() middleware
 // Stripe requires raw body for signature verification
-app.post('/api/payments/webhook', express.raw({ type: 'application/json' }), handleWebhook);
+app.post('/api/payments/webhook', express.raw({ type: 'application/json' }), withRequestContext, handleWebhook);
 
 // Body parsing (AFTER webhook route)
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
+app.use(withRequestContext);
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -38,9 +53,11 @@ app.use(errorHandler);
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Frontend URL: ${FRONTEND_URL}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  log.info(`Server running on port ${PORT}`, {
+    frontendUrl: FRONTEND_URL,
+    environment: process.env.NODE_ENV || 'development',
+  });
+  startScheduler();
 });
 
 export default app;
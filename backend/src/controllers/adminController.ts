@@ -1,9 +1,10 @@
 // CSR26 Admin Controller
-// Handles admin-only operations: Corsair export, reports, transaction management
+// Handles admin-only operations: Corsair export, reports, transaction management, admin accounts, cron jobs, webhook events, audit log
 
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, conflict, internalError, notFound } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
+import { audit } from '../middleware/audit.js';
 import {
   exportPendingCertifiedUsers,
   exportAllCertifiedUsers,
@@ -17,19 +18,49 @@ import {
   getMerchantsWithBalance,
   getInvoiceDetails,
   markInvoicePaid,
+  getInvoiceDocument,
+  sendInvoice as sendInvoiceEmail,
+  getBillingReconciliation,
+  BillingReconciliationReport,
   MonthlyBillingResult,
 } from '../services/billingService.js';
 import {
   runDailyTasks,
   runMonthlyTasks,
   runAllTasks,
+  retryJobRun,
+  getJobRuns,
   CronRunResult,
+  JobRunWithActor,
 } from '../services/cronService.js';
+import { getSchedulerStatus, SchedulerStatus } from '../services/schedulerService.js';
 import {
   calculateMaturationBreakdown,
+  completeTransaction,
+  getDefaultMaturationSchedule,
+  serializeMaturationTranches,
   updateUserWallet,
 } from '../services/calculationService.js';
-import type { ApiResponse } from '../types/index.js';
+import {
+  getWebhookEvents,
+  replayWebhookEvent,
+} from '../services/webhookService.js';
+import {
+  reverseTransaction,
+  ReverseTransactionResult,
+} from '../services/reversalService.js';
+import {
+  getAdminAccounts,
+  resetTotpCredential,
+  revokeAdminAccess,
+  sendAdminSignInLink,
+  AdminAccount,
+} from '../services/adminAccountService.js';
+import { getAuditLogs, AUDIT_ENTITY_TYPES } from '../services/auditService.js';
+import { createLogger } from '../lib/logger.js';
+import type { ApiResponse, AuditLog, JobRunStatus, WebhookEvent, WebhookEventStatus } from '../types/index.js';
+
+const log = createLogger('admin-auth');
 
 // ============================================
 // CORSAIR EXPORT ENDPOINTS
@@ -48,9 +79,15 @@ export const getCorsairStats = asyncHandler(async (_req: Request, res: Response,
 });
 
 // POST /api/admin/corsair/export-pending - Export pending certified users
-export const exportPending = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+export const exportPending = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const result = await exportPendingCertifiedUsers();
 
+  await audit(req, {
+    action: 'corsair.export_pending',
+    entityType: 'CorsairExport',
+    after: { exportDate: result.exportDate, recordCount: result.recordCount },
+  });
+
   const response: ApiResponse<CorsairBatchExportResult> = {
     success: true,
     data: result,
@@ -60,9 +97,15 @@ export const exportPending = asyncHandler(async (_req: Request, res: Response, _
 });
 
 // POST /api/admin/corsair/export-all - Export all certified users
-export const exportAll = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+export const exportAll = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const result = await exportAllCertifiedUsers();
 
+  await audit(req, {
+    action: 'corsair.export_all',
+    entityType: 'CorsairExport',
+    after: { exportDate: result.exportDate, recordCount: result.recordCount },
+  });
+
   const response: ApiResponse<CorsairBatchExportResult> = {
     success: true,
     data: result,
@@ -95,6 +138,32 @@ export const downloadCorsairCSV = asyncHandler(async (req: Request, res: Respons
 // ADMIN REPORTS
 // ============================================
 
+interface AdjustmentTotals {
+  count: number;
+  credited: number;   // EUR added to wallets
+  debited: number;    // EUR taken from wallets (positive number)
+  net: number;
+  impactKg: number;
+}
+
+// Separate admin wallet adjustments from revenue-generating transactions
+const splitAdjustments = <T extends { paymentMode: string }>(transactions: T[]) => ({
+  revenue: transactions.filter((t) => t.paymentMode !== 'ADJUSTMENT'),
+  adjustments: transactions.filter((t) => t.paymentMode === 'ADJUSTMENT'),
+});
+
+const getAdjustmentTotals = (adjustments: { amount: unknown; impactKg: unknown }[]): AdjustmentTotals => {
+  const totals: AdjustmentTotals = { count: adjustments.length, credited: 0, debited: 0, net: 0, impactKg: 0 };
+  for (const t of adjustments) {
+    const amount = Number(t.amount);
+    if (amount >= 0) totals.credited += amount;
+    else totals.debited += -amount;
+    totals.net += amount;
+    totals.impactKg += Number(t.impactKg);
+  }
+  return totals;
+};
+
 // GET /api/admin/reports/summary - Monthly summary report
 export const getMonthlySummary = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const { year, month } = req.query;
@@ -108,7 +177,7 @@ export const getMonthlySummary = asyncHandler(async (req: Request, res: Response
   const endDate = new Date(reportYear, reportMonth + 1, 0, 23, 59, 59, 999);
 
   // Get transactions for the period
-  const transactions = await prisma.transaction.findMany({
+  const completed = await prisma.transaction.findMany({
     where: {
       createdAt: { gte: startDate, lte: endDate },
       paymentStatus: 'COMPLETED',
@@ -118,6 +187,9 @@ export const getMonthlySummary = asyncHandler(async (req: Request, res: Response
     },
   });
 
+  // Admin adjustments move wallets but are not revenue, report them apart
+  const { revenue: transactions, adjustments } = splitAdjustments(completed);
+
   // Calculate totals
   const totalTransactions = transactions.length;
   const totalRevenue = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
@@ -167,6 +239,7 @@ export const getMonthlySummary = asyncHandler(async (req: Request, res: Response
     totals: { transactions: number; revenue: number; impactKg: number };
     byPaymentMode: Record<string, { count: number; revenue: number; impactKg: number }>;
     byMerchant: { id: string; name: string; count: number; revenue: number; impactKg: number }[];
+    adjustments: AdjustmentTotals;
     users: { total: number; new: number; certified: number };
   }> = {
     success: true,
@@ -184,6 +257,7 @@ export const getMonthlySummary = asyncHandler(async (req: Request, res: Response
       },
       byPaymentMode: byPaymentModeMap,
       byMerchant,
+      adjustments: getAdjustmentTotals(adjustments),
       users: {
         total: totalUsers,
         new: newUsers,
@@ -205,7 +279,7 @@ export const getRevenueReport = asyncHandler(async (req: Request, res: Response,
   const endDate = endStr ? new Date(endStr) : new Date();
   const startDate = startStr ? new Date(startStr) : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
 
-  const transactions = await prisma.transaction.findMany({
+  const completed = await prisma.transaction.findMany({
     where: {
       createdAt: { gte: startDate, lte: endDate },
       paymentStatus: 'COMPLETED',
@@ -215,6 +289,8 @@ export const getRevenueReport = asyncHandler(async (req: Request, res: Response,
     },
   });
 
+  const { revenue: transactions, adjustments } = splitAdjustments(completed);
+
   let groupedData: Record<string, { id: string; name: string; count: number; revenue: number; impactKg: number }>;
 
   if (groupBy === 'partner') {
@@ -243,6 +319,7 @@ export const getRevenueReport = asyncHandler(async (req: Request, res: Response,
     groupBy: string;
     data: { id: string; name: string; count: number; revenue: number; impactKg: number }[];
     totals: { count: number; revenue: number; impactKg: number };
+    adjustments: AdjustmentTotals;
   }> = {
     success: true,
     data: {
@@ -254,6 +331,7 @@ export const getRevenueReport = asyncHandler(async (req: Request, res: Response,
         revenue: transactions.reduce((sum, t) => sum + Number(t.amount), 0),
         impactKg: transactions.reduce((sum, t) => sum + Number(t.impactKg), 0),
       },
+      adjustments: getAdjustmentTotals(adjustments),
     },
   };
 
@@ -461,15 +539,53 @@ export const updateTransactionStatus = asyncHandler(async (req: Request, res: Re
     throw notFound('Transaction not found');
   }
 
-  const updated = await prisma.transaction.update({
+  // Refunds, disputes and reversals have already reversed the wallet credit
+  if (['REFUNDED', 'DISPUTED', 'REVERSED'].includes(transaction.paymentStatus)) {
+    throw conflict(`Transaction is ${transaction.paymentStatus} and cannot be changed`);
+  }
+
+  // Flipping the status alone would leave the wallet credited: use the reversal endpoint
+  if (transaction.paymentStatus === 'COMPLETED' && paymentStatus !== 'COMPLETED') {
+    throw conflict('Completed transactions must be reversed via POST /api/admin/transactions/:id/reverse');
+  }
+
+  // Completing goes through the same path as a succeeded payment: wallet ledger,
+  // maturation events and partner commission, credited once
+  // Other changes only apply while the transaction is still PENDING/FAILED, so a payment
+  // completed in the meantime (webhook) is never flipped back and credited again
+  if (transaction.paymentStatus !== 'COMPLETED') {
+    let changed: boolean;
+    if (paymentStatus === 'COMPLETED') {
+      changed = await completeTransaction(id, { actorId: req.user?.id });
+    } else {
+      const { count } = await prisma.transaction.updateMany({
+        where: { id, paymentStatus: { in: ['PENDING', 'FAILED'] } },
+        data: { paymentStatus },
+      });
+      changed = count === 1;
+    }
+
+    if (!changed) {
+      throw conflict('Transaction status changed in the meantime, reload and try again');
+    }
+  }
+
+  const updated = await prisma.transaction.findUniqueOrThrow({
     where: { id },
-    data: { paymentStatus },
     include: {
       user: { select: { id: true, email: true } },
       merchant: { select: { id: true, name: true } },
     },
   });
 
+  await audit(req, {
+    action: 'transaction.update_status',
+    entityType: 'Transaction',
+    entityId: id,
+    before: { paymentStatus: transaction.paymentStatus },
+    after: { paymentStatus: updated.paymentStatus },
+  });
+
   const response: ApiResponse<typeof updated> = {
     success: true,
     data: updated,
@@ -478,6 +594,70 @@ export const updateTransactionStatus = asyncHandler(async (req: Request, res: Re
   res.json(response);
 });
 
+// POST /api/admin/transactions/:id/reverse - Reverse a completed transaction
+// Creates a compensating transaction, debits the wallet, credits back the merchant balance
+// and optionally resets the gift code
+export const reverseTransactionAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id ? String(req.params.id) : undefined;
+  const { reason, resetGiftCode = false } = req.body;
+
+  if (!id) throw badRequest('Transaction ID is required');
+  if (!reason || !String(reason).trim()) throw badRequest('Reason is required for audit trail');
+
+  const transaction = await prisma.transaction.findUnique({
+    where: { id },
+  });
+
+  if (!transaction) {
+    throw notFound('Transaction not found');
+  }
+
+  if (transaction.reversalOfId) {
+    throw badRequest('A compensating transaction cannot be reversed');
+  }
+
+  if (transaction.paymentStatus !== 'COMPLETED') {
+    throw conflict(`Only COMPLETED transactions can be reversed (transaction is ${transaction.paymentStatus})`);
+  }
+
+  if (resetGiftCode && !(transaction.paymentMode === 'GIFT_CARD' && transaction.giftCodeUsed)) {
+    throw badRequest('Transaction did not use a gift code');
+  }
+
+  const result = await reverseTransaction({
+    transactionId: id,
+    reason: String(reason).trim(),
+    actorId: req.user?.id,
+    resetGiftCode: Boolean(resetGiftCode),
+  });
+
+  // Refunded, disputed or reversed in the meantime
+  if (!result) {
+    throw conflict('Transaction has already been reversed');
+  }
+
+  await audit(req, {
+    action: 'transaction.reverse',
+    entityType: 'Transaction',
+    entityId: id,
+    before: transaction,
+    after: {
+      original: result.original,
+      reversal: result.reversal,
+      merchantCredited: result.merchantCredited,
+      giftCodeReset: result.giftCodeReset,
+      userDowngraded: result.userDowngraded,
+    },
+  });
+
+  const response: ApiResponse<ReverseTransactionResult> = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
 // POST /api/admin/transactions/manual - Create manual transaction for corrections
 export const createManualTransaction = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const { email, amount, paymentMode, reason } = req.body;
@@ -487,7 +667,7 @@ export const createManualTransaction = asyncHandler(async (req: Request, res: Re
   if (!paymentMode) throw badRequest('Payment mode is required');
   if (!reason || !reason.trim()) throw badRequest('Reason is required for audit trail');
 
-  const validModes = ['CLAIM', 'PAY', 'GIFT_CARD', 'ALLOCATION'];
+  const validModes = ['CLAIM', 'PAY', 'GIFT_CARD', 'ALLOCATION', 'ADJUSTMENT'];
   if (!validModes.includes(paymentMode)) {
     throw badRequest(`Invalid payment mode. Must be one of: ${validModes.join(', ')}`);
   }
@@ -506,8 +686,8 @@ export const createManualTransaction = asyncHandler(async (req: Request, res: Re
   const impactKg = amount / pricePerKg;
   const transactionAmount = parseFloat(String(amount));
 
-  // Calculate maturation breakdown (5/45/50 Rule)
-  const maturation = calculateMaturationBreakdown(impactKg);
+  // Calculate maturation breakdown (global default schedule, no SKU involved)
+  const maturation = calculateMaturationBreakdown(impactKg, await getDefaultMaturationSchedule());
 
   // Create transaction with admin note and maturation data
   const transaction = await prisma.transaction.create({
@@ -517,14 +697,14 @@ export const createManualTransaction = asyncHandler(async (req: Request, res: Re
       impactKg,
       paymentMode,
       paymentStatus: 'COMPLETED', // Manual transactions are pre-completed
-      // Store reason in masterId for audit trail
-      masterId: `MANUAL:${reason}`,
-      // Maturation tracking (5/45/50 Rule)
-      immediateImpactKg: maturation.immediateKg,
-      midTermImpactKg: maturation.midTermKg,
-      finalImpactKg: maturation.finalKg,
-      midTermMaturesAt: maturation.midTermMaturesAt,
-      finalMaturesAt: maturation.finalMaturesAt,
+      note: reason.trim(),
+      metadata: {
+        source: 'MANUAL_TRANSACTION',
+        actorId: req.user?.id ?? null,
+      },
+      // Maturation tracking (assigned maturation schedule)
+      maturationScheduleId: maturation.scheduleId,
+      maturationTranches: serializeMaturationTranches(maturation),
     },
     include: {
       user: { select: { id: true, email: true } },
@@ -533,7 +713,17 @@ export const createManualTransaction = asyncHandler(async (req: Request, res: Re
 
   // Update user wallet with proper maturation tracking
   // This also handles threshold check and Corsair export trigger
-  await updateUserWallet(user.id, transactionAmount, impactKg);
+  await updateUserWallet(user.id, transactionAmount, impactKg, {
+    transactionId: transaction.id,
+    actorId: req.user?.id,
+  });
+
+  await audit(req, {
+    action: 'transaction.create_manual',
+    entityType: 'Transaction',
+    entityId: transaction.id,
+    after: transaction,
+  });
 
   const response: ApiResponse<typeof transaction> = {
     success: true,
@@ -544,40 +734,137 @@ export const createManualTransaction = asyncHandler(async (req: Request, res: Re
 });
 
 // ============================================
-// ADMIN SKU ACCESS
+// ADMIN ACCOUNTS
 // ============================================
 
-// POST /api/admin/access - Verify admin access via special SKU code
-export const verifyAdminAccess = asyncHandler(async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-  const { code } = req.body;
+// GET /api/admin/admins - List admin accounts with their authenticator status
+export const getAdminAccountsAdmin = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+  const admins = await getAdminAccounts();
+
+  const response: ApiResponse<AdminAccount[]> = {
+    success: true,
+    data: admins,
+  };
+
+  res.json(response);
+});
 
-  // Check for admin access code
-  const ADMIN_ACCESS_CODE = process.env.ADMIN_ACCESS_CODE || 'ADMIN-ACCESS-2026';
+// POST /api/admin/admins - Grant admin access to an email and send a sign-in link
+export const createAdminAccount = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { email, firstName, lastName } = req.body;
 
-  if (code !== ADMIN_ACCESS_CODE) {
-    throw badRequest('Invalid access code');
+  if (!email || typeof email !== 'string' || !email.includes('@')) {
+    throw badRequest('A valid email is required');
   }
 
-  // If user is authenticated, upgrade their role to admin
-  if (req.user) {
-    await prisma.user.update({
-      where: { id: req.user.id },
-      data: { role: 'ADMIN' },
-    });
+  const existing = await prisma.user.findUnique({ where: { email: email.trim() } });
+  if (existing?.role === 'ADMIN') {
+    throw conflict('This user is already an admin');
+  }
 
-    const response: ApiResponse<{ message: string; role: string }> = {
-      success: true,
-      data: { message: 'Admin access granted', role: 'ADMIN' },
-    };
+  const user = existing
+    ? await prisma.user.update({
+        where: { id: existing.id },
+        data: { role: 'ADMIN' },
+      })
+    : await prisma.user.create({
+        data: {
+          email: email.trim(),
+          firstName: firstName || null,
+          lastName: lastName || null,
+          role: 'ADMIN',
+        },
+      });
+
+  log.info('Admin access granted', { userId: user.id, actorId: req.user?.id });
+
+  await audit(req, {
+    action: 'admin.grant',
+    entityType: 'User',
+    entityId: user.id,
+    before: existing ? { role: existing.role } : null,
+    after: { email: user.email, role: user.role },
+  });
+
+  const signIn = await sendAdminSignInLink(user);
+
+  const response: ApiResponse<{ admin: AdminAccount; message: string; magicLinkUrl?: string }> = {
+    success: true,
+    data: {
+      admin: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        createdAt: user.createdAt,
+        totpEnabledAt: null,
+      },
+      ...signIn,
+    },
+  };
+
+  res.status(201).json(response);
+});
 
-    res.json(response);
-    return;
+// DELETE /api/admin/admins/:id - Revoke admin access
+export const revokeAdminAccount = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id ? String(req.params.id) : undefined;
+  if (!id) throw badRequest('User ID is required');
+
+  if (id === req.user?.id) {
+    throw badRequest('You cannot revoke your own admin access');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user || user.role !== 'ADMIN') {
+    throw notFound('Admin not found');
   }
 
-  // Just verify the code is valid
-  const response: ApiResponse<{ message: string; valid: boolean }> = {
+  const updated = await revokeAdminAccess(id);
+
+  log.info('Admin access revoked', { userId: updated.id, actorId: req.user?.id });
+
+  await audit(req, {
+    action: 'admin.revoke',
+    entityType: 'User',
+    entityId: id,
+    before: { role: user.role },
+    after: { role: updated.role },
+  });
+
+  const response: ApiResponse<{ id: string; role: string }> = {
     success: true,
-    data: { message: 'Access code valid', valid: true },
+    data: { id: updated.id, role: updated.role },
+  };
+
+  res.json(response);
+});
+
+// POST /api/admin/admins/:id/reset-totp - Remove an admin's authenticator (e.g. lost phone)
+// The admin sets up a new one on their next sign-in
+export const resetAdminTotp = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id ? String(req.params.id) : undefined;
+  if (!id) throw badRequest('User ID is required');
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user || user.role !== 'ADMIN') {
+    throw notFound('Admin not found');
+  }
+
+  const reset = await resetTotpCredential(id);
+
+  log.info('Admin authenticator reset', { userId: user.id, actorId: req.user?.id });
+
+  await audit(req, {
+    action: 'admin.reset_totp',
+    entityType: 'User',
+    entityId: id,
+    after: { reset },
+  });
+
+  const response: ApiResponse<{ id: string; reset: boolean }> = {
+    success: true,
+    data: { id, reset },
   };
 
   res.json(response);
@@ -611,12 +898,36 @@ export const getOutstandingBalances = asyncHandler(async (_req: Request, res: Re
   res.json(response);
 });
 
+// GET /api/admin/billing/reconciliation - Merchant balances against their unbilled transactions
+export const getBillingReconciliationReport = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+  const report = await getBillingReconciliation();
+
+  const response: ApiResponse<BillingReconciliationReport> = {
+    success: true,
+    data: report,
+  };
+
+  res.json(response);
+});
+
 // POST /api/admin/billing/run - Run monthly billing (can be triggered manually or via cron)
 export const triggerMonthlyBilling = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const { year, month } = req.body;
 
   const result = await runMonthlyBilling(year, month);
 
+  await audit(req, {
+    action: 'billing.run',
+    entityType: 'Billing',
+    after: {
+      periodStart: result.periodStart,
+      periodEnd: result.periodEnd,
+      merchantsProcessed: result.merchantsProcessed,
+      invoicesGenerated: result.invoicesGenerated,
+      totalBilled: result.totalBilled,
+    },
+  });
+
   const response: ApiResponse<MonthlyBillingResult> = {
     success: true,
     data: result,
@@ -650,8 +961,21 @@ export const payInvoice = asyncHandler(async (req: Request, res: Response, _next
   const { stripePaymentId } = req.body;
   if (!id) throw badRequest('Invoice ID is required');
 
+  const before = await prisma.invoice.findUnique({ where: { id: String(id) } });
+  if (!before) {
+    throw notFound('Invoice not found');
+  }
+
   const invoice = await markInvoicePaid(String(id), stripePaymentId);
 
+  await audit(req, {
+    action: 'invoice.mark_paid',
+    entityType: 'Invoice',
+    entityId: invoice.id,
+    before,
+    after: invoice,
+  });
+
   const response: ApiResponse<typeof invoice> = {
     success: true,
     data: invoice,
@@ -660,13 +984,72 @@ export const payInvoice = asyncHandler(async (req: Request, res: Response, _next
   res.json(response);
 });
 
+// GET /api/admin/billing/invoices/:id/pdf - Download the invoice document
+export const downloadInvoicePdf = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const invoice = await prisma.invoice.findUnique({ where: { id } });
+  if (!invoice) {
+    throw notFound('Invoice not found');
+  }
+
+  const document = await getInvoiceDocument(id);
+  if (!document) {
+    throw conflict('This invoice has no number yet, run the invoice number backfill');
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  res.send(document.pdf);
+});
+
+// POST /api/admin/billing/invoices/:id/send - Email the invoice to the merchant again
+export const sendInvoice = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const invoice = await prisma.invoice.findUnique({ where: { id } });
+  if (!invoice) {
+    throw notFound('Invoice not found');
+  }
+
+  if (!invoice.number) {
+    throw conflict('This invoice has no number yet, run the invoice number backfill');
+  }
+
+  const sent = await sendInvoiceEmail(id);
+  if (!sent) {
+    throw internalError('The invoice email could not be sent, check the email configuration');
+  }
+
+  await audit(req, {
+    action: 'invoice.send',
+    entityType: 'Invoice',
+    entityId: id,
+    after: { number: invoice.number },
+  });
+
+  const response: ApiResponse<{ sent: boolean }> = {
+    success: true,
+    data: { sent },
+  };
+
+  res.json(response);
+});
+
 // ============================================
 // CRON ENDPOINTS
 // ============================================
 
 // POST /api/admin/cron/daily - Run daily cron tasks
-export const runDailyCron = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
-  const result = await runDailyTasks();
+export const runDailyCron = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const result = await runDailyTasks({ trigger: 'manual', triggeredById: req.user?.id });
+
+  await audit(req, {
+    action: 'cron.run_daily',
+    entityType: 'Cron',
+    entityId: result.runId,
+    after: { tasksRun: result.tasksRun, tasksSucceeded: result.tasksSucceeded, tasksFailed: result.tasksFailed },
+  });
 
   const response: ApiResponse<CronRunResult> = {
     success: true,
@@ -677,8 +1060,15 @@ export const runDailyCron = asyncHandler(async (_req: Request, res: Response, _n
 });
 
 // POST /api/admin/cron/monthly - Run monthly cron tasks
-export const runMonthlyCron = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
-  const result = await runMonthlyTasks();
+export const runMonthlyCron = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const result = await runMonthlyTasks({ trigger: 'manual', triggeredById: req.user?.id });
+
+  await audit(req, {
+    action: 'cron.run_monthly',
+    entityType: 'Cron',
+    entityId: result.runId,
+    after: { tasksRun: result.tasksRun, tasksSucceeded: result.tasksSucceeded, tasksFailed: result.tasksFailed },
+  });
 
   const response: ApiResponse<CronRunResult> = {
     success: true,
@@ -689,8 +1079,15 @@ export const runMonthlyCron = asyncHandler(async (_req: Request, res: Response,
 });
 
 // POST /api/admin/cron/all - Run all cron tasks
-export const runAllCron = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
-  const result = await runAllTasks();
+export const runAllCron = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const result = await runAllTasks({ trigger: 'manual', triggeredById: req.user?.id });
+
+  await audit(req, {
+    action: 'cron.run_all',
+    entityType: 'Cron',
+    entityId: result.runId,
+    after: { tasksRun: result.tasksRun, tasksSucceeded: result.tasksSucceeded, tasksFailed: result.tasksFailed },
+  });
 
   const response: ApiResponse<CronRunResult> = {
     success: true,
@@ -699,3 +1096,150 @@ export const runAllCron = asyncHandler(async (_req: Request, res: Response, _nex
 
   res.json(response);
 });
+
+// GET /api/admin/jobs - Cron run history with the scheduler's next runs
+export const getJobRunsAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { job, status, limit = '25', offset = '0' } = req.query;
+
+  const validJobs = ['daily', 'monthly', 'all'];
+  if (job && !validJobs.includes(String(job))) {
+    throw badRequest(`Invalid job. Must be one of: ${validJobs.join(', ')}`);
+  }
+
+  const validStatuses = ['RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED'];
+  if (status && !validStatuses.includes(String(status))) {
+    throw badRequest(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
+  }
+
+  const result = await getJobRuns({
+    job: job ? String(job) : undefined,
+    status: status ? (String(status) as JobRunStatus) : undefined,
+    limit: parseInt(String(limit)),
+    offset: parseInt(String(offset)),
+  });
+
+  const response: ApiResponse<{ runs: JobRunWithActor[]; total: number; scheduler: SchedulerStatus }> = {
+    success: true,
+    data: { ...result, scheduler: getSchedulerStatus() },
+  };
+
+  res.json(response);
+});
+
+// POST /api/admin/jobs/:id/retry - Run the failed and skipped tasks of a run again
+export const retryJobRunAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const result = await retryJobRun(id, req.user?.id ?? null);
+  if (!result) {
+    throw notFound('Job run not found');
+  }
+  if (!result.retried || !result.run) {
+    throw conflict(result.message ?? 'This run cannot be retried');
+  }
+
+  await audit(req, {
+    action: 'cron.retry',
+    entityType: 'Cron',
+    entityId: result.run.runId,
+    before: { runId: id },
+    after: { tasksRun: result.run.tasksRun, tasksSucceeded: result.run.tasksSucceeded, tasksFailed: result.run.tasksFailed },
+  });
+
+  const response: ApiResponse<CronRunResult> = {
+    success: true,
+    data: result.run,
+  };
+
+  res.json(response);
+});
+
+// ============================================
+// WEBHOOK EVENTS
+// ============================================
+
+// GET /api/admin/webhooks - List stored Stripe webhook events
+export const getWebhookEventsAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { status, type, limit = '50', offset = '0' } = req.query;
+
+  const validStatuses = ['RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED'];
+  if (status && !validStatuses.includes(String(status))) {
+    throw badRequest(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
+  }
+
+  const result = await getWebhookEvents({
+    status: status ? (String(status) as WebhookEventStatus) : undefined,
+    type: type ? String(type) : undefined,
+    limit: parseInt(String(limit)),
+    offset: parseInt(String(offset)),
+  });
+
+  const response: ApiResponse<{ events: WebhookEvent[]; total: number }> = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+// POST /api/admin/webhooks/:id/replay - Re-run the handler for a stored webhook event
+export const replayWebhookEventAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id ? String(req.params.id) : undefined;
+  if (!id) throw badRequest('Webhook event ID is required');
+
+  const event = await replayWebhookEvent(id);
+  if (!event) {
+    throw notFound('Webhook event not found');
+  }
+
+  await audit(req, {
+    action: 'webhook.replay',
+    entityType: 'WebhookEvent',
+    entityId: id,
+    after: { type: event.type, status: event.status, error: event.error },
+  });
+
+  const response: ApiResponse<WebhookEvent> = {
+    success: true,
+    data: event,
+  };
+
+  res.json(response);
+});
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+// GET /api/admin/audit-logs - List audit entries (filters: action prefix, entityType, entityId, actorId, from, to)
+export const getAuditLogsAdmin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { action, entityType, entityId, actorId, from, to, limit = '50', offset = '0' } = req.query;
+
+  if (entityType && !AUDIT_ENTITY_TYPES.includes(String(entityType) as (typeof AUDIT_ENTITY_TYPES)[number])) {
+    throw badRequest(`Invalid entity type. Must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`);
+  }
+
+  const fromDate = from ? new Date(String(from)) : undefined;
+  const toDate = to ? new Date(String(to)) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    throw badRequest('Invalid date range');
+  }
+
+  const result = await getAuditLogs({
+    action: action ? String(action) : undefined,
+    entityType: entityType ? String(entityType) : undefined,
+    entityId: entityId ? String(entityId) : undefined,
+    actorId: actorId ? String(actorId) : undefined,
+    from: fromDate,
+    to: toDate,
+    limit: parseInt(String(limit)),
+    offset: parseInt(String(offset)),
+  });
+
+  const response: ApiResponse<{ logs: AuditLog[]; total: number }> = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
@@ -1,12 +1,47 @@
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, forbidden, notFound, unauthorized } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
 import { generateToken } from '../middleware/auth.js';
 import { sendMagicLinkEmail } from '../services/emailService.js';
-import type { ApiResponse, AuthResponse, LandingFormData } from '../types/index.js';
+import { acceptPendingMemberships } from '../services/merchantMemberService.js';
+import { recordLandingConsents } from '../services/consentService.js';
+import {
+  confirmTotpCode,
+  getOrCreateTotpCredential,
+  recordFailedTotpAttempt,
+  sendAdminSignInLink,
+} from '../services/adminAccountService.js';
+import { getTotpUri } from '../services/totpService.js';
+import { createLogger } from '../lib/logger.js';
+import type { AdminSignInChallenge, ApiResponse, AuthResponse, LandingFormData, RegisterResponse } from '../types/index.js';
 import crypto from 'crypto';
 
+const log = createLogger('auth');
+
+// Create a login magic link for a user and email it
+const sendLoginLink = async (user: { id: string; email: string; firstName: string | null }) => {
+  // Generate magic link token
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+
+  // Save magic link
+  await prisma.magicLink.create({
+    data: {
+      userId: user.id,
+      token,
+      expiresAt,
+    },
+  });
+
+  log.info('Magic link created', { userId: user.id, expiresAt });
+
+  // Send magic link email (uses nodemailer if configured, or logs to console in development)
+  return sendMagicLinkEmail(user.email, token, user.firstName || undefined);
+};
+
 // POST /api/auth/register - Create new user (from landing page form)
+// Only a new user is signed in: knowing an existing email must not give access to the account,
+// so existing users are emailed a sign-in link instead and their details are left untouched
 export const register = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const formData: LandingFormData = req.body;
 
@@ -15,42 +50,50 @@ export const register = asyncHandler(async (req: Request, res: Response, _next:
   }
 
   // Check if user exists
-  let user = await prisma.user.findUnique({
+  const existing = await prisma.user.findUnique({
     where: { email: formData.email },
   });
 
-  if (user) {
-    // Update existing user with any new data
-    user = await prisma.user.update({
-      where: { email: formData.email },
-      data: {
-        firstName: formData.firstName || user.firstName,
-        lastName: formData.lastName || user.lastName,
-        dateOfBirth: formData.dateOfBirth ? new Date(formData.dateOfBirth) : user.dateOfBirth,
-        street: formData.street || user.street,
-        city: formData.city || user.city,
-        postalCode: formData.postalCode || user.postalCode,
-        country: formData.country || user.country,
-        state: formData.state || user.state,
-      },
-    });
-  } else {
-    // Create new user
-    user = await prisma.user.create({
+  // Admins need their second factor, the landing form must not sign them in
+  if (existing?.role === 'ADMIN') {
+    throw forbidden('Admin accounts sign in from the admin sign-in page');
+  }
+
+  if (existing) {
+    const emailResult = await sendLoginLink(existing);
+
+    const response: ApiResponse<RegisterResponse> = {
+      success: true,
       data: {
-        email: formData.email,
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        dateOfBirth: formData.dateOfBirth ? new Date(formData.dateOfBirth) : null,
-        street: formData.street,
-        city: formData.city,
-        postalCode: formData.postalCode,
-        country: formData.country,
-        state: formData.state,
+        magicLinkSent: true,
+        message: 'This email already has an account, we sent it a sign-in link',
+        // Only include magic link URL in development mode when email is not configured
+        ...(emailResult.magicLinkUrl && { magicLinkUrl: emailResult.magicLinkUrl }),
       },
-    });
+    };
+
+    res.json(response);
+    return;
   }
 
+  // Create new user
+  const user = await prisma.user.create({
+    data: {
+      email: formData.email,
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      dateOfBirth: formData.dateOfBirth ? new Date(formData.dateOfBirth) : null,
+      street: formData.street,
+      city: formData.city,
+      postalCode: formData.postalCode,
+      country: formData.country,
+      state: formData.state,
+    },
+  });
+
+  // Terms version and marketing opt-in ticked on the landing form
+  await recordLandingConsents(user.id, formData, { ip: req.ip, userAgent: req.get('user-agent') });
+
   // Generate token for auto-login
   const token = generateToken({
     userId: user.id,
@@ -58,7 +101,7 @@ export const register = asyncHandler(async (req: Request, res: Response, _next:
     role: user.role,
   });
 
-  const response: ApiResponse<AuthResponse> = {
+  const response: ApiResponse<RegisterResponse> = {
     success: true,
     data: { user, token },
   };
@@ -83,35 +126,11 @@ export const sendMagicLink = asyncHandler(async (req: Request, res: Response, _n
     throw notFound('User not found');
   }
 
-  // Generate magic link token
-  const token = crypto.randomBytes(32).toString('hex');
-  const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
-
-  // Save magic link
-  await prisma.magicLink.create({
-    data: {
-      userId: user.id,
-      token,
-      expiresAt,
-    },
-  });
-
-  // LOG MAGIC LINK FOR PM2 LOGS
-  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-  console.log('========================================');
-  console.log('MAGIC LINK GENERATED');
-  console.log('Email:', email);
-  console.log('Token:', token);
-  console.log('URL:', `${frontendUrl}/auth/verify/${token}`);
-  console.log('Expires:', expiresAt.toISOString());
-  console.log('========================================');
+  if (user.role === 'ADMIN') {
+    throw forbidden('Admin accounts sign in from the admin sign-in page');
+  }
 
-  // Send magic link email (uses nodemailer if configured, or logs to console in development)
-  const emailResult = await sendMagicLinkEmail(
-    user.email,
-    token,
-    user.firstName || undefined
-  );
+  const emailResult = await sendLoginLink(user);
 
   const response: ApiResponse<{ message: string; magicLinkUrl?: string }> = {
     success: true,
@@ -141,10 +160,15 @@ export const verifyMagicLink = asyncHandler(async (req: Request, res: Response,
     include: { user: true },
   });
 
-  if (!magicLink) {
+  // Admin sign-in links are only valid together with a TOTP code
+  if (!magicLink || magicLink.purpose !== 'LOGIN') {
     throw notFound('Invalid or expired token');
   }
 
+  if (magicLink.user.role === 'ADMIN') {
+    throw forbidden('Admin accounts sign in from the admin sign-in page');
+  }
+
   if (magicLink.used) {
     throw badRequest('Magic link already used');
   }
@@ -159,6 +183,9 @@ export const verifyMagicLink = asyncHandler(async (req: Request, res: Response,
     data: { used: true },
   });
 
+  // Signing in proves the email, which accepts any pending merchant invitations
+  await acceptPendingMemberships(magicLink.userId);
+
   // Get user separately for proper typing
   const user = await prisma.user.findUnique({
     where: { id: magicLink.userId },
@@ -193,70 +220,126 @@ export const getCurrentUser = asyncHandler(async (req: Request, res: Response, _
   res.json(response);
 });
 
-// POST /api/auth/admin-login - Admin login via secret code (from landing page)
-// Requirements: Admin accesses via landing?sku=ADMIN-ACCESS-2026 with secret code validation
-export const adminLogin = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const { secretCode } = req.body;
+// POST /api/auth/admin/magic-link - Send an admin sign-in link (first factor)
+// Always answers the same way, so the endpoint doesn't reveal which emails are admins
+export const requestAdminSignIn = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { email } = req.body;
 
-  if (!secretCode) {
-    throw badRequest('Secret code is required');
+  if (!email || typeof email !== 'string') {
+    throw badRequest('Email is required');
   }
 
-  // Get admin secret code from settings
-  const adminSecretSetting = await prisma.setting.findUnique({
-    where: { key: 'ADMIN_SECRET_CODE' },
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim() },
   });
 
-  if (!adminSecretSetting) {
-    // If no admin secret is configured, deny access
-    throw badRequest('Admin access not configured');
+  let magicLinkUrl: string | undefined;
+  if (user?.role === 'ADMIN') {
+    const result = await sendAdminSignInLink(user);
+    magicLinkUrl = result.magicLinkUrl;
+  } else {
+    log.info('Admin sign-in requested for a non-admin email', { email });
   }
 
-  // Validate secret code
-  if (secretCode !== adminSecretSetting.value) {
-    throw badRequest('Invalid secret code');
+  const response: ApiResponse<{ message: string; magicLinkUrl?: string }> = {
+    success: true,
+    data: {
+      message: 'If this email belongs to an admin, a sign-in link is on its way',
+      // Only set in development mode when email is not configured
+      ...(magicLinkUrl && { magicLinkUrl }),
+    },
+  };
+
+  res.json(response);
+});
+
+// POST /api/auth/admin/verify - Complete an admin sign-in (second factor)
+// Without a code: returns what the sign-in page should ask for (enrollment key or code only)
+// With a code: checks the TOTP code and signs the admin in
+export const verifyAdminSignIn = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { token, code } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    throw badRequest('Token is required');
   }
 
-  // Find or create admin user
-  // Use a specific admin email from settings or default
-  const adminEmailSetting = await prisma.setting.findUnique({
-    where: { key: 'ADMIN_EMAIL' },
+  const magicLink = await prisma.magicLink.findUnique({
+    where: { token },
+    include: { user: true },
   });
 
-  const adminEmail = adminEmailSetting?.value || 'admin@csr26.it';
+  if (!magicLink || magicLink.purpose !== 'ADMIN_LOGIN') {
+    throw notFound('Invalid or expired token');
+  }
 
-  let adminUser = await prisma.user.findUnique({
-    where: { email: adminEmail },
-  });
+  if (magicLink.used) {
+    throw badRequest('Sign-in link already used, request a new one');
+  }
 
-  if (!adminUser) {
-    // Create admin user
-    adminUser = await prisma.user.create({
+  if (magicLink.expiresAt < new Date()) {
+    throw badRequest('Sign-in link expired, request a new one');
+  }
+
+  // Admin rights may have been revoked after the link was sent
+  if (magicLink.user.role !== 'ADMIN') {
+    throw forbidden('Admin access required');
+  }
+
+  const credential = await getOrCreateTotpCredential(magicLink.userId);
+
+  if (code === undefined || code === null || code === '') {
+    const enrolled = credential.enabledAt !== null;
+    const response: ApiResponse<AdminSignInChallenge> = {
+      success: true,
       data: {
-        email: adminEmail,
-        firstName: 'Admin',
-        lastName: 'User',
-        role: 'ADMIN',
+        email: magicLink.user.email,
+        enrolled,
+        // The key is only shown until the first code is confirmed
+        ...(!enrolled && {
+          secret: credential.secret,
+          otpauthUrl: getTotpUri(credential.secret, magicLink.user.email),
+        }),
       },
-    });
-  } else if (adminUser.role !== 'ADMIN') {
-    // Upgrade user to admin if not already
-    adminUser = await prisma.user.update({
-      where: { id: adminUser.id },
-      data: { role: 'ADMIN' },
-    });
+    };
+
+    res.json(response);
+    return;
   }
 
-  // Generate token
-  const token = generateToken({
-    userId: adminUser.id,
-    email: adminUser.email,
-    role: adminUser.role,
+  if (!(await confirmTotpCode(credential, String(code)))) {
+    const attemptsLeft = await recordFailedTotpAttempt(magicLink.id);
+    throw unauthorized(
+      attemptsLeft > 0
+        ? `Invalid authenticator code (${attemptsLeft} attempts left)`
+        : 'Too many invalid codes, request a new sign-in link'
+    );
+  }
+
+  // Claim the link, a concurrent request may have used it with another valid code
+  const claimed = await prisma.magicLink.updateMany({
+    where: { id: magicLink.id, used: false },
+    data: { used: true },
+  });
+
+  if (claimed.count === 0) {
+    throw badRequest('Sign-in link already used, request a new one');
+  }
+
+  const user = magicLink.user;
+
+  if (!credential.enabledAt) {
+    log.info('Admin authenticator enrolled', { userId: user.id });
+  }
+
+  const jwtToken = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
   });
 
   const response: ApiResponse<AuthResponse> = {
     success: true,
-    data: { user: adminUser, token },
+    data: { user, token: jwtToken },
   };
 
   res.json(response);
@@ -1,8 +1,68 @@
 import { Request, Response, NextFunction } from 'express';
 import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
+import { audit } from '../middleware/audit.js';
 import { calculateImpact } from '../services/calculationService.js';
-import type { ApiResponse, ValidateGiftCodeRequest, ValidateGiftCodeResponse, BatchUploadGiftCodesRequest, GiftCode } from '../types/index.js';
+import {
+  createGiftCodeBatch,
+  generateGiftCodeBatch,
+  getGiftCodeBatches,
+  getGiftCodeBatchCsv,
+  getGiftCodeBatchPdf,
+  activateGiftCodeBatch,
+  validateGiftCodeForRedemption,
+  expireGiftCodes,
+  MAX_GIFT_CODE_BATCH_SIZE,
+  type CreateGiftCodeBatchInput,
+  type GiftCodeBatchSummary,
+} from '../services/giftCodeService.js';
+import type {
+  ApiResponse,
+  ValidateGiftCodeRequest,
+  ValidateGiftCodeResponse,
+  BatchUploadGiftCodesRequest,
+  GenerateGiftCodesRequest,
+  GiftCodeBatchOptions,
+  GiftCode,
+  GiftCodeBatch,
+} from '../types/index.js';
+
+// Validate the print batch fields shared by upload and generation
+const getBatchInput = async (
+  req: Request,
+  options: GiftCodeBatchOptions
+): Promise<Omit<CreateGiftCodeBatchInput, 'codes'>> => {
+  const { skuCode, name, distributor, faceValue, activationRequired, expiresAt } = options;
+
+  if (faceValue !== undefined && faceValue !== null && (typeof faceValue !== 'number' || !(faceValue > 0))) {
+    throw badRequest('faceValue must be a positive amount');
+  }
+
+  const expiryDate = expiresAt ? new Date(expiresAt) : null;
+  if (expiryDate && (isNaN(expiryDate.getTime()) || expiryDate <= new Date())) {
+    throw badRequest('expiresAt must be a future date');
+  }
+
+  // Check if SKU exists and is a gift card type
+  const sku = await prisma.sku.findUnique({ where: { code: skuCode } });
+  if (!sku) {
+    throw notFound('SKU not found');
+  }
+
+  if (sku.paymentMode !== 'GIFT_CARD') {
+    throw badRequest('SKU must be a GIFT_CARD type');
+  }
+
+  return {
+    name: name?.trim() || `${skuCode} ${new Date().toISOString().slice(0, 10)}`,
+    skuCode,
+    distributor: distributor?.trim() || null,
+    faceValue: faceValue ?? null,
+    activationRequired: Boolean(activationRequired),
+    expiresAt: expiryDate,
+    createdById: req.user?.id,
+  };
+};
 
 // POST /api/gift-codes/validate - Validate a gift code
 export const validateGiftCode = asyncHandler(async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
@@ -12,59 +72,32 @@ export const validateGiftCode = asyncHandler(async (req: Request, res: Response,
     throw badRequest('Code and skuCode are required');
   }
 
-  // Find gift code
-  const giftCode = await prisma.giftCode.findUnique({
-    where: { code },
-    include: { sku: true },
-  });
-
-  if (!giftCode) {
-    const response: ApiResponse<ValidateGiftCodeResponse> = {
-      success: true,
-      data: {
-        valid: false,
-        message: 'Invalid gift code',
-      },
-    };
-    res.json(response);
-    return;
-  }
-
-  // Check if code matches SKU
-  if (giftCode.skuCode !== skuCode) {
-    const response: ApiResponse<ValidateGiftCodeResponse> = {
-      success: true,
-      data: {
-        valid: false,
-        message: 'Code does not match this product',
-      },
-    };
-    res.json(response);
-    return;
-  }
+  const validation = await validateGiftCodeForRedemption(code, skuCode);
 
-  // Check if already used
-  if (giftCode.status !== 'UNUSED') {
+  if (!validation.valid || !validation.giftCode || validation.balance === undefined) {
     const response: ApiResponse<ValidateGiftCodeResponse> = {
       success: true,
       data: {
         valid: false,
-        message: giftCode.status === 'USED' ? 'Code already used' : 'Code deactivated',
+        message: validation.message,
       },
     };
     res.json(response);
     return;
   }
 
-  // Calculate impact for the gift card amount
-  const amount = Number(giftCode.sku.price);
+  // Calculate impact for the balance left on the card
+  const amount = validation.balance;
   const impact = await calculateImpact(amount);
+  const { giftCode } = validation;
 
   const response: ApiResponse<ValidateGiftCodeResponse> = {
     success: true,
     data: {
       valid: true,
       amount,
+      faceValue: Number(giftCode.faceValue ?? giftCode.sku.price),
+      expiresAt: giftCode.expiresAt,
       impactKg: impact.impactKg,
       message: `Code valid for €${amount} (${impact.displayValue} plastic removal)`,
     },
@@ -75,11 +108,15 @@ export const validateGiftCode = asyncHandler(async (req: Request, res: Response,
 
 // GET /api/gift-codes - List all gift codes (admin)
 export const getAllGiftCodes = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const { status, skuCode, limit = '50', offset = '0' } = req.query;
+  const { status, skuCode, batchId, limit = '50', offset = '0' } = req.query;
+
+  // Keep statuses accurate between daily cron runs
+  await expireGiftCodes();
 
   const where: Record<string, unknown> = {};
   if (status) where.status = status;
   if (skuCode) where.skuCode = skuCode;
+  if (batchId) where.batchId = batchId;
 
   const giftCodes = await prisma.giftCode.findMany({
     where,
@@ -87,6 +124,9 @@ export const getAllGiftCodes = asyncHandler(async (req: Request, res: Response,
       sku: {
         select: { code: true, name: true, price: true },
       },
+      batch: {
+        select: { id: true, name: true, distributor: true },
+      },
     },
     orderBy: { createdAt: 'desc' },
     take: parseInt(limit as string),
@@ -105,53 +145,52 @@ export const getAllGiftCodes = asyncHandler(async (req: Request, res: Response,
 
 // POST /api/gift-codes/batch - Upload batch of gift codes (admin)
 export const batchUpload = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const { skuCode, codes }: BatchUploadGiftCodesRequest = req.body;
+  const body: BatchUploadGiftCodesRequest = req.body;
+  const { skuCode, codes } = body;
 
   if (!skuCode || !codes || !Array.isArray(codes) || codes.length === 0) {
     throw badRequest('skuCode and codes array are required');
   }
 
-  // Check if SKU exists and is a gift card type
-  const sku = await prisma.sku.findUnique({ where: { code: skuCode } });
-  if (!sku) {
-    throw notFound('SKU not found');
+  if (codes.length > MAX_GIFT_CODE_BATCH_SIZE) {
+    throw badRequest(`A batch can hold at most ${MAX_GIFT_CODE_BATCH_SIZE} codes`);
   }
 
-  if (sku.paymentMode !== 'GIFT_CARD') {
-    throw badRequest('SKU must be a GIFT_CARD type');
-  }
+  const batchInput = await getBatchInput(req, body);
 
-  // Filter out any existing codes
-  const existingCodes = await prisma.giftCode.findMany({
-    where: { code: { in: codes } },
-    select: { code: true },
+  const result = await createGiftCodeBatch({
+    ...batchInput,
+    codes: codes.map((c) => String(c).trim()).filter((c) => c.length > 0),
   });
-  const existingSet = new Set(existingCodes.map((c) => c.code));
-  const newCodes = codes.filter((c) => !existingSet.has(c));
 
-  if (newCodes.length === 0) {
+  if (!result) {
     throw badRequest('All codes already exist');
   }
 
-  // Create new codes
-  await prisma.giftCode.createMany({
-    data: newCodes.map((code) => ({ code, skuCode })),
+  await audit(req, {
+    action: 'gift_code.batch_upload',
+    entityType: 'GiftCodeBatch',
+    entityId: result.batch.id,
+    after: { ...result.batch, count: result.codes.length, skipped: codes.length - result.codes.length },
   });
 
   // Fetch the newly created codes to return them
   const createdGiftCodes = await prisma.giftCode.findMany({
-    where: { code: { in: newCodes } },
+    where: { batchId: result.batch.id },
     include: {
       sku: {
         select: { code: true, name: true, price: true },
       },
+      batch: {
+        select: { id: true, name: true, distributor: true },
+      },
     },
   });
 
   const response: ApiResponse<{ count: number; codes: typeof createdGiftCodes }> = {
     success: true,
     data: {
-      count: newCodes.length,
+      count: result.codes.length,
       codes: createdGiftCodes,
     },
   };
@@ -159,6 +198,119 @@ export const batchUpload = asyncHandler(async (req: Request, res: Response, _nex
   res.status(201).json(response);
 });
 
+// POST /api/gift-codes/generate - Generate a batch of random codes with check characters (admin)
+export const generateCodes = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const body: GenerateGiftCodesRequest = req.body;
+  const quantity = Number(body.quantity);
+
+  if (!body.skuCode || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_GIFT_CODE_BATCH_SIZE) {
+    throw badRequest(`skuCode and a quantity between 1 and ${MAX_GIFT_CODE_BATCH_SIZE} are required`);
+  }
+
+  const batchInput = await getBatchInput(req, body);
+  const result = await generateGiftCodeBatch({ ...batchInput, quantity });
+
+  if (!result || result.codes.length < quantity) {
+    throw badRequest('Could not generate enough unique codes, please try again');
+  }
+
+  await audit(req, {
+    action: 'gift_code.generate',
+    entityType: 'GiftCodeBatch',
+    entityId: result.batch.id,
+    after: { ...result.batch, count: result.codes.length },
+  });
+
+  const response: ApiResponse<{ batch: GiftCodeBatch; count: number }> = {
+    success: true,
+    data: {
+      batch: result.batch,
+      count: result.codes.length,
+    },
+  };
+
+  res.status(201).json(response);
+});
+
+// GET /api/gift-codes/batches/:id/download?format=csv|pdf - Download the cards of a batch (admin)
+export const downloadBatch = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+  const format = req.query.format ?? 'csv';
+
+  if (format !== 'csv' && format !== 'pdf') {
+    throw badRequest('format must be csv or pdf');
+  }
+
+  const batch = await prisma.giftCodeBatch.findUnique({ where: { id } });
+  if (!batch) {
+    throw notFound('Gift code batch not found');
+  }
+
+  // Who took the codes out of the system, codes are as good as money
+  await audit(req, {
+    action: 'gift_code.batch_download',
+    entityType: 'GiftCodeBatch',
+    entityId: id,
+    after: { format },
+  });
+
+  const filename = `gift-codes-${batch.skuCode}-${batch.createdAt.toISOString().split('T')[0]}`;
+
+  if (format === 'pdf') {
+    const pdf = await getGiftCodeBatchPdf(batch);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+    res.send(pdf);
+    return;
+  }
+
+  const csv = await getGiftCodeBatchCsv(batch);
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+  res.send(csv);
+});
+
+// GET /api/gift-codes/batches - List print batches with redemption stats (admin)
+export const getBatches = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+  const batches = await getGiftCodeBatches();
+
+  const response: ApiResponse<GiftCodeBatchSummary[]> = {
+    success: true,
+    data: batches,
+  };
+
+  res.json(response);
+});
+
+// PATCH /api/gift-codes/batches/:id/activate - Activate all inactive cards of a batch (admin)
+export const activateBatch = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const batch = await prisma.giftCodeBatch.findUnique({ where: { id } });
+  if (!batch) {
+    throw notFound('Gift code batch not found');
+  }
+
+  const activated = await activateGiftCodeBatch(id);
+  if (activated === 0) {
+    throw badRequest('This batch has no inactive cards');
+  }
+
+  await audit(req, {
+    action: 'gift_code.batch_activate',
+    entityType: 'GiftCodeBatch',
+    entityId: id,
+    after: { activated },
+  });
+
+  const response: ApiResponse<{ activated: number }> = {
+    success: true,
+    data: { activated },
+  };
+
+  res.json(response);
+});
+
 // DELETE /api/gift-codes/:code - Deactivate a gift code (admin)
 export const deactivateGiftCode = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const codeParam = req.params.code;
@@ -174,11 +326,23 @@ export const deactivateGiftCode = asyncHandler(async (req: Request, res: Respons
     throw badRequest('Cannot deactivate an already used code');
   }
 
+  if (giftCode.status === 'DEACTIVATED' || giftCode.status === 'EXPIRED') {
+    throw badRequest(`Code is already ${giftCode.status.toLowerCase()}`);
+  }
+
   const updatedGiftCode = await prisma.giftCode.update({
     where: { code },
     data: { status: 'DEACTIVATED' },
   });
 
+  await audit(req, {
+    action: 'gift_code.deactivate',
+    entityType: 'GiftCode',
+    entityId: code,
+    before: giftCode,
+    after: updatedGiftCode,
+  });
+
   const response: ApiResponse<GiftCode> = {
     success: true,
     data: updatedGiftCode,
@@ -187,7 +351,7 @@ export const deactivateGiftCode = asyncHandler(async (req: Request, res: Respons
   res.json(response);
 });
 
-// PATCH /api/gift-codes/:code/activate - Activate a deactivated gift code (admin)
+// PATCH /api/gift-codes/:code/activate - Activate a deactivated gift code, or sell an inactive one (admin)
 export const activateGiftCode = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const codeParam = req.params.code;
   if (!codeParam) throw badRequest('Code is required');
@@ -202,13 +366,29 @@ export const activateGiftCode = asyncHandler(async (req: Request, res: Response,
     throw badRequest('Cannot activate an already used code');
   }
 
-  if (giftCode.status === 'UNUSED') {
+  if (giftCode.status === 'UNUSED' || giftCode.status === 'PARTIALLY_USED') {
     throw badRequest('Code is already active');
   }
 
+  if (giftCode.status === 'EXPIRED' || (giftCode.expiresAt && giftCode.expiresAt < new Date())) {
+    throw badRequest('Cannot activate an expired code');
+  }
+
+  // A deactivated card keeps what was already redeemed from it
   const updatedGiftCode = await prisma.giftCode.update({
     where: { code },
-    data: { status: 'UNUSED' },
+    data: {
+      status: Number(giftCode.redeemedAmount) > 0 ? 'PARTIALLY_USED' : 'UNUSED',
+      activatedAt: giftCode.status === 'INACTIVE' ? new Date() : giftCode.activatedAt,
+    },
+  });
+
+  await audit(req, {
+    action: 'gift_code.activate',
+    entityType: 'GiftCode',
+    entityId: code,
+    before: giftCode,
+    after: updatedGiftCode,
   });
 
   const response: ApiResponse<GiftCode> = {
@@ -0,0 +1,180 @@
+// CSR26 Maturation Schedule Controller
+// Admin management of named maturation schedules (tranches assigned to SKUs and merchants)
+
+import { Request, Response, NextFunction } from 'express';
+import type { Prisma } from '@prisma/client';
+import { asyncHandler, badRequest, conflict, notFound } from '../middleware/errorHandler.js';
+import { prisma } from '../lib/prisma.js';
+import { audit } from '../middleware/audit.js';
+import { getSettingValue, validateMaturationTranches } from '../services/calculationService.js';
+import type { ApiResponse, MaturationSchedule, MaturationTranche } from '../types/index.js';
+
+type MaturationScheduleWithCounts = MaturationSchedule & {
+  isDefault: boolean;
+  _count: { skus: number; merchants: number; transactions: number };
+};
+
+// Keep only the tranche fields we store
+const normalizeTranches = (tranches: MaturationTranche[]): Prisma.InputJsonValue =>
+  tranches.map((tranche) => ({
+    label: tranche.label.trim(),
+    percent: tranche.percent,
+    weeks: tranche.weeks,
+  }));
+
+// GET /api/maturation-schedules - List all maturation schedules (admin only)
+export const getAllMaturationSchedules = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+  const defaultName = await getSettingValue('DEFAULT_MATURATION_SCHEDULE', '');
+
+  const schedules = await prisma.maturationSchedule.findMany({
+    orderBy: { name: 'asc' },
+    include: {
+      _count: { select: { skus: true, merchants: true, transactions: true } },
+    },
+  });
+
+  const response: ApiResponse<MaturationScheduleWithCounts[]> = {
+    success: true,
+    data: schedules.map((schedule) => ({
+      ...schedule,
+      isDefault: schedule.name === defaultName,
+    })),
+  };
+
+  res.json(response);
+});
+
+// POST /api/maturation-schedules - Create maturation schedule (admin only)
+export const createMaturationSchedule = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { name, description, tranches } = req.body;
+
+  if (!name || !String(name).trim()) {
+    throw badRequest('Name is required');
+  }
+
+  const tranchesError = validateMaturationTranches(tranches);
+  if (tranchesError) {
+    throw badRequest(tranchesError);
+  }
+
+  const existing = await prisma.maturationSchedule.findUnique({ where: { name: String(name).trim() } });
+  if (existing) {
+    throw conflict('A maturation schedule with this name already exists');
+  }
+
+  const schedule = await prisma.maturationSchedule.create({
+    data: {
+      name: String(name).trim(),
+      description,
+      tranches: normalizeTranches(tranches),
+    },
+  });
+
+  await audit(req, {
+    action: 'maturation_schedule.create',
+    entityType: 'MaturationSchedule',
+    entityId: schedule.id,
+    after: schedule,
+  });
+
+  const response: ApiResponse<MaturationSchedule> = {
+    success: true,
+    data: schedule,
+  };
+
+  res.status(201).json(response);
+});
+
+// PUT /api/maturation-schedules/:id - Update maturation schedule (admin only)
+// Existing transactions keep the tranches they were created with
+export const updateMaturationSchedule = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+  const { name, description, tranches, active } = req.body;
+
+  const existing = await prisma.maturationSchedule.findUnique({ where: { id } });
+  if (!existing) {
+    throw notFound('Maturation schedule not found');
+  }
+
+  if (tranches !== undefined) {
+    const tranchesError = validateMaturationTranches(tranches);
+    if (tranchesError) {
+      throw badRequest(tranchesError);
+    }
+  }
+
+  if (name !== undefined) {
+    if (!String(name).trim()) {
+      throw badRequest('Name cannot be empty');
+    }
+
+    const duplicate = await prisma.maturationSchedule.findUnique({ where: { name: String(name).trim() } });
+    if (duplicate && duplicate.id !== id) {
+      throw conflict('A maturation schedule with this name already exists');
+    }
+  }
+
+  const schedule = await prisma.maturationSchedule.update({
+    where: { id },
+    data: {
+      ...(name !== undefined && { name: String(name).trim() }),
+      ...(description !== undefined && { description }),
+      ...(tranches !== undefined && { tranches: normalizeTranches(tranches) }),
+      ...(active !== undefined && { active: Boolean(active) }),
+    },
+  });
+
+  await audit(req, {
+    action: 'maturation_schedule.update',
+    entityType: 'MaturationSchedule',
+    entityId: id,
+    before: existing,
+    after: schedule,
+  });
+
+  // Keep the default setting pointing at the renamed schedule
+  if (name !== undefined && schedule.name !== existing.name) {
+    await prisma.setting.updateMany({
+      where: { key: 'DEFAULT_MATURATION_SCHEDULE', value: existing.name },
+      data: { value: schedule.name },
+    });
+  }
+
+  const response: ApiResponse<MaturationSchedule> = {
+    success: true,
+    data: schedule,
+  };
+
+  res.json(response);
+});
+
+// DELETE /api/maturation-schedules/:id - Deactivate maturation schedule (admin only)
+// Soft delete: transactions keep their reference, SKUs/merchants fall back to the default
+export const deleteMaturationSchedule = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const existing = await prisma.maturationSchedule.findUnique({ where: { id } });
+  if (!existing) {
+    throw notFound('Maturation schedule not found');
+  }
+
+  const schedule = await prisma.maturationSchedule.update({
+    where: { id },
+    data: { active: false },
+  });
+
+  await audit(req, {
+    action: 'maturation_schedule.deactivate',
+    entityType: 'MaturationSchedule',
+    entityId: id,
+    before: existing,
+    after: schedule,
+  });
+
+  const response: ApiResponse<{ message: string }> = {
+    success: true,
+    data: { message: 'Maturation schedule deactivated' },
+  };
+
+  res.json(response);
+});
@@ -0,0 +1,118 @@
+// CSR26 Me Controller
+// Data subject rights of the signed-in user: export my data, delete my account, review consents
+// DATA FLOW: Request → Controller → Data Subject Service → Prisma → DB → Response
+
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
+import {
+  getUserDataExport,
+  renderUserDataExport,
+  pseudonymizeUser,
+} from '../services/dataSubjectService.js';
+import {
+  CONSENT_TYPES,
+  WITHDRAWABLE_CONSENT_TYPES,
+  getUserConsents,
+  grantConsent,
+  withdrawConsent,
+  type UserConsents,
+} from '../services/consentService.js';
+import type { ApiResponse, ConsentType } from '../types/index.js';
+
+// GET /api/me/export - Download all data stored about me (?format=json|zip)
+export const exportMyData = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const format = req.query.format === 'zip' ? 'zip' : 'json';
+
+  const data = await getUserDataExport(req.user!.id);
+  if (!data) {
+    throw notFound('User not found');
+  }
+
+  const file = renderUserDataExport(data, format);
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=${file.fileName}`);
+  res.send(file.body);
+});
+
+// DELETE /api/me - Delete my account (pseudonymizes personal data, keeps anonymous impact)
+// The email must be typed again to confirm
+export const deleteMyAccount = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { confirmEmail } = req.body;
+  const user = req.user!;
+
+  if (typeof confirmEmail !== 'string' || confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+    throw badRequest('Type your email address to confirm the deletion');
+  }
+
+  const result = await pseudonymizeUser(user.id);
+  if (!result) {
+    throw notFound('User not found');
+  }
+
+  if (!result.deleted) {
+    throw badRequest(result.message || 'This account cannot be deleted');
+  }
+
+  const response: ApiResponse<{ deletedAt: Date | null }> = {
+    success: true,
+    data: { deletedAt: result.user!.deletedAt },
+  };
+
+  res.json(response);
+});
+
+// GET /api/me/consents - My consents (current state per type and history)
+export const getMyConsents = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const consents = await getUserConsents(req.user!.id);
+
+  const response: ApiResponse<UserConsents> = {
+    success: true,
+    data: consents,
+  };
+
+  res.json(response);
+});
+
+// POST /api/me/consents - Give a consent for the current version (marketing opt-in, updated terms)
+export const grantMyConsent = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const type = req.body.type as ConsentType;
+
+  if (!CONSENT_TYPES.includes(type)) {
+    throw badRequest('Invalid consent type');
+  }
+
+  await grantConsent(req.user!.id, type, {
+    source: 'dashboard',
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  const response: ApiResponse<UserConsents> = {
+    success: true,
+    data: await getUserConsents(req.user!.id),
+  };
+
+  res.json(response);
+});
+
+// DELETE /api/me/consents/:type - Withdraw a consent
+export const withdrawMyConsent = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const type = String(req.params.type).toUpperCase() as ConsentType;
+
+  if (!CONSENT_TYPES.includes(type)) {
+    throw badRequest('Invalid consent type');
+  }
+
+  if (!WITHDRAWABLE_CONSENT_TYPES.includes(type)) {
+    throw badRequest('The Terms of Service end with your account, delete your account instead');
+  }
+
+  await withdrawConsent(req.user!.id, type);
+
+  const response: ApiResponse<UserConsents> = {
+    success: true,
+    data: await getUserConsents(req.user!.id),
+  };
+
+  res.json(response);
+});
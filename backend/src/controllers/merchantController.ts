@@ -1,25 +1,102 @@
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound, forbidden } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, conflict, notFound, forbidden, internalError } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
-import type { ApiResponse, Merchant, MerchantSummary, MerchantBillingInfo } from '../types/index.js';
+import { audit } from '../middleware/audit.js';
+import {
+  getMerchantMembership,
+  getUserMemberships,
+  getMerchantMembers,
+  countMerchantOwners,
+  inviteMerchantMember,
+  updateMerchantMemberRole,
+  removeMerchantMember,
+  MERCHANT_MEMBER_ROLES,
+  MERCHANT_BILLING_ROLES,
+  MERCHANT_CATALOG_ROLES,
+  MerchantMembership,
+  MerchantMemberWithUser,
+  InviteMerchantMemberResult,
+} from '../services/merchantMemberService.js';
+import { getSkuDraftError, getSkuLandingLink, isSkuAvailable, SkuLandingLink } from '../services/skuService.js';
+import {
+  getOrCreateSigningKey,
+  rotateSigningKey,
+  toSigningKeyInfo,
+  LandingSigningKeyInfo,
+  MAX_LINK_DAYS,
+} from '../services/landingSignatureService.js';
+import {
+  createClaimTokenBatch,
+  getClaimTokenBatches,
+  getClaimTokenBatchCsv,
+  ClaimTokenBatchSummary,
+  MAX_BATCH_QUANTITY,
+  MAX_TOKEN_USES,
+  MAX_TOKEN_DAYS,
+} from '../services/claimTokenService.js';
+import {
+  getOrCreateInvoicePaymentIntent,
+  refreshInvoicePayment,
+  InvoicePaymentIntent,
+  InvoicePaymentSyncResult,
+  getInvoiceDocument,
+  normalizeBillingDetails,
+  getBillingDetailsError,
+} from '../services/billingService.js';
+import {
+  getMerchantCreditStatus,
+  getMerchantCreditOverview,
+  getCreditPackOffers,
+  startCreditPurchase,
+  refreshCreditPurchase,
+  adjustMerchantCredit,
+  getCreditSettingsError,
+  pickCreditSettings,
+  updateMerchantCreditSettings,
+  MerchantCreditOverview,
+  CreditPurchasePayment,
+  CreditPurchaseSyncResult,
+} from '../services/merchantCreditService.js';
+import type { ApiResponse, Merchant, MerchantMemberRole, MerchantSummary, MerchantBillingInfo, MerchantCreditStatus, Sku } from '../types/index.js';
+
+// Helper to get the current user's merchant membership (for /me routes)
+// Users in several merchants pick one with ?merchantId=, otherwise their first merchant is used
+const getMembershipForRequest = async (
+  req: Request,
+  allowedRoles?: MerchantMemberRole[]
+): Promise<MerchantMembership> => {
+  const merchantId = req.query.merchantId ? String(req.query.merchantId) : undefined;
+
+  const membership = await getMerchantMembership(req.user!.id, merchantId);
+  if (!membership) {
+    throw notFound('No merchant account linked to this user');
+  }
 
-// Helper to get merchant for current user (by email match)
-const getMerchantForUser = async (userEmail: string): Promise<Merchant | null> => {
-  return prisma.merchant.findUnique({
-    where: { email: userEmail },
-  });
+  if (allowedRoles && !allowedRoles.includes(membership.role)) {
+    throw forbidden(`The ${membership.role} role does not have access to this`);
+  }
+
+  return membership;
 };
 
 // Helper to check merchant access
-const checkMerchantAccess = async (req: Request, merchantId: string): Promise<void> => {
+const checkMerchantAccess = async (
+  req: Request,
+  merchantId: string,
+  allowedRoles?: MerchantMemberRole[]
+): Promise<void> => {
   // Admin can access any merchant
   if (req.user!.role === 'ADMIN') return;
 
-  // Merchants can only access their own data (matched by email)
-  const userMerchant = await getMerchantForUser(req.user!.email);
-  if (!userMerchant || userMerchant.id !== merchantId) {
+  // Other users need an accepted membership of this merchant
+  const membership = await getMerchantMembership(req.user!.id, merchantId);
+  if (!membership) {
     throw forbidden('Access denied to this merchant');
   }
+
+  if (allowedRoles && !allowedRoles.includes(membership.role)) {
+    throw forbidden(`The ${membership.role} role does not have access to this`);
+  }
 };
 
 // GET /api/merchants - List all merchants (admin only)
@@ -43,13 +120,8 @@ export const getAllMerchants = asyncHandler(async (_req: Request, res: Response,
 
 // GET /api/merchants/me - Get current merchant (self-service)
 export const getCurrentMerchant = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userEmail = req.user!.email;
-
-  const merchant = await getMerchantForUser(userEmail);
-
-  if (!merchant) {
-    throw notFound('No merchant account linked to this email');
-  }
+  const { merchant, role } = await getMembershipForRequest(req);
+  const canViewBilling = MERCHANT_BILLING_ROLES.includes(role);
 
   // Calculate totals
   const totals = await prisma.transaction.aggregate({
@@ -83,13 +155,15 @@ export const getCurrentMerchant = asyncHandler(async (req: Request, res: Respons
       multiplier: merchant.multiplier,
       monthlyBilling: merchant.monthlyBilling,
     },
+    role,
     stats: {
       totalTransactions: totals._count ?? 0,
       totalImpactKg: Number(totals._sum?.impactKg || 0),
       totalRevenue: Number(totals._sum?.amount || 0),
       monthlyTransactions,
-      currentBalance: Number(merchant.currentBalance),
-      pendingInvoices,
+      // Balance and invoices are only shown to owners and finance
+      currentBalance: canViewBilling ? Number(merchant.currentBalance) : null,
+      pendingInvoices: canViewBilling ? pendingInvoices : null,
     },
     nextBillingDate: merchant.lastBillingDate
       ? new Date(new Date(merchant.lastBillingDate).setMonth(new Date(merchant.lastBillingDate).getMonth() + 1))
@@ -201,7 +275,7 @@ export const getMerchantTransactions = asyncHandler(async (req: Request, res: Re
 export const getMerchantBilling = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const id = req.params.id as string;
   if (!id) throw badRequest('Merchant ID is required');
-  await checkMerchantAccess(req, id);
+  await checkMerchantAccess(req, id, MERCHANT_BILLING_ROLES);
 
   const merchant = await prisma.merchant.findUnique({
     where: { id },
@@ -238,6 +312,7 @@ export const getMerchantBilling = asyncHandler(async (req: Request, res: Respons
       : new Date(new Date().setMonth(new Date().getMonth() + 1)),
     lastBillingDate: merchant.lastBillingDate,
     invoices,
+    credit: await getMerchantCreditStatus(merchant),
   };
 
   const response: ApiResponse<MerchantBillingInfo> = {
@@ -253,12 +328,20 @@ const ALLOWED_MULTIPLIERS = [1, 2, 5, 10];
 
 // POST /api/merchants - Create new merchant (admin only)
 export const createMerchant = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const { name, email, multiplier, pricePerKg, monthlyBilling, partnerId } = req.body;
+  const { name, email, multiplier, pricePerKg, monthlyBilling, partnerId, maturationScheduleId } = req.body;
+  const { legalName, vatId, billingAddress, billingPostalCode, billingCity, billingCountry } = req.body;
 
   if (!name || !email) {
     throw badRequest('Name and email are required');
   }
 
+  const billingDetails = { vatId, billingCountry };
+  normalizeBillingDetails(billingDetails);
+  const billingError = getBillingDetailsError(billingDetails);
+  if (billingError) {
+    throw badRequest(billingError);
+  }
+
   // Validate multiplier value if provided
   const effectiveMultiplier = multiplier || 1;
   if (!ALLOWED_MULTIPLIERS.includes(effectiveMultiplier)) {
@@ -271,6 +354,14 @@ export const createMerchant = asyncHandler(async (req: Request, res: Response, _
     throw badRequest('Merchant with this email already exists');
   }
 
+  // Validate maturation schedule if provided
+  if (maturationScheduleId) {
+    const schedule = await prisma.maturationSchedule.findUnique({ where: { id: maturationScheduleId } });
+    if (!schedule) {
+      throw badRequest('Maturation schedule not found');
+    }
+  }
+
   const merchant = await prisma.merchant.create({
     data: {
       name,
@@ -279,9 +370,31 @@ export const createMerchant = asyncHandler(async (req: Request, res: Response, _
       pricePerKg,
       monthlyBilling: monthlyBilling !== false,
       partnerId,
+      maturationScheduleId: maturationScheduleId || null,
+      legalName: legalName || null,
+      vatId: billingDetails.vatId as string | null | undefined,
+      billingAddress: billingAddress || null,
+      billingPostalCode: billingPostalCode || null,
+      billingCity: billingCity || null,
+      billingCountry: billingDetails.billingCountry as string | undefined,
     },
   });
 
+  await audit(req, {
+    action: 'merchant.create',
+    entityType: 'Merchant',
+    entityId: merchant.id,
+    after: merchant,
+  });
+
+  // The merchant email becomes the first owner once its invitation link is used
+  await inviteMerchantMember({
+    merchantId: merchant.id,
+    email: merchant.email,
+    role: 'OWNER',
+    invitedById: req.user?.id,
+  });
+
   const response: ApiResponse<Merchant> = {
     success: true,
     data: merchant,
@@ -301,16 +414,61 @@ export const updateMerchant = asyncHandler(async (req: Request, res: Response, _
     throw badRequest(`Invalid multiplier value: ${updateData.multiplier}. Allowed values are: ${ALLOWED_MULTIPLIERS.join(', ')}`);
   }
 
+  // Prepaid credit only changes through the credit ledger (purchases, usage, adjustments)
+  if (updateData.creditBalance !== undefined || updateData.lowCreditNotifiedAt !== undefined) {
+    throw badRequest('Use a credit adjustment to change the prepaid credit');
+  }
+
+  const creditSettingsError = getCreditSettingsError(updateData);
+  if (creditSettingsError) {
+    throw badRequest(creditSettingsError);
+  }
+
+  // A new threshold re-arms the low credit alert
+  if (updateData.lowCreditThreshold !== undefined) {
+    updateData.lowCreditNotifiedAt = null;
+  }
+
+  // Billing details end up on issued invoices
+  normalizeBillingDetails(updateData);
+  const billingError = getBillingDetailsError({
+    billingCountry: updateData.billingCountry,
+    vatId: updateData.vatId,
+  });
+  if (billingError) {
+    throw badRequest(billingError);
+  }
+
   const existing = await prisma.merchant.findUnique({ where: { id } });
   if (!existing) {
     throw notFound('Merchant not found');
   }
 
+  // Validate maturation schedule if being assigned (null/empty clears it)
+  if (updateData.maturationScheduleId !== undefined) {
+    if (updateData.maturationScheduleId) {
+      const schedule = await prisma.maturationSchedule.findUnique({ where: { id: updateData.maturationScheduleId } });
+      if (!schedule) {
+        throw badRequest('Maturation schedule not found');
+      }
+    } else {
+      updateData.maturationScheduleId = null;
+    }
+  }
+
   const merchant = await prisma.merchant.update({
     where: { id },
     data: updateData,
   });
 
+  await audit(req, {
+    action: 'merchant.update',
+    entityType: 'Merchant',
+    entityId: id,
+    before: existing,
+    after: merchant,
+  });
+
   const response: ApiResponse<Merchant> = {
     success: true,
     data: merchant,
@@ -325,16 +483,12 @@ export const updateMerchant = asyncHandler(async (req: Request, res: Response, _
 
 // GET /api/merchants/me/transactions - Get current merchant's transactions
 export const getMyTransactions = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userEmail = req.user!.email;
   const limitStr = String(req.query.limit || '50');
   const offsetStr = String(req.query.offset || '0');
   const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
   const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
 
-  const merchant = await getMerchantForUser(userEmail);
-  if (!merchant) {
-    throw notFound('No merchant account linked to this email');
-  }
+  const { merchant } = await getMembershipForRequest(req);
 
   // Build date filter if provided
   const dateFilter: { createdAt?: { gte?: Date; lte?: Date } } = {};
@@ -378,12 +532,7 @@ export const getMyTransactions = asyncHandler(async (req: Request, res: Response
 
 // GET /api/merchants/me/billing - Get current merchant's billing info
 export const getMyBilling = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userEmail = req.user!.email;
-
-  const merchant = await getMerchantForUser(userEmail);
-  if (!merchant) {
-    throw notFound('No merchant account linked to this email');
-  }
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
 
   // Get pending transactions this month
   const startOfMonth = new Date();
@@ -412,6 +561,7 @@ export const getMyBilling = asyncHandler(async (req: Request, res: Response, _ne
       : new Date(new Date().setMonth(new Date().getMonth() + 1)),
     lastBillingDate: merchant.lastBillingDate,
     invoices,
+    credit: await getMerchantCreditStatus(merchant),
   };
 
   const response: ApiResponse<MerchantBillingInfo> = {
@@ -424,15 +574,11 @@ export const getMyBilling = asyncHandler(async (req: Request, res: Response, _ne
 
 // GET /api/merchants/me/invoices/:invoiceId - Get invoice details
 export const getMyInvoice = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userEmail = req.user!.email;
   const invoiceId = req.params.invoiceId;
 
   if (!invoiceId) throw badRequest('Invoice ID is required');
 
-  const merchant = await getMerchantForUser(userEmail);
-  if (!merchant) {
-    throw notFound('No merchant account linked to this email');
-  }
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
 
   const invoice = await prisma.invoice.findUnique({
     where: { id: String(invoiceId) },
@@ -442,14 +588,10 @@ export const getMyInvoice = asyncHandler(async (req: Request, res: Response, _ne
     throw notFound('Invoice not found');
   }
 
-  // Get transactions for the invoice period
+  // Transactions billed on the invoice
   const transactions = await prisma.transaction.findMany({
-    where: {
-      merchantId: merchant.id,
-      createdAt: { gte: invoice.periodStart, lte: invoice.periodEnd },
-      paymentStatus: 'COMPLETED',
-      paymentMode: { in: ['CLAIM', 'ALLOCATION'] },
-    },
+    where: { billedInvoiceId: invoice.id },
+    orderBy: { createdAt: 'asc' },
     select: {
       id: true,
       amount: true,
@@ -473,15 +615,233 @@ export const getMyInvoice = asyncHandler(async (req: Request, res: Response, _ne
   res.json(response);
 });
 
-// GET /api/merchants/me/skus - Get merchant's SKU configurations
-export const getMySKUs = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userEmail = req.user!.email;
+// POST /api/merchants/me/invoices/:invoiceId/pay - Start paying an open invoice by card or SEPA debit
+// The invoice is marked paid by the Stripe webhook (or the confirm call below)
+export const payMyInvoice = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const invoiceId = req.params.invoiceId as string;
+
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice || invoice.merchantId !== merchant.id) {
+    throw notFound('Invoice not found');
+  }
+
+  if (invoice.paid) {
+    throw conflict('This invoice is already paid');
+  }
+
+  if (invoice.paymentProcessingAt) {
+    throw conflict('A payment for this invoice is already being processed');
+  }
+
+  const intent = await getOrCreateInvoicePaymentIntent(invoice, merchant);
+  if (!intent) {
+    throw internalError('Stripe not configured');
+  }
+
+  const response: ApiResponse<InvoicePaymentIntent> = {
+    success: true,
+    data: intent,
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/me/invoices/:invoiceId/pay/confirm - Sync the invoice with Stripe after checkout
+export const confirmMyInvoicePayment = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const invoiceId = req.params.invoiceId as string;
+
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice || invoice.merchantId !== merchant.id) {
+    throw notFound('Invoice not found');
+  }
+
+  if (invoice.paid) {
+    const response: ApiResponse<InvoicePaymentSyncResult> = {
+      success: true,
+      data: { invoiceId, state: 'PAID', updated: false, message: 'Invoice already paid' },
+    };
+    res.json(response);
+    return;
+  }
+
+  const result = await refreshInvoicePayment(invoice);
+  if (!result) {
+    throw badRequest('No payment started for this invoice');
+  }
+
+  const response: ApiResponse<InvoicePaymentSyncResult> = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/me/invoices/:invoiceId/pdf - Download the invoice document
+export const downloadMyInvoicePdf = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const invoiceId = req.params.invoiceId as string;
+
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice || invoice.merchantId !== merchant.id) {
+    throw notFound('Invoice not found');
+  }
+
+  const document = await getInvoiceDocument(invoiceId);
+  if (!document) {
+    throw conflict('This invoice has no number yet');
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  res.send(document.pdf);
+});
+
+// ============================================
+// PREPAID CREDIT
+// ============================================
+
+// GET /api/merchants/me/credit - Prepaid credit, packs on sale and recent purchases and movements
+export const getMyCredit = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const response: ApiResponse<MerchantCreditOverview> = {
+    success: true,
+    data: await getMerchantCreditOverview(merchant),
+  };
+
+  res.json(response);
+});
 
-  const merchant = await getMerchantForUser(userEmail);
+// POST /api/merchants/me/credit/purchases - Start buying a credit pack by card or SEPA debit
+// The credit is added by the Stripe webhook (or the confirm call below)
+export const buyMyCreditPack = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { packId } = req.body;
+
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const packs = await getCreditPackOffers(merchant);
+  const pack = packs.find((p) => p.id === packId);
+  if (!pack) {
+    throw badRequest(`packId must be one of: ${packs.map((p) => p.id).join(', ')}`);
+  }
+
+  const payment = await startCreditPurchase(merchant, pack, req.user!.id);
+  if (!payment) {
+    throw internalError('Stripe not configured');
+  }
+
+  const response: ApiResponse<CreditPurchasePayment> = {
+    success: true,
+    data: payment,
+  };
+
+  res.status(201).json(response);
+});
+
+// POST /api/merchants/me/credit/purchases/:purchaseId/confirm - Sync the purchase with Stripe after checkout
+export const confirmMyCreditPurchase = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const purchaseId = req.params.purchaseId as string;
+
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const purchase = await prisma.merchantCreditPurchase.findUnique({ where: { id: purchaseId } });
+  if (!purchase || purchase.merchantId !== merchant.id) {
+    throw notFound('Credit purchase not found');
+  }
+
+  const result = await refreshCreditPurchase(purchase);
+  if (!result) {
+    throw badRequest('No payment started for this purchase');
+  }
+
+  const response: ApiResponse<CreditPurchaseSyncResult> = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+// PUT /api/merchants/me/credit/settings - Spending cap, low credit alert and what happens when credit runs out
+export const updateMyCreditSettings = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_BILLING_ROLES);
+
+  const error = getCreditSettingsError(req.body);
+  if (error) {
+    throw badRequest(error);
+  }
+
+  const settings = pickCreditSettings(req.body);
+  const updated = await updateMerchantCreditSettings(merchant.id, settings);
+
+  await audit(req, {
+    action: 'merchant.update_credit_settings',
+    entityType: 'Merchant',
+    entityId: merchant.id,
+    before: {
+      creditExhaustedAction: merchant.creditExhaustedAction,
+      lowCreditThreshold: merchant.lowCreditThreshold,
+      monthlySpendingCap: merchant.monthlySpendingCap,
+    },
+    after: settings,
+  });
+
+  const response: ApiResponse<MerchantCreditStatus> = {
+    success: true,
+    data: await getMerchantCreditStatus(updated),
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/:id/credit - Grant or remove prepaid credit (admin only)
+export const adjustMerchantCreditById = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+  const { amount, note } = req.body;
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+    throw badRequest('amount must be a non-zero number (negative to remove credit)');
+  }
+  if (!note || typeof note !== 'string') {
+    throw badRequest('A note explaining the adjustment is required');
+  }
+
+  const existing = await prisma.merchant.findUnique({ where: { id } });
+  if (!existing) {
+    throw notFound('Merchant not found');
+  }
+
+  const merchant = await adjustMerchantCredit(id, amount, req.user!.id, note);
   if (!merchant) {
-    throw notFound('No merchant account linked to this email');
+    throw conflict(`Only €${Number(existing.creditBalance).toFixed(2)} of credit left to remove`);
   }
 
+  await audit(req, {
+    action: 'merchant.adjust_credit',
+    entityType: 'Merchant',
+    entityId: id,
+    before: { creditBalance: existing.creditBalance },
+    after: { creditBalance: merchant.creditBalance, amount, note },
+  });
+
+  const response: ApiResponse<MerchantCreditStatus> = {
+    success: true,
+    data: await getMerchantCreditStatus(merchant),
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/me/skus - Get merchant's SKU configurations
+export const getMySKUs = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req);
+
   const skus = await prisma.sku.findMany({
     where: { merchantId: merchant.id },
     orderBy: { createdAt: 'desc' },
@@ -494,3 +854,529 @@ export const getMySKUs = asyncHandler(async (req: Request, res: Response, _next:
 
   res.json(response);
 });
+
+// Get a SKU of the current merchant, or 404
+const getOwnSku = async (req: Request, merchantId: string) => {
+  const code = req.params.code ? String(req.params.code) : undefined;
+  if (!code) throw badRequest('Code is required');
+
+  const sku = await prisma.sku.findUnique({ where: { code } });
+  if (!sku || sku.merchantId !== merchantId) {
+    throw notFound('SKU not found');
+  }
+
+  return sku;
+};
+
+// POST /api/merchants/me/skus - Draft a new SKU, pending admin approval (owner only)
+export const createMySku = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const { code, name, description, paymentMode, price, weightGrams, multiplier } = req.body;
+
+  const draftError = getSkuDraftError({ code, name, description, paymentMode, price, weightGrams, multiplier });
+  if (draftError) {
+    throw badRequest(draftError);
+  }
+
+  const normalizedCode = String(code).trim().toUpperCase();
+  const existing = await prisma.sku.findUnique({ where: { code: normalizedCode } });
+  if (existing) {
+    throw conflict('SKU code already exists');
+  }
+
+  const sku = await prisma.sku.create({
+    data: {
+      code: normalizedCode,
+      name: String(name).trim(),
+      description: description ? String(description).trim() : null,
+      paymentMode,
+      price: Number(price) || 0,
+      weightGrams: weightGrams ? Number(weightGrams) : null,
+      multiplier: Number(multiplier) || 1,
+      paymentRequired: paymentMode === 'PAY',
+      merchantId: merchant.id,
+      status: 'PENDING_APPROVAL',
+      submittedById: req.user!.id,
+    },
+  });
+
+  await audit(req, {
+    action: 'sku.draft',
+    entityType: 'Sku',
+    entityId: sku.code,
+    after: sku,
+  });
+
+  const response: ApiResponse<Sku> = {
+    success: true,
+    data: sku,
+  };
+
+  res.status(201).json(response);
+});
+
+// PUT /api/merchants/me/skus/:code - Edit a pending or rejected draft and resubmit it (owner only)
+export const updateMySku = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const existing = await getOwnSku(req, merchant.id);
+
+  // Approved products are changed by an admin, so live QR codes keep working
+  if (existing.status === 'APPROVED') {
+    throw conflict('Approved SKUs can only be changed by an admin');
+  }
+
+  const { name, description, paymentMode, price, weightGrams, multiplier } = req.body;
+
+  const draftError = getSkuDraftError({ name, description, paymentMode, price, weightGrams, multiplier }, true);
+  if (draftError) {
+    throw badRequest(draftError);
+  }
+
+  const sku = await prisma.sku.update({
+    where: { code: existing.code },
+    data: {
+      ...(name !== undefined && { name: String(name).trim() }),
+      ...(description !== undefined && { description: description ? String(description).trim() : null }),
+      ...(paymentMode !== undefined && { paymentMode, paymentRequired: paymentMode === 'PAY' }),
+      ...(price !== undefined && { price: Number(price) || 0 }),
+      ...(weightGrams !== undefined && { weightGrams: weightGrams ? Number(weightGrams) : null }),
+      ...(multiplier !== undefined && { multiplier: Number(multiplier) || 1 }),
+      // Back in the review queue
+      status: 'PENDING_APPROVAL',
+      submittedById: req.user!.id,
+      reviewedById: null,
+      reviewedAt: null,
+      reviewNote: null,
+    },
+  });
+
+  await audit(req, {
+    action: existing.status === 'REJECTED' ? 'sku.resubmit' : 'sku.update_draft',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
+  const response: ApiResponse<Sku> = {
+    success: true,
+    data: sku,
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/me/skus/:code/qr - Signed landing URL for a product QR code (approved, active SKUs only)
+export const getMySkuQrLink = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req);
+  const sku = await getOwnSku(req, merchant.id);
+
+  const days = req.query.days ? Number(req.query.days) : undefined;
+  if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_LINK_DAYS)) {
+    throw badRequest(`days must be between 1 and ${MAX_LINK_DAYS}`);
+  }
+
+  if (!isSkuAvailable(sku)) {
+    throw badRequest(
+      sku.status === 'APPROVED'
+        ? 'This SKU is inactive'
+        : 'QR codes are available once the SKU is approved'
+    );
+  }
+
+  if (sku.claimTokenRequired) {
+    throw badRequest('This product only accepts claim tokens, generate a token batch instead');
+  }
+
+  const response: ApiResponse<SkuLandingLink> = {
+    success: true,
+    data: await getSkuLandingLink(sku, merchant.id, days),
+  };
+
+  res.json(response);
+});
+
+// ============================================
+// CLAIM TOKENS
+// ============================================
+
+// Check a positive integer from the request body, up to max
+const parseCount = (value: unknown, field: string, max: number): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw badRequest(`${field} must be a whole number between 1 and ${max}`);
+  }
+  return parsed;
+};
+
+// PUT /api/merchants/me/skus/:code/claim-token-required - Only accept claim tokens for a CLAIM product (owner only)
+export const setMySkuClaimTokenRequired = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const existing = await getOwnSku(req, merchant.id);
+  const { required } = req.body;
+
+  if (typeof required !== 'boolean') {
+    throw badRequest('required must be true or false');
+  }
+
+  if (existing.paymentMode !== 'CLAIM') {
+    throw badRequest('Claim tokens are only available for CLAIM products');
+  }
+
+  const sku = await prisma.sku.update({
+    where: { code: existing.code },
+    data: { claimTokenRequired: required },
+  });
+
+  await audit(req, {
+    action: 'sku.claim_token_required',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
+  const response: ApiResponse<Sku> = {
+    success: true,
+    data: sku,
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/me/claim-token-batches - List claim token batches with redemption counts
+export const getMyClaimTokenBatches = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req);
+
+  const response: ApiResponse<ClaimTokenBatchSummary[]> = {
+    success: true,
+    data: await getClaimTokenBatches(merchant.id),
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/me/claim-token-batches - Generate claim tokens for a print run (owner only)
+export const createMyClaimTokenBatch = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const membership = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const { skuCode, quantity, maxUses, expiresInDays } = req.body;
+
+  if (!skuCode) {
+    throw badRequest('skuCode is required');
+  }
+
+  const sku = await prisma.sku.findUnique({ where: { code: String(skuCode) } });
+  if (!sku || sku.merchantId !== membership.merchant.id) {
+    throw notFound('SKU not found');
+  }
+
+  if (sku.paymentMode !== 'CLAIM') {
+    throw badRequest('Claim tokens are only available for CLAIM products');
+  }
+
+  if (!isSkuAvailable(sku)) {
+    throw badRequest('Claim tokens are available once the SKU is approved and active');
+  }
+
+  const batch = await createClaimTokenBatch({
+    merchantId: membership.merchant.id,
+    skuCode: sku.code,
+    quantity: parseCount(quantity, 'quantity', MAX_BATCH_QUANTITY),
+    maxUses: maxUses === undefined ? 1 : parseCount(maxUses, 'maxUses', MAX_TOKEN_USES),
+    expiresInDays: expiresInDays ? parseCount(expiresInDays, 'expiresInDays', MAX_TOKEN_DAYS) : undefined,
+    createdById: req.user!.id,
+  });
+
+  await audit(req, {
+    action: 'claim_tokens.create_batch',
+    entityType: 'ClaimTokenBatch',
+    entityId: batch.id,
+    after: batch,
+  });
+
+  const response: ApiResponse<typeof batch> = {
+    success: true,
+    data: batch,
+  };
+
+  res.status(201).json(response);
+});
+
+// GET /api/merchants/me/claim-token-batches/:batchId/csv - Download the tokens of a batch (owner only)
+export const downloadMyClaimTokenBatch = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const batchId = req.params.batchId as string;
+
+  const batch = await prisma.claimTokenBatch.findUnique({ where: { id: batchId } });
+  if (!batch || batch.merchantId !== merchant.id) {
+    throw notFound('Claim token batch not found');
+  }
+
+  const csv = await getClaimTokenBatchCsv(batch);
+  const filename = `claim-tokens-${batch.skuCode}-${batch.createdAt.toISOString().split('T')[0]}.csv`;
+
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(csv);
+});
+
+// ============================================
+// LANDING LINK SIGNING
+// ============================================
+
+// GET /api/merchants/me/signing-key - Secret used to sign landing URLs (owner only)
+export const getMySigningKey = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const key = await getOrCreateSigningKey({ merchantId: merchant.id });
+
+  const response: ApiResponse<LandingSigningKeyInfo> = {
+    success: true,
+    data: toSigningKeyInfo(key),
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/me/signing-key/rotate - Replace the signing secret, old links stop working (owner only)
+export const rotateMySigningKey = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchant } = await getMembershipForRequest(req, MERCHANT_CATALOG_ROLES);
+  const key = await rotateSigningKey({ merchantId: merchant.id });
+
+  // Never log the secret itself
+  await audit(req, {
+    action: 'merchant.rotate_signing_key',
+    entityType: 'Merchant',
+    entityId: merchant.id,
+    after: { rotatedAt: key.rotatedAt },
+  });
+
+  const response: ApiResponse<LandingSigningKeyInfo> = {
+    success: true,
+    data: toSigningKeyInfo(key),
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/:id/signing-key/rotate - Replace a merchant's signing secret (admin only)
+export const rotateMerchantSigningKey = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+
+  const merchant = await prisma.merchant.findUnique({ where: { id } });
+  if (!merchant) {
+    throw notFound('Merchant not found');
+  }
+
+  const key = await rotateSigningKey({ merchantId: id });
+
+  await audit(req, {
+    action: 'merchant.rotate_signing_key',
+    entityType: 'Merchant',
+    entityId: id,
+    after: { rotatedAt: key.rotatedAt },
+  });
+
+  const response: ApiResponse<{ rotatedAt: Date | null }> = {
+    success: true,
+    data: { rotatedAt: key.rotatedAt },
+  };
+
+  res.json(response);
+});
+
+// ============================================
+// MERCHANT MEMBERS
+// ============================================
+
+// Validate a member role from the request body
+const parseMemberRole = (role: unknown): MerchantMemberRole => {
+  if (!MERCHANT_MEMBER_ROLES.includes(role as MerchantMemberRole)) {
+    throw badRequest(`Invalid role. Must be one of: ${MERCHANT_MEMBER_ROLES.join(', ')}`);
+  }
+  return role as MerchantMemberRole;
+};
+
+// Invite a member to a merchant (shared by the owner and admin routes)
+const inviteMember = async (req: Request, merchantId: string): Promise<InviteMerchantMemberResult> => {
+  const { email } = req.body;
+
+  if (!email || !String(email).trim()) {
+    throw badRequest('Email is required');
+  }
+
+  const role = parseMemberRole(req.body.role);
+  const normalizedEmail = String(email).trim().toLowerCase();
+
+  const existing = await prisma.merchantMember.findFirst({
+    where: { merchantId, user: { email: normalizedEmail } },
+  });
+  if (existing?.acceptedAt) {
+    throw conflict('This user is already a member of the merchant');
+  }
+
+  const result = await inviteMerchantMember({
+    merchantId,
+    email: normalizedEmail,
+    role,
+    invitedById: req.user!.id,
+  });
+
+  await audit(req, {
+    action: 'merchant_member.invite',
+    entityType: 'MerchantMember',
+    entityId: result.member.id,
+    before: existing,
+    after: result.member,
+  });
+
+  return result;
+};
+
+// Get a member of the current user's merchant, or 404
+const getOwnMerchantMember = async (req: Request, merchantId: string) => {
+  const memberId = req.params.memberId ? String(req.params.memberId) : undefined;
+  if (!memberId) throw badRequest('Member ID is required');
+
+  const member = await prisma.merchantMember.findUnique({ where: { id: memberId } });
+  if (!member || member.merchantId !== merchantId) {
+    throw notFound('Member not found');
+  }
+
+  return member;
+};
+
+// GET /api/merchants/me/memberships - List the merchants the current user belongs to
+export const getMyMemberships = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const memberships = await getUserMemberships(req.user!.id);
+
+  const data = memberships.map((membership) => ({
+    merchantId: membership.merchantId,
+    merchantName: membership.merchant.name,
+    role: membership.role,
+  }));
+
+  const response: ApiResponse<typeof data> = {
+    success: true,
+    data,
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/me/members - List members of the current merchant
+export const getMyMembers = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchantId } = await getMembershipForRequest(req);
+
+  const members = await getMerchantMembers(merchantId);
+
+  const response: ApiResponse<MerchantMemberWithUser[]> = {
+    success: true,
+    data: members,
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/me/members - Invite a member by email (owner only)
+export const inviteMyMember = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchantId } = await getMembershipForRequest(req, ['OWNER']);
+
+  const result = await inviteMember(req, merchantId);
+
+  const response: ApiResponse<InviteMerchantMemberResult> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(201).json(response);
+});
+
+// PATCH /api/merchants/me/members/:memberId - Change a member's role (owner only)
+export const updateMyMember = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchantId } = await getMembershipForRequest(req, ['OWNER']);
+  const member = await getOwnMerchantMember(req, merchantId);
+  const role = parseMemberRole(req.body.role);
+
+  if (member.role === 'OWNER' && role !== 'OWNER' && member.acceptedAt && await countMerchantOwners(merchantId) <= 1) {
+    throw badRequest('The merchant must keep at least one owner');
+  }
+
+  const updated = await updateMerchantMemberRole(member.id, role);
+
+  await audit(req, {
+    action: 'merchant_member.update_role',
+    entityType: 'MerchantMember',
+    entityId: member.id,
+    before: member,
+    after: updated,
+  });
+
+  const response: ApiResponse<MerchantMemberWithUser> = {
+    success: true,
+    data: updated,
+  };
+
+  res.json(response);
+});
+
+// DELETE /api/merchants/me/members/:memberId - Remove a member or cancel an invitation (owner only)
+export const removeMyMember = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { merchantId } = await getMembershipForRequest(req, ['OWNER']);
+  const member = await getOwnMerchantMember(req, merchantId);
+
+  if (member.role === 'OWNER' && member.acceptedAt && await countMerchantOwners(merchantId) <= 1) {
+    throw badRequest('The merchant must keep at least one owner');
+  }
+
+  await removeMerchantMember(member.id);
+
+  await audit(req, {
+    action: member.acceptedAt ? 'merchant_member.remove' : 'merchant_member.cancel_invite',
+    entityType: 'MerchantMember',
+    entityId: member.id,
+    before: member,
+  });
+
+  const response: ApiResponse<{ message: string }> = {
+    success: true,
+    data: { message: member.acceptedAt ? 'Member removed' : 'Invitation cancelled' },
+  };
+
+  res.json(response);
+});
+
+// GET /api/merchants/:id/members - List merchant members (merchant or admin)
+export const getMerchantMembersById = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+  if (!id) throw badRequest('Merchant ID is required');
+  await checkMerchantAccess(req, id);
+
+  const members = await getMerchantMembers(id);
+
+  const response: ApiResponse<MerchantMemberWithUser[]> = {
+    success: true,
+    data: members,
+  };
+
+  res.json(response);
+});
+
+// POST /api/merchants/:id/members - Invite a member by email (admin only)
+export const inviteMerchantMemberById = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const id = req.params.id as string;
+  if (!id) throw badRequest('Merchant ID is required');
+
+  const merchant = await prisma.merchant.findUnique({ where: { id } });
+  if (!merchant) {
+    throw notFound('Merchant not found');
+  }
+
+  const result = await inviteMember(req, id);
+
+  const response: ApiResponse<InviteMerchantMemberResult> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(201).json(response);
+});
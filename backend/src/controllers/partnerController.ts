@@ -1,13 +1,30 @@
 // CSR26 Partner Controller
-// Handles partner authentication, dashboard, and merchant management
+// Handles partner authentication, dashboard, commission statements and merchant management
 
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound, forbidden } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, notFound, forbidden, conflict } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
+import { audit } from '../middleware/audit.js';
 import { sendMagicLinkEmail } from '../services/emailService.js';
+import {
+  getOrCreateSigningKey,
+  rotateSigningKey,
+  toSigningKeyInfo,
+  LandingSigningKeyInfo,
+} from '../services/landingSignatureService.js';
+import {
+  getPartnerCommissionTotals,
+  getPartnerStatements,
+  getPartnerStatementDocument,
+  getPayoutStatusError,
+  updateStatementPayoutStatus,
+} from '../services/partnerCommissionService.js';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import type { ApiResponse } from '../types/index.js';
+import { createLogger } from '../lib/logger.js';
+import type { ApiResponse, PartnerPayoutStatus, PartnerStatement } from '../types/index.js';
+
+const log = createLogger('partner-auth');
 
 const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-change-in-production';
 
@@ -47,16 +64,7 @@ export const sendPartnerMagicLink = asyncHandler(async (req: Request, res: Respo
     },
   });
 
-  // LOG MAGIC LINK FOR PM2 LOGS
-  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-  console.log('========================================');
-  console.log('PARTNER MAGIC LINK GENERATED');
-  console.log('Email:', email);
-  console.log('Partner:', partner.name);
-  console.log('Token:', token);
-  console.log('URL:', `${frontendUrl}/partner/verify/${token}`);
-  console.log('Expires:', expiresAt.toISOString());
-  console.log('========================================');
+  log.info('Partner magic link created', { partnerId: partner.id, expiresAt });
 
   // Send email
   await sendMagicLinkEmail(email, token, partner.name, 'partner');
@@ -139,7 +147,7 @@ export const verifyPartnerMagicLink = asyncHandler(async (req: Request, res: Res
 
 // GET /api/partners/me - Get current partner dashboard
 export const getPartnerDashboard = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const partnerId = (req as any).partnerId;
+  const partnerId = req.partnerId!;
 
   if (!partnerId) {
     throw forbidden('Partner authentication required');
@@ -243,7 +251,7 @@ export const getPartnerDashboard = asyncHandler(async (req: Request, res: Respon
 
 // GET /api/partners/me/merchants - Get partner's merchants
 export const getPartnerMerchants = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const partnerId = (req as any).partnerId;
+  const partnerId = req.partnerId!;
 
   if (!partnerId) {
     throw forbidden('Partner authentication required');
@@ -291,7 +299,7 @@ export const getPartnerMerchants = asyncHandler(async (req: Request, res: Respon
 
 // GET /api/partners/me/transactions - Get partner's transactions
 export const getPartnerTransactions = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const partnerId = (req as any).partnerId;
+  const partnerId = req.partnerId!;
   const limitStr = String(req.query.limit || '50');
   const offsetStr = String(req.query.offset || '0');
   const merchantId = req.query.merchantId ? String(req.query.merchantId) : undefined;
@@ -349,7 +357,7 @@ export const getPartnerTransactions = asyncHandler(async (req: Request, res: Res
 
 // GET /api/partners/me/reports/summary - Get partner summary report
 export const getPartnerSummaryReport = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const partnerId = (req as any).partnerId;
+  const partnerId = req.partnerId!;
   const year = req.query.year ? parseInt(String(req.query.year)) : new Date().getFullYear();
   const month = req.query.month ? parseInt(String(req.query.month)) - 1 : new Date().getMonth();
 
@@ -410,14 +418,8 @@ export const getPartnerSummaryReport = asyncHandler(async (req: Request, res: Re
   const totalRevenue = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
   const totalImpactKg = transactions.reduce((sum, t) => sum + Number(t.impactKg), 0);
 
-  // Get partner's commission rate
-  const partner = await prisma.partner.findUnique({
-    where: { id: partnerId },
-    select: { commissionRate: true },
-  });
-
-  const commissionRate = Number(partner?.commissionRate || 0);
-  const estimatedCommission = totalRevenue * (commissionRate / 100);
+  // Commission as accrued in the period, at the rates in force when each transaction completed
+  const commission = await getPartnerCommissionTotals(partnerId, startDate, endDate);
 
   const report = {
     period: {
@@ -430,7 +432,8 @@ export const getPartnerSummaryReport = asyncHandler(async (req: Request, res: Re
       transactions: transactions.length,
       revenue: totalRevenue,
       impactKg: totalImpactKg,
-      estimatedCommission,
+      commission: commission.net,
+      commissionClawedBack: commission.clawedBack,
     },
     byMerchant: Object.entries(byMerchant).map(([id, data]) => ({ id, ...data })),
     byPaymentMode,
@@ -444,6 +447,78 @@ export const getPartnerSummaryReport = asyncHandler(async (req: Request, res: Re
   res.json(response);
 });
 
+// ============================================
+// COMMISSION STATEMENTS
+// ============================================
+
+// Send a statement PDF as a download
+const sendStatementDocument = (res: Response, document: { filename: string; pdf: Buffer }) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  res.send(document.pdf);
+};
+
+// GET /api/partners/me/statements - Get the partner's monthly commission statements
+export const getMyStatements = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const partnerId = req.partnerId!;
+
+  if (!partnerId) {
+    throw forbidden('Partner authentication required');
+  }
+
+  const statements = await getPartnerStatements({ partnerId });
+
+  const response: ApiResponse<PartnerStatement[]> = {
+    success: true,
+    data: statements,
+  };
+
+  res.json(response);
+});
+
+// GET /api/partners/me/statements/:statementId/pdf - Download one of the partner's statements
+export const downloadMyStatement = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const partnerId = req.partnerId!;
+  const statementId = req.params.statementId as string;
+
+  const document = await getPartnerStatementDocument(statementId);
+  if (!document || document.partnerId !== partnerId) {
+    throw notFound('Statement not found');
+  }
+
+  sendStatementDocument(res, document);
+});
+
+// ============================================
+// LANDING LINK SIGNING
+// ============================================
+
+// GET /api/partners/me/signing-key - Secret used to sign partner landing URLs without a merchant
+export const getPartnerSigningKey = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const partnerId = req.partnerId!;
+  const key = await getOrCreateSigningKey({ partnerId });
+
+  const response: ApiResponse<LandingSigningKeyInfo> = {
+    success: true,
+    data: toSigningKeyInfo(key),
+  };
+
+  res.json(response);
+});
+
+// POST /api/partners/me/signing-key/rotate - Replace the signing secret, old links stop working
+export const rotatePartnerSigningKey = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const partnerId = req.partnerId!;
+  const key = await rotateSigningKey({ partnerId });
+
+  const response: ApiResponse<LandingSigningKeyInfo> = {
+    success: true,
+    data: toSigningKeyInfo(key),
+  };
+
+  res.json(response);
+});
+
 // ============================================
 // ADMIN: PARTNER MANAGEMENT
 // ============================================
@@ -487,6 +562,13 @@ export const createPartner = asyncHandler(async (req: Request, res: Response, _n
     },
   });
 
+  await audit(req, {
+    action: 'partner.create',
+    entityType: 'Partner',
+    entityId: partner.id,
+    after: partner,
+  });
+
   const response: ApiResponse<typeof partner> = {
     success: true,
     data: partner,
@@ -510,6 +592,14 @@ export const updatePartner = asyncHandler(async (req: Request, res: Response, _n
     data: updateData,
   });
 
+  await audit(req, {
+    action: 'partner.update',
+    entityType: 'Partner',
+    entityId: partner.id,
+    before: existing,
+    after: partner,
+  });
+
   const response: ApiResponse<typeof partner> = {
     success: true,
     data: partner,
@@ -517,3 +607,107 @@ export const updatePartner = asyncHandler(async (req: Request, res: Response, _n
 
   res.json(response);
 });
+
+// POST /api/partners/:id/signing-key/rotate - Replace a partner's signing secret (admin only)
+export const rotatePartnerSigningKeyById = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const { id } = req.params;
+
+  const partner = await prisma.partner.findUnique({ where: { id: String(id) } });
+  if (!partner) {
+    throw notFound('Partner not found');
+  }
+
+  const key = await rotateSigningKey({ partnerId: partner.id });
+
+  // Never log the secret itself
+  await audit(req, {
+    action: 'partner.rotate_signing_key',
+    entityType: 'Partner',
+    entityId: partner.id,
+    after: { rotatedAt: key.rotatedAt },
+  });
+
+  const response: ApiResponse<{ rotatedAt: Date | null }> = {
+    success: true,
+    data: { rotatedAt: key.rotatedAt },
+  };
+
+  res.json(response);
+});
+
+// ============================================
+// ADMIN: COMMISSION STATEMENTS
+// ============================================
+
+// GET /api/partners/statements - List commission statements, filter by partnerId and payoutStatus (admin only)
+export const getAllStatements = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const partnerId = req.query.partnerId ? String(req.query.partnerId) : undefined;
+  const payoutStatus = req.query.payoutStatus ? String(req.query.payoutStatus) as PartnerPayoutStatus : undefined;
+
+  if (payoutStatus && !['PENDING', 'APPROVED', 'PAID'].includes(payoutStatus)) {
+    throw badRequest('Payout status must be PENDING, APPROVED or PAID');
+  }
+
+  const statements = await getPartnerStatements({ partnerId, payoutStatus }, 100);
+
+  const response: ApiResponse<typeof statements> = {
+    success: true,
+    data: statements,
+  };
+
+  res.json(response);
+});
+
+// GET /api/partners/statements/:statementId/pdf - Download a commission statement (admin only)
+export const downloadStatement = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const document = await getPartnerStatementDocument(req.params.statementId as string);
+  if (!document) {
+    throw notFound('Statement not found');
+  }
+
+  sendStatementDocument(res, document);
+});
+
+// PATCH /api/partners/statements/:statementId/payout - Approve, pay or withdraw approval of a statement (admin only)
+export const updateStatementPayout = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const statementId = req.params.statementId as string;
+  const { payoutStatus, paymentReference } = req.body;
+
+  const existing = await prisma.partnerStatement.findUnique({ where: { id: statementId } });
+  if (!existing) {
+    throw notFound('Statement not found');
+  }
+
+  const error = getPayoutStatusError(existing.payoutStatus, payoutStatus);
+  if (error) {
+    throw badRequest(error);
+  }
+
+  if (paymentReference !== undefined && paymentReference !== null && typeof paymentReference !== 'string') {
+    throw badRequest('Payment reference must be text');
+  }
+
+  const statement = await updateStatementPayoutStatus(existing, payoutStatus, {
+    actorId: req.user?.id,
+    paymentReference: paymentReference?.trim(),
+  });
+
+  if (!statement) {
+    throw conflict('The statement was updated meanwhile, reload and try again');
+  }
+
+  await audit(req, {
+    action: 'partner_statement.update_payout',
+    entityType: 'PartnerStatement',
+    entityId: statement.id,
+    before: { payoutStatus: existing.payoutStatus },
+    after: { payoutStatus: statement.payoutStatus, paymentReference: statement.paymentReference },
+  });
+
+  const response: ApiResponse<PartnerStatement> = {
+    success: true,
+    data: statement,
+  };
+
+  res.json(response);
+});
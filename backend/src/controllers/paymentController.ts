@@ -3,20 +3,22 @@ import { asyncHandler, badRequest, internalError } from '../middleware/errorHand
 import { prisma } from '../lib/prisma.js';
 import {
   calculateImpact,
-  updateUserWallet,
+  completeTransaction,
   calculateMaturationBreakdown,
+  resolveMaturationSchedule,
+  serializeMaturationTranches,
 } from '../services/calculationService.js';
+import { receiveStripeEvent } from '../services/webhookService.js';
+import { issueLandingWalletToken } from '../services/landingSessionService.js';
 import Stripe from 'stripe';
+import { stripe } from '../lib/stripe.js';
+import { createLogger } from '../lib/logger.js';
 import type { ApiResponse, CreatePaymentIntentRequest, PaymentIntentResponse } from '../types/index.js';
 
-// Initialize Stripe - from .env, NEVER hardcoded
-const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+const log = createLogger('payments');
 
-let stripe: Stripe | null = null;
-if (stripeSecretKey) {
-  stripe = new Stripe(stripeSecretKey);
-}
+// Webhook signing secret - from .env, NEVER hardcoded
+const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
 // POST /api/payments/create-intent - Create Stripe payment intent
 export const createPaymentIntent = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
@@ -39,6 +41,7 @@ export const createPaymentIntent = asyncHandler(async (req: Request, res: Respon
 
   // Get or create user
   let user = await prisma.user.findUnique({ where: { email } });
+  const isNewUser = !user;
   if (!user) {
     user = await prisma.user.create({ data: { email } });
   }
@@ -56,8 +59,9 @@ export const createPaymentIntent = asyncHandler(async (req: Request, res: Respon
     receipt_email: email,
   });
 
-  // Calculate maturation breakdown
-  const maturation = calculateMaturationBreakdown(impact.impactKg);
+  // Calculate maturation breakdown (follows the SKU's maturation schedule)
+  const schedule = await resolveMaturationSchedule({ skuCode });
+  const maturation = calculateMaturationBreakdown(impact.impactKg, schedule);
 
   // Create pending transaction with maturation data
   const transaction = await prisma.transaction.create({
@@ -69,21 +73,23 @@ export const createPaymentIntent = asyncHandler(async (req: Request, res: Respon
       paymentMode: 'PAY',
       paymentStatus: 'PENDING',
       stripePaymentId: paymentIntent.id,
-      // Maturation tracking (5/45/50 Rule)
-      immediateImpactKg: maturation.immediateKg,
-      midTermImpactKg: maturation.midTermKg,
-      finalImpactKg: maturation.finalKg,
-      midTermMaturesAt: maturation.midTermMaturesAt,
-      finalMaturesAt: maturation.finalMaturesAt,
+      // Maturation tracking (assigned maturation schedule)
+      maturationScheduleId: maturation.scheduleId,
+      maturationTranches: serializeMaturationTranches(maturation),
     },
   });
 
-  const response: ApiResponse<PaymentIntentResponse & { transactionId: string }> = {
+  const response: ApiResponse<PaymentIntentResponse & { transactionId: string; walletToken: string | null }> = {
     success: true,
     data: {
       clientSecret: paymentIntent.client_secret!,
       paymentIntentId: paymentIntent.id,
       transactionId: transaction.id,
+      // Reads the wallet on the thank-you screen once the payment completes
+      // Only for a new user or the signed-in owner: an existing email must not reveal its wallet
+      walletToken: isNewUser || req.user?.id === user.id
+        ? issueLandingWalletToken(user.id, transaction.id)
+        : null,
     },
   };
 
@@ -143,7 +149,7 @@ export const resumePayment = asyncHandler(async (req: Request, res: Response, _n
       }
     } catch (err) {
       // Intent not found or expired, will create new one
-      console.log('Existing payment intent not usable, creating new one');
+      log.info('Existing payment intent not usable, creating a new one', { transactionId: transaction.id, error: err });
     }
   }
 
@@ -205,11 +211,14 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response, _
     throw badRequest('Transaction not found');
   }
 
-  // If already completed, just return success
-  if (transaction.paymentStatus === 'COMPLETED') {
+  // Only a pending or failed payment can still be confirmed (refunded/disputed/reversed stay so)
+  if (transaction.paymentStatus !== 'PENDING' && transaction.paymentStatus !== 'FAILED') {
     res.json({
       success: true,
-      data: { status: 'COMPLETED', message: 'Payment already confirmed' },
+      data: {
+        status: transaction.paymentStatus,
+        message: transaction.paymentStatus === 'COMPLETED' ? 'Payment already confirmed' : `Payment ${transaction.paymentStatus.toLowerCase()}`,
+      },
     });
     return;
   }
@@ -222,20 +231,23 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response, _
   const paymentIntent = await stripe.paymentIntents.retrieve(transaction.stripePaymentId);
 
   if (paymentIntent.status === 'succeeded') {
-    // Update transaction status
-    await prisma.transaction.update({
-      where: { id: transaction.id },
-      data: { paymentStatus: 'COMPLETED' },
-    });
+    // Same completion path as the payment_intent.succeeded webhook, whichever comes first credits the wallet
+    const completed = await completeTransaction(transaction.id);
 
-    // Update user wallet with maturation tracking
-    await updateUserWallet(
-      transaction.userId,
-      Number(transaction.amount),
-      Number(transaction.impactKg)
-    );
+    if (!completed) {
+      const current = await prisma.transaction.findUniqueOrThrow({
+        where: { id: transaction.id },
+        select: { paymentStatus: true },
+      });
 
-    console.log(`[PAYMENT] Confirmed payment for transaction ${transaction.id}`);
+      res.json({
+        success: true,
+        data: { status: current.paymentStatus, message: `Payment already ${current.paymentStatus.toLowerCase()}` },
+      });
+      return;
+    }
+
+    log.info('Payment confirmed', { transactionId: transaction.id });
 
     res.json({
       success: true,
@@ -252,9 +264,9 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response, _
       data: { status: 'PENDING', message: 'Payment requires additional action' },
     });
   } else {
-    // Payment failed or cancelled
-    await prisma.transaction.update({
-      where: { id: transaction.id },
+    // Payment failed or cancelled (a concurrent completion wins)
+    await prisma.transaction.updateMany({
+      where: { id: transaction.id, paymentStatus: 'PENDING' },
       data: { paymentStatus: 'FAILED' },
     });
 
@@ -266,9 +278,11 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response, _
 });
 
 // POST /api/payments/webhook - Stripe webhook handler
+// Every verified event is stored in the webhook event log, then processed (see webhookService)
+// Signature verification works offline, so signed fixture payloads can be posted without a Stripe API key
 export const handleWebhook = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-  if (!stripe || !stripeWebhookSecret) {
-    console.error('Stripe webhook not configured');
+  if (!stripeWebhookSecret) {
+    log.error('Stripe webhook not configured');
     res.status(500).send('Webhook not configured');
     return;
   }
@@ -277,65 +291,20 @@ export const handleWebhook = async (req: Request, res: Response, _next: NextFunc
   let event: Stripe.Event;
 
   try {
-    event = stripe.webhooks.constructEvent(req.body, sig, stripeWebhookSecret);
+    event = Stripe.webhooks.constructEvent(req.body, sig, stripeWebhookSecret);
   } catch (err) {
-    console.error('Webhook signature verification failed:', err);
+    log.warn('Webhook signature verification failed', { error: err });
     res.status(400).send('Webhook Error');
     return;
   }
 
-  // Handle the event
-  switch (event.type) {
-    case 'payment_intent.succeeded': {
-      const paymentIntent = event.data.object as Stripe.PaymentIntent;
-      console.log('Payment succeeded:', paymentIntent.id);
-
-      // Find transaction for this payment intent
-      const transaction = await prisma.transaction.findFirst({
-        where: { stripePaymentId: paymentIntent.id },
-      });
-
-      if (transaction) {
-        // IDEMPOTENCY CHECK: Only process if not already completed
-        // This prevents duplicate wallet updates if Stripe sends the webhook multiple times
-        if (transaction.paymentStatus === 'COMPLETED') {
-          console.log(`[Webhook] Transaction ${transaction.id} already completed, skipping duplicate event ${event.id}`);
-          break;
-        }
-
-        // Update transaction status
-        await prisma.transaction.update({
-          where: { id: transaction.id },
-          data: { paymentStatus: 'COMPLETED' },
-        });
-
-        // Update user wallet (only happens once due to idempotency check above)
-        await updateUserWallet(
-          transaction.userId,
-          Number(transaction.amount),
-          Number(transaction.impactKg)
-        );
-
-        console.log(`[Webhook] Processed payment for transaction ${transaction.id}, event ${event.id}`);
-      }
-      break;
-    }
+  const record = await receiveStripeEvent(event);
 
-    case 'payment_intent.payment_failed': {
-      const paymentIntent = event.data.object as Stripe.PaymentIntent;
-      console.log('Payment failed:', paymentIntent.id);
-
-      // Update transaction
-      await prisma.transaction.updateMany({
-        where: { stripePaymentId: paymentIntent.id },
-        data: { paymentStatus: 'FAILED' },
-      });
-      break;
-    }
-
-    default:
-      console.log(`Unhandled event type: ${event.type}`);
+  // Failed events get a 500 so Stripe retries the delivery
+  if (record.status === 'FAILED') {
+    res.status(500).json({ received: true, status: record.status });
+    return;
   }
 
-  res.json({ received: true });
+  res.json({ received: true, status: record.status });
 };
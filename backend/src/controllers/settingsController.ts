@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
+import { audit } from '../middleware/audit.js';
 import type { ApiResponse, Setting, SettingsMap } from '../types/index.js';
 
 // GET /api/settings - Get all settings (public)
@@ -52,12 +53,22 @@ export const updateSetting = asyncHandler(async (req: Request, res: Response, _n
     throw badRequest('Value is required');
   }
 
+  const before = await prisma.setting.findUnique({ where: { key } });
+
   const setting = await prisma.setting.upsert({
     where: { key },
     update: { value, description },
     create: { key, value, description },
   });
 
+  await audit(req, {
+    action: before ? 'setting.update' : 'setting.create',
+    entityType: 'Setting',
+    entityId: key,
+    before,
+    after: setting,
+  });
+
   const response: ApiResponse<Setting> = {
     success: true,
     data: setting,
@@ -1,18 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, conflict, notFound } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
-import type { ApiResponse, Sku } from '../types/index.js';
+import { audit } from '../middleware/audit.js';
+import { ALLOWED_MULTIPLIERS, reviewSku } from '../services/skuService.js';
+import type { ApiResponse, Sku, SkuStatus } from '../types/index.js';
 
-// Allowed multiplier values per requirements.md
-const ALLOWED_MULTIPLIERS = [1, 2, 5, 10];
+const SKU_STATUSES: SkuStatus[] = ['PENDING_APPROVAL', 'APPROVED', 'REJECTED'];
 
 // GET /api/skus/:code - Get SKU by code (public)
 export const getSkuByCode = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const code = req.params.code as string;
   if (!code) throw badRequest('Code is required');
 
+  // Merchant drafts stay hidden until an admin approves them
   const sku = await prisma.sku.findUnique({
-    where: { code, active: true },
+    where: { code, active: true, status: 'APPROVED' },
     include: {
       merchant: {
         select: {
@@ -36,9 +38,15 @@ export const getSkuByCode = asyncHandler(async (req: Request, res: Response, _ne
   res.json(response);
 });
 
-// GET /api/skus - List all SKUs (admin only)
-export const getAllSkus = asyncHandler(async (_req: Request, res: Response, _next: NextFunction) => {
+// GET /api/skus - List all SKUs (admin only), ?status=PENDING_APPROVAL for the review queue
+export const getAllSkus = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const status = req.query.status ? String(req.query.status) as SkuStatus : undefined;
+  if (status && !SKU_STATUSES.includes(status)) {
+    throw badRequest(`Invalid status. Must be one of: ${SKU_STATUSES.join(', ')}`);
+  }
+
   const skus = await prisma.sku.findMany({
+    where: status ? { status } : {},
     include: {
       merchant: {
         select: {
@@ -71,12 +79,17 @@ export const createSku = asyncHandler(async (req: Request, res: Response, _next:
     paymentRequired,
     validationRequired,
     merchantId,
+    maturationScheduleId,
   } = req.body;
 
   if (!code || !name || !paymentMode) {
     throw badRequest('Code, name, and paymentMode are required');
   }
 
+  if (paymentMode === 'ADJUSTMENT') {
+    throw badRequest('ADJUSTMENT is reserved for admin wallet corrections');
+  }
+
   // Validate multiplier value if provided
   const effectiveMultiplier = multiplier || 1;
   if (!ALLOWED_MULTIPLIERS.includes(effectiveMultiplier)) {
@@ -89,6 +102,14 @@ export const createSku = asyncHandler(async (req: Request, res: Response, _next:
     throw badRequest('SKU code already exists');
   }
 
+  // Validate maturation schedule if provided
+  if (maturationScheduleId) {
+    const schedule = await prisma.maturationSchedule.findUnique({ where: { id: maturationScheduleId } });
+    if (!schedule) {
+      throw badRequest('Maturation schedule not found');
+    }
+  }
+
   const sku = await prisma.sku.create({
     data: {
       code,
@@ -101,9 +122,17 @@ export const createSku = asyncHandler(async (req: Request, res: Response, _next:
       paymentRequired: paymentRequired || false,
       validationRequired: validationRequired || false,
       merchantId,
+      maturationScheduleId: maturationScheduleId || null,
     },
   });
 
+  await audit(req, {
+    action: 'sku.create',
+    entityType: 'Sku',
+    entityId: sku.code,
+    after: sku,
+  });
+
   const response: ApiResponse<Sku> = {
     success: true,
     data: sku,
@@ -134,8 +163,13 @@ export const updateSku = asyncHandler(async (req: Request, res: Response, _next:
     paymentRequired,
     validationRequired,
     active,
+    maturationScheduleId,
   } = req.body;
 
+  if (paymentMode === 'ADJUSTMENT') {
+    throw badRequest('ADJUSTMENT is reserved for admin wallet corrections');
+  }
+
   // Validate multiplier value if being updated
   if (multiplier !== undefined) {
     const parsedMultiplier = parseInt(multiplier) || 1;
@@ -144,6 +178,14 @@ export const updateSku = asyncHandler(async (req: Request, res: Response, _next:
     }
   }
 
+  // Validate maturation schedule if being assigned (null/empty clears it)
+  if (maturationScheduleId) {
+    const schedule = await prisma.maturationSchedule.findUnique({ where: { id: maturationScheduleId } });
+    if (!schedule) {
+      throw badRequest('Maturation schedule not found');
+    }
+  }
+
   const sku = await prisma.sku.update({
     where: { code },
     data: {
@@ -156,9 +198,18 @@ export const updateSku = asyncHandler(async (req: Request, res: Response, _next:
       ...(paymentRequired !== undefined && { paymentRequired }),
       ...(validationRequired !== undefined && { validationRequired }),
       ...(active !== undefined && { active }),
+      ...(maturationScheduleId !== undefined && { maturationScheduleId: maturationScheduleId || null }),
     },
   });
 
+  await audit(req, {
+    action: 'sku.update',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
   const response: ApiResponse<Sku> = {
     success: true,
     data: sku,
@@ -179,11 +230,19 @@ export const deleteSku = asyncHandler(async (req: Request, res: Response, _next:
   }
 
   // Soft delete - just mark as inactive
-  await prisma.sku.update({
+  const sku = await prisma.sku.update({
     where: { code },
     data: { active: false },
   });
 
+  await audit(req, {
+    action: 'sku.deactivate',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
   const response: ApiResponse<{ message: string }> = {
     success: true,
     data: { message: 'SKU deactivated' },
@@ -191,3 +250,70 @@ export const deleteSku = asyncHandler(async (req: Request, res: Response, _next:
 
   res.json(response);
 });
+
+// POST /api/skus/:code/approve - Approve a merchant SKU draft (admin only)
+export const approveSku = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const code = req.params.code as string;
+  if (!code) throw badRequest('Code is required');
+
+  const existing = await prisma.sku.findUnique({ where: { code } });
+  if (!existing) {
+    throw notFound('SKU not found');
+  }
+
+  const sku = await reviewSku({ code, approve: true, reviewerId: req.user?.id });
+  if (!sku) {
+    throw conflict('Only SKUs pending approval can be approved');
+  }
+
+  await audit(req, {
+    action: 'sku.approve',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
+  const response: ApiResponse<Sku> = {
+    success: true,
+    data: sku,
+  };
+
+  res.json(response);
+});
+
+// POST /api/skus/:code/reject - Reject a merchant SKU draft with a reason (admin only)
+export const rejectSku = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const code = req.params.code as string;
+  if (!code) throw badRequest('Code is required');
+
+  const { reason } = req.body;
+  if (!reason || typeof reason !== 'string' || !reason.trim()) {
+    throw badRequest('A reason is required so the merchant can fix the draft');
+  }
+
+  const existing = await prisma.sku.findUnique({ where: { code } });
+  if (!existing) {
+    throw notFound('SKU not found');
+  }
+
+  const sku = await reviewSku({ code, approve: false, reviewerId: req.user?.id, note: reason.trim() });
+  if (!sku) {
+    throw conflict('Only SKUs pending approval can be rejected');
+  }
+
+  await audit(req, {
+    action: 'sku.reject',
+    entityType: 'Sku',
+    entityId: sku.code,
+    before: existing,
+    after: sku,
+  });
+
+  const response: ApiResponse<Sku> = {
+    success: true,
+    data: sku,
+  };
+
+  res.json(response);
+});
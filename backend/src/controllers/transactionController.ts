@@ -1,55 +1,126 @@
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, badRequest, notFound } from '../middleware/errorHandler.js';
+import { asyncHandler, badRequest, conflict, forbidden, notFound } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
+import type { Prisma } from '@prisma/client';
 import {
   calculateImpact,
   calculateWeightBasedImpact,
   updateUserWallet,
   calculateMaturationBreakdown,
+  resolveMaturationSchedule,
+  serializeMaturationTranches,
 } from '../services/calculationService.js';
+import { verifyLandingParams } from '../services/landingSignatureService.js';
+import { validateClaimToken, redeemClaimToken, releaseClaimToken } from '../services/claimTokenService.js';
+import { issueLandingWalletToken } from '../services/landingSessionService.js';
+import { validateGiftCodeForRedemption, redeemGiftCode, releaseGiftCodeAmount } from '../services/giftCodeService.js';
+import {
+  createMerchantChargedTransaction,
+  getMerchantChargeBlock,
+  MERCHANT_PAUSED_MESSAGE,
+} from '../services/merchantCreditService.js';
+import { recordLandingConsents } from '../services/consentService.js';
 import type { ApiResponse, CreateTransactionRequest, Transaction, TransactionWithRelations } from '../types/index.js';
 
 // POST /api/transactions - Create new transaction
 export const createTransaction = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
   const data: CreateTransactionRequest = req.body;
-  const { skuCode, amount, paymentMode, giftCode, merchantId, partnerId, weightGrams, multiplier } = data;
+  const { paymentMode, giftCode } = data;
+  let { skuCode, merchantId, weightGrams, multiplier } = data;
+  // Partners earn commission on what is attributed to them: only a signed link can name one
+  let partnerId: string | undefined;
+  let amount: number | undefined = data.amount;
 
   if (!paymentMode) {
     throw badRequest('paymentMode is required');
   }
 
+  // Adjustments are only created by admins (wallet adjustment, manual transaction)
+  if (paymentMode === 'ADJUSTMENT') {
+    throw badRequest('Invalid payment mode');
+  }
+
+  const isMerchantFunded = paymentMode === 'CLAIM' || paymentMode === 'ALLOCATION';
+
+  // Printed QR codes of CLAIM products may carry a claim token instead of a signature
+  const tokenCheck = paymentMode === 'CLAIM' && data.claimToken
+    ? await validateClaimToken(data.claimToken)
+    : null;
+
+  if (tokenCheck && !tokenCheck.valid) {
+    throw forbidden(tokenCheck.message || 'This code is not valid');
+  }
+
+  const claimToken = tokenCheck?.token ?? null;
+
+  // Merchant-funded modes: the merchant pays, so the landing link must be signed by them
+  // Signed values replace whatever the request body says
+  const landing = isMerchantFunded && !claimToken
+    ? await verifyLandingParams(data.landing)
+    : null;
+
+  // Partner-signed links carry no merchant, so there is nobody to charge for the claim
+  if (isMerchantFunded && !claimToken && !landing?.merchantId) {
+    throw forbidden('This link is invalid or has expired');
+  }
+
+  if (landing) {
+    skuCode = landing.skuCode;
+    merchantId = landing.merchantId;
+    partnerId = landing.partnerId;
+    amount = landing.amount;
+    weightGrams = landing.weightGrams;
+    multiplier = landing.multiplier;
+  }
+
+  // Claim tokens are tied to one merchant product, amounts come from the SKU
+  if (claimToken) {
+    skuCode = claimToken.batch.skuCode;
+    merchantId = claimToken.batch.merchantId;
+    partnerId = undefined;
+    amount = undefined;
+    weightGrams = undefined;
+    multiplier = undefined;
+  }
+
+  if (paymentMode === 'GIFT_CARD' && !giftCode) {
+    throw badRequest('giftCode is required');
+  }
+
   // Server-side gift code validation (CRITICAL: Don't trust frontend validation)
   // Must validate BEFORE creating transaction to prevent invalid/used codes
-  if (giftCode && paymentMode === 'GIFT_CARD') {
-    const giftCodeRecord = await prisma.giftCode.findUnique({
-      where: { code: giftCode },
-      include: { sku: true },
-    });
-
-    if (!giftCodeRecord) {
-      throw badRequest('Gift code not found');
-    }
+  const giftCodeCheck = giftCode && paymentMode === 'GIFT_CARD'
+    ? await validateGiftCodeForRedemption(giftCode, skuCode)
+    : null;
 
-    if (giftCodeRecord.status !== 'UNUSED') {
-      throw badRequest(
-        giftCodeRecord.status === 'USED'
-          ? 'Gift code has already been used'
-          : 'Gift code has been deactivated'
-      );
-    }
+  if (giftCodeCheck && (!giftCodeCheck.valid || giftCodeCheck.balance === undefined)) {
+    throw badRequest(giftCodeCheck.message || 'Invalid gift code');
+  }
 
-    // Validate SKU match if skuCode provided
-    if (skuCode && giftCodeRecord.skuCode !== skuCode) {
-      throw badRequest('Gift code does not match this product');
+  const giftCodeRecord = giftCodeCheck?.giftCode ?? null;
+
+  // The amount comes from the card: its whole balance, or the part the user chose to redeem
+  if (giftCodeRecord && giftCodeCheck?.balance !== undefined) {
+    const balance = giftCodeCheck.balance;
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || !(amount > 0))) {
+      throw badRequest('Amount must be a positive number');
+    }
+    if (amount && amount > balance) {
+      throw badRequest(`Only €${balance.toFixed(2)} is left on this gift card`);
     }
+    skuCode = giftCodeRecord.skuCode;
+    amount = amount ? Math.round(amount * 100) / 100 : balance;
+    weightGrams = undefined;
   }
 
   // Get or create user
   let userId = req.user?.id;
+  let isNewUser = false;
 
   if (!userId) {
-    // For anonymous transactions, we need email in body
-    const { email, firstName, lastName } = req.body;
+    // For anonymous transactions, we need email in body (or in the signed link)
+    const { firstName, lastName } = req.body;
+    const email = landing?.email ?? req.body.email;
     if (!email) {
       throw badRequest('Email is required for new users');
     }
@@ -59,8 +130,11 @@ export const createTransaction = asyncHandler(async (req: Request, res: Response
       user = await prisma.user.create({
         data: { email, firstName, lastName },
       });
+      isNewUser = true;
     }
     userId = user.id;
+  } else if (landing?.email && landing.email.toLowerCase() !== req.user?.email.toLowerCase()) {
+    throw forbidden('This link was issued to another email address');
   }
 
   // ============================================
@@ -71,6 +145,20 @@ export const createTransaction = asyncHandler(async (req: Request, res: Response
 
   // Get SKU and Merchant data for multiplier fallback
   const skuData = skuCode ? await prisma.sku.findUnique({ where: { code: skuCode } }) : null;
+  if (skuData && skuData.status !== 'APPROVED') {
+    throw badRequest('This product is not approved yet');
+  }
+  if ((landing || claimToken) && skuData) {
+    // A merchant's product can only be claimed through that merchant's links
+    if (skuData.merchantId && skuData.merchantId !== merchantId) {
+      throw forbidden('This link is invalid or has expired');
+    }
+    if (landing && skuData.claimTokenRequired) {
+      throw forbidden('This product can only be claimed with the code printed on its pack');
+    }
+    amount ??= Number(skuData.price) || undefined;
+    weightGrams ??= skuData.weightGrams ?? undefined;
+  }
   const merchantData = merchantId ? await prisma.merchant.findUnique({ where: { id: merchantId } }) : null;
 
   // Get default multiplier from settings
@@ -106,27 +194,48 @@ export const createTransaction = asyncHandler(async (req: Request, res: Response
   let transactionAmount: number;
   let merchantCost: number;
 
+  // Maturation schedule hierarchy: SKU → Merchant → Default Setting
+  const schedule = await resolveMaturationSchedule({ skuCode, merchantId });
+
   if (weightGrams && weightGrams > 0) {
     // Weight-based calculation (supermarket products, e-commerce dynamic weight)
     // Formula: Impact = Weight (kg) × Multiplier
     // Merchant cost = Weight (kg) × €0.11 × Multiplier
-    impact = await calculateWeightBasedImpact(weightGrams, effectiveMultiplier);
+    impact = await calculateWeightBasedImpact(weightGrams, effectiveMultiplier, schedule);
     // For weight-based, the calculated amount IS the merchant cost
     transactionAmount = impact.amount;
     merchantCost = impact.amount;
   } else {
     // Standard calculation (amount-based)
     const inputAmount = amount ?? 0;
-    impact = await calculateImpact(inputAmount);
+    impact = await calculateImpact(inputAmount, schedule);
     transactionAmount = inputAmount;
     merchantCost = inputAmount;
   }
 
   // Calculate maturation breakdown
-  const maturation = calculateMaturationBreakdown(impact.impactKg);
+  const maturation = calculateMaturationBreakdown(impact.impactKg, schedule);
+
+  // A merchant out of prepaid credit (PAUSE) or over its monthly cap takes no claims
+  const chargeBlock = merchantData && isMerchantFunded
+    ? await getMerchantChargeBlock(merchantData, merchantCost)
+    : null;
+  if (chargeBlock) {
+    throw conflict(chargeBlock);
+  }
+
+  // Consume the claim token use last, once everything else is validated
+  if (claimToken && !(await redeemClaimToken(claimToken))) {
+    throw conflict('This code was just used, please try again');
+  }
+
+  // Same for the gift card balance
+  if (giftCodeRecord && !(await redeemGiftCode(giftCodeRecord, transactionAmount, userId))) {
+    throw conflict('This gift card was just used, please try again');
+  }
 
   // Create transaction with maturation data
-  const transaction = await prisma.transaction.create({
+  const createTransactionRecord = (client: Prisma.TransactionClient) => client.transaction.create({
     data: {
       userId,
       skuCode,
@@ -136,15 +245,13 @@ export const createTransaction = asyncHandler(async (req: Request, res: Response
       paymentStatus: paymentMode === 'PAY' ? 'PENDING' : 'COMPLETED',
       merchantId,
       partnerId,
-      giftCodeUsed: giftCode,
+      giftCodeUsed: giftCodeRecord?.code ?? giftCode,
+      claimTokenId: claimToken?.id,
       weightGrams,
       multiplier: effectiveMultiplier, // Store the actual multiplier used (after hierarchy resolution)
-      // Maturation tracking (5/45/50 Rule)
-      immediateImpactKg: maturation.immediateKg,
-      midTermImpactKg: maturation.midTermKg,
-      finalImpactKg: maturation.finalKg,
-      midTermMaturesAt: maturation.midTermMaturesAt,
-      finalMaturesAt: maturation.finalMaturesAt,
+      // Maturation tracking (assigned maturation schedule)
+      maturationScheduleId: maturation.scheduleId,
+      maturationTranches: serializeMaturationTranches(maturation),
     },
     include: {
       user: true,
@@ -153,32 +260,48 @@ export const createTransaction = asyncHandler(async (req: Request, res: Response
     },
   });
 
-  // Mark gift code as USED if provided (for GIFT_CARD mode)
-  if (giftCode && paymentMode === 'GIFT_CARD') {
-    await prisma.giftCode.update({
-      where: { code: giftCode },
-      data: { status: 'USED', usedAt: new Date(), usedByUserId: userId },
-    });
+  // Give the use back, the claim didn't happen
+  const releaseRedemptions = async () => {
+    if (claimToken) await releaseClaimToken(claimToken.id);
+    if (giftCodeRecord) await releaseGiftCodeAmount(giftCodeRecord.code, transactionAmount);
+  };
+
+  // If merchant, charge the merchant cost to its prepaid credit or its monthly billing balance,
+  // in the same DB transaction: a merchant over its cap or out of credit (PAUSE) gets no transaction
+  // For CLAIM mode (merchant prepaid), this is what the merchant owes
+  // For PAY mode, customer already paid, so merchant doesn't owe
+  const charged = await (merchantData && isMerchantFunded
+    ? createMerchantChargedTransaction(merchantData.id, merchantCost, createTransactionRecord)
+    : createTransactionRecord(prisma).then((transaction) => ({ transaction, prepaid: false }))
+  ).catch(async (error) => {
+    await releaseRedemptions();
+    throw error;
+  });
+
+  if (!charged) {
+    await releaseRedemptions();
+    throw conflict(MERCHANT_PAUSED_MESSAGE);
   }
 
+  const { transaction, prepaid } = charged;
+
+  // Consents ticked on the landing form, before a certification can trigger the Corsair export
+  await recordLandingConsents(userId, data, { ip: req.ip, userAgent: req.get('user-agent') });
+
   // Update wallet if payment is completed (for non-PAY modes)
   if (transaction.paymentStatus === 'COMPLETED') {
-    await updateUserWallet(userId, transactionAmount, impact.impactKg);
+    await updateUserWallet(userId, transactionAmount, impact.impactKg, { transactionId: transaction.id });
   }
 
-  // If merchant, add the merchant cost to their monthly billing balance
-  // For CLAIM mode (merchant prepaid), this is what the merchant owes
-  // For PAY mode, customer already paid, so merchant doesn't owe
-  if (merchantId && (paymentMode === 'CLAIM' || paymentMode === 'ALLOCATION')) {
-    await prisma.merchant.update({
-      where: { id: merchantId },
-      data: { currentBalance: { increment: merchantCost } },
-    });
-  }
+  // Lets the landing page show the updated wallet of this user only
+  // Not for an existing account claimed anonymously: knowing its email must not reveal its wallet
+  const walletToken = isNewUser || req.user?.id === userId
+    ? issueLandingWalletToken(userId, transaction.id)
+    : null;
 
-  const response: ApiResponse<TransactionWithRelations & { impact: typeof impact }> = {
+  const response: ApiResponse<TransactionWithRelations & { impact: typeof impact; walletToken: string | null }> = {
     success: true,
-    data: { ...transaction, impact },
+    data: { ...transaction, prepaid, impact, walletToken },
   };
 
   res.status(201).json(response);
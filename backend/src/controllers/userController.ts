@@ -5,6 +5,13 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../lib/prisma.js';
 import { User, UserStatus, Prisma } from '@prisma/client';
+import { audit } from '../middleware/audit.js';
+import { recordLedgerEntry, getUserLedger as getLedgerEntries, checkUserLedger } from '../services/ledgerService.js';
+import { getUserDataExport, renderUserDataExport, pseudonymizeUser } from '../services/dataSubjectService.js';
+import { marketingConsentWhere } from '../services/consentService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('users');
 
 // GET /api/users - List all users
 export const getAllUsers = async (
@@ -146,6 +153,15 @@ export const updateUser = async (
       return;
     }
 
+    // Personal data of a deleted account must not come back
+    if (existingUser.deletedAt) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Deleted accounts cannot be edited' },
+      });
+      return;
+    }
+
     // Build update data
     const updateData: Prisma.UserUpdateInput = {};
     if (firstName !== undefined) updateData.firstName = firstName;
@@ -166,6 +182,14 @@ export const updateUser = async (
       data: updateData,
     });
 
+    await audit(req, {
+      action: 'user.update',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser,
+      after: user,
+    });
+
     res.json({
       success: true,
       data: user,
@@ -220,29 +244,36 @@ export const adjustWallet = async (
     const pricePerKg = pricePerKgSetting ? parseFloat(pricePerKgSetting.value) : 0.11;
     const impactKg = amount / pricePerKg;
 
-    // Update user wallet
-    const user = await prisma.user.update({
-      where: { id },
-      data: {
-        walletBalance: { increment: amount },
-        walletImpactKg: { increment: impactKg },
-      },
-    });
-
     // Create adjustment transaction record
-    await prisma.transaction.create({
+    const adjustment = await prisma.transaction.create({
       data: {
         userId: id,
         amount: amount,
         impactKg: impactKg,
-        paymentMode: 'CLAIM', // Manual adjustment treated as CLAIM
+        paymentMode: 'ADJUSTMENT', // Kept out of revenue reports
         paymentStatus: 'COMPLETED',
         masterId: 'CSR26',
-        // Store reason in a way that can be tracked (using giftCodeUsed field as note)
-        giftCodeUsed: `ADMIN_ADJUSTMENT: ${reason.trim()}`,
+        note: reason.trim(),
+        metadata: {
+          source: 'WALLET_ADJUSTMENT',
+          actorId: req.user?.id ?? null,
+        },
       },
     });
 
+    // Update user wallet through the ledger
+    await recordLedgerEntry({
+      userId: id,
+      reason: 'ADMIN_ADJUSTMENT',
+      amountEur: amount,
+      impactKg,
+      transactionId: adjustment.id,
+      actorId: req.user?.id,
+      note: reason.trim(),
+    });
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id } });
+
     // Check if user should be upgraded to CERTIFIED
     const thresholdSetting = await prisma.setting.findUnique({
       where: { key: 'CERTIFICATION_THRESHOLD' },
@@ -264,6 +295,25 @@ export const adjustWallet = async (
       },
     });
 
+    await audit(req, {
+      action: 'wallet.adjust',
+      entityType: 'User',
+      entityId: id,
+      before: {
+        walletBalance: existingUser.walletBalance,
+        walletImpactKg: existingUser.walletImpactKg,
+        status: existingUser.status,
+      },
+      after: {
+        walletBalance: updatedUser?.walletBalance,
+        walletImpactKg: updatedUser?.walletImpactKg,
+        status: updatedUser?.status,
+        amount,
+        reason: reason.trim(),
+        transactionId: adjustment.id,
+      },
+    });
+
     res.json({
       success: true,
       data: updatedUser,
@@ -273,6 +323,45 @@ export const adjustWallet = async (
   }
 };
 
+// GET /api/users/:id/ledger - List a user's wallet ledger entries
+export const getUserLedger = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+    const { limit = '50', offset = '0' } = req.query;
+
+    // Compare cached balances with ledger sums (null = user not found)
+    const check = await checkUserLedger(id);
+    if (!check) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'User not found' },
+      });
+      return;
+    }
+
+    const { entries, total } = await getLedgerEntries(
+      id,
+      parseInt(limit as string),
+      parseInt(offset as string)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        total,
+        balances: check,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // GET /api/users/export/csv - Export users to CSV
 export const exportUsersCSV = async (
   req: Request,
@@ -280,16 +369,16 @@ export const exportUsersCSV = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    console.log('[CSV EXPORT] Starting export...');
-    console.log('[CSV EXPORT] Query params:', req.query);
-    console.log('[CSV EXPORT] User:', req.user?.email);
-    console.log('[CSV EXPORT] Auth token present:', !!req.token);
-
-    const { status, startDate, endDate } = req.query;
+    const { status, startDate, endDate, marketing } = req.query;
 
     // Build where clause
     const where: Prisma.UserWhereInput = {};
 
+    // Mailing lists: only users who opted in to marketing emails
+    if (marketing === 'opted-in') {
+      Object.assign(where, marketingConsentWhere);
+    }
+
     if (status && typeof status === 'string' && (status === 'ACCUMULATION' || status === 'CERTIFIED')) {
       where.status = status as UserStatus;
     }
@@ -310,12 +399,15 @@ export const exportUsersCSV = async (
         _count: {
           select: { transactions: true },
         },
+        consents: {
+          where: { type: 'MARKETING', withdrawnAt: null },
+          select: { id: true },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    console.log('[CSV EXPORT] Found users:', users.length);
-
     // Build CSV
     const headers = [
       'ID',
@@ -333,6 +425,7 @@ export const exportUsersCSV = async (
       'Status',
       'Transaction Count',
       'Corsair Exported',
+      'Marketing Consent',
       'Created At',
     ];
 
@@ -352,6 +445,7 @@ export const exportUsersCSV = async (
       user.status,
       user._count.transactions.toString(),
       user.corsairExported ? 'Yes' : 'No',
+      user.consents.length > 0 ? 'Yes' : 'No',
       user.createdAt.toISOString(),
     ]);
 
@@ -362,10 +456,88 @@ export const exportUsersCSV = async (
 
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', `attachment; filename=csr26-users-${new Date().toISOString().split('T')[0]}.csv`);
-    console.log('[CSV EXPORT] Sending CSV with', csvContent.length, 'characters');
+    log.info('User CSV exported', { users: users.length, filters: { status, startDate, endDate, marketing } });
     res.send(csvContent);
   } catch (error) {
-    console.error('[CSV EXPORT] Error:', error);
+    next(error);
+  }
+};
+
+// GET /api/users/:id/export - Download all data stored about a user (admin-assisted access request)
+export const exportUserData = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+    const format = req.query.format === 'zip' ? 'zip' : 'json';
+
+    const data = await getUserDataExport(id);
+    if (!data) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'User not found' },
+      });
+      return;
+    }
+
+    await audit(req, {
+      action: 'user.export_data',
+      entityType: 'User',
+      entityId: id,
+      after: { format },
+    });
+
+    const file = renderUserDataExport(data, format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${file.fileName}`);
+    res.send(file.body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/users/:id - Delete a user's account (admin-assisted erasure request)
+// Pseudonymizes personal data, transactions and certified impact are kept anonymously
+export const deleteUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await pseudonymizeUser(id);
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'User not found' },
+      });
+      return;
+    }
+
+    if (!result.deleted) {
+      res.status(400).json({
+        success: false,
+        error: { message: result.message },
+      });
+      return;
+    }
+
+    // No personal data in the audit trail of an erasure
+    await audit(req, {
+      action: 'user.delete',
+      entityType: 'User',
+      entityId: id,
+      after: { deletedAt: result.user!.deletedAt },
+    });
+
+    res.json({
+      success: true,
+      data: result.user,
+    });
+  } catch (error) {
     next(error);
   }
 };
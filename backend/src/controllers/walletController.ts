@@ -1,17 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { asyncHandler, notFound } from '../middleware/errorHandler.js';
+import { asyncHandler, forbidden, notFound, unauthorized } from '../middleware/errorHandler.js';
 import { prisma } from '../lib/prisma.js';
 import {
   getCertificationThreshold,
   calculateUserMaturedImpact,
   formatImpactWithBottles,
 } from '../services/calculationService.js';
+import { verifyLandingWalletToken } from '../services/landingSessionService.js';
 import type { ApiResponse, WalletSummary } from '../types/index.js';
 
-// GET /api/wallet - Get current user's wallet
-export const getWallet = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  const userId = req.user!.id;
-
+// Wallet summary of a user, null if the user doesn't exist
+const getWalletSummary = async (userId: string): Promise<WalletSummary | null> => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: {
@@ -25,7 +24,7 @@ export const getWallet = asyncHandler(async (req: Request, res: Response, _next:
   });
 
   if (!user) {
-    throw notFound('User not found');
+    return null;
   }
 
   const threshold = await getCertificationThreshold();
@@ -38,7 +37,7 @@ export const getWallet = asyncHandler(async (req: Request, res: Response, _next:
   // Calculate bottle equivalent
   const { bottles } = formatImpactWithBottles(impactSummary.maturedImpactKg);
 
-  const walletSummary: WalletSummary = {
+  return {
     balance,
     impactKg,
     maturedImpactKg: impactSummary.maturedImpactKg,
@@ -50,8 +49,19 @@ export const getWallet = asyncHandler(async (req: Request, res: Response, _next:
     upcomingMaturations: impactSummary.upcomingMaturations.map(m => ({
       amount: m.amount,
       date: m.date.toISOString(),
+      label: m.label,
     })),
+    maturationSchedules: impactSummary.schedules,
   };
+};
+
+// GET /api/wallet - Get current user's wallet
+export const getWallet = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const walletSummary = await getWalletSummary(req.user!.id);
+
+  if (!walletSummary) {
+    throw notFound('User not found');
+  }
 
   const response: ApiResponse<WalletSummary> = {
     success: true,
@@ -61,67 +71,35 @@ export const getWallet = asyncHandler(async (req: Request, res: Response, _next:
   res.json(response);
 });
 
-// GET /api/wallet/email/:email - Get wallet by email (for landing page)
-export const getWalletByEmail = asyncHandler(async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-  const email = req.params.email as string;
+// GET /api/wallet/landing - Get the wallet of the user who just claimed or paid (landing page)
+// Anonymous: the X-Landing-Token header carries the token returned with the transaction or payment intent
+export const getLandingWallet = asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+  const token = req.get('X-Landing-Token');
+  const session = token ? verifyLandingWalletToken(token) : null;
 
-  const user = await prisma.user.findUnique({
-    where: { email },
-    select: {
-      id: true,
-      walletBalance: true,
-      walletImpactKg: true,
-      maturedImpactKg: true,
-      pendingImpactKg: true,
-      status: true,
-      _count: { select: { transactions: true } },
-    },
-  });
+  if (!session) {
+    throw unauthorized('This session has expired');
+  }
 
-  if (!user) {
-    // Return empty wallet for new users
-    const response: ApiResponse<WalletSummary> = {
-      success: true,
-      data: {
-        balance: 0,
-        impactKg: 0,
-        maturedImpactKg: 0,
-        pendingImpactKg: 0,
-        bottles: 0,
-        status: 'ACCUMULATION',
-        transactionCount: 0,
-        thresholdProgress: 0,
-      },
-    };
+  // Payment intents get their token up front, the wallet is only readable once paid
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: session.transactionId },
+    select: { userId: true, paymentStatus: true },
+  });
 
-    res.json(response);
-    return;
+  if (!transaction || transaction.userId !== session.landingUserId) {
+    throw unauthorized('This session has expired');
   }
 
-  const threshold = await getCertificationThreshold();
-  const balance = Number(user.walletBalance);
-  const impactKg = Number(user.walletImpactKg);
-
-  // Calculate matured impact from transactions
-  const impactSummary = await calculateUserMaturedImpact(user.id);
+  if (transaction.paymentStatus !== 'COMPLETED') {
+    throw forbidden('The payment has not been completed yet');
+  }
 
-  // Calculate bottle equivalent
-  const { bottles } = formatImpactWithBottles(impactSummary.maturedImpactKg);
+  const walletSummary = await getWalletSummary(session.landingUserId);
 
-  const walletSummary: WalletSummary = {
-    balance,
-    impactKg,
-    maturedImpactKg: impactSummary.maturedImpactKg,
-    pendingImpactKg: impactSummary.pendingImpactKg,
-    bottles,
-    status: user.status,
-    transactionCount: user._count.transactions,
-    thresholdProgress: Math.min((balance / threshold) * 100, 100),
-    upcomingMaturations: impactSummary.upcomingMaturations.map(m => ({
-      amount: m.amount,
-      date: m.date.toISOString(),
-    })),
-  };
+  if (!walletSummary) {
+    throw notFound('User not found');
+  }
 
   const response: ApiResponse<WalletSummary> = {
     success: true,
@@ -147,11 +125,7 @@ export const getWalletHistory = asyncHandler(async (req: Request, res: Response,
       impactKg: true,
       paymentMode: true,
       createdAt: true,
-      immediateImpactKg: true,
-      midTermImpactKg: true,
-      finalImpactKg: true,
-      midTermMaturesAt: true,
-      finalMaturesAt: true,
+      maturationTranches: true,
       sku: {
         select: { name: true },
       },
@@ -0,0 +1,135 @@
+// Structured JSON logger: one line per entry with time, level, scope, message and fields
+// The current request ID is added automatically (see middleware/requestId)
+//
+// Fields are redacted before writing: secrets by key name (tokens, passwords, TOTP and gift codes),
+// emails, JWTs and bearer tokens wherever they appear in string values
+//
+// LOG_LEVEL=debug|info|warn|error (default info)
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+}
+
+interface RequestContext {
+  requestId: string;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const isLogLevel = (value: string | undefined): value is LogLevel => !!value && value in LEVELS;
+
+const minLevel: LogLevel = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info';
+
+// ============================================
+// REQUEST CONTEXT
+// ============================================
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// ID of the request being handled, undefined outside a request (cron, startup)
+export const getRequestId = (): string | undefined => requestContext.getStore()?.requestId;
+
+// ============================================
+// REDACTION
+// ============================================
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are never written
+const SECRET_KEY_PATTERN = /token|secret|password|passwd|authorization|cookie|api[-_]?key|signature|otp|^code$|giftcode/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+
+// j***@example.com: enough to tell users apart in support, not enough to contact them
+const redactString = (value: string): string =>
+  value
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, '$1***@$2');
+
+const MAX_DEPTH = 6;
+
+const isPlainObject = (value: object): boolean => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+
+  if (depth >= MAX_DEPTH || seen.has(value)) return '[Truncated]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  // Prisma Decimal and similar value objects
+  if (!isPlainObject(value) && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return redact((value as { toJSON: () => unknown }).toJSON(), depth + 1, seen);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && item !== null && item !== undefined ? REDACTED : redact(item, depth + 1, seen),
+    ])
+  );
+};
+
+// Path of a request for logs, without the query string and with long tokens removed
+export const redactPath = (url: string): string =>
+  (url.split('?')[0] ?? '').replace(/[A-Za-z0-9_-]{32,}/g, REDACTED);
+
+// ============================================
+// LOGGER
+// ============================================
+
+const write = (level: LogLevel, scope: string, message: string, fields?: LogFields): void => {
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+
+  const requestId = getRequestId();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    scope,
+    msg: redactString(message),
+    ...(requestId && { requestId }),
+    ...(fields && (redact(fields) as LogFields)),
+  };
+
+  const line = JSON.stringify(entry);
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+};
+
+// Logger for one part of the app, e.g. createLogger('billing')
+export const createLogger = (scope: string): Logger => ({
+  debug: (message, fields) => write('debug', scope, message, fields),
+  info: (message, fields) => write('info', scope, message, fields),
+  warn: (message, fields) => write('warn', scope, message, fields),
+  error: (message, fields) => write('error', scope, message, fields),
+});
@@ -0,0 +1,23 @@
+import Stripe from 'stripe';
+
+// Stripe client singleton - keys from .env, NEVER hardcoded
+// null when STRIPE_SECRET_KEY is not set: payment endpoints answer "Stripe not configured"
+//
+// STRIPE_API_HOST / STRIPE_API_PORT / STRIPE_API_PROTOCOL point the client at a local mock
+// (e.g. stripe-mock on http://localhost:12111) for end-to-end tests without a Stripe account
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+
+const getApiOverrides = (): Stripe.StripeConfig => {
+  if (!process.env.STRIPE_API_HOST) return {};
+
+  return {
+    host: process.env.STRIPE_API_HOST,
+    ...(process.env.STRIPE_API_PORT && { port: Number(process.env.STRIPE_API_PORT) }),
+    ...(process.env.STRIPE_API_PROTOCOL === 'http' && { protocol: 'http' as const }),
+  };
+};
+
+export const stripe: Stripe | null = stripeSecretKey ? new Stripe(stripeSecretKey, getApiOverrides()) : null;
+
+export default stripe;
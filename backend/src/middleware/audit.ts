@@ -0,0 +1,44 @@
+import { Request } from 'express';
+import type { Prisma } from '@prisma/client';
+import { recordAuditLog, AuditLogInput } from '../services/auditService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('audit');
+
+// Audit entry without the request details, which audit() fills in
+export type AuditEntry = Omit<AuditLogInput, 'actorId' | 'actorEmail' | 'ip' | 'userAgent'>;
+
+// Actor and origin of a request
+export const getAuditContext = (req: Request) => ({
+  actorId: req.user?.id ?? null,
+  actorEmail: req.user?.email ?? null,
+  ip: req.ip ?? null,
+  userAgent: req.get('user-agent') ?? null,
+});
+
+// Record a privileged mutation made by the authenticated user
+// Call after the change succeeded; pass a transaction client to write both atomically
+// Without a client a failed audit write is logged but doesn't fail the request: the change is already saved
+export const audit = async (
+  req: Request,
+  entry: AuditEntry,
+  client?: Prisma.TransactionClient
+): Promise<void> => {
+  const input = { ...entry, ...getAuditContext(req) };
+
+  if (client) {
+    await recordAuditLog(input, client);
+    return;
+  }
+
+  try {
+    await recordAuditLog(input);
+  } catch (error) {
+    log.error('Failed to record audit log', {
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      error,
+    });
+  }
+};
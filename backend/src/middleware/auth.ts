@@ -3,6 +3,9 @@ import jwt from 'jsonwebtoken';
 import { unauthorized, forbidden } from './errorHandler.js';
 import { prisma } from '../lib/prisma.js';
 import type { User, UserRole } from '@prisma/client';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('auth');
 
 // JWT Secret from environment - NEVER hardcoded
 // Production MUST have JWT_SECRET set for security
@@ -25,6 +28,9 @@ declare global {
     interface Request {
       user?: User;
       token?: string;
+      // Set by authenticatePartner
+      partnerId?: string;
+      partnerEmail?: string;
     }
   }
 }
@@ -47,25 +53,18 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    console.log('[AUTH] Authenticating request to:', req.method, req.path);
-    console.log('[AUTH] Has Authorization header:', !!req.headers.authorization);
-    console.log('[AUTH] Has token in query:', !!req.query.token);
-
     // Get token from header or query parameter (for CSV exports with window.open)
     let token: string | undefined;
 
     const authHeader = req.headers.authorization;
     if (authHeader && authHeader.startsWith('Bearer ')) {
       token = authHeader.substring(7);
-      console.log('[AUTH] Token from header:', token?.substring(0, 20) + '...');
     } else if (req.query.token && typeof req.query.token === 'string') {
       // Allow token from query parameter for CSV export downloads
       token = req.query.token;
-      console.log('[AUTH] Token from query:', token?.substring(0, 20) + '...');
     }
 
     if (!token) {
-      console.log('[AUTH] No token provided');
       throw unauthorized('No token provided');
     }
 
@@ -73,7 +72,6 @@ export const authenticate = async (
 
     // Verify token
     const payload = verifyToken(token);
-    console.log('[AUTH] Token verified for user:', payload.email);
 
     // Get user from database
     const user = await prisma.user.findUnique({
@@ -81,15 +79,19 @@ export const authenticate = async (
     });
 
     if (!user) {
-      console.log('[AUTH] User not found:', payload.userId);
+      log.warn('Token of an unknown user', { userId: payload.userId });
       throw unauthorized('User not found');
     }
 
-    console.log('[AUTH] Authentication successful for:', user.email);
+    // Sessions of erased accounts end with the erasure
+    if (user.deletedAt) {
+      throw unauthorized('This account has been deleted');
+    }
+
     req.user = user;
     next();
   } catch (error) {
-    console.error('[AUTH] Authentication failed:', error);
+    log.debug('Authentication failed', { error });
     if (error instanceof jwt.JsonWebTokenError) {
       next(unauthorized('Invalid token'));
     } else if (error instanceof jwt.TokenExpiredError) {
@@ -120,7 +122,7 @@ export const optionalAuth = async (
       where: { id: payload.userId },
     });
 
-    if (user) {
+    if (user && !user.deletedAt) {
       req.user = user;
     }
 
@@ -159,12 +161,20 @@ export const authenticatePartner = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Get token from header or query parameter (for statement downloads with window.open)
+    let token: string | undefined;
+
     const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      token = authHeader.substring(7);
+    } else if (req.query.token && typeof req.query.token === 'string') {
+      token = req.query.token;
+    }
+
+    if (!token) {
       throw unauthorized('No token provided');
     }
 
-    const token = authHeader.substring(7);
     const payload = jwt.verify(token, JWT_SECRET) as { partnerId: string; email: string; type: string };
 
     if (payload.type !== 'partner') {
@@ -172,8 +182,8 @@ export const authenticatePartner = async (
     }
 
     // Attach partner ID to request
-    (req as any).partnerId = payload.partnerId;
-    (req as any).partnerEmail = payload.email;
+    req.partnerId = payload.partnerId;
+    req.partnerEmail = payload.email;
 
     next();
   } catch (error) {
@@ -1,14 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('errors');
 
 // Custom error class for API errors
 export class ApiError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // Machine-readable reason and data for the client, e.g. RATE_LIMITED with retryAfter
+  code?: string;
+  details?: unknown;
 
-  constructor(statusCode: number, message: string, isOperational = true) {
+  constructor(
+    statusCode: number,
+    message: string,
+    isOperational = true,
+    extra: { code?: string; details?: unknown } = {}
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.code = extra.code;
+    this.details = extra.details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -20,6 +33,8 @@ export const unauthorized = (message = 'Unauthorized') => new ApiError(401, mess
 export const forbidden = (message = 'Forbidden') => new ApiError(403, message);
 export const notFound = (message = 'Not found') => new ApiError(404, message);
 export const conflict = (message: string) => new ApiError(409, message);
+export const tooManyRequests = (message: string, details?: unknown) =>
+  new ApiError(429, message, true, { code: 'RATE_LIMITED', details });
 export const internalError = (message = 'Internal server error') => new ApiError(500, message, false);
 
 // Error response interface
@@ -29,29 +44,31 @@ interface ErrorResponse {
     message: string;
     code?: string;
     details?: unknown;
+    requestId?: string;
   };
 }
 
 // Global error handler middleware
 export const errorHandler = (
   err: Error | ApiError,
-  _req: Request,
+  req: Request,
   res: Response,
   _next: NextFunction
 ): void => {
-  // Log error for debugging
-  console.error('Error:', err);
-
   // Default error values
   let statusCode = 500;
   let message = 'Internal server error';
   let isOperational = false;
+  let code: string | undefined;
+  let details: unknown;
 
   // Handle ApiError
   if (err instanceof ApiError) {
     statusCode = err.statusCode;
     message = err.message;
     isOperational = err.isOperational;
+    code = err.code;
+    details = err.details;
   }
 
   // Handle Prisma errors
@@ -67,11 +84,27 @@ export const errorHandler = (
     isOperational = true;
   }
 
+  // Expected client errors (validation, auth, rate limits) need no stack trace
+  if (statusCode >= 500) {
+    log.error(err.message, { error: err, statusCode });
+  } else {
+    log.warn(message, {
+      statusCode,
+      ...(code && { code }),
+      // Database errors answered as 400 keep their cause in the logs
+      ...(!(err instanceof ApiError) && { error: err }),
+    });
+  }
+
   // Build error response
   const errorResponse: ErrorResponse = {
     success: false,
     error: {
       message,
+      ...(code && { code }),
+      ...(details !== undefined && { details }),
+      // Quoted by users in support requests, matches the server logs
+      ...(req.requestId && { requestId: req.requestId }),
     },
   };
 
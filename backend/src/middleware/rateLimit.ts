@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { tooManyRequests } from './errorHandler.js';
+import { getRateLimitStore } from '../services/rateLimitService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('rate-limit');
+
+// Fixed-window rate limiting for anonymous endpoints, per IP and optionally per identifier
+// (the email a link is requested for, the sign-in token a code is tried on)
+// Counters live in the store selected by RATE_LIMIT_STORE, see rateLimitService
+//
+// With a lockout, exceeding the limit blocks the key for a while, doubling on every repeat
+
+interface RateLimitLockout {
+  durationMs: number;     // First lockout
+  maxDurationMs: number;  // Doubling stops here
+  resetAfterMs: number;   // Quiet time after a lockout before strikes are forgotten
+}
+
+interface RateLimitOptions {
+  name: string;           // Separate counters per limited endpoint
+  windowMs: number;
+  max: number;            // Requests allowed per IP per window
+  identifier?: (req: Request) => string | undefined;
+  maxPerIdentifier?: number; // Requests allowed per identifier per window, default max
+  lockout?: RateLimitLockout;
+}
+
+interface RateLimitRejection {
+  retryAfterMs: number;
+  lockedOut: boolean;
+  limitedBy: 'ip' | 'identifier';
+}
+
+// 15 minutes, then 30, 1 hour... up to a day
+export const PROGRESSIVE_LOCKOUT: RateLimitLockout = {
+  durationMs: 15 * 60 * 1000,
+  maxDurationMs: 24 * 60 * 60 * 1000,
+  resetAfterMs: 24 * 60 * 60 * 1000,
+};
+
+// Identifier read from a string field of the request body
+export const bodyField = (field: string) => (req: Request): string | undefined => {
+  const value: unknown = req.body?.[field];
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : undefined;
+};
+
+// Identifiers (emails, tokens) are hashed, so counters never hold personal data or secrets
+const hashIdentifier = (identifier: string): string =>
+  crypto.createHash('sha256').update(identifier).digest('hex').slice(0, 32);
+
+const formatWait = (seconds: number): string => {
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+  if (seconds < 60) return plural(seconds, 'second');
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 120) return plural(minutes, 'minute');
+  return plural(Math.ceil(minutes / 60), 'hour');
+};
+
+export const rateLimit = ({ name, windowMs, max, identifier, maxPerIdentifier, lockout }: RateLimitOptions) => {
+  // Count one request on a key, returns why it's rejected or null
+  const check = async (
+    key: string,
+    limit: number,
+    limitedBy: RateLimitRejection['limitedBy'],
+    now: number
+  ): Promise<RateLimitRejection | null> => {
+    const store = getRateLimitStore();
+    const state = await store.increment(key, windowMs, now);
+
+    if (state.lockedUntil !== null && state.lockedUntil > now) {
+      return { retryAfterMs: state.lockedUntil - now, lockedOut: true, limitedBy };
+    }
+
+    if (state.count <= limit) return null;
+
+    if (!lockout) {
+      return { retryAfterMs: state.resetAt - now, lockedOut: false, limitedBy };
+    }
+
+    const strikes = state.strikes + 1;
+    const durationMs = Math.min(lockout.durationMs * 2 ** (strikes - 1), lockout.maxDurationMs);
+    const lockedUntil = now + durationMs;
+
+    await store.lock(key, { strikes, lockedUntil, expiresAt: lockedUntil + lockout.resetAfterMs });
+    log.warn(`Locked out for ${formatWait(Math.ceil(durationMs / 1000))}`, { key, strikes });
+
+    return { retryAfterMs: durationMs, lockedOut: true, limitedBy };
+  };
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const now = Date.now();
+    let rejection: RateLimitRejection | null = null;
+
+    try {
+      rejection = await check(`${name}:ip:${req.ip ?? 'unknown'}`, max, 'ip', now);
+
+      const id = identifier?.(req);
+      if (!rejection && id) {
+        rejection = await check(`${name}:id:${hashIdentifier(id)}`, maxPerIdentifier ?? max, 'identifier', now);
+      }
+    } catch (error) {
+      // A store outage must not take the endpoints down with it
+      log.error('Counters unavailable, request let through', { name, error });
+    }
+
+    if (rejection) {
+      const retryAfter = Math.max(1, Math.ceil(rejection.retryAfterMs / 1000));
+      res.setHeader('Retry-After', retryAfter);
+      next(
+        tooManyRequests(`Too many requests, please try again in ${formatWait(retryAfter)}`, {
+          retryAfter,
+          lockedOut: rejection.lockedOut,
+          limitedBy: rejection.limitedBy,
+        })
+      );
+      return;
+    }
+
+    next();
+  };
+};
+
+// Gift code guesses, shared by validation and redemption so both count against one budget per IP
+export const giftCodeRateLimit = rateLimit({
+  name: 'gift-code-validate',
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  lockout: PROGRESSIVE_LOCKOUT,
+});
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { createLogger, redactPath, requestContext } from '../lib/logger.js';
+
+// Request correlation: every request gets an ID (or keeps a proxy's X-Request-Id), returned in the
+// X-Request-Id header and in error responses, and written on every log line of the request
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+const log = createLogger('http');
+
+// IDs set by a proxy are kept if they look like IDs
+const INCOMING_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+// First middleware: assigns the ID and logs the request once answered
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  const id = incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  const startedAt = Date.now();
+
+  req.requestId = id;
+  res.setHeader('X-Request-Id', id);
+
+  res.on('finish', () => {
+    const fields = {
+      requestId: id,
+      method: req.method,
+      path: redactPath(req.originalUrl),
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      ...(req.user && { userId: req.user.id }),
+    };
+
+    if (res.statusCode >= 500) {
+      log.error('Request failed', fields);
+    } else {
+      log.info('Request completed', fields);
+    }
+  });
+
+  requestContext.run({ requestId: id }, next);
+};
+
+// Makes the ID available to service logs (getRequestId)
+// Mounted again after body parsing: parsers resume on stream events, outside the request's async context
+export const withRequestContext = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!req.requestId) {
+    next();
+    return;
+  }
+  requestContext.run({ requestId: req.requestId }, next);
+};
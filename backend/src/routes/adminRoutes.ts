@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as adminController from '../controllers/adminController.js';
-import { authenticate, adminOnly, optionalAuth } from '../middleware/auth.js';
+import { authenticate, adminOnly } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -46,15 +46,27 @@ router.get('/transactions', authenticate, adminOnly, adminController.getAllTrans
 // PATCH /api/admin/transactions/:id - Update transaction status
 router.patch('/transactions/:id', authenticate, adminOnly, adminController.updateTransactionStatus);
 
+// POST /api/admin/transactions/:id/reverse - Reverse a completed transaction
+router.post('/transactions/:id/reverse', authenticate, adminOnly, adminController.reverseTransactionAdmin);
+
 // POST /api/admin/transactions/manual - Create manual transaction for corrections
 router.post('/transactions/manual', authenticate, adminOnly, adminController.createManualTransaction);
 
 // ============================================
-// ADMIN ACCESS (Special SKU Code)
+// ADMIN ACCOUNTS (Admin Only)
 // ============================================
 
-// POST /api/admin/access - Verify admin access via special SKU code
-router.post('/access', optionalAuth, adminController.verifyAdminAccess);
+// GET /api/admin/admins - List admin accounts
+router.get('/admins', authenticate, adminOnly, adminController.getAdminAccountsAdmin);
+
+// POST /api/admin/admins - Grant admin access and send a sign-in link
+router.post('/admins', authenticate, adminOnly, adminController.createAdminAccount);
+
+// DELETE /api/admin/admins/:id - Revoke admin access
+router.delete('/admins/:id', authenticate, adminOnly, adminController.revokeAdminAccount);
+
+// POST /api/admin/admins/:id/reset-totp - Reset an admin's authenticator
+router.post('/admins/:id/reset-totp', authenticate, adminOnly, adminController.resetAdminTotp);
 
 // ============================================
 // BILLING ENDPOINTS (Admin Only)
@@ -66,6 +78,9 @@ router.get('/billing/stats', authenticate, adminOnly, adminController.getBilling
 // GET /api/admin/billing/outstanding - Get merchants with outstanding balances
 router.get('/billing/outstanding', authenticate, adminOnly, adminController.getOutstandingBalances);
 
+// GET /api/admin/billing/reconciliation - Merchants whose balance doesn't match their unbilled transactions
+router.get('/billing/reconciliation', authenticate, adminOnly, adminController.getBillingReconciliationReport);
+
 // POST /api/admin/billing/run - Run monthly billing
 router.post('/billing/run', authenticate, adminOnly, adminController.triggerMonthlyBilling);
 
@@ -75,11 +90,17 @@ router.get('/billing/invoices/:id', authenticate, adminOnly, adminController.get
 // POST /api/admin/billing/invoices/:id/pay - Mark invoice as paid
 router.post('/billing/invoices/:id/pay', authenticate, adminOnly, adminController.payInvoice);
 
+// GET /api/admin/billing/invoices/:id/pdf - Download the invoice PDF
+router.get('/billing/invoices/:id/pdf', authenticate, adminOnly, adminController.downloadInvoicePdf);
+
+// POST /api/admin/billing/invoices/:id/send - Email the invoice to the merchant again
+router.post('/billing/invoices/:id/send', authenticate, adminOnly, adminController.sendInvoice);
+
 // ============================================
 // CRON ENDPOINTS (Admin Only)
 // ============================================
 
-// POST /api/admin/cron/daily - Run daily cron tasks (maturation processing)
+// POST /api/admin/cron/daily - Run daily cron tasks (maturation processing, claim token expiry)
 router.post('/cron/daily', authenticate, adminOnly, adminController.runDailyCron);
 
 // POST /api/admin/cron/monthly - Run monthly cron tasks (billing + Corsair export)
@@ -88,4 +109,27 @@ router.post('/cron/monthly', authenticate, adminOnly, adminController.runMonthly
 // POST /api/admin/cron/all - Run all cron tasks
 router.post('/cron/all', authenticate, adminOnly, adminController.runAllCron);
 
+// GET /api/admin/jobs - Cron run history and scheduler status
+router.get('/jobs', authenticate, adminOnly, adminController.getJobRunsAdmin);
+
+// POST /api/admin/jobs/:id/retry - Retry the failed tasks of a run
+router.post('/jobs/:id/retry', authenticate, adminOnly, adminController.retryJobRunAdmin);
+
+// ============================================
+// WEBHOOK EVENTS (Admin Only)
+// ============================================
+
+// GET /api/admin/webhooks - List stored Stripe webhook events
+router.get('/webhooks', authenticate, adminOnly, adminController.getWebhookEventsAdmin);
+
+// POST /api/admin/webhooks/:id/replay - Replay a stored webhook event
+router.post('/webhooks/:id/replay', authenticate, adminOnly, adminController.replayWebhookEventAdmin);
+
+// ============================================
+// AUDIT LOG (Admin Only)
+// ============================================
+
+// GET /api/admin/audit-logs - List audit entries with filters
+router.get('/audit-logs', authenticate, adminOnly, adminController.getAuditLogsAdmin);
+
 export default router;
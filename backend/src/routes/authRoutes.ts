@@ -1,14 +1,38 @@
 import { Router } from 'express';
 import * as authController from '../controllers/authController.js';
 import { authenticate } from '../middleware/auth.js';
+import { rateLimit, bodyField, PROGRESSIVE_LOCKOUT } from '../middleware/rateLimit.js';
 
 const router = Router();
 
-// POST /api/auth/register - Create new user (from landing page form)
-router.post('/register', authController.register);
+// POST /api/auth/register - Create new user (from landing page form, rate limited per IP and email)
+// Existing emails are sent a sign-in link, so this is limited like the magic link endpoint
+router.post(
+  '/register',
+  rateLimit({
+    name: 'register',
+    windowMs: 15 * 60 * 1000,
+    max: 20,
+    identifier: bodyField('email'),
+    maxPerIdentifier: 5,
+    lockout: PROGRESSIVE_LOCKOUT,
+  }),
+  authController.register
+);
 
-// POST /api/auth/magic-link - Send magic link email
-router.post('/magic-link', authController.sendMagicLink);
+// POST /api/auth/magic-link - Send magic link email (rate limited per IP and email)
+router.post(
+  '/magic-link',
+  rateLimit({
+    name: 'magic-link',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    identifier: bodyField('email'),
+    maxPerIdentifier: 5,
+    lockout: PROGRESSIVE_LOCKOUT,
+  }),
+  authController.sendMagicLink
+);
 
 // GET /api/auth/verify/:token - Verify magic link token
 router.get('/verify/:token', authController.verifyMagicLink);
@@ -16,7 +40,31 @@ router.get('/verify/:token', authController.verifyMagicLink);
 // GET /api/auth/me - Get current user (requires auth)
 router.get('/me', authenticate, authController.getCurrentUser);
 
-// POST /api/auth/admin-login - Admin login via secret code (from landing page)
-router.post('/admin-login', authController.adminLogin);
+// POST /api/auth/admin/magic-link - Send an admin sign-in link (rate limited per IP and email)
+router.post(
+  '/admin/magic-link',
+  rateLimit({
+    name: 'admin-magic-link',
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    identifier: bodyField('email'),
+    maxPerIdentifier: 3,
+    lockout: PROGRESSIVE_LOCKOUT,
+  }),
+  authController.requestAdminSignIn
+);
+
+// POST /api/auth/admin/verify - Complete an admin sign-in with a TOTP code (rate limited per IP and sign-in link)
+router.post(
+  '/admin/verify',
+  rateLimit({
+    name: 'admin-verify',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    identifier: bodyField('token'),
+    lockout: PROGRESSIVE_LOCKOUT,
+  }),
+  authController.verifyAdminSignIn
+);
 
 export default router;
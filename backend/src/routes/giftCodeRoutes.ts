@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import * as giftCodeController from '../controllers/giftCodeController.js';
 import { authenticate, adminOnly } from '../middleware/auth.js';
+import { giftCodeRateLimit } from '../middleware/rateLimit.js';
 
 const router = Router();
 
-// POST /api/gift-codes/validate - Validate a gift code (public - for landing page)
-router.post('/validate', giftCodeController.validateGiftCode);
+// POST /api/gift-codes/validate - Validate a gift code (public - for landing page, rate limited per IP against enumeration)
+router.post('/validate', giftCodeRateLimit, giftCodeController.validateGiftCode);
 
 // GET /api/gift-codes - List all gift codes (admin only)
 router.get('/', authenticate, adminOnly, giftCodeController.getAllGiftCodes);
@@ -13,6 +14,18 @@ router.get('/', authenticate, adminOnly, giftCodeController.getAllGiftCodes);
 // POST /api/gift-codes/batch - Upload batch of gift codes (admin only)
 router.post('/batch', authenticate, adminOnly, giftCodeController.batchUpload);
 
+// POST /api/gift-codes/generate - Generate a batch of random codes (admin only)
+router.post('/generate', authenticate, adminOnly, giftCodeController.generateCodes);
+
+// GET /api/gift-codes/batches/:id/download?format=csv|pdf - Download a batch as CSV or printable PDF (admin only)
+router.get('/batches/:id/download', authenticate, adminOnly, giftCodeController.downloadBatch);
+
+// GET /api/gift-codes/batches - List print batches with redemption stats (admin only)
+router.get('/batches', authenticate, adminOnly, giftCodeController.getBatches);
+
+// PATCH /api/gift-codes/batches/:id/activate - Activate all inactive cards of a batch (admin only)
+router.patch('/batches/:id/activate', authenticate, adminOnly, giftCodeController.activateBatch);
+
 // PATCH /api/gift-codes/:code/activate - Activate a deactivated gift code (admin only)
 // IMPORTANT: This must come BEFORE /:code route to match correctly
 router.patch('/:code/activate', authenticate, adminOnly, giftCodeController.activateGiftCode);
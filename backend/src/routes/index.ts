@@ -10,6 +10,8 @@ import paymentRoutes from './paymentRoutes.js';
 import userRoutes from './userRoutes.js';
 import adminRoutes from './adminRoutes.js';
 import partnerRoutes from './partnerRoutes.js';
+import maturationScheduleRoutes from './maturationScheduleRoutes.js';
+import meRoutes from './meRoutes.js';
 
 const router = Router();
 
@@ -25,5 +27,7 @@ router.use('/payments', paymentRoutes);
 router.use('/users', userRoutes);
 router.use('/admin', adminRoutes);
 router.use('/partners', partnerRoutes);
+router.use('/maturation-schedules', maturationScheduleRoutes);
+router.use('/me', meRoutes);
 
 export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as maturationScheduleController from '../controllers/maturationScheduleController.js';
+import { authenticate, adminOnly } from '../middleware/auth.js';
+
+const router = Router();
+
+// GET /api/maturation-schedules - List all maturation schedules (admin only)
+router.get('/', authenticate, adminOnly, maturationScheduleController.getAllMaturationSchedules);
+
+// POST /api/maturation-schedules - Create maturation schedule (admin only)
+router.post('/', authenticate, adminOnly, maturationScheduleController.createMaturationSchedule);
+
+// PUT /api/maturation-schedules/:id - Update maturation schedule (admin only)
+router.put('/:id', authenticate, adminOnly, maturationScheduleController.updateMaturationSchedule);
+
+// DELETE /api/maturation-schedules/:id - Deactivate maturation schedule (admin only)
+router.delete('/:id', authenticate, adminOnly, maturationScheduleController.deleteMaturationSchedule);
+
+export default router;
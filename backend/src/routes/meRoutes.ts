@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import * as meController from '../controllers/meController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// All routes act on the signed-in user
+router.use(authenticate);
+
+// GET /api/me/export - Download my data (?format=json|zip)
+router.get('/export', meController.exportMyData);
+
+// DELETE /api/me - Delete my account (pseudonymization)
+router.delete('/', meController.deleteMyAccount);
+
+// GET /api/me/consents - My consents and their history
+router.get('/consents', meController.getMyConsents);
+
+// POST /api/me/consents - Give a consent (current version)
+router.post('/consents', meController.grantMyConsent);
+
+// DELETE /api/me/consents/:type - Withdraw a consent
+router.delete('/consents/:type', meController.withdrawMyConsent);
+
+export default router;
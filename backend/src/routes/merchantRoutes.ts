@@ -21,9 +21,72 @@ router.get('/me/billing', authenticate, merchantOrAdmin, merchantController.getM
 // GET /api/merchants/me/invoices/:invoiceId - Get invoice details
 router.get('/me/invoices/:invoiceId', authenticate, merchantOrAdmin, merchantController.getMyInvoice);
 
+// POST /api/merchants/me/invoices/:invoiceId/pay - Create a Stripe payment for an open invoice (owner/finance)
+router.post('/me/invoices/:invoiceId/pay', authenticate, merchantOrAdmin, merchantController.payMyInvoice);
+
+// POST /api/merchants/me/invoices/:invoiceId/pay/confirm - Sync the invoice after Stripe checkout (owner/finance)
+router.post('/me/invoices/:invoiceId/pay/confirm', authenticate, merchantOrAdmin, merchantController.confirmMyInvoicePayment);
+
+// GET /api/merchants/me/invoices/:invoiceId/pdf - Download the invoice PDF (owner/finance)
+router.get('/me/invoices/:invoiceId/pdf', authenticate, merchantOrAdmin, merchantController.downloadMyInvoicePdf);
+
+// GET /api/merchants/me/credit - Prepaid credit, packs and history (owner/finance)
+router.get('/me/credit', authenticate, merchantOrAdmin, merchantController.getMyCredit);
+
+// POST /api/merchants/me/credit/purchases - Create a Stripe payment for a credit pack (owner/finance)
+router.post('/me/credit/purchases', authenticate, merchantOrAdmin, merchantController.buyMyCreditPack);
+
+// POST /api/merchants/me/credit/purchases/:purchaseId/confirm - Sync the purchase after Stripe checkout (owner/finance)
+router.post('/me/credit/purchases/:purchaseId/confirm', authenticate, merchantOrAdmin, merchantController.confirmMyCreditPurchase);
+
+// PUT /api/merchants/me/credit/settings - Spending cap and low credit alert (owner/finance)
+router.put('/me/credit/settings', authenticate, merchantOrAdmin, merchantController.updateMyCreditSettings);
+
 // GET /api/merchants/me/skus - Get merchant's SKU configurations
 router.get('/me/skus', authenticate, merchantOrAdmin, merchantController.getMySKUs);
 
+// POST /api/merchants/me/skus - Draft a SKU for admin approval (owner only)
+router.post('/me/skus', authenticate, merchantOrAdmin, merchantController.createMySku);
+
+// PUT /api/merchants/me/skus/:code - Edit and resubmit a SKU draft (owner only)
+router.put('/me/skus/:code', authenticate, merchantOrAdmin, merchantController.updateMySku);
+
+// GET /api/merchants/me/skus/:code/qr - Get the signed QR landing URL of an approved SKU
+router.get('/me/skus/:code/qr', authenticate, merchantOrAdmin, merchantController.getMySkuQrLink);
+
+// PUT /api/merchants/me/skus/:code/claim-token-required - Only accept claim tokens for a CLAIM SKU (owner only)
+router.put('/me/skus/:code/claim-token-required', authenticate, merchantOrAdmin, merchantController.setMySkuClaimTokenRequired);
+
+// GET /api/merchants/me/claim-token-batches - List claim token batches
+router.get('/me/claim-token-batches', authenticate, merchantOrAdmin, merchantController.getMyClaimTokenBatches);
+
+// POST /api/merchants/me/claim-token-batches - Generate a batch of claim tokens (owner only)
+router.post('/me/claim-token-batches', authenticate, merchantOrAdmin, merchantController.createMyClaimTokenBatch);
+
+// GET /api/merchants/me/claim-token-batches/:batchId/csv - Download a batch as CSV (owner only)
+router.get('/me/claim-token-batches/:batchId/csv', authenticate, merchantOrAdmin, merchantController.downloadMyClaimTokenBatch);
+
+// GET /api/merchants/me/signing-key - Get the landing URL signing secret (owner only)
+router.get('/me/signing-key', authenticate, merchantOrAdmin, merchantController.getMySigningKey);
+
+// POST /api/merchants/me/signing-key/rotate - Rotate the landing URL signing secret (owner only)
+router.post('/me/signing-key/rotate', authenticate, merchantOrAdmin, merchantController.rotateMySigningKey);
+
+// GET /api/merchants/me/memberships - List the merchants the current user belongs to
+router.get('/me/memberships', authenticate, merchantOrAdmin, merchantController.getMyMemberships);
+
+// GET /api/merchants/me/members - List members of the current merchant
+router.get('/me/members', authenticate, merchantOrAdmin, merchantController.getMyMembers);
+
+// POST /api/merchants/me/members - Invite a member (owner only)
+router.post('/me/members', authenticate, merchantOrAdmin, merchantController.inviteMyMember);
+
+// PATCH /api/merchants/me/members/:memberId - Change a member's role (owner only)
+router.patch('/me/members/:memberId', authenticate, merchantOrAdmin, merchantController.updateMyMember);
+
+// DELETE /api/merchants/me/members/:memberId - Remove a member (owner only)
+router.delete('/me/members/:memberId', authenticate, merchantOrAdmin, merchantController.removeMyMember);
+
 // ============================================
 // ADMIN ENDPOINTS
 // ============================================
@@ -37,6 +100,12 @@ router.post('/', authenticate, adminOnly, merchantController.createMerchant);
 // PUT /api/merchants/:id - Update merchant (admin only)
 router.put('/:id', authenticate, adminOnly, merchantController.updateMerchant);
 
+// POST /api/merchants/:id/signing-key/rotate - Rotate a merchant's landing URL signing secret (admin only)
+router.post('/:id/signing-key/rotate', authenticate, adminOnly, merchantController.rotateMerchantSigningKey);
+
+// POST /api/merchants/:id/credit - Grant or remove prepaid credit (admin only)
+router.post('/:id/credit', authenticate, adminOnly, merchantController.adjustMerchantCreditById);
+
 // ============================================
 // MERCHANT OR ADMIN ENDPOINTS (by ID)
 // ============================================
@@ -50,4 +119,10 @@ router.get('/:id/transactions', authenticate, merchantOrAdmin, merchantControlle
 // GET /api/merchants/:id/billing - Get merchant billing info (merchant or admin)
 router.get('/:id/billing', authenticate, merchantOrAdmin, merchantController.getMerchantBilling);
 
+// GET /api/merchants/:id/members - List merchant members (merchant or admin)
+router.get('/:id/members', authenticate, merchantOrAdmin, merchantController.getMerchantMembersById);
+
+// POST /api/merchants/:id/members - Invite a member (admin only)
+router.post('/:id/members', authenticate, adminOnly, merchantController.inviteMerchantMemberById);
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import * as partnerController from '../controllers/partnerController.js';
 import { authenticate, adminOnly, authenticatePartner } from '../middleware/auth.js';
+import { rateLimit, bodyField, PROGRESSIVE_LOCKOUT } from '../middleware/rateLimit.js';
 
 const router = Router();
 
@@ -8,8 +9,19 @@ const router = Router();
 // PARTNER AUTH (Public)
 // ============================================
 
-// POST /api/partners/auth/magic-link - Send magic link to partner
-router.post('/auth/magic-link', partnerController.sendPartnerMagicLink);
+// POST /api/partners/auth/magic-link - Send magic link to partner (rate limited per IP and email)
+router.post(
+  '/auth/magic-link',
+  rateLimit({
+    name: 'partner-magic-link',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    identifier: bodyField('email'),
+    maxPerIdentifier: 5,
+    lockout: PROGRESSIVE_LOCKOUT,
+  }),
+  partnerController.sendPartnerMagicLink
+);
 
 // GET /api/partners/auth/verify/:token - Verify magic link token
 router.get('/auth/verify/:token', partnerController.verifyPartnerMagicLink);
@@ -30,10 +42,31 @@ router.get('/me/transactions', authenticatePartner, partnerController.getPartner
 // GET /api/partners/me/reports/summary - Get partner summary report
 router.get('/me/reports/summary', authenticatePartner, partnerController.getPartnerSummaryReport);
 
+// GET /api/partners/me/statements - Get the partner's monthly commission statements
+router.get('/me/statements', authenticatePartner, partnerController.getMyStatements);
+
+// GET /api/partners/me/statements/:statementId/pdf - Download a commission statement
+router.get('/me/statements/:statementId/pdf', authenticatePartner, partnerController.downloadMyStatement);
+
+// GET /api/partners/me/signing-key - Get the landing URL signing secret
+router.get('/me/signing-key', authenticatePartner, partnerController.getPartnerSigningKey);
+
+// POST /api/partners/me/signing-key/rotate - Rotate the landing URL signing secret
+router.post('/me/signing-key/rotate', authenticatePartner, partnerController.rotatePartnerSigningKey);
+
 // ============================================
 // ADMIN: PARTNER MANAGEMENT
 // ============================================
 
+// GET /api/partners/statements - List commission statements (admin only)
+router.get('/statements', authenticate, adminOnly, partnerController.getAllStatements);
+
+// GET /api/partners/statements/:statementId/pdf - Download a commission statement (admin only)
+router.get('/statements/:statementId/pdf', authenticate, adminOnly, partnerController.downloadStatement);
+
+// PATCH /api/partners/statements/:statementId/payout - Update a statement's payout status (admin only)
+router.patch('/statements/:statementId/payout', authenticate, adminOnly, partnerController.updateStatementPayout);
+
 // GET /api/partners - List all partners (admin only)
 router.get('/', authenticate, adminOnly, partnerController.getAllPartners);
 
@@ -43,4 +76,7 @@ router.post('/', authenticate, adminOnly, partnerController.createPartner);
 // PUT /api/partners/:id - Update partner (admin only)
 router.put('/:id', authenticate, adminOnly, partnerController.updatePartner);
 
+// POST /api/partners/:id/signing-key/rotate - Rotate a partner's landing URL signing secret (admin only)
+router.post('/:id/signing-key/rotate', authenticate, adminOnly, partnerController.rotatePartnerSigningKeyById);
+
 export default router;
@@ -19,4 +19,10 @@ router.put('/:code', authenticate, adminOnly, skuController.updateSku);
 // DELETE /api/skus/:code - Delete SKU (admin only)
 router.delete('/:code', authenticate, adminOnly, skuController.deleteSku);
 
+// POST /api/skus/:code/approve - Approve a merchant SKU draft (admin only)
+router.post('/:code/approve', authenticate, adminOnly, skuController.approveSku);
+
+// POST /api/skus/:code/reject - Reject a merchant SKU draft (admin only)
+router.post('/:code/reject', authenticate, adminOnly, skuController.rejectSku);
+
 export default router;
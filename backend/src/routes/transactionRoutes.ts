@@ -1,11 +1,16 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import * as transactionController from '../controllers/transactionController.js';
 import { authenticate, optionalAuth, adminOnly } from '../middleware/auth.js';
+import { giftCodeRateLimit } from '../middleware/rateLimit.js';
 
 const router = Router();
 
-// POST /api/transactions - Create new transaction (from landing page)
-router.post('/', optionalAuth, transactionController.createTransaction);
+// Gift card redemptions count against the gift code validation limit, so codes can't be guessed here instead
+const limitGiftCardRedemption = (req: Request, res: Response, next: NextFunction) =>
+  req.body?.paymentMode === 'GIFT_CARD' ? giftCodeRateLimit(req, res, next) : next();
+
+// POST /api/transactions - Create new transaction (from landing page, gift cards rate limited per IP)
+router.post('/', limitGiftCardRedemption, optionalAuth, transactionController.createTransaction);
 
 // GET /api/transactions - List user's transactions (requires auth)
 router.get('/', authenticate, transactionController.getUserTransactions);
@@ -16,9 +16,18 @@ router.get('/export/csv', userController.exportUsersCSV);
 // GET /api/users/:id - Get single user
 router.get('/:id', userController.getUser);
 
+// GET /api/users/:id/export - Download a user's data (?format=json|zip)
+router.get('/:id/export', userController.exportUserData);
+
+// GET /api/users/:id/ledger - List user's wallet ledger (admin)
+router.get('/:id/ledger', userController.getUserLedger);
+
 // PUT /api/users/:id - Update user (admin)
 router.put('/:id', userController.updateUser);
 
+// DELETE /api/users/:id - Delete a user's account (pseudonymization)
+router.delete('/:id', userController.deleteUser);
+
 // POST /api/users/:id/adjust-wallet - Manually adjust user wallet (admin)
 router.post('/:id/adjust-wallet', userController.adjustWallet);
 
@@ -1,14 +1,15 @@
 import { Router } from 'express';
 import * as walletController from '../controllers/walletController.js';
 import { authenticate } from '../middleware/auth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
 
 const router = Router();
 
 // GET /api/wallet - Get user's wallet summary (requires auth)
 router.get('/', authenticate, walletController.getWallet);
 
-// GET /api/wallet/email/:email - Get wallet summary by email (public, for landing page)
-router.get('/email/:email', walletController.getWalletByEmail);
+// GET /api/wallet/landing - Get wallet summary with a landing session token (public, rate limited per IP)
+router.get('/landing', rateLimit({ name: 'wallet-landing', windowMs: 60 * 1000, max: 30 }), walletController.getLandingWallet);
 
 // GET /api/wallet/history - Get wallet transaction history (requires auth)
 router.get('/history', authenticate, walletController.getWalletHistory);
@@ -0,0 +1,174 @@
+// CSR26 Admin Account Service
+// Per-admin accounts: sign-in links (first factor) and TOTP enrollment (second factor)
+// An admin signs in with an ADMIN_LOGIN magic link and a code from their authenticator app
+
+import { prisma } from '../lib/prisma.js';
+import type { TotpCredential, User } from '@prisma/client';
+import crypto from 'crypto';
+import { sendMagicLinkEmail } from './emailService.js';
+import { generateTotpSecret, verifyTotpCode } from './totpService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('admin-auth');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AdminAccount {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  createdAt: Date;
+  totpEnabledAt: Date | null;
+}
+
+export interface SendAdminSignInLinkResult {
+  message: string;
+  magicLinkUrl?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SIGN_IN_LINK_EXPIRY_MINUTES = 15;
+
+// Wrong codes allowed per sign-in link before it is invalidated
+export const MAX_TOTP_ATTEMPTS = 5;
+
+// ============================================
+// SIGN-IN LINKS
+// ============================================
+
+// Create an ADMIN_LOGIN magic link and email it to the admin
+export const sendAdminSignInLink = async (user: User): Promise<SendAdminSignInLinkResult> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.magicLink.create({
+    data: {
+      userId: user.id,
+      token,
+      purpose: 'ADMIN_LOGIN',
+      expiresAt: new Date(Date.now() + SIGN_IN_LINK_EXPIRY_MINUTES * 60 * 1000),
+    },
+  });
+
+  const emailResult = await sendMagicLinkEmail(user.email, token, user.firstName || undefined, 'admin');
+
+  log.info('Admin sign-in link sent', { userId: user.id });
+
+  return {
+    message: emailResult.message,
+    ...(emailResult.magicLinkUrl && { magicLinkUrl: emailResult.magicLinkUrl }),
+  };
+};
+
+// Count a wrong code against a sign-in link; the link is used up after MAX_TOTP_ATTEMPTS
+// Returns the number of attempts left
+export const recordFailedTotpAttempt = async (magicLinkId: string): Promise<number> => {
+  const link = await prisma.magicLink.update({
+    where: { id: magicLinkId },
+    data: { attempts: { increment: 1 } },
+  });
+
+  if (link.attempts >= MAX_TOTP_ATTEMPTS) {
+    await prisma.magicLink.update({
+      where: { id: magicLinkId },
+      data: { used: true },
+    });
+    log.warn('Admin sign-in link invalidated after too many wrong codes', { magicLinkId, attempts: link.attempts });
+  }
+
+  return Math.max(MAX_TOTP_ATTEMPTS - link.attempts, 0);
+};
+
+// ============================================
+// TOTP ENROLLMENT
+// ============================================
+
+// Get the admin's credential, creating a pending one (new secret) if there is none
+// A pending credential keeps its secret until confirmed, so reopening the link shows the same key
+export const getOrCreateTotpCredential = async (userId: string): Promise<TotpCredential> => {
+  return prisma.totpCredential.upsert({
+    where: { userId },
+    create: { userId, secret: generateTotpSecret() },
+    update: {},
+  });
+};
+
+// Check a code and record its time step
+// The first accepted code confirms a pending enrollment
+// Returns false for a wrong code or one already used (including a concurrent request with the same code)
+export const confirmTotpCode = async (credential: TotpCredential, code: string): Promise<boolean> => {
+  const step = verifyTotpCode(credential.secret, code, credential.lastStep);
+  if (step === null) {
+    return false;
+  }
+
+  const updated = await prisma.totpCredential.updateMany({
+    where: {
+      id: credential.id,
+      OR: [{ lastStep: null }, { lastStep: { lt: step } }],
+    },
+    data: {
+      lastStep: step,
+      enabledAt: credential.enabledAt ?? new Date(),
+    },
+  });
+
+  return updated.count > 0;
+};
+
+// Remove an admin's authenticator; they enroll a new one on their next sign-in
+export const resetTotpCredential = async (userId: string): Promise<boolean> => {
+  const deleted = await prisma.totpCredential.deleteMany({ where: { userId } });
+  return deleted.count > 0;
+};
+
+// ============================================
+// ADMIN ACCOUNTS
+// ============================================
+
+// List all admins with their enrollment state
+export const getAdminAccounts = async (): Promise<AdminAccount[]> => {
+  const admins = await prisma.user.findMany({
+    where: { role: 'ADMIN' },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      createdAt: true,
+      totpCredential: { select: { enabledAt: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return admins.map(({ totpCredential, ...admin }) => ({
+    ...admin,
+    totpEnabledAt: totpCredential?.enabledAt ?? null,
+  }));
+};
+
+// Revoke admin rights: the user keeps their account as a merchant (if they belong to one) or user
+export const revokeAdminAccess = async (userId: string): Promise<User> => {
+  const memberships = await prisma.merchantMember.count({
+    where: { userId, acceptedAt: { not: null } },
+  });
+
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { role: memberships > 0 ? 'MERCHANT' : 'USER' },
+    }),
+    prisma.totpCredential.deleteMany({ where: { userId } }),
+    prisma.magicLink.updateMany({
+      where: { userId, purpose: 'ADMIN_LOGIN', used: false },
+      data: { used: true },
+    }),
+  ]);
+
+  return user;
+};
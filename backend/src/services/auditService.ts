@@ -0,0 +1,158 @@
+// CSR26 Audit Service
+// Append-only record of privileged mutations: who did what to which entity, with before/after snapshots
+// Controllers write entries through the audit() helper in middleware/audit.ts, which adds actor and IP
+
+import { prisma } from '../lib/prisma.js';
+import type { AuditLog, Prisma } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AuditEntityType =
+  | 'Setting'
+  | 'User'
+  | 'Transaction'
+  | 'Merchant'
+  | 'MerchantMember'
+  | 'Partner'
+  | 'PartnerStatement'
+  | 'Sku'
+  | 'GiftCode'
+  | 'GiftCodeBatch'
+  | 'ClaimTokenBatch'
+  | 'Invoice'
+  | 'MaturationSchedule'
+  | 'WebhookEvent'
+  | 'Billing'
+  | 'CorsairExport'
+  | 'Cron';
+
+export interface AuditLogInput {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'Setting',
+  'User',
+  'Transaction',
+  'Merchant',
+  'MerchantMember',
+  'Partner',
+  'PartnerStatement',
+  'Sku',
+  'GiftCode',
+  'GiftCodeBatch',
+  'ClaimTokenBatch',
+  'Invoice',
+  'MaturationSchedule',
+  'WebhookEvent',
+  'Billing',
+  'CorsairExport',
+  'Cron',
+];
+
+// Never stored in snapshots (magic link tokens, TOTP secrets)
+const REDACTED_KEYS = new Set(['token', 'secret']);
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+// Turn an entity into plain JSON: Decimals become strings, Dates ISO strings, secrets are dropped
+const toSnapshot = (value: unknown): Prisma.InputJsonValue | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return JSON.parse(
+    JSON.stringify(value, (key, field) => (REDACTED_KEYS.has(key) ? undefined : field))
+  ) as Prisma.InputJsonValue;
+};
+
+// ============================================
+// WRITING ENTRIES
+// ============================================
+
+// Append an audit entry
+// Pass a transaction client to write it together with the change it describes
+export const recordAuditLog = async (
+  input: AuditLogInput,
+  client?: Prisma.TransactionClient
+): Promise<AuditLog> => {
+  const db = client ?? prisma;
+
+  const before = toSnapshot(input.before);
+  const after = toSnapshot(input.after);
+
+  return db.auditLog.create({
+    data: {
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId ?? null,
+      ...(before !== undefined && { before }),
+      ...(after !== undefined && { after }),
+      actorId: input.actorId ?? null,
+      actorEmail: input.actorEmail ?? null,
+      ip: input.ip ?? null,
+      userAgent: input.userAgent ?? null,
+    },
+  });
+};
+
+// ============================================
+// QUERIES
+// ============================================
+
+// List audit entries, newest first
+export const getAuditLogs = async (
+  filters: AuditLogFilters = {}
+): Promise<{ logs: AuditLog[]; total: number }> => {
+  const where: Prisma.AuditLogWhereInput = {
+    ...(filters.action && { action: { startsWith: filters.action } }),
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  };
+
+  const [logs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filters.limit || 50, 200),
+      skip: filters.offset || 0,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return { logs, total };
+};
@@ -1,9 +1,20 @@
 // CSR26 Billing Service
 // Handles monthly billing and invoice generation for merchants
 // Run via cron job or admin trigger at end of each month
+//
+// Invoices are numbered gap-free per fiscal year (calendar year of issue) and charge VAT
+// according to the merchant's country and VAT ID: the seller's rate at home, reverse charge
+// for EU businesses, none outside the EU
 
 import { prisma } from '../lib/prisma.js';
-import type { Invoice, Merchant } from '@prisma/client';
+import { stripe } from '../lib/stripe.js';
+import { createLogger } from '../lib/logger.js';
+import { getInvoicePdf } from './invoicePdfService.js';
+import { sendInvoiceIssuedEmail } from './emailService.js';
+import type { Invoice, Merchant, PaymentMode, Prisma, VatTreatment } from '@prisma/client';
+import type Stripe from 'stripe';
+
+const log = createLogger('billing');
 
 // ============================================
 // SETTING HELPERS
@@ -21,10 +32,133 @@ const getMonthlyBillingMinimum = async (): Promise<number> => {
   return parseFloat(value);
 };
 
+// VAT rate charged on DOMESTIC invoices, in percent (default 22, Italy)
+export const getVatRate = async (): Promise<number> => {
+  const value = await getSettingValue('VAT_RATE', '22');
+  return parseFloat(value);
+};
+
+// ============================================
+// VAT
+// ============================================
+
+const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+];
+
+// Country the seller is established in (INVOICE_SELLER_COUNTRY, default IT)
+export const getSellerCountry = (): string => (process.env.INVOICE_SELLER_COUNTRY || 'IT').toUpperCase();
+
+// How VAT applies to a merchant's invoices
+export const getVatTreatment = (merchant: Pick<Merchant, 'billingCountry' | 'vatId'>): VatTreatment => {
+  const country = merchant.billingCountry.toUpperCase();
+
+  if (country === getSellerCountry()) return 'DOMESTIC';
+  if (!EU_COUNTRIES.includes(country)) return 'OUTSIDE_EU';
+
+  // Another EU country: reverse charge for businesses with a VAT ID, the seller's VAT otherwise
+  return merchant.vatId ? 'REVERSE_CHARGE' : 'DOMESTIC';
+};
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Net amount, VAT and total of an invoice
+export const calculateInvoiceTax = (
+  netAmount: number,
+  treatment: VatTreatment,
+  domesticRate: number
+): { netAmount: number; vatRate: number; vatAmount: number; amount: number } => {
+  const vatRate = treatment === 'DOMESTIC' ? domesticRate : 0;
+  const vatAmount = roundCents((netAmount * vatRate) / 100);
+
+  return { netAmount, vatRate, vatAmount, amount: roundCents(netAmount + vatAmount) };
+};
+
+// Normalize a merchant's billing country and VAT ID in place (uppercase, VAT ID without spaces or dots)
+export const normalizeBillingDetails = (data: { billingCountry?: unknown; vatId?: unknown }): void => {
+  if (typeof data.billingCountry === 'string') {
+    data.billingCountry = data.billingCountry.trim().toUpperCase();
+  }
+  if (typeof data.vatId === 'string') {
+    data.vatId = data.vatId.replace(/[\s.-]/g, '').toUpperCase() || null;
+  }
+};
+
+// Validate normalized billing details, returns the error message or null
+export const getBillingDetailsError = (data: { billingCountry?: unknown; vatId?: unknown }): string | null => {
+  if (data.billingCountry !== undefined && (typeof data.billingCountry !== 'string' || !/^[A-Z]{2}$/.test(data.billingCountry))) {
+    return 'Billing country must be a two-letter ISO country code';
+  }
+  if (data.vatId !== undefined && data.vatId !== null && (typeof data.vatId !== 'string' || !/^[A-Z0-9]{4,16}$/.test(data.vatId))) {
+    return 'Invalid VAT ID';
+  }
+
+  // Reverse charge needs an EU VAT ID carrying its country prefix (e.g. DE123456789)
+  if (
+    typeof data.billingCountry === 'string' &&
+    typeof data.vatId === 'string' &&
+    EU_COUNTRIES.includes(data.billingCountry) &&
+    !data.vatId.startsWith(data.billingCountry === 'GR' ? 'EL' : data.billingCountry)
+  ) {
+    return `VAT ID must start with the country code ${data.billingCountry === 'GR' ? 'EL' : data.billingCountry}`;
+  }
+
+  return null;
+};
+
+// e.g. 2026/00042
+export const formatInvoiceNumber = (fiscalYear: number, sequence: number): string =>
+  `${fiscalYear}/${String(sequence).padStart(5, '0')}`;
+
+// Buyer details printed on the invoice
+const getInvoiceBuyer = (merchant: Merchant) => ({
+  billingName: merchant.legalName || merchant.name,
+  billingAddress: [
+    merchant.billingAddress,
+    [merchant.billingPostalCode, merchant.billingCity].filter(Boolean).join(' '),
+    merchant.billingCountry.toUpperCase(),
+  ].filter(Boolean).join('\n'),
+  billingVatId: merchant.vatId,
+  billingCountry: merchant.billingCountry.toUpperCase(),
+});
+
+// ============================================
+// BILLABLE TRANSACTIONS
+// ============================================
+
+// Payment modes charged to the merchant (its balance), reversals of them included
+const BILLED_PAYMENT_MODES: PaymentMode[] = ['CLAIM', 'ALLOCATION'];
+
+// Merchant transactions no invoice has billed yet (prepaid ones never are), optionally up to a date
+const getUnbilledTransactionsWhere = (merchantId: string, until?: Date): Prisma.TransactionWhereInput => ({
+  merchantId,
+  paymentMode: { in: BILLED_PAYMENT_MODES },
+  billedInvoiceId: null,
+  prepaid: false,
+  ...(until && { createdAt: { lte: until } }),
+});
+
 // ============================================
 // TYPES
 // ============================================
 
+// Online payment state of an invoice as seen by the merchant
+export type InvoicePaymentState = 'PAID' | 'PROCESSING' | 'PENDING' | 'FAILED';
+
+export interface InvoicePaymentIntent {
+  clientSecret: string;
+  paymentIntentId: string;
+  amount: number;
+}
+
+export interface InvoicePaymentSyncResult {
+  invoiceId: string;
+  state: InvoicePaymentState;
+  updated: boolean;   // false when the invoice already reflected this payment
+  message: string;
+}
+
 export interface BillingResult {
   merchantId: string;
   merchantName: string;
@@ -43,6 +177,27 @@ export interface MonthlyBillingResult {
   results: BillingResult[];
 }
 
+// A merchant's balance against the transactions not billed yet
+export interface MerchantBillingReconciliation {
+  merchantId: string;
+  merchantName: string;
+  currentBalance: number;
+  unbilledAmount: number;
+  unbilledTransactions: number;
+  oldestUnbilledAt: Date | null;
+  difference: number;   // currentBalance - unbilledAmount
+  mismatched: boolean;
+}
+
+export interface BillingReconciliationReport {
+  generatedAt: string;
+  merchantsChecked: number;
+  mismatchedCount: number;
+  totalBalance: number;
+  totalUnbilled: number;
+  merchants: MerchantBillingReconciliation[];   // Mismatched first, largest difference first
+}
+
 export interface InvoiceDetails extends Invoice {
   merchant: {
     id: string;
@@ -51,6 +206,7 @@ export interface InvoiceDetails extends Invoice {
   };
   transactions: {
     id: string;
+    skuCode: string | null;
     amount: number;
     impactKg: number;
     paymentMode: string;
@@ -74,73 +230,118 @@ export const generateMerchantInvoice = async (
   });
 
   if (!merchant) {
-    console.error(`[Billing] Merchant not found: ${merchantId}`);
+    log.error('Merchant not found', { merchantId });
     return null;
   }
 
   if (!merchant.monthlyBilling) {
-    console.log(`[Billing] Monthly billing disabled for merchant: ${merchant.name}`);
+    log.info('Monthly billing disabled', { merchantId });
     return null;
   }
 
-  // Get merchant's currentBalance (accumulated charges for CLAIM/ALLOCATION)
-  const currentBalance = Number(merchant.currentBalance);
+  // Everything not billed yet up to the end of the period: earlier months carried over
+  // below the minimum included, later transactions wait for the next invoice
+  const transactions = await prisma.transaction.findMany({
+    where: getUnbilledTransactionsWhere(merchantId, periodEnd),
+    select: {
+      id: true,
+      impactKg: true,
+      amount: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const netAmount = roundCents(transactions.reduce((sum, t) => sum + Number(t.amount), 0));
 
-  // If balance is 0, skip invoice generation
-  if (currentBalance <= 0) {
-    console.log(`[Billing] No balance for merchant: ${merchant.name}`);
+  // Nothing to bill, or reversals left the merchant in credit (carried over)
+  if (netAmount <= 0) {
+    log.info('No balance to bill', { merchantId });
     return null;
   }
 
   // Check if balance meets minimum threshold for invoicing (default €10)
   // This saves on payment processing fees by avoiding small invoices
   const billingMinimum = await getMonthlyBillingMinimum();
-  if (currentBalance < billingMinimum) {
-    console.log(`[Billing] Balance €${currentBalance.toFixed(2)} below minimum €${billingMinimum} for merchant: ${merchant.name}. Carrying over to next month.`);
+  if (netAmount < billingMinimum) {
+    log.info('Balance below billing minimum, carried over to next month', {
+      merchantId,
+      balance: netAmount,
+      billingMinimum,
+    });
     return null;
   }
 
-  // Get transactions for the billing period (for record keeping)
-  const transactions = await prisma.transaction.findMany({
-    where: {
-      merchantId,
-      createdAt: { gte: periodStart, lte: periodEnd },
-      paymentStatus: 'COMPLETED',
-      paymentMode: { in: ['CLAIM', 'ALLOCATION'] }, // Only merchant-billed modes
-    },
-    select: {
-      id: true,
-      impactKg: true,
-      amount: true,
-    },
-  });
-
   const transactionCount = transactions.length;
   const totalImpactKg = transactions.reduce((sum, t) => sum + Number(t.impactKg), 0);
 
-  // Create invoice
-  const invoice = await prisma.invoice.create({
-    data: {
-      merchantId,
-      periodStart,
-      periodEnd,
-      transactionCount,
-      totalImpactKg,
-      amount: currentBalance, // Use accumulated balance
-      paid: false,
-    },
-  });
+  // The billed transactions are the net amount, VAT comes on top
+  const vatTreatment = getVatTreatment(merchant);
+  const tax = calculateInvoiceTax(netAmount, vatTreatment, await getVatRate());
+
+  const issuedAt = new Date();
+  const fiscalYear = issuedAt.getFullYear();
+
+  // Number, invoice, lines and balance commit together: the sequence row stays locked until
+  // commit, so concurrent invoices are numbered one after the other and a rollback leaves no gap
+  const invoice = await prisma.$transaction(async (tx) => {
+    const { lastNumber } = await tx.invoiceSequence.upsert({
+      where: { fiscalYear },
+      create: { fiscalYear, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    const created = await tx.invoice.create({
+      data: {
+        merchantId,
+        number: formatInvoiceNumber(fiscalYear, lastNumber),
+        fiscalYear,
+        sequence: lastNumber,
+        issuedAt,
+        periodStart,
+        periodEnd,
+        transactionCount,
+        totalImpactKg,
+        ...tax,
+        vatTreatment,
+        ...getInvoiceBuyer(merchant),
+        paid: false,
+      },
+    });
+
+    await tx.invoiceLine.createMany({
+      data: transactions.map((t) => ({
+        invoiceId: created.id,
+        transactionId: t.id,
+        amount: t.amount,
+        impactKg: t.impactKg,
+      })),
+    });
+
+    // Another billing run got some of them first: roll back rather than bill twice
+    const { count } = await tx.transaction.updateMany({
+      where: { id: { in: transactions.map((t) => t.id) }, billedInvoiceId: null },
+      data: { billedInvoiceId: created.id },
+    });
+    if (count !== transactions.length) {
+      throw new Error('Transactions were billed by another run');
+    }
 
-  // Reset merchant's currentBalance and update lastBillingDate
-  await prisma.merchant.update({
-    where: { id: merchantId },
-    data: {
-      currentBalance: 0,
-      lastBillingDate: new Date(),
-    },
+    // Take the billed amount off the balance, transactions recorded meanwhile stay on it
+    await tx.merchant.update({
+      where: { id: merchantId },
+      data: {
+        currentBalance: { decrement: netAmount },
+        lastBillingDate: issuedAt,
+      },
+    });
+
+    return created;
   });
 
-  console.log(`[Billing] Invoice generated for ${merchant.name}: €${currentBalance.toFixed(2)}`);
+  log.info('Invoice generated', { merchantId, invoiceId: invoice.id, number: invoice.number, amount: tax.amount });
+
+  // The invoice stands even if the email fails, admins can send it again
+  await sendInvoice(invoice.id);
 
   return invoice;
 };
@@ -163,7 +364,7 @@ export const runMonthlyBilling = async (
   const periodStart = new Date(billingYear, billingMonth, 1, 0, 0, 0, 0);
   const periodEnd = new Date(billingYear, billingMonth + 1, 0, 23, 59, 59, 999);
 
-  console.log(`[Billing] Starting monthly billing for period: ${periodStart.toISOString()} - ${periodEnd.toISOString()}`);
+  log.info('Monthly billing started', { periodStart, periodEnd });
 
   // Get all merchants with monthly billing enabled
   const merchants = await prisma.merchant.findMany({
@@ -191,7 +392,7 @@ export const runMonthlyBilling = async (
         invoice,
       });
     } catch (error) {
-      console.error(`[Billing] Error processing merchant ${merchant.name}:`, error);
+      log.error('Billing a merchant failed', { merchantId: merchant.id, error });
       results.push({
         merchantId: merchant.id,
         merchantName: merchant.name,
@@ -201,7 +402,7 @@ export const runMonthlyBilling = async (
     }
   }
 
-  console.log(`[Billing] Monthly billing completed: ${invoicesGenerated} invoices, €${totalBilled.toFixed(2)} total`);
+  log.info('Monthly billing completed', { invoicesGenerated, totalBilled });
 
   return {
     processedAt: new Date().toISOString(),
@@ -234,29 +435,23 @@ export const getInvoiceDetails = async (invoiceId: string): Promise<InvoiceDetai
     return null;
   }
 
-  // Get transactions for the invoice period
-  const transactions = await prisma.transaction.findMany({
-    where: {
-      merchantId: invoice.merchantId,
-      createdAt: { gte: invoice.periodStart, lte: invoice.periodEnd },
-      paymentStatus: 'COMPLETED',
-      paymentMode: { in: ['CLAIM', 'ALLOCATION'] },
-    },
-    select: {
-      id: true,
-      amount: true,
-      impactKg: true,
-      paymentMode: true,
-      createdAt: true,
+  // The transactions billed on the invoice, as billed
+  const lines = await prisma.invoiceLine.findMany({
+    where: { invoiceId },
+    include: {
+      transaction: {
+        select: { id: true, skuCode: true, paymentMode: true, createdAt: true },
+      },
     },
+    orderBy: { transaction: { createdAt: 'asc' } },
   });
 
   return {
     ...invoice,
-    transactions: transactions.map(t => ({
-      ...t,
-      amount: Number(t.amount),
-      impactKg: Number(t.impactKg),
+    transactions: lines.map(line => ({
+      ...line.transaction,
+      amount: Number(line.amount),
+      impactKg: Number(line.impactKg),
     })),
   };
 };
@@ -273,6 +468,54 @@ export const getMerchantInvoices = async (
   });
 };
 
+// ============================================
+// INVOICE DOCUMENTS
+// ============================================
+
+const toInvoiceDocument = (details: InvoiceDetails & { number: string }): { filename: string; pdf: Buffer } => ({
+  filename: `invoice-${details.number.replace('/', '-')}.pdf`,
+  pdf: getInvoicePdf(details),
+});
+
+const isNumbered = (details: InvoiceDetails | null): details is InvoiceDetails & { number: string } =>
+  !!details?.number;
+
+// PDF of an issued invoice, null if the invoice doesn't exist or has no number yet
+export const getInvoiceDocument = async (
+  invoiceId: string
+): Promise<{ filename: string; pdf: Buffer } | null> => {
+  const details = await getInvoiceDetails(invoiceId);
+  return isNumbered(details) ? toInvoiceDocument(details) : null;
+};
+
+// Email the "invoice issued" notice with the PDF to the merchant
+// Returns whether it was delivered; failures are logged, never thrown
+export const sendInvoice = async (invoiceId: string): Promise<boolean> => {
+  try {
+    const details = await getInvoiceDetails(invoiceId);
+    if (!isNumbered(details)) return false;
+
+    const document = toInvoiceDocument(details);
+    const sent = await sendInvoiceIssuedEmail(details.merchant.email, {
+      merchantName: details.billingName || details.merchant.name,
+      number: details.number,
+      amount: Number(details.amount),
+      periodStart: details.periodStart,
+      periodEnd: details.periodEnd,
+      filename: document.filename,
+      pdf: document.pdf,
+    });
+
+    if (sent) {
+      await prisma.invoice.update({ where: { id: invoiceId }, data: { emailedAt: new Date() } });
+    }
+    return sent;
+  } catch (error) {
+    log.error('Invoice email failed', { invoiceId, error });
+    return false;
+  }
+};
+
 // ============================================
 // INVOICE PAYMENT
 // ============================================
@@ -288,10 +531,159 @@ export const markInvoicePaid = async (
       paid: true,
       paidAt: new Date(),
       stripePaymentId,
+      paymentProcessingAt: null,
+      paymentError: null,
     },
   });
 };
 
+// Payment intents for invoices carry this metadata, so the webhook can tell them from wallet payments
+const INVOICE_PAYMENT_TYPE = 'invoice';
+
+export const isInvoicePayment = (paymentIntent: Stripe.PaymentIntent): boolean =>
+  paymentIntent.metadata?.type === INVOICE_PAYMENT_TYPE && !!paymentIntent.metadata.invoiceId;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Intents the merchant can still complete
+const REUSABLE_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+// Payment intent for an open invoice (card or SEPA debit), reusing the last one if still open
+// Returns null if Stripe is not configured
+export const getOrCreateInvoicePaymentIntent = async (
+  invoice: Invoice,
+  merchant: Pick<Merchant, 'id' | 'name' | 'email'>
+): Promise<InvoicePaymentIntent | null> => {
+  if (!stripe) return null;
+
+  const amount = Number(invoice.amount);
+
+  if (invoice.stripePaymentId) {
+    try {
+      const existing = await stripe.paymentIntents.retrieve(invoice.stripePaymentId);
+      if (
+        REUSABLE_INTENT_STATUSES.includes(existing.status) &&
+        existing.amount === toCents(amount) &&
+        existing.client_secret
+      ) {
+        return { clientSecret: existing.client_secret, paymentIntentId: existing.id, amount };
+      }
+    } catch (error) {
+      // Set by an admin, or no longer retrievable: start a new one
+      log.info('Invoice payment intent not reusable, creating a new one', { invoiceId: invoice.id, error });
+    }
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: toCents(amount),
+    currency: 'eur',
+    payment_method_types: ['card', 'sepa_debit'],
+    description: `CSR26 invoice ${invoice.periodStart.toISOString().slice(0, 7)} - ${merchant.name}`,
+    receipt_email: merchant.email,
+    metadata: {
+      type: INVOICE_PAYMENT_TYPE,
+      invoiceId: invoice.id,
+      merchantId: merchant.id,
+    },
+  });
+
+  await prisma.invoice.update({
+    where: { id: invoice.id },
+    data: { stripePaymentId: paymentIntent.id, paymentError: null },
+  });
+
+  log.info('Invoice payment started', { invoiceId: invoice.id, paymentIntentId: paymentIntent.id, amount });
+
+  return { clientSecret: paymentIntent.client_secret!, paymentIntentId: paymentIntent.id, amount };
+};
+
+// Reconcile an invoice with the state of its payment intent (webhook or confirmation after checkout)
+// Idempotent: a paid invoice is never changed again
+// Returns null if the intent is not for a known invoice
+export const syncInvoicePayment = async (
+  paymentIntent: Stripe.PaymentIntent
+): Promise<InvoicePaymentSyncResult | null> => {
+  const invoiceId = paymentIntent.metadata?.invoiceId;
+  if (!invoiceId) return null;
+
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice) return null;
+
+  if (invoice.paid) {
+    return { invoiceId, state: 'PAID', updated: false, message: `Invoice ${invoiceId} already paid` };
+  }
+
+  if (paymentIntent.status === 'succeeded') {
+    // Only the full amount settles the invoice
+    const expected = toCents(Number(invoice.amount));
+    if (paymentIntent.amount_received < expected) {
+      const error = `Received €${(paymentIntent.amount_received / 100).toFixed(2)} of €${(expected / 100).toFixed(2)}`;
+      await prisma.invoice.update({ where: { id: invoiceId }, data: { paymentError: error, paymentProcessingAt: null } });
+      log.warn('Invoice payment amount mismatch', { invoiceId, paymentIntentId: paymentIntent.id, error });
+      return { invoiceId, state: 'FAILED', updated: true, message: `Invoice ${invoiceId} not settled: ${error}` };
+    }
+
+    // IDEMPOTENCY: the webhook and the confirmation call may race
+    const claimed = await prisma.invoice.updateMany({
+      where: { id: invoiceId, paid: false },
+      data: {
+        paid: true,
+        paidAt: new Date(),
+        stripePaymentId: paymentIntent.id,
+        paymentProcessingAt: null,
+        paymentError: null,
+      },
+    });
+
+    if (claimed.count > 0) {
+      log.info('Invoice paid', { invoiceId, paymentIntentId: paymentIntent.id });
+    }
+    return { invoiceId, state: 'PAID', updated: claimed.count > 0, message: `Invoice ${invoiceId} paid` };
+  }
+
+  // Events for an intent the merchant abandoned don't touch the current attempt
+  if (invoice.stripePaymentId !== paymentIntent.id) {
+    return { invoiceId, state: 'PENDING', updated: false, message: `Payment intent ${paymentIntent.id} is not the current payment of invoice ${invoiceId}` };
+  }
+
+  if (paymentIntent.status === 'processing') {
+    if (invoice.paymentProcessingAt) {
+      return { invoiceId, state: 'PROCESSING', updated: false, message: `Invoice ${invoiceId} payment already processing` };
+    }
+    await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: { paymentProcessingAt: new Date(), paymentError: null },
+    });
+    return { invoiceId, state: 'PROCESSING', updated: true, message: `Invoice ${invoiceId} payment processing` };
+  }
+
+  const failed = paymentIntent.status === 'canceled' || !!paymentIntent.last_payment_error;
+  if (failed) {
+    const error = paymentIntent.last_payment_error?.message ?? 'Payment was cancelled';
+    await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: { paymentProcessingAt: null, paymentError: error },
+    });
+    log.warn('Invoice payment failed', { invoiceId, paymentIntentId: paymentIntent.id, error });
+    return { invoiceId, state: 'FAILED', updated: true, message: `Invoice ${invoiceId} payment failed: ${error}` };
+  }
+
+  return { invoiceId, state: 'PENDING', updated: false, message: `Invoice ${invoiceId} payment awaiting the merchant` };
+};
+
+// Reconcile an invoice with its current payment intent, fetched from Stripe
+// Returns null if Stripe is not configured or the invoice has no payment intent
+export const refreshInvoicePayment = async (invoice: Invoice): Promise<InvoicePaymentSyncResult | null> => {
+  if (!stripe || !invoice.stripePaymentId) return null;
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(invoice.stripePaymentId);
+  return syncInvoicePayment(paymentIntent);
+};
+
 // ============================================
 // BILLING STATISTICS
 // ============================================
@@ -359,3 +751,67 @@ export const getMerchantsWithBalance = async (): Promise<{
     totalUnpaid: m.invoices.reduce((sum, inv) => sum + Number(inv.amount), 0),
   }));
 };
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+// Compare every merchant's balance with the sum of its unbilled transactions
+// They move together (transaction, reversal, invoice), so a difference means a balance
+// was changed by hand or an update was lost
+export const getBillingReconciliation = async (): Promise<BillingReconciliationReport> => {
+  const [merchants, unbilled] = await Promise.all([
+    prisma.merchant.findMany({
+      select: { id: true, name: true, currentBalance: true },
+    }),
+    prisma.transaction.groupBy({
+      by: ['merchantId'],
+      where: {
+        merchantId: { not: null },
+        paymentMode: { in: BILLED_PAYMENT_MODES },
+        billedInvoiceId: null,
+        prepaid: false,
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+      _min: { createdAt: true },
+    }),
+  ]);
+
+  const unbilledByMerchant = new Map(unbilled.map((u) => [u.merchantId, u]));
+
+  const rows: MerchantBillingReconciliation[] = merchants
+    .map((m) => {
+      const u = unbilledByMerchant.get(m.id);
+      const currentBalance = Number(m.currentBalance);
+      const unbilledAmount = roundCents(Number(u?._sum.amount ?? 0));
+      const difference = roundCents(currentBalance - unbilledAmount);
+
+      return {
+        merchantId: m.id,
+        merchantName: m.name,
+        currentBalance,
+        unbilledAmount,
+        unbilledTransactions: u?._count._all ?? 0,
+        oldestUnbilledAt: u?._min.createdAt ?? null,
+        difference,
+        mismatched: difference !== 0,
+      };
+    })
+    .filter((row) => row.currentBalance !== 0 || row.unbilledTransactions > 0)
+    .sort((a, b) => Number(b.mismatched) - Number(a.mismatched) || Math.abs(b.difference) - Math.abs(a.difference));
+
+  const mismatchedCount = rows.filter((row) => row.mismatched).length;
+  if (mismatchedCount > 0) {
+    log.warn('Merchant balances out of line with unbilled transactions', { mismatchedCount });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    merchantsChecked: merchants.length,
+    mismatchedCount,
+    totalBalance: roundCents(rows.reduce((sum, row) => sum + row.currentBalance, 0)),
+    totalUnbilled: roundCents(rows.reduce((sum, row) => sum + row.unbilledAmount, 0)),
+    merchants: rows,
+  };
+};
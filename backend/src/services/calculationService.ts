@@ -1,19 +1,34 @@
 import { prisma } from '../lib/prisma.js';
-import type { ImpactCalculation, MaturationBreakdown, UserImpactSummary } from '../types/index.js';
+import type { Prisma, MaturationSchedule } from '@prisma/client';
+import type {
+  ImpactCalculation,
+  MaturationBreakdown,
+  MaturationTranche,
+  MaturationTrancheBreakdown,
+  ResolvedMaturationSchedule,
+  UserImpactSummary,
+} from '../types/index.js';
 import { exportUserToCorsair } from './corsairService.js';
+import { recordLedgerEntry } from './ledgerService.js';
+import { accruePartnerCommission, clawBackPartnerCommission } from './partnerCommissionService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('calculation');
 
 // ============================================
-// MATURATION CONSTANTS (5/45/50 Rule)
+// MATURATION CONSTANTS (built-in 5/45/50 Rule)
 // ============================================
 
-// Percentages for each maturation phase
-const IMMEDIATE_PERCENT = 0.05;  // 5% immediate
-const MIDTERM_PERCENT = 0.45;    // 45% at 40 weeks
-const FINAL_PERCENT = 0.50;      // 50% at 80 weeks
-
-// Weeks until maturation
-const MIDTERM_WEEKS = 40;
-const FINAL_WEEKS = 80;
+// Used when no schedule is assigned and DEFAULT_MATURATION_SCHEDULE is not set
+export const STANDARD_MATURATION_SCHEDULE: ResolvedMaturationSchedule = {
+  id: null,
+  name: 'Standard 5/45/50',
+  tranches: [
+    { label: 'Immediate', percent: 5, weeks: 0 },   // 5% immediate
+    { label: 'Mid-term', percent: 45, weeks: 40 },  // 45% at 40 weeks
+    { label: 'Final', percent: 50, weeks: 80 },     // 50% at 80 weeks
+  ],
+};
 
 // ============================================
 // SETTING HELPERS
@@ -37,58 +52,214 @@ export const getCertificationThreshold = async (): Promise<number> => {
   return parseFloat(value);
 };
 
+// ============================================
+// MATURATION SCHEDULES
+// ============================================
+
+// Validate schedule tranches from a request body
+// Returns an error message, or null when the tranches are valid
+export const validateMaturationTranches = (tranches: unknown): string | null => {
+  if (!Array.isArray(tranches) || tranches.length === 0) {
+    return 'At least one tranche is required';
+  }
+
+  let totalPercent = 0;
+  let previousWeeks = -1;
+
+  for (const tranche of tranches as Partial<MaturationTranche>[]) {
+    if (!tranche || typeof tranche.label !== 'string' || !tranche.label.trim()) {
+      return 'Each tranche needs a label';
+    }
+    if (typeof tranche.percent !== 'number' || tranche.percent <= 0) {
+      return `Tranche "${tranche.label}" needs a positive percent`;
+    }
+    if (typeof tranche.weeks !== 'number' || !Number.isInteger(tranche.weeks) || tranche.weeks < 0) {
+      return `Tranche "${tranche.label}" needs a whole number of weeks (0 or more)`;
+    }
+    if (tranche.weeks <= previousWeeks) {
+      return 'Tranches must be ordered by weeks, each later than the previous';
+    }
+
+    totalPercent += tranche.percent;
+    previousWeeks = tranche.weeks;
+  }
+
+  if (Math.abs(totalPercent - 100) > 0.001) {
+    return `Tranche percents must sum to 100 (got ${totalPercent})`;
+  }
+
+  return null;
+};
+
+// Convert a stored schedule to its resolved form
+const toResolvedSchedule = (schedule: MaturationSchedule): ResolvedMaturationSchedule => ({
+  id: schedule.id,
+  name: schedule.name,
+  tranches: schedule.tranches as unknown as MaturationTranche[],
+});
+
+// Get the global default schedule (Setting DEFAULT_MATURATION_SCHEDULE holds its name)
+export const getDefaultMaturationSchedule = async (): Promise<ResolvedMaturationSchedule> => {
+  const name = await getSettingValue('DEFAULT_MATURATION_SCHEDULE', '');
+
+  if (name) {
+    const schedule = await prisma.maturationSchedule.findUnique({ where: { name } });
+    if (schedule?.active) {
+      return toResolvedSchedule(schedule);
+    }
+  }
+
+  return STANDARD_MATURATION_SCHEDULE;
+};
+
+// Resolve the maturation schedule for a transaction
+// Priority: SKU → SKU's merchant / Merchant → Default Setting → built-in 5/45/50
+export const resolveMaturationSchedule = async (
+  source: { skuCode?: string | null; merchantId?: string | null } = {}
+): Promise<ResolvedMaturationSchedule> => {
+  if (source.skuCode) {
+    const sku = await prisma.sku.findUnique({
+      where: { code: source.skuCode },
+      select: {
+        maturationSchedule: true,
+        merchant: { select: { maturationSchedule: true } },
+      },
+    });
+
+    if (sku?.maturationSchedule?.active) {
+      return toResolvedSchedule(sku.maturationSchedule);
+    }
+    if (sku?.merchant?.maturationSchedule?.active) {
+      return toResolvedSchedule(sku.merchant.maturationSchedule);
+    }
+  }
+
+  if (source.merchantId) {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: source.merchantId },
+      select: { maturationSchedule: true },
+    });
+
+    if (merchant?.maturationSchedule?.active) {
+      return toResolvedSchedule(merchant.maturationSchedule);
+    }
+  }
+
+  return getDefaultMaturationSchedule();
+};
+
 // ============================================
 // MATURATION CALCULATIONS
 // ============================================
 
 // Calculate maturation breakdown for a given impact
-export const calculateMaturationBreakdown = (impactKg: number, transactionDate: Date = new Date()): MaturationBreakdown => {
-  const immediateKg = impactKg * IMMEDIATE_PERCENT;
-  const midTermKg = impactKg * MIDTERM_PERCENT;
-  const finalKg = impactKg * FINAL_PERCENT;
-
-  // Calculate maturation dates
-  const midTermDate = new Date(transactionDate);
-  midTermDate.setDate(midTermDate.getDate() + MIDTERM_WEEKS * 7);
+export const calculateMaturationBreakdown = (
+  impactKg: number,
+  schedule: ResolvedMaturationSchedule = STANDARD_MATURATION_SCHEDULE,
+  transactionDate: Date = new Date()
+): MaturationBreakdown => {
+  const tranches: MaturationTrancheBreakdown[] = schedule.tranches.map((tranche) => {
+    // Calculate maturation date
+    const maturesAt = new Date(transactionDate);
+    maturesAt.setDate(maturesAt.getDate() + tranche.weeks * 7);
+
+    return {
+      ...tranche,
+      impactKg: impactKg * (tranche.percent / 100),
+      maturesAt,
+    };
+  });
 
-  const finalDate = new Date(transactionDate);
-  finalDate.setDate(finalDate.getDate() + FINAL_WEEKS * 7);
+  // Tranches with no waiting period mature as soon as the transaction is credited
+  const immediateKg = tranches
+    .filter((tranche) => tranche.weeks === 0)
+    .reduce((sum, tranche) => sum + tranche.impactKg, 0);
 
   return {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
     totalKg: impactKg,
     immediateKg,
-    midTermKg,
-    finalKg,
-    midTermMaturesAt: midTermDate,
-    finalMaturesAt: finalDate,
-    immediatePercent: IMMEDIATE_PERCENT * 100,
-    midTermPercent: MIDTERM_PERCENT * 100,
-    finalPercent: FINAL_PERCENT * 100,
+    pendingKg: impactKg - immediateKg,
+    tranches,
   };
 };
 
-// Calculate how much impact has matured for a transaction
-export const calculateMaturedImpact = (
-  immediateKg: number,
-  midTermKg: number,
-  finalKg: number,
-  midTermMaturesAt: Date | null,
-  finalMaturesAt: Date | null
-): number => {
-  const now = new Date();
-  let matured = immediateKg; // 5% is always matured immediately
-
-  if (midTermMaturesAt && now >= midTermMaturesAt) {
-    matured += midTermKg; // Add 45% if matured
+// Serialize a breakdown's tranches for Transaction.maturationTranches
+export const serializeMaturationTranches = (maturation: MaturationBreakdown): Prisma.InputJsonValue =>
+  maturation.tranches.map((tranche) => ({
+    label: tranche.label,
+    percent: tranche.percent,
+    weeks: tranche.weeks,
+    impactKg: tranche.impactKg,
+    maturesAt: tranche.maturesAt.toISOString(),
+  }));
+
+// Read the tranches stored on a transaction
+// Falls back to the legacy 5/45/50 columns, then to the built-in schedule
+export const getTransactionTranches = (transaction: {
+  impactKg: Prisma.Decimal | number;
+  maturationTranches: Prisma.JsonValue | null;
+  immediateImpactKg: Prisma.Decimal | null;
+  midTermImpactKg: Prisma.Decimal | null;
+  finalImpactKg: Prisma.Decimal | null;
+  midTermMaturesAt: Date | null;
+  finalMaturesAt: Date | null;
+  createdAt: Date;
+}): MaturationTrancheBreakdown[] => {
+  if (Array.isArray(transaction.maturationTranches)) {
+    return (transaction.maturationTranches as unknown as Array<MaturationTranche & { impactKg: number; maturesAt: string }>)
+      .map((tranche) => ({
+        label: tranche.label,
+        percent: tranche.percent,
+        weeks: tranche.weeks,
+        impactKg: Number(tranche.impactKg),
+        maturesAt: new Date(tranche.maturesAt),
+      }));
   }
 
-  if (finalMaturesAt && now >= finalMaturesAt) {
-    matured += finalKg; // Add 50% if matured
-  }
-
-  return matured;
+  const fallback = calculateMaturationBreakdown(
+    Number(transaction.impactKg),
+    STANDARD_MATURATION_SCHEDULE,
+    transaction.createdAt
+  ).tranches;
+
+  const [immediate, midTerm, final] = fallback as [
+    MaturationTrancheBreakdown,
+    MaturationTrancheBreakdown,
+    MaturationTrancheBreakdown,
+  ];
+
+  return [
+    {
+      ...immediate,
+      impactKg: transaction.immediateImpactKg !== null ? Number(transaction.immediateImpactKg) : immediate.impactKg,
+    },
+    {
+      ...midTerm,
+      impactKg: transaction.midTermImpactKg !== null ? Number(transaction.midTermImpactKg) : midTerm.impactKg,
+      maturesAt: transaction.midTermMaturesAt || midTerm.maturesAt,
+    },
+    {
+      ...final,
+      impactKg: transaction.finalImpactKg !== null ? Number(transaction.finalImpactKg) : final.impactKg,
+      maturesAt: transaction.finalMaturesAt || final.maturesAt,
+    },
+  ];
 };
 
+// Fields needed by getTransactionTranches
+const TRANCHE_SELECT = {
+  impactKg: true,
+  maturationTranches: true,
+  immediateImpactKg: true,
+  midTermImpactKg: true,
+  finalImpactKg: true,
+  midTermMaturesAt: true,
+  finalMaturesAt: true,
+  createdAt: true,
+} as const;
+
 // Calculate total matured impact for a user
 export const calculateUserMaturedImpact = async (userId: string): Promise<UserImpactSummary> => {
   const now = new Date();
@@ -100,70 +271,61 @@ export const calculateUserMaturedImpact = async (userId: string): Promise<UserIm
       paymentStatus: 'COMPLETED',
     },
     select: {
-      impactKg: true,
-      immediateImpactKg: true,
-      midTermImpactKg: true,
-      finalImpactKg: true,
-      midTermMaturesAt: true,
-      finalMaturesAt: true,
-      createdAt: true,
+      ...TRANCHE_SELECT,
+      maturationScheduleId: true,
     },
   });
 
   let totalImpactKg = 0;
   let maturedImpactKg = 0;
   let pendingImpactKg = 0;
+  const scheduleIds = new Set<string | null>();
 
   for (const tx of transactions) {
-    const impactKg = Number(tx.impactKg);
-    totalImpactKg += impactKg;
-
-    // If maturation fields are set, use them; otherwise calculate from total impact
-    const immediate = tx.immediateImpactKg !== null ? Number(tx.immediateImpactKg) : impactKg * IMMEDIATE_PERCENT;
-    const midTerm = tx.midTermImpactKg !== null ? Number(tx.midTermImpactKg) : impactKg * MIDTERM_PERCENT;
-    const final = tx.finalImpactKg !== null ? Number(tx.finalImpactKg) : impactKg * FINAL_PERCENT;
-
-    // Calculate maturation dates if not set
-    const midTermDate = tx.midTermMaturesAt || new Date(tx.createdAt.getTime() + MIDTERM_WEEKS * 7 * 24 * 60 * 60 * 1000);
-    const finalDate = tx.finalMaturesAt || new Date(tx.createdAt.getTime() + FINAL_WEEKS * 7 * 24 * 60 * 60 * 1000);
-
-    // Add immediate impact (always matured)
-    maturedImpactKg += immediate;
-
-    // Check mid-term maturation
-    if (now >= midTermDate) {
-      maturedImpactKg += midTerm;
-    } else {
-      pendingImpactKg += midTerm;
+    totalImpactKg += Number(tx.impactKg);
+    scheduleIds.add(tx.maturationScheduleId);
+
+    // Each tranche is matured once its date has passed
+    for (const tranche of getTransactionTranches(tx)) {
+      if (now >= tranche.maturesAt) {
+        maturedImpactKg += tranche.impactKg;
+      } else {
+        pendingImpactKg += tranche.impactKg;
+      }
     }
+  }
 
-    // Check final maturation
-    if (now >= finalDate) {
-      maturedImpactKg += final;
-    } else {
-      pendingImpactKg += final;
-    }
+  // Schedules the user's impact follows (transactions without one use the built-in schedule)
+  const schedules: UserImpactSummary['schedules'] = [];
+  if (scheduleIds.delete(null)) {
+    schedules.push(STANDARD_MATURATION_SCHEDULE);
+  }
+  if (scheduleIds.size > 0) {
+    const stored = await prisma.maturationSchedule.findMany({
+      where: { id: { in: [...scheduleIds] as string[] } },
+      orderBy: { name: 'asc' },
+    });
+    schedules.push(...stored.map(toResolvedSchedule));
+  }
+  if (schedules.length === 0) {
+    schedules.push(await getDefaultMaturationSchedule());
   }
 
-  // Get next maturation events
-  const upcomingMaturations = await prisma.transaction.findMany({
+  // Get next maturation events (pending tranches of completed transactions)
+  const upcomingMaturations = await prisma.maturationEvent.findMany({
     where: {
       userId,
-      paymentStatus: 'COMPLETED',
-      OR: [
-        { midTermMaturesAt: { gt: now } },
-        { finalMaturesAt: { gt: now } },
-      ],
+      maturedAt: null,
+      cancelledAt: null,
+      maturesAt: { gt: now },
+      transaction: { paymentStatus: 'COMPLETED' },
     },
     select: {
-      midTermImpactKg: true,
-      finalImpactKg: true,
-      midTermMaturesAt: true,
-      finalMaturesAt: true,
+      impactKg: true,
+      maturesAt: true,
+      label: true,
     },
-    orderBy: [
-      { midTermMaturesAt: 'asc' },
-    ],
+    orderBy: { maturesAt: 'asc' },
     take: 3,
   });
 
@@ -172,13 +334,11 @@ export const calculateUserMaturedImpact = async (userId: string): Promise<UserIm
     maturedImpactKg,
     pendingImpactKg,
     upcomingMaturations: upcomingMaturations.map(m => ({
-      amount: m.midTermMaturesAt && m.midTermMaturesAt > now
-        ? Number(m.midTermImpactKg)
-        : Number(m.finalImpactKg),
-      date: m.midTermMaturesAt && m.midTermMaturesAt > now
-        ? m.midTermMaturesAt
-        : m.finalMaturesAt!,
-    })).filter(m => m.date !== null),
+      amount: Number(m.impactKg),
+      date: m.maturesAt,
+      label: m.label,
+    })),
+    schedules: schedules.map(({ name, tranches }) => ({ name, tranches })),
   };
 };
 
@@ -188,7 +348,10 @@ export const calculateUserMaturedImpact = async (userId: string): Promise<UserIm
 
 // Calculate impact from amount
 // Formula: Impact (kg) = Amount (€) ÷ Price per kg
-export const calculateImpact = async (amountEur: number): Promise<ImpactCalculation> => {
+export const calculateImpact = async (
+  amountEur: number,
+  schedule?: ResolvedMaturationSchedule
+): Promise<ImpactCalculation> => {
   const pricePerKg = await getPricePerKg();
   const threshold = await getCertificationThreshold();
 
@@ -206,8 +369,8 @@ export const calculateImpact = async (amountEur: number): Promise<ImpactCalculat
   const belowThreshold = amountEur < threshold;
   const thresholdProgress = Math.min((amountEur / threshold) * 100, 100);
 
-  // Calculate maturation breakdown
-  const maturation = calculateMaturationBreakdown(impactKg);
+  // Calculate maturation breakdown (global default schedule unless one is given)
+  const maturation = calculateMaturationBreakdown(impactKg, schedule ?? await getDefaultMaturationSchedule());
 
   return {
     amount: amountEur,
@@ -225,7 +388,8 @@ export const calculateImpact = async (amountEur: number): Promise<ImpactCalculat
 // Merchant cost = Weight (kg) × €0.11 × Multiplier
 export const calculateWeightBasedImpact = async (
   weightGrams: number,
-  multiplier: number = 1
+  multiplier: number = 1,
+  schedule?: ResolvedMaturationSchedule
 ): Promise<ImpactCalculation> => {
   const pricePerKg = await getPricePerKg();
   const threshold = await getCertificationThreshold();
@@ -246,8 +410,8 @@ export const calculateWeightBasedImpact = async (
   const belowThreshold = amountEur < threshold;
   const thresholdProgress = Math.min((amountEur / threshold) * 100, 100);
 
-  // Calculate maturation breakdown
-  const maturation = calculateMaturationBreakdown(impactKg);
+  // Calculate maturation breakdown (global default schedule unless one is given)
+  const maturation = calculateMaturationBreakdown(impactKg, schedule ?? await getDefaultMaturationSchedule());
 
   return {
     amount: amountEur,
@@ -297,9 +461,11 @@ export const checkThresholdUpgrade = async (userId: string): Promise<boolean> =>
 
     // Only certify if actual completed transaction amounts meet threshold
     if (actualTransactionTotal < threshold) {
-      console.warn(
-        `[Threshold Check] User ${userId} has walletBalance €${balance.toFixed(2)} but only €${actualTransactionTotal.toFixed(2)} in completed transactions. Skipping certification.`
-      );
+      log.warn('Wallet balance not backed by completed transactions, certification skipped', {
+        userId,
+        walletBalance: balance,
+        completedTotal: actualTransactionTotal,
+      });
       return false;
     }
 
@@ -314,7 +480,7 @@ export const checkThresholdUpgrade = async (userId: string): Promise<boolean> =>
       await exportUserToCorsair(userId);
     } catch (error) {
       // Log error but don't fail the upgrade
-      console.error(`[Corsair Export] Failed to export user ${userId}:`, error);
+      log.error('Corsair export after certification failed', { userId, error });
     }
 
     return true;
@@ -323,108 +489,381 @@ export const checkThresholdUpgrade = async (userId: string): Promise<boolean> =>
   return false;
 };
 
+// Check if a CERTIFIED user still meets the threshold after a credit was reversed
+// Like the upgrade check, this is based on COMPLETED transactions, not the wallet balance
+// A Corsair export already sent is not withdrawn
+export const checkThresholdDowngrade = async (userId: string): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { status: true },
+  });
+
+  if (!user || user.status !== 'CERTIFIED') {
+    return false;
+  }
+
+  const threshold = await getCertificationThreshold();
+  const completedTransactionsSum = await prisma.transaction.aggregate({
+    where: {
+      userId,
+      paymentStatus: 'COMPLETED',
+    },
+    _sum: {
+      amount: true,
+    },
+  });
+
+  const actualTransactionTotal = Number(completedTransactionsSum._sum.amount || 0);
+  if (actualTransactionTotal >= threshold) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { status: 'ACCUMULATION' },
+  });
+
+  log.warn('User downgraded to ACCUMULATION', { userId, completedTotal: actualTransactionTotal });
+
+  return true;
+};
+
+// Credit the wallet inside the caller's DB transaction (with maturation tracking)
+// Written to the wallet ledger, which also updates the cached User balances
+// When a transaction is given, its tranches are scheduled as maturation events and the partner's
+// commission is accrued
+const creditUserWallet = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amountEur: number,
+  impactKg: number,
+  source: { transactionId?: string; actorId?: string }
+): Promise<void> => {
+  // Split follows the transaction's stored tranches (built-in schedule without a transaction)
+  const tranches = source.transactionId
+    ? await scheduleMaturationEvents(source.transactionId, tx)
+    : calculateMaturationBreakdown(impactKg).tranches;
+
+  const immediateKg = tranches
+    .filter((tranche) => tranche.weeks === 0)
+    .reduce((sum, tranche) => sum + tranche.impactKg, 0);
+
+  await recordLedgerEntry({
+    userId,
+    reason: 'TRANSACTION',
+    amountEur,
+    impactKg,
+    // Add immediate tranches to matured impact
+    maturedKg: immediateKg,
+    // Add the remaining tranches to pending impact
+    pendingKg: impactKg - immediateKg,
+    transactionId: source.transactionId,
+    actorId: source.actorId,
+  }, tx);
+
+  if (source.transactionId) {
+    await accruePartnerCommission(tx, source.transactionId);
+  }
+};
+
 // Update user wallet after transaction (with maturation tracking)
+// Ledger entry, maturation events and partner commission are written in one DB transaction
 export const updateUserWallet = async (
   userId: string,
   amountEur: number,
-  impactKg: number
+  impactKg: number,
+  source: { transactionId?: string; actorId?: string } = {}
 ): Promise<void> => {
-  // Calculate maturation breakdown
-  const maturation = calculateMaturationBreakdown(impactKg);
+  await prisma.$transaction((tx) => creditUserWallet(tx, userId, amountEur, impactKg, source));
 
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      walletBalance: { increment: amountEur },
-      walletImpactKg: { increment: impactKg },
-      // Add immediate 5% to matured impact
-      maturedImpactKg: { increment: maturation.immediateKg },
-      // Add remaining 95% to pending impact
-      pendingImpactKg: { increment: maturation.midTermKg + maturation.finalKg },
-    },
+  // Check if user should be upgraded
+  await checkThresholdUpgrade(userId);
+};
+
+// Complete a PENDING/FAILED transaction and credit the wallet (payment succeeded, or completed by an admin)
+// IDEMPOTENCY: the row is claimed first, so the wallet is credited once however many callers race
+// (Stripe webhook, frontend confirm, replays) and a refunded/disputed/reversed transaction is never re-credited
+// The claim and the credit share one DB transaction: if crediting fails, the status is rolled back
+// and a retry can complete it
+// Returns false when the transaction was not PENDING/FAILED
+export const completeTransaction = async (
+  transactionId: string,
+  source: { actorId?: string } = {}
+): Promise<boolean> => {
+  const completed = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.transaction.updateMany({
+      where: { id: transactionId, paymentStatus: { in: ['PENDING', 'FAILED'] } },
+      data: { paymentStatus: 'COMPLETED' },
+    });
+
+    if (claimed.count !== 1) {
+      return null;
+    }
+
+    const transaction = await tx.transaction.findUniqueOrThrow({
+      where: { id: transactionId },
+      select: { userId: true, amount: true, impactKg: true },
+    });
+
+    await creditUserWallet(
+      tx,
+      transaction.userId,
+      Number(transaction.amount),
+      Number(transaction.impactKg),
+      { transactionId, actorId: source.actorId }
+    );
+
+    return transaction;
   });
 
+  if (!completed) {
+    return false;
+  }
+
   // Check if user should be upgraded
-  await checkThresholdUpgrade(userId);
+  await checkThresholdUpgrade(completed.userId);
+  return true;
+};
+
+// Create one maturation event per tranche of a credited transaction
+// Immediate tranches (weeks = 0) are credited as matured by updateUserWallet, so they are recorded as already matured
+// Safe to call twice: existing tranches are skipped
+export const scheduleMaturationEvents = async (
+  transactionId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<MaturationTrancheBreakdown[]> => {
+  const transaction = await client.transaction.findUnique({
+    where: { id: transactionId },
+    select: {
+      ...TRANCHE_SELECT,
+      userId: true,
+    },
+  });
+
+  if (!transaction) {
+    return [];
+  }
+
+  const tranches = getTransactionTranches(transaction);
+  const now = new Date();
+
+  await client.maturationEvent.createMany({
+    data: tranches.map((tranche, index) => ({
+      transactionId,
+      userId: transaction.userId,
+      trancheIndex: index,
+      label: tranche.label,
+      impactKg: tranche.impactKg,
+      maturesAt: tranche.maturesAt,
+      maturedAt: tranche.weeks === 0 ? now : null,
+    })),
+    skipDuplicates: true,
+  });
+
+  return tranches;
+};
+
+export type ReversalStatus = 'REFUNDED' | 'DISPUTED' | 'REVERSED';
+
+// Claim a completed transaction for reversal and debit what it credited to the wallet
+// Moves the transaction to the given status, cancels its tranches, writes a REVERSAL ledger entry
+// and claws back the partner's commission
+// Runs inside the caller's $transaction; returns false when the transaction is no longer COMPLETED
+export const debitTransactionCredit = async (
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  status: ReversalStatus,
+  source: { actorId?: string; note?: string } = {}
+): Promise<boolean> => {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: transactionId },
+    select: {
+      ...TRANCHE_SELECT,
+      userId: true,
+      amount: true,
+    },
+  });
+
+  if (!transaction) {
+    return false;
+  }
+
+  // Claim the transaction; a concurrent reversal may already have moved it
+  const claimed = await tx.transaction.updateMany({
+    where: { id: transactionId, paymentStatus: 'COMPLETED' },
+    data: { paymentStatus: status },
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const now = new Date();
+
+  // Undo exactly what the transaction's ledger entries wrote (credit and maturations since):
+  // wallet adjustments only credit EUR and kg, without matured or pending kg
+  const written = await tx.walletLedgerEntry.aggregate({
+    where: { transactionId },
+    _sum: { amountEur: true, impactKg: true, maturedKg: true, pendingKg: true },
+    _count: { _all: true },
+  });
+
+  let amountEur = Number(written._sum.amountEur ?? 0);
+  let impactKg = Number(written._sum.impactKg ?? 0);
+  let maturedKg = Number(written._sum.maturedKg ?? 0);
+  let pendingKg = Number(written._sum.pendingKg ?? 0);
+
+  // Transactions credited before the ledger existed: split what was credited between
+  // matured and pending kg, from their maturation events or else their tranche dates
+  if (written._count._all === 0) {
+    amountEur = Number(transaction.amount);
+    impactKg = Number(transaction.impactKg);
+
+    const events = await tx.maturationEvent.findMany({
+      where: { transactionId, cancelledAt: null },
+      select: { impactKg: true, maturedAt: true },
+    });
+
+    if (events.length > 0) {
+      for (const event of events) {
+        if (event.maturedAt) {
+          maturedKg += Number(event.impactKg);
+        } else {
+          pendingKg += Number(event.impactKg);
+        }
+      }
+    } else {
+      for (const tranche of getTransactionTranches(transaction)) {
+        if (now >= tranche.maturesAt) {
+          maturedKg += tranche.impactKg;
+        } else {
+          pendingKg += tranche.impactKg;
+        }
+      }
+    }
+  }
+
+  await tx.maturationEvent.updateMany({
+    where: { transactionId, cancelledAt: null },
+    data: { cancelledAt: now },
+  });
+
+  await recordLedgerEntry({
+    userId: transaction.userId,
+    reason: 'REVERSAL',
+    amountEur: -amountEur,
+    impactKg: -impactKg,
+    maturedKg: -maturedKg,
+    pendingKg: -pendingKg,
+    transactionId,
+    actorId: source.actorId,
+    note: source.note ?? `Transaction ${status.toLowerCase()}`,
+  }, tx);
+
+  await clawBackPartnerCommission(tx, transactionId);
+
+  return true;
+};
+
+// Reverse the wallet credit of a completed transaction (refund, dispute)
+// Returns false when the transaction is not COMPLETED, so repeated calls are safe
+export const reverseWalletCredit = async (
+  transactionId: string,
+  status: Exclude<ReversalStatus, 'REVERSED'>,
+  source: { actorId?: string; note?: string } = {}
+): Promise<boolean> => {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    select: { userId: true },
+  });
+
+  if (!transaction) {
+    return false;
+  }
+
+  const reversed = await prisma.$transaction((tx) =>
+    debitTransactionCredit(tx, transactionId, status, source)
+  );
+
+  // Certification may no longer be backed by completed transactions
+  if (reversed) {
+    await checkThresholdDowngrade(transaction.userId);
+  }
+
+  return reversed;
 };
 
 // Update a specific transaction with maturation data
 export const updateTransactionMaturation = async (
   transactionId: string,
-  impactKg: number
+  impactKg: number,
+  schedule?: ResolvedMaturationSchedule
 ): Promise<void> => {
-  const maturation = calculateMaturationBreakdown(impactKg);
+  const maturation = calculateMaturationBreakdown(impactKg, schedule ?? await getDefaultMaturationSchedule());
 
   await prisma.transaction.update({
     where: { id: transactionId },
     data: {
-      immediateImpactKg: maturation.immediateKg,
-      midTermImpactKg: maturation.midTermKg,
-      finalImpactKg: maturation.finalKg,
-      midTermMaturesAt: maturation.midTermMaturesAt,
-      finalMaturesAt: maturation.finalMaturesAt,
+      maturationScheduleId: maturation.scheduleId,
+      maturationTranches: serializeMaturationTranches(maturation),
     },
   });
 };
 
 // Process matured impacts (run periodically via cron)
+// Each due tranche is claimed by setting maturedAt before its ledger entry is written,
+// so re-running (or running concurrently) never moves the same tranche twice
 export const processMaturedImpacts = async (): Promise<{ processed: number }> => {
   const now = new Date();
 
-  // Find transactions where mid-term has just matured
-  const midTermMatured = await prisma.transaction.findMany({
-    where: {
-      paymentStatus: 'COMPLETED',
-      midTermMaturesAt: { lte: now },
-      midTermImpactKg: { not: null },
-    },
-    select: {
-      id: true,
-      userId: true,
-      midTermImpactKg: true,
-    },
-  });
-
-  // Find transactions where final has just matured
-  const finalMatured = await prisma.transaction.findMany({
+  // Find pending tranches that are due
+  const dueEvents = await prisma.maturationEvent.findMany({
     where: {
-      paymentStatus: 'COMPLETED',
-      finalMaturesAt: { lte: now },
-      finalImpactKg: { not: null },
+      maturedAt: null,
+      cancelledAt: null,
+      maturesAt: { lte: now },
+      transaction: { paymentStatus: 'COMPLETED' },
     },
     select: {
       id: true,
       userId: true,
-      finalImpactKg: true,
+      transactionId: true,
+      label: true,
+      impactKg: true,
     },
+    orderBy: { maturesAt: 'asc' },
   });
 
-  // Update user matured/pending impacts
-  // Note: In production, this would be more sophisticated to avoid double-counting
   let processed = 0;
 
-  for (const tx of midTermMatured) {
-    const amount = Number(tx.midTermImpactKg);
-    await prisma.user.update({
-      where: { id: tx.userId },
-      data: {
-        maturedImpactKg: { increment: amount },
-        pendingImpactKg: { decrement: amount },
-      },
+  for (const event of dueEvents) {
+    const matured = await prisma.$transaction(async (tx) => {
+      // Claim the tranche; another run may have matured it in the meantime
+      const claimed = await tx.maturationEvent.updateMany({
+        where: { id: event.id, maturedAt: null, cancelledAt: null },
+        data: { maturedAt: now },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const amount = Number(event.impactKg);
+      await recordLedgerEntry({
+        userId: event.userId,
+        reason: 'MATURATION',
+        maturedKg: amount,
+        pendingKg: -amount,
+        transactionId: event.transactionId,
+        note: `${event.label} tranche matured`,
+      }, tx);
+
+      return true;
     });
-    processed++;
-  }
 
-  for (const tx of finalMatured) {
-    const amount = Number(tx.finalImpactKg);
-    await prisma.user.update({
-      where: { id: tx.userId },
-      data: {
-        maturedImpactKg: { increment: amount },
-        pendingImpactKg: { decrement: amount },
-      },
-    });
-    processed++;
+    if (matured) {
+      processed++;
+    }
   }
 
   return { processed };
@@ -0,0 +1,205 @@
+// CSR26 Claim Token Service
+// Single-use / N-use tokens printed in the QR codes of a merchant's CLAIM products,
+// so one photographed QR code can't be claimed without limit against the merchant's bill
+//
+// Token URL: /landing?sku=<code>&merchant=<id>&token=<token>
+// A valid token replaces the link signature: SKU and merchant come from the batch, amounts from the SKU
+
+import { prisma } from '../lib/prisma.js';
+import type { ClaimToken, ClaimTokenBatch, ClaimTokenStatus } from '@prisma/client';
+import crypto from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ClaimTokenWithBatch = ClaimToken & { batch: ClaimTokenBatch };
+
+export interface CreateClaimTokenBatchInput {
+  merchantId: string;
+  skuCode: string;
+  quantity: number;
+  maxUses: number;
+  expiresInDays?: number;
+  createdById?: string;
+}
+
+export interface ClaimTokenBatchSummary extends ClaimTokenBatch {
+  skuName: string;
+  counts: Record<ClaimTokenStatus, number>;
+}
+
+export interface ClaimTokenValidation {
+  valid: boolean;
+  token?: ClaimTokenWithBatch;
+  message?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_BATCH_QUANTITY = 10000;
+export const MAX_TOKEN_USES = 100;
+export const MAX_TOKEN_DAYS = 730;
+
+const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// ============================================
+// TOKENS
+// ============================================
+
+// 96 random bits, 16 URL-safe characters
+const generateToken = (): string => crypto.randomBytes(12).toString('base64url');
+
+// Landing page URL printed in the token's QR code
+export const getClaimTokenUrl = (token: string, batch: Pick<ClaimTokenBatch, 'skuCode' | 'merchantId'>): string => {
+  const query = new URLSearchParams({ sku: batch.skuCode, merchant: batch.merchantId, token });
+  return `${frontendUrl}/landing?${query.toString()}`;
+};
+
+// ============================================
+// BATCHES
+// ============================================
+
+// Generate a print run of tokens for one SKU
+export const createClaimTokenBatch = async (input: CreateClaimTokenBatchInput): Promise<ClaimTokenBatch> => {
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.claimTokenBatch.create({
+      data: {
+        merchantId: input.merchantId,
+        skuCode: input.skuCode,
+        quantity: input.quantity,
+        maxUses: input.maxUses,
+        expiresAt,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    await tx.claimToken.createMany({
+      data: Array.from({ length: input.quantity }, () => ({ batchId: batch.id, token: generateToken() })),
+    });
+
+    return batch;
+  });
+};
+
+// Merchant's batches, newest first, with token counts per status
+export const getClaimTokenBatches = async (merchantId: string): Promise<ClaimTokenBatchSummary[]> => {
+  // Keep statuses accurate between daily cron runs
+  await expireClaimTokens(merchantId);
+
+  const [batches, counts] = await Promise.all([
+    prisma.claimTokenBatch.findMany({
+      where: { merchantId },
+      include: { sku: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.claimToken.groupBy({
+      by: ['batchId', 'status'],
+      where: { batch: { merchantId } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return batches.map(({ sku, ...batch }) => {
+    const batchCounts: Record<ClaimTokenStatus, number> = { ISSUED: 0, REDEEMED: 0, EXPIRED: 0 };
+    for (const row of counts) {
+      if (row.batchId === batch.id) batchCounts[row.status] = row._count._all;
+    }
+    return { ...batch, skuName: sku.name, counts: batchCounts };
+  });
+};
+
+// CSV of a batch for the printer: one row per token
+export const getClaimTokenBatchCsv = async (batch: ClaimTokenBatch): Promise<string> => {
+  const tokens = await prisma.claimToken.findMany({
+    where: { batchId: batch.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const headers = ['Token', 'URL', 'SKU', 'Max Uses', 'Uses', 'Status', 'Expires At'];
+  const rows = tokens.map((t) => [
+    t.token,
+    getClaimTokenUrl(t.token, batch),
+    batch.skuCode,
+    String(batch.maxUses),
+    String(t.useCount),
+    t.status,
+    batch.expiresAt ? batch.expiresAt.toISOString() : '',
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')),
+  ].join('\n');
+};
+
+// ============================================
+// REDEMPTION
+// ============================================
+
+// Check a token from a landing URL without consuming it
+export const validateClaimToken = async (token: string): Promise<ClaimTokenValidation> => {
+  const record = await prisma.claimToken.findUnique({
+    where: { token },
+    include: { batch: true },
+  });
+
+  if (!record) {
+    return { valid: false, message: 'This code is not valid' };
+  }
+
+  if (record.status === 'REDEEMED') {
+    return { valid: false, message: 'This code has already been used' };
+  }
+
+  if (record.status === 'EXPIRED' || (record.batch.expiresAt && record.batch.expiresAt < new Date())) {
+    return { valid: false, message: 'This code has expired' };
+  }
+
+  return { valid: true, token: record };
+};
+
+// Consume one use of a validated token
+// Guarded on the use count read at validation, so two claims can't take the same use
+// Returns false if the token was used in between
+export const redeemClaimToken = async (token: ClaimTokenWithBatch): Promise<boolean> => {
+  const useCount = token.useCount + 1;
+
+  const { count } = await prisma.claimToken.updateMany({
+    where: { id: token.id, status: 'ISSUED', useCount: token.useCount },
+    data: {
+      useCount,
+      status: useCount >= token.batch.maxUses ? 'REDEEMED' : 'ISSUED',
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return count === 1;
+};
+
+// Give a use back when the transaction could not be created after redemption
+export const releaseClaimToken = async (tokenId: string): Promise<void> => {
+  await prisma.claimToken.updateMany({
+    where: { id: tokenId, useCount: { gt: 0 } },
+    data: { useCount: { decrement: 1 }, status: 'ISSUED' },
+  });
+};
+
+// Mark unused tokens of expired batches as EXPIRED (daily cron), returns the number of tokens updated
+export const expireClaimTokens = async (merchantId?: string): Promise<number> => {
+  const { count } = await prisma.claimToken.updateMany({
+    where: {
+      status: 'ISSUED',
+      batch: { expiresAt: { lt: new Date() }, ...(merchantId && { merchantId }) },
+    },
+    data: { status: 'EXPIRED' },
+  });
+
+  return count;
+};
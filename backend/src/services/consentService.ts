@@ -0,0 +1,156 @@
+// CSR26 Consent Service
+// Records which Terms / Privacy Policy version a user accepted, when and from where, and marketing opt-ins
+// Withdrawing keeps the record (withdrawnAt set) as proof of what was consented to before
+
+import { prisma } from '../lib/prisma.js';
+import type { Consent, ConsentType, Prisma } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ConsentSource = 'landing' | 'dashboard';
+
+export interface ConsentContext {
+  source: ConsentSource;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ConsentStatus {
+  type: ConsentType;
+  currentVersion: string;
+  // Latest consent of this type that wasn't withdrawn
+  active: Consent | null;
+  // Active consent is for the current version
+  upToDate: boolean;
+}
+
+export interface UserConsents {
+  consents: ConsentStatus[];
+  history: Consent[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Current version of each document, bump when the text changes
+// Must match LEGAL_VERSIONS in the frontend, shown on the Terms and Privacy pages
+export const CURRENT_CONSENT_VERSIONS: Record<ConsentType, string> = {
+  TERMS: '2026-01',
+  PRIVACY: '2026-10',
+  MARKETING: '2026-10',
+};
+
+export const CONSENT_TYPES: ConsentType[] = ['TERMS', 'PRIVACY', 'MARKETING'];
+
+// Accepting the Terms is part of the contract, it ends with the account, not by withdrawal
+export const WITHDRAWABLE_CONSENT_TYPES: ConsentType[] = ['PRIVACY', 'MARKETING'];
+
+// Users whose personal data may be shared with Corsair Connect:
+// no withdrawn PRIVACY consent, or accepted again since
+// Users without any record accepted the policy before consents were stored
+export const corsairSharingAllowedWhere: Prisma.UserWhereInput = {
+  OR: [
+    { consents: { none: { type: 'PRIVACY', withdrawnAt: { not: null } } } },
+    { consents: { some: { type: 'PRIVACY', withdrawnAt: null } } },
+  ],
+};
+
+// Users who opted in to marketing emails and haven't withdrawn
+export const marketingConsentWhere: Prisma.UserWhereInput = {
+  consents: { some: { type: 'MARKETING', withdrawnAt: null } },
+};
+
+// ============================================
+// RECORDING
+// ============================================
+
+// Give a consent for the current version, reuses an active consent for that version
+export const grantConsent = async (
+  userId: string,
+  type: ConsentType,
+  context: ConsentContext
+): Promise<Consent> => {
+  const version = CURRENT_CONSENT_VERSIONS[type];
+
+  const existing = await prisma.consent.findFirst({
+    where: { userId, type, version, withdrawnAt: null },
+  });
+  if (existing) return existing;
+
+  return prisma.consent.create({
+    data: {
+      userId,
+      type,
+      version,
+      source: context.source,
+      ip: context.ip ?? null,
+      userAgent: context.userAgent ?? null,
+    },
+  });
+};
+
+// Consents ticked on a landing form (register, createTransaction)
+// An unticked marketing box doesn't withdraw an earlier opt-in, that happens from the dashboard
+export const recordLandingConsents = async (
+  userId: string,
+  input: { termsAccepted?: boolean; marketingOptIn?: boolean },
+  context: Omit<ConsentContext, 'source'>
+): Promise<void> => {
+  const landingContext: ConsentContext = { ...context, source: 'landing' };
+
+  if (input.termsAccepted === true) {
+    await grantConsent(userId, 'TERMS', landingContext);
+    await grantConsent(userId, 'PRIVACY', landingContext);
+  }
+
+  if (input.marketingOptIn === true) {
+    await grantConsent(userId, 'MARKETING', landingContext);
+  }
+};
+
+// Withdraw every active consent of a type, returns the number of records withdrawn
+export const withdrawConsent = async (userId: string, type: ConsentType): Promise<number> => {
+  const { count } = await prisma.consent.updateMany({
+    where: { userId, type, withdrawnAt: null },
+    data: { withdrawnAt: new Date() },
+  });
+
+  return count;
+};
+
+// ============================================
+// QUERIES
+// ============================================
+
+// Current state of each consent type plus the full history, newest first
+export const getUserConsents = async (userId: string): Promise<UserConsents> => {
+  const history = await prisma.consent.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const consents = CONSENT_TYPES.map((type) => {
+    const active = history.find((c) => c.type === type && !c.withdrawnAt) ?? null;
+    const currentVersion = CURRENT_CONSENT_VERSIONS[type];
+    return {
+      type,
+      currentVersion,
+      active,
+      upToDate: active?.version === currentVersion,
+    };
+  });
+
+  return { consents, history };
+};
+
+// Whether the user's personal data may be exported to Corsair Connect
+export const canShareWithCorsair = async (userId: string): Promise<boolean> => {
+  const count = await prisma.user.count({
+    where: { id: userId, ...corsairSharingAllowedWhere },
+  });
+
+  return count > 0;
+};
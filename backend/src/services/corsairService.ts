@@ -4,6 +4,11 @@
 
 import { prisma } from '../lib/prisma.js';
 import { getCertificationThreshold } from './calculationService.js';
+import { canShareWithCorsair, corsairSharingAllowedWhere } from './consentService.js';
+import { createLogger } from '../lib/logger.js';
+import type { Prisma } from '@prisma/client';
+
+const log = createLogger('corsair-export');
 
 // ============================================
 // TYPES
@@ -64,6 +69,57 @@ const getCurrentDateString = (): string => {
   return new Date().toISOString().split('T')[0] ?? new Date().toISOString().slice(0, 10);
 };
 
+// Completed transactions a record is built from
+const corsairUserInclude = {
+  transactions: {
+    where: { paymentStatus: 'COMPLETED' },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      createdAt: true,
+      merchantId: true,
+      partnerId: true,
+    },
+  },
+} satisfies Prisma.UserInclude;
+
+type CorsairUser = Prisma.UserGetPayload<{ include: typeof corsairUserInclude }>;
+
+// Build the record Corsair Connect holds for a user (exports and data subject access alike)
+const buildCorsairRecord = (user: CorsairUser, corsairId: string, certificationDate: string): CorsairExportRecord => {
+  // Collect unique merchant and partner IDs
+  const merchantIds = [...new Set(user.transactions.map(t => t.merchantId).filter(Boolean))] as string[];
+  const partnerIds = [...new Set(user.transactions.map(t => t.partnerId).filter(Boolean))] as string[];
+
+  // Get first and last transaction dates
+  const firstTransaction = user.transactions[0];
+  const lastTransaction = user.transactions[user.transactions.length - 1];
+
+  return {
+    corsairId,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    dateOfBirth: formatDate(user.dateOfBirth),
+    street: user.street,
+    city: user.city,
+    postalCode: user.postalCode,
+    country: user.country,
+    state: user.state,
+    totalImpactKg: Number(user.walletImpactKg),
+    maturedImpactKg: Number(user.maturedImpactKg),
+    pendingImpactKg: Number(user.pendingImpactKg),
+    walletBalance: Number(user.walletBalance),
+    certificationDate,
+    transactionCount: user.transactions.length,
+    firstTransactionDate: firstTransaction ? formatDate(firstTransaction.createdAt) : null,
+    lastTransactionDate: lastTransaction ? formatDate(lastTransaction.createdAt) : null,
+    attributionIds: {
+      merchantIds,
+      partnerIds,
+    },
+  };
+};
+
 // Convert records to CSV format
 export const convertToCSV = (records: CorsairExportRecord[]): string => {
   if (records.length === 0) return '';
@@ -139,72 +195,36 @@ export const convertToCSV = (records: CorsairExportRecord[]): string => {
 export const exportUserToCorsair = async (userId: string): Promise<CorsairExportRecord | null> => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    include: {
-      transactions: {
-        where: { paymentStatus: 'COMPLETED' },
-        orderBy: { createdAt: 'asc' },
-        select: {
-          createdAt: true,
-          merchantId: true,
-          partnerId: true,
-        },
-      },
-    },
+    include: corsairUserInclude,
   });
 
   if (!user) {
-    console.error(`[Corsair Export] User not found: ${userId}`);
+    log.error('User not found', { userId });
     return null;
   }
 
   // Check if user is certified
   if (user.status !== 'CERTIFIED') {
-    console.log(`[Corsair Export] User not certified, skipping: ${userId}`);
+    log.info('User not certified, skipped', { userId });
     return null;
   }
 
   // Check if already exported
   if (user.corsairExported && user.corsairId) {
-    console.log(`[Corsair Export] User already exported: ${userId}, Corsair ID: ${user.corsairId}`);
+    log.info('User already exported', { userId, corsairId: user.corsairId });
+    return null;
+  }
+
+  // Check the user hasn't withdrawn consent to sharing with the registry
+  if (!(await canShareWithCorsair(userId))) {
+    log.info('Privacy consent withdrawn, skipped', { userId });
     return null;
   }
 
   // Generate Corsair ID
   const corsairId = generateCorsairId(userId);
 
-  // Collect unique merchant and partner IDs
-  const merchantIds = [...new Set(user.transactions.map(t => t.merchantId).filter(Boolean))] as string[];
-  const partnerIds = [...new Set(user.transactions.map(t => t.partnerId).filter(Boolean))] as string[];
-
-  // Get first and last transaction dates
-  const firstTransaction = user.transactions[0];
-  const lastTransaction = user.transactions[user.transactions.length - 1];
-
-  // Create export record
-  const record: CorsairExportRecord = {
-    corsairId,
-    email: user.email,
-    firstName: user.firstName,
-    lastName: user.lastName,
-    dateOfBirth: formatDate(user.dateOfBirth),
-    street: user.street,
-    city: user.city,
-    postalCode: user.postalCode,
-    country: user.country,
-    state: user.state,
-    totalImpactKg: Number(user.walletImpactKg),
-    maturedImpactKg: Number(user.maturedImpactKg),
-    pendingImpactKg: Number(user.pendingImpactKg),
-    walletBalance: Number(user.walletBalance),
-    certificationDate: getCurrentDateString(),
-    transactionCount: user.transactions.length,
-    firstTransactionDate: firstTransaction ? formatDate(firstTransaction.createdAt) : null,
-    lastTransactionDate: lastTransaction ? formatDate(lastTransaction.createdAt) : null,
-    attributionIds: {
-      merchantIds,
-      partnerIds,
-    },
-  };
+  const record = buildCorsairRecord(user, corsairId, getCurrentDateString());
 
   // Update user with Corsair ID and mark as exported
   await prisma.user.update({
@@ -215,7 +235,7 @@ export const exportUserToCorsair = async (userId: string): Promise<CorsairExport
     },
   });
 
-  console.log(`[Corsair Export] User exported successfully: ${userId}, Corsair ID: ${corsairId}`);
+  log.info('User exported', { userId, corsairId });
   return record;
 };
 
@@ -229,18 +249,9 @@ export const exportPendingCertifiedUsers = async (): Promise<CorsairBatchExportR
     where: {
       status: 'CERTIFIED',
       corsairExported: false,
+      ...corsairSharingAllowedWhere,
     },
-    include: {
-      transactions: {
-        where: { paymentStatus: 'COMPLETED' },
-        orderBy: { createdAt: 'asc' },
-        select: {
-          createdAt: true,
-          merchantId: true,
-          partnerId: true,
-        },
-      },
-    },
+    include: corsairUserInclude,
   });
 
   const records: CorsairExportRecord[] = [];
@@ -248,36 +259,7 @@ export const exportPendingCertifiedUsers = async (): Promise<CorsairBatchExportR
   for (const user of users) {
     const corsairId = generateCorsairId(user.id);
 
-    const merchantIds = [...new Set(user.transactions.map(t => t.merchantId).filter(Boolean))] as string[];
-    const partnerIds = [...new Set(user.transactions.map(t => t.partnerId).filter(Boolean))] as string[];
-
-    const firstTransaction = user.transactions[0];
-    const lastTransaction = user.transactions[user.transactions.length - 1];
-
-    const record: CorsairExportRecord = {
-      corsairId,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      dateOfBirth: formatDate(user.dateOfBirth),
-      street: user.street,
-      city: user.city,
-      postalCode: user.postalCode,
-      country: user.country,
-      state: user.state,
-      totalImpactKg: Number(user.walletImpactKg),
-      maturedImpactKg: Number(user.maturedImpactKg),
-      pendingImpactKg: Number(user.pendingImpactKg),
-      walletBalance: Number(user.walletBalance),
-      certificationDate: getCurrentDateString(),
-      transactionCount: user.transactions.length,
-      firstTransactionDate: firstTransaction ? formatDate(firstTransaction.createdAt) : null,
-      lastTransactionDate: lastTransaction ? formatDate(lastTransaction.createdAt) : null,
-      attributionIds: {
-        merchantIds,
-        partnerIds,
-      },
-    };
+    const record = buildCorsairRecord(user, corsairId, getCurrentDateString());
 
     records.push(record);
 
@@ -291,7 +273,7 @@ export const exportPendingCertifiedUsers = async (): Promise<CorsairBatchExportR
     });
   }
 
-  console.log(`[Corsair Export] Batch export completed: ${records.length} users`);
+  log.info('Batch export completed', { users: records.length });
 
   return {
     exportDate: new Date().toISOString(),
@@ -306,18 +288,9 @@ export const exportAllCertifiedUsers = async (): Promise<CorsairBatchExportResul
   const users = await prisma.user.findMany({
     where: {
       status: 'CERTIFIED',
+      ...corsairSharingAllowedWhere,
     },
-    include: {
-      transactions: {
-        where: { paymentStatus: 'COMPLETED' },
-        orderBy: { createdAt: 'asc' },
-        select: {
-          createdAt: true,
-          merchantId: true,
-          partnerId: true,
-        },
-      },
-    },
+    include: corsairUserInclude,
   });
 
   const records: CorsairExportRecord[] = [];
@@ -326,36 +299,8 @@ export const exportAllCertifiedUsers = async (): Promise<CorsairBatchExportResul
     // Use existing Corsair ID if available, otherwise generate new one
     const corsairId = user.corsairId || generateCorsairId(user.id);
 
-    const merchantIds = [...new Set(user.transactions.map(t => t.merchantId).filter(Boolean))] as string[];
-    const partnerIds = [...new Set(user.transactions.map(t => t.partnerId).filter(Boolean))] as string[];
-
-    const firstTransaction = user.transactions[0];
-    const lastTransaction = user.transactions[user.transactions.length - 1];
-
-    const record: CorsairExportRecord = {
-      corsairId,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      dateOfBirth: formatDate(user.dateOfBirth),
-      street: user.street,
-      city: user.city,
-      postalCode: user.postalCode,
-      country: user.country,
-      state: user.state,
-      totalImpactKg: Number(user.walletImpactKg),
-      maturedImpactKg: Number(user.maturedImpactKg),
-      pendingImpactKg: Number(user.pendingImpactKg),
-      walletBalance: Number(user.walletBalance),
-      certificationDate: formatDate(user.updatedAt) ?? getCurrentDateString(), // Use last update as certification date
-      transactionCount: user.transactions.length,
-      firstTransactionDate: firstTransaction ? formatDate(firstTransaction.createdAt) : null,
-      lastTransactionDate: lastTransaction ? formatDate(lastTransaction.createdAt) : null,
-      attributionIds: {
-        merchantIds,
-        partnerIds,
-      },
-    };
+    // Use last update as certification date
+    const record = buildCorsairRecord(user, corsairId, formatDate(user.updatedAt) ?? getCurrentDateString());
 
     records.push(record);
 
@@ -371,7 +316,7 @@ export const exportAllCertifiedUsers = async (): Promise<CorsairBatchExportResul
     }
   }
 
-  console.log(`[Corsair Export] Full export completed: ${records.length} certified users`);
+  log.info('Full export completed', { users: records.length });
 
   return {
     exportDate: new Date().toISOString(),
@@ -381,6 +326,25 @@ export const exportAllCertifiedUsers = async (): Promise<CorsairBatchExportResul
   };
 };
 
+// ============================================
+// DATA SUBJECT ACCESS
+// ============================================
+
+// Record held by Corsair Connect for one user, null if the user was never exported
+// Read-only: unlike the exports above, it never assigns a Corsair ID
+export const getCorsairRecordForUser = async (userId: string): Promise<CorsairExportRecord | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: corsairUserInclude,
+  });
+
+  if (!user || !user.corsairExported || !user.corsairId) {
+    return null;
+  }
+
+  return buildCorsairRecord(user, user.corsairId, formatDate(user.updatedAt) ?? getCurrentDateString());
+};
+
 // ============================================
 // STATISTICS
 // ============================================
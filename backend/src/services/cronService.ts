@@ -1,18 +1,57 @@
 // CSR26 Cron Service
-// Handles scheduled tasks: monthly billing, maturation processing, Corsair export
-// Can be triggered via API endpoint or external cron scheduler
+// Handles scheduled tasks: monthly billing, partner statements, maturation processing, claim token expiry, rate limit cleanup, Corsair export
+// Can be triggered by the built-in scheduler (schedulerService), the admin API or an external cron
+//
+// Every run is stored as a JobRun; each task holds a Postgres advisory lock while it runs,
+// so overlapping runs (two admins, scheduler + external cron, several instances) skip it instead
+// of billing or exporting twice
 
 import { runMonthlyBilling } from './billingService.js';
+import { runMonthlyPartnerStatements } from './partnerCommissionService.js';
 import { processMaturedImpacts } from './calculationService.js';
 import { exportPendingCertifiedUsers } from './corsairService.js';
+import { expireClaimTokens } from './claimTokenService.js';
+import { expireGiftCodes } from './giftCodeService.js';
+import { cleanupRateLimits } from './rateLimitService.js';
+import { prisma } from '../lib/prisma.js';
+import { createLogger } from '../lib/logger.js';
+import type { JobRun, JobRunStatus, Prisma } from '@prisma/client';
+
+const log = createLogger('cron');
 
 // ============================================
-// CRON TASK RESULTS
+// TYPES
 // ============================================
 
+export type CronJob = 'daily' | 'monthly' | 'all';
+
+export type JobRunTrigger = 'scheduler' | 'manual' | 'retry';
+
+export interface JobRunOptions {
+  trigger?: JobRunTrigger;
+  triggeredById?: string | null;
+}
+
+export interface JobRunListFilters {
+  job?: string;
+  status?: JobRunStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export type JobRunWithActor = JobRun & { triggeredBy: { email: string } | null };
+
+export interface RetryJobRunResult {
+  retried: boolean;
+  run?: CronRunResult;
+  message?: string;
+}
+
 export interface CronTaskResult {
   task: string;
   success: boolean;
+  // Not run: the task was already running elsewhere
+  skipped?: boolean;
   startedAt: string;
   completedAt: string;
   result?: unknown;
@@ -21,6 +60,8 @@ export interface CronTaskResult {
 
 export interface CronRunResult {
   runId: string;
+  job: CronJob;
+  status: JobRunStatus;
   startedAt: string;
   completedAt: string;
   tasksRun: number;
@@ -30,16 +71,16 @@ export interface CronRunResult {
 }
 
 // ============================================
-// DAILY TASKS
+// TASKS
 // ============================================
 
-// Process matured impacts - should run daily
-export const runDailyMaturation = async (): Promise<CronTaskResult> => {
+// Run one task, turning a thrown error into a failed result
+const runTask = async (task: string, fn: () => Promise<unknown>): Promise<CronTaskResult> => {
   const startedAt = new Date().toISOString();
   try {
-    const result = await processMaturedImpacts();
+    const result = await fn();
     return {
-      task: 'daily-maturation',
+      task,
       success: true,
       startedAt,
       completedAt: new Date().toISOString(),
@@ -47,7 +88,7 @@ export const runDailyMaturation = async (): Promise<CronTaskResult> => {
     };
   } catch (error) {
     return {
-      task: 'daily-maturation',
+      task,
       success: false,
       startedAt,
       completedAt: new Date().toISOString(),
@@ -57,47 +98,85 @@ export const runDailyMaturation = async (): Promise<CronTaskResult> => {
 };
 
 // ============================================
-// MONTHLY TASKS
+// JOBS
 // ============================================
 
-// Run monthly billing - should run on 1st of each month
-export const runMonthlyBillingTask = async (): Promise<CronTaskResult> => {
-  const startedAt = new Date().toISOString();
-  try {
-    const result = await runMonthlyBilling();
-    return {
-      task: 'monthly-billing',
-      success: true,
-      startedAt,
-      completedAt: new Date().toISOString(),
-      result,
-    };
-  } catch (error) {
-    return {
-      task: 'monthly-billing',
-      success: false,
-      startedAt,
-      completedAt: new Date().toISOString(),
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
+// Task runners by name, as stored in CronTaskResult.task
+const CRON_TASKS: Record<string, () => Promise<CronTaskResult>> = {
+  // Process matured impacts - should run daily
+  'daily-maturation': () => runTask('daily-maturation', processMaturedImpacts),
+  // Mark unused claim tokens of expired batches as EXPIRED - should run daily
+  'daily-claim-token-expiry': () =>
+    runTask('daily-claim-token-expiry', async () => ({ expired: await expireClaimTokens() })),
+  // Mark gift cards past their expiry date as EXPIRED - should run daily
+  'daily-gift-code-expiry': () =>
+    runTask('daily-gift-code-expiry', async () => ({ expired: await expireGiftCodes() })),
+  // Delete expired rate limit counters - should run daily
+  'daily-rate-limit-cleanup': () =>
+    runTask('daily-rate-limit-cleanup', async () => ({ removed: await cleanupRateLimits() })),
+  // Run monthly billing - should run on 1st of each month
+  'monthly-billing': () => runTask('monthly-billing', () => runMonthlyBilling()),
+  // Settle partner commissions into monthly statements - should run on 1st of each month
+  'monthly-partner-statements': () => runTask('monthly-partner-statements', () => runMonthlyPartnerStatements()),
+  // Export certified users to Corsair - should run monthly
+  'monthly-corsair-export': () => runTask('monthly-corsair-export', exportPendingCertifiedUsers),
+};
+
+const DAILY_TASKS = ['daily-maturation', 'daily-claim-token-expiry', 'daily-gift-code-expiry', 'daily-rate-limit-cleanup'];
+const MONTHLY_TASKS = ['monthly-billing', 'monthly-partner-statements', 'monthly-corsair-export'];
+
+export const CRON_JOBS: Record<CronJob, string[]> = {
+  daily: DAILY_TASKS,
+  monthly: MONTHLY_TASKS,
+  all: [...DAILY_TASKS, ...MONTHLY_TASKS],
 };
 
-// Export certified users to Corsair - should run monthly
-export const runMonthlyCorsairExport = async (): Promise<CronTaskResult> => {
+// A task holds its lock for at most this long (billing all merchants included)
+const TASK_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Runs still RUNNING after this were interrupted (server stopped or crashed mid-run)
+const INTERRUPTED_RUN_MS = 6 * 60 * 60 * 1000;
+
+// ============================================
+// LOCKING
+// ============================================
+
+// Run a task while holding its advisory lock, skipped if another run holds it
+// The lock is transaction-scoped, so it is released even if the connection drops
+const runTaskWithLock = async (task: string): Promise<CronTaskResult> => {
   const startedAt = new Date().toISOString();
+  const runner = CRON_TASKS[task];
+
+  if (!runner) {
+    return { task, success: false, startedAt, completedAt: startedAt, error: 'Unknown task' };
+  }
+
   try {
-    const result = await exportPendingCertifiedUsers();
-    return {
-      task: 'monthly-corsair-export',
-      success: true,
-      startedAt,
-      completedAt: new Date().toISOString(),
-      result,
-    };
+    return await prisma.$transaction(
+      async (tx) => {
+        const [lock] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(hashtext(${`csr26:cron:${task}`})) AS locked
+        `;
+
+        if (!lock?.locked) {
+          log.warn('Task already running elsewhere, skipped', { task });
+          return {
+            task,
+            success: false,
+            skipped: true,
+            startedAt,
+            completedAt: new Date().toISOString(),
+            error: 'Already running in another process',
+          };
+        }
+
+        return runner();
+      },
+      { maxWait: 10 * 1000, timeout: TASK_TIMEOUT_MS }
+    );
   } catch (error) {
     return {
-      task: 'monthly-corsair-export',
+      task,
       success: false,
       startedAt,
       completedAt: new Date().toISOString(),
@@ -107,24 +186,67 @@ export const runMonthlyCorsairExport = async (): Promise<CronTaskResult> => {
 };
 
 // ============================================
-// COMBINED RUNNERS
+// RUNS
 // ============================================
 
-// Run all daily tasks
-export const runDailyTasks = async (): Promise<CronRunResult> => {
-  const runId = `daily-${Date.now()}`;
-  const startedAt = new Date().toISOString();
+const getRunStatus = (results: CronTaskResult[]): JobRunStatus => {
+  if (results.some((r) => !r.success && !r.skipped)) return 'FAILED';
+  if (results.some((r) => r.skipped)) return 'SKIPPED';
+  return 'SUCCEEDED';
+};
+
+// Run tasks one after the other and store the run with each task's result
+const runTasks = async (
+  job: CronJob,
+  tasks: string[],
+  options: JobRunOptions & { retryOfId?: string } = {}
+): Promise<CronRunResult> => {
+  const run = await prisma.jobRun.create({
+    data: {
+      job,
+      trigger: options.trigger ?? 'manual',
+      triggeredById: options.triggeredById ?? null,
+      retryOfId: options.retryOfId ?? null,
+    },
+  });
+
+  log.info('Job started', { runId: run.id, job, trigger: run.trigger, tasks });
+
   const results: CronTaskResult[] = [];
+  for (const task of tasks) {
+    results.push(await runTaskWithLock(task));
+  }
+
+  const completedAt = new Date();
+  const status = getRunStatus(results);
+  const failed = results.filter((r) => !r.success && !r.skipped);
+  const tasksSucceeded = results.filter((r) => r.success).length;
 
-  // Run maturation processing
-  results.push(await runDailyMaturation());
+  await prisma.jobRun.update({
+    where: { id: run.id },
+    data: {
+      status,
+      results: results as unknown as Prisma.InputJsonValue,
+      tasksRun: results.length,
+      tasksFailed: failed.length,
+      error: failed.length > 0 ? failed.map((r) => `${r.task}: ${r.error}`).join('\n') : null,
+      completedAt,
+      durationMs: completedAt.getTime() - run.startedAt.getTime(),
+    },
+  });
 
-  const tasksSucceeded = results.filter(r => r.success).length;
+  if (status === 'FAILED') {
+    log.error('Job failed', { runId: run.id, job, failed: failed.map((r) => r.task) });
+  } else {
+    log.info('Job completed', { runId: run.id, job, status });
+  }
 
   return {
-    runId,
-    startedAt,
-    completedAt: new Date().toISOString(),
+    runId: run.id,
+    job,
+    status,
+    startedAt: run.startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
     tasksRun: results.length,
     tasksSucceeded,
     tasksFailed: results.length - tasksSucceeded,
@@ -132,53 +254,89 @@ export const runDailyTasks = async (): Promise<CronRunResult> => {
   };
 };
 
+// Run all daily tasks
+export const runDailyTasks = async (options: JobRunOptions = {}): Promise<CronRunResult> => {
+  return runTasks('daily', CRON_JOBS.daily, options);
+};
+
 // Run all monthly tasks
-export const runMonthlyTasks = async (): Promise<CronRunResult> => {
-  const runId = `monthly-${Date.now()}`;
-  const startedAt = new Date().toISOString();
-  const results: CronTaskResult[] = [];
+export const runMonthlyTasks = async (options: JobRunOptions = {}): Promise<CronRunResult> => {
+  return runTasks('monthly', CRON_JOBS.monthly, options);
+};
 
-  // Run monthly billing
-  results.push(await runMonthlyBillingTask());
+// Run all cron tasks (for testing or manual trigger)
+export const runAllTasks = async (options: JobRunOptions = {}): Promise<CronRunResult> => {
+  return runTasks('all', CRON_JOBS.all, options);
+};
 
-  // Run Corsair export
-  results.push(await runMonthlyCorsairExport());
+// Run the failed and skipped tasks of a run again, null if the run doesn't exist
+export const retryJobRun = async (
+  id: string,
+  triggeredById: string | null
+): Promise<RetryJobRunResult | null> => {
+  await failInterruptedJobRuns();
 
-  const tasksSucceeded = results.filter(r => r.success).length;
+  const run = await prisma.jobRun.findUnique({ where: { id } });
+  if (!run) return null;
 
-  return {
-    runId,
-    startedAt,
-    completedAt: new Date().toISOString(),
-    tasksRun: results.length,
-    tasksSucceeded,
-    tasksFailed: results.length - tasksSucceeded,
-    results,
-  };
-};
+  if (run.status === 'RUNNING') {
+    return { retried: false, message: 'This run is still in progress' };
+  }
 
-// Run all cron tasks (for testing or manual trigger)
-export const runAllTasks = async (): Promise<CronRunResult> => {
-  const runId = `all-${Date.now()}`;
-  const startedAt = new Date().toISOString();
-  const results: CronTaskResult[] = [];
+  const results = (run.results ?? []) as unknown as CronTaskResult[];
+  // Interrupted runs have no results, every task of the job runs again
+  const tasks = run.results ? results.filter((r) => !r.success).map((r) => r.task) : CRON_JOBS[run.job as CronJob] ?? [];
 
-  // Daily tasks
-  results.push(await runDailyMaturation());
+  if (tasks.length === 0) {
+    return { retried: false, message: 'Every task of this run succeeded, nothing to retry' };
+  }
 
-  // Monthly tasks
-  results.push(await runMonthlyBillingTask());
-  results.push(await runMonthlyCorsairExport());
+  const retry = await runTasks(run.job as CronJob, tasks, { trigger: 'retry', triggeredById, retryOfId: run.id });
+  return { retried: true, run: retry };
+};
 
-  const tasksSucceeded = results.filter(r => r.success).length;
+// ============================================
+// HISTORY
+// ============================================
 
-  return {
-    runId,
-    startedAt,
-    completedAt: new Date().toISOString(),
-    tasksRun: results.length,
-    tasksSucceeded,
-    tasksFailed: results.length - tasksSucceeded,
-    results,
+// Mark runs that can no longer be in progress as failed
+export const failInterruptedJobRuns = async (): Promise<number> => {
+  const { count } = await prisma.jobRun.updateMany({
+    where: { status: 'RUNNING', startedAt: { lt: new Date(Date.now() - INTERRUPTED_RUN_MS) } },
+    data: { status: 'FAILED', error: 'Interrupted: the server stopped during the run' },
+  });
+  return count;
+};
+
+// Past runs, newest first
+export const getJobRuns = async (
+  filters: JobRunListFilters = {}
+): Promise<{ runs: JobRunWithActor[]; total: number }> => {
+  await failInterruptedJobRuns();
+
+  const where: Prisma.JobRunWhereInput = {
+    ...(filters.job && { job: filters.job }),
+    ...(filters.status && { status: filters.status }),
   };
+
+  const [runs, total] = await Promise.all([
+    prisma.jobRun.findMany({
+      where,
+      include: { triggeredBy: { select: { email: true } } },
+      orderBy: { startedAt: 'desc' },
+      take: filters.limit ?? 25,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.jobRun.count({ where }),
+  ]);
+
+  return { runs, total };
+};
+
+// Whether a job ran (any trigger) since a date, the scheduler uses it to run each period once
+export const hasJobRunSince = async (job: CronJob, since: Date): Promise<boolean> => {
+  const count = await prisma.jobRun.count({
+    where: { job: { in: [job, 'all'] }, retryOfId: null, startedAt: { gte: since } },
+  });
+  return count > 0;
 };
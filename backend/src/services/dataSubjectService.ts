@@ -0,0 +1,306 @@
+// CSR26 Data Subject Service
+// GDPR data subject rights: export of a user's data (access, portability) and erasure
+//
+// Erasure pseudonymizes the User row instead of deleting it: transactions, ledger entries and
+// certified impact stay attached to the anonymous user ID, so merchant billing and Corsair
+// reporting totals don't change
+
+import { prisma } from '../lib/prisma.js';
+import { Prisma, type Consent, type GiftCode, type Transaction, type User, type WalletLedgerEntry } from '@prisma/client';
+import zlib from 'zlib';
+import { getCorsairRecordForUser, type CorsairExportRecord } from './corsairService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('data-subject');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface UserDataExport {
+  exportedAt: string;
+  profile: User;
+  transactions: Transaction[];
+  ledgerEntries: WalletLedgerEntry[];
+  // Login links without their tokens
+  magicLinks: Array<{
+    id: string;
+    purpose: string;
+    used: boolean;
+    expiresAt: Date;
+    createdAt: Date;
+  }>;
+  giftCodesUsed: GiftCode[];
+  merchantMemberships: Array<{
+    merchantId: string;
+    merchantName: string;
+    role: string;
+    acceptedAt: Date | null;
+    createdAt: Date;
+  }>;
+  consents: Consent[];
+  corsairExport: CorsairExportRecord | null;
+}
+
+export type UserDataExportFormat = 'json' | 'zip';
+
+export interface UserDataExportFile {
+  fileName: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+export interface PseudonymizeResult {
+  deleted: boolean;
+  user?: User;
+  message?: string;
+}
+
+interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+// Everything stored about a user, null if the user doesn't exist
+export const getUserDataExport = async (userId: string): Promise<UserDataExport | null> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return null;
+
+  const [transactions, ledgerEntries, magicLinks, giftCodesUsed, memberships, consents, corsairExport] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.walletLedgerEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.magicLink.findMany({
+      where: { userId },
+      select: { id: true, purpose: true, used: true, expiresAt: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.giftCode.findMany({
+      where: { usedByUserId: userId },
+      orderBy: { usedAt: 'asc' },
+    }),
+    prisma.merchantMember.findMany({
+      where: { userId },
+      include: { merchant: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.consent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    getCorsairRecordForUser(userId),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    transactions,
+    ledgerEntries,
+    magicLinks,
+    giftCodesUsed,
+    merchantMemberships: memberships.map((m) => ({
+      merchantId: m.merchantId,
+      merchantName: m.merchant.name,
+      role: m.role,
+      acceptedAt: m.acceptedAt,
+      createdAt: m.createdAt,
+    })),
+    consents,
+    corsairExport,
+  };
+};
+
+// Download of the export: a single JSON document, or a ZIP with one JSON file per section
+export const renderUserDataExport = (data: UserDataExport, format: UserDataExportFormat): UserDataExportFile => {
+  const fileName = `csr26-data-export-${data.exportedAt.slice(0, 10)}.${format}`;
+
+  if (format === 'zip') {
+    return { fileName, contentType: 'application/zip', body: createUserDataZip(data) };
+  }
+
+  return { fileName, contentType: 'application/json', body: JSON.stringify(data, null, 2) };
+};
+
+const createUserDataZip = (data: UserDataExport): Buffer => {
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+  return createZip([
+    { name: 'profile.json', content: json({ exportedAt: data.exportedAt, ...data.profile }) },
+    { name: 'transactions.json', content: json(data.transactions) },
+    { name: 'ledger-entries.json', content: json(data.ledgerEntries) },
+    { name: 'magic-links.json', content: json(data.magicLinks) },
+    { name: 'gift-codes-used.json', content: json(data.giftCodesUsed) },
+    { name: 'merchant-memberships.json', content: json(data.merchantMemberships) },
+    { name: 'consents.json', content: json(data.consents) },
+    { name: 'corsair-export.json', content: json(data.corsairExport) },
+  ]);
+};
+
+// ============================================
+// ERASURE
+// ============================================
+
+// Placeholder email of an erased user, unique and never deliverable
+const getPseudonymousEmail = (userId: string): string => `deleted-${userId}@deleted.invalid`;
+
+// Erase a user's personal data, null if the user doesn't exist
+// Sign-in links, 2FA and merchant team access are removed; money and impact records are kept,
+// consent records too (without IP and user agent) as proof of what was agreed
+// Audit entries about the user keep what happened but lose their snapshots, and Stripe webhook
+// payloads of the user's payments are cut down to their event ID and type
+export const pseudonymizeUser = async (userId: string): Promise<PseudonymizeResult | null> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return null;
+
+  if (user.deletedAt) {
+    return { deleted: false, message: 'This account has already been deleted' };
+  }
+
+  // Admin accounts are managed from the admin accounts page
+  if (user.role === 'ADMIN') {
+    return { deleted: false, message: 'Admin accounts cannot be deleted, revoke admin access first' };
+  }
+
+  const deletedUser = await prisma.$transaction(async (tx) => {
+    await tx.magicLink.deleteMany({ where: { userId } });
+    await tx.totpCredential.deleteMany({ where: { userId } });
+    await tx.merchantMember.deleteMany({ where: { userId } });
+    await tx.consent.updateMany({ where: { userId }, data: { ip: null, userAgent: null } });
+
+    // Profile updates are audited with the whole User row
+    await tx.auditLog.updateMany({
+      where: { entityType: 'User', entityId: userId },
+      data: { before: Prisma.DbNull, after: Prisma.DbNull },
+    });
+    await tx.auditLog.updateMany({
+      where: { actorId: userId },
+      data: { actorEmail: getPseudonymousEmail(userId), ip: null, userAgent: null },
+    });
+
+    // Payment intents carry the user ID in their metadata and the receipt email
+    const payments = await tx.transaction.findMany({
+      where: { userId, stripePaymentId: { not: null } },
+      select: { stripePaymentId: true },
+    });
+    const paymentIds = payments.map((payment) => payment.stripePaymentId as string);
+
+    await tx.$executeRaw`
+      UPDATE "WebhookEvent"
+      SET payload = jsonb_build_object('id', payload->'id', 'type', payload->'type', 'erased', true)
+      WHERE position(${user.email} in payload::text) > 0
+         OR position(${userId} in payload::text) > 0
+         OR payload #>> '{data,object,id}' = ANY(${paymentIds}::text[])
+         OR payload #>> '{data,object,payment_intent}' = ANY(${paymentIds}::text[])
+    `;
+
+    return tx.user.update({
+      where: { id: userId },
+      data: {
+        email: getPseudonymousEmail(userId),
+        firstName: null,
+        lastName: null,
+        dateOfBirth: null,
+        street: null,
+        city: null,
+        postalCode: null,
+        country: null,
+        state: null,
+        deletedAt: new Date(),
+      },
+    });
+  });
+
+  log.info('User pseudonymized', { userId });
+  return { deleted: true, user: deletedUser };
+};
+
+// ============================================
+// ZIP
+// ============================================
+
+// CRC-32 (IEEE) lookup table, zlib.crc32 needs Node 20.15+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Minimal ZIP writer (deflate, UTF-8 names), enough for a handful of small JSON files
+const createZip = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  // DOS date and time of the export
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.from(entry.content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);          // Version needed
+    local.writeUInt16LE(0x0800, 6);      // UTF-8 names
+    local.writeUInt16LE(8, 8);           // Deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);        // Version made by
+    central.writeUInt16LE(20, 6);        // Version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);   // Local header offset (extra, comment, disk and attributes stay 0)
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
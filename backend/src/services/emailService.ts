@@ -1,8 +1,14 @@
 // CSR26 Email Service
 // Handles sending emails for magic links and notifications
 // Uses SMTP configuration from environment variables
+// Only transactional emails (sign-in links, invitations, invoices, credit alerts) go out without consent;
+// marketing emails must be limited to users with an active (not withdrawn) MARKETING consent
 // Note: For production email, install nodemailer: npm install nodemailer @types/nodemailer
 
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('email');
+
 // Email configuration from environment
 const emailConfig = {
   host: process.env.SMTP_HOST || 'smtp.example.com',
@@ -60,15 +66,55 @@ const getTransporter = async () => {
   return transporter;
 };
 
+// Merchant team invitation sent as a magic link (signing in accepts the invitation)
+export interface MerchantInvitationEmail {
+  merchantName: string;
+  role: string;
+  expiresInDays: number;
+}
+
+export type MagicLinkEmailType = 'user' | 'partner' | 'admin';
+
+// Wording for a login link, an admin sign-in link or a merchant invitation
+const getMagicLinkCopy = (type: MagicLinkEmailType, invitation?: MerchantInvitationEmail) => invitation
+  ? {
+      title: `Join ${invitation.merchantName} on CSR26`,
+      intro: `You have been invited to join ${invitation.merchantName} on CSR26 as ${invitation.role.toLowerCase()}. Click the button below to accept the invitation and access the merchant dashboard.`,
+      button: 'Accept Invitation',
+      expires: `${invitation.expiresInDays} days`,
+      ignore: "If you weren't expecting this invitation, you can safely ignore this email.",
+    }
+  : type === 'admin'
+  ? {
+      title: 'CSR26 admin sign-in',
+      intro: 'You requested to sign in to the CSR26 admin panel. Click the button below, then enter the code from your authenticator app to finish signing in.',
+      button: 'Continue to Admin Sign-in',
+      expires: '15 minutes',
+      ignore: "If you didn't request this sign-in, someone may know your admin email address. Nobody can sign in without your authenticator code.",
+    }
+  : {
+      title: 'Login to CSR26',
+      intro: 'You requested to login to your CSR26 account. Click the button below to securely access your environmental portfolio.',
+      button: 'Login to CSR26',
+      expires: '15 minutes',
+      ignore: "If you didn't request this login link, you can safely ignore this email.",
+    };
+
 // Magic link email template
-const getMagicLinkEmailHtml = (userName: string, magicLinkUrl: string): string => {
+const getMagicLinkEmailHtml = (
+  userName: string,
+  magicLinkUrl: string,
+  type: MagicLinkEmailType,
+  invitation?: MerchantInvitationEmail
+): string => {
+  const copy = getMagicLinkCopy(type, invitation);
   return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Login to CSR26</title>
+  <title>${copy.title}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
   <table role="presentation" style="width: 100%; border-collapse: collapse;">
@@ -88,7 +134,7 @@ const getMagicLinkEmailHtml = (userName: string, magicLinkUrl: string): string =
             <td style="padding: 40px 30px;">
               <h2 style="color: #1f2937; margin: 0 0 20px 0; font-size: 20px;">Hello${userName ? ` ${userName}` : ''},</h2>
               <p style="color: #4b5563; line-height: 1.6; margin: 0 0 20px 0;">
-                You requested to login to your CSR26 account. Click the button below to securely access your environmental portfolio.
+                ${copy.intro}
               </p>
 
               <!-- Button -->
@@ -96,17 +142,17 @@ const getMagicLinkEmailHtml = (userName: string, magicLinkUrl: string): string =
                 <tr>
                   <td style="background-color: #1e40af; border-radius: 6px;">
                     <a href="${magicLinkUrl}" style="display: inline-block; padding: 14px 30px; color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px;">
-                      Login to CSR26
+                      ${copy.button}
                     </a>
                   </td>
                 </tr>
               </table>
 
               <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 20px 0 0 0;">
-                This link will expire in <strong>15 minutes</strong>.
+                This link will expire in <strong>${copy.expires}</strong>.
               </p>
               <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 10px 0 0 0;">
-                If you didn't request this login link, you can safely ignore this email.
+                ${copy.ignore}
               </p>
 
               <!-- Fallback URL -->
@@ -136,17 +182,23 @@ const getMagicLinkEmailHtml = (userName: string, magicLinkUrl: string): string =
 };
 
 // Plain text fallback
-const getMagicLinkEmailText = (userName: string, magicLinkUrl: string): string => {
+const getMagicLinkEmailText = (
+  userName: string,
+  magicLinkUrl: string,
+  type: MagicLinkEmailType,
+  invitation?: MerchantInvitationEmail
+): string => {
+  const copy = getMagicLinkCopy(type, invitation);
   return `
 Hello${userName ? ` ${userName}` : ''},
 
-You requested to login to your CSR26 account. Click the link below to securely access your environmental portfolio:
+${copy.intro}
 
 ${magicLinkUrl}
 
-This link will expire in 15 minutes.
+This link will expire in ${copy.expires}.
 
-If you didn't request this login link, you can safely ignore this email.
+${copy.ignore}
 
 ---
 CSR26 - Environmental Impact Platform
@@ -154,30 +206,33 @@ Certified by Control Union | CPRS Protocol Verified
   `.trim();
 };
 
+// Sign-in links are only written to the logs outside production, where they let developers
+// sign in without an SMTP server
+const logUndeliveredMagicLink = (message: string, email: string, magicLinkUrl: string): void => {
+  log.warn(message, {
+    email,
+    ...(process.env.NODE_ENV !== 'production' && { magicLinkUrl }),
+  });
+};
+
 // Send magic link email
 export const sendMagicLinkEmail = async (
   email: string,
   token: string,
   userName?: string,
-  type: 'user' | 'partner' = 'user'
+  type: MagicLinkEmailType = 'user',
+  invitation?: MerchantInvitationEmail
 ): Promise<{ success: boolean; message: string; magicLinkUrl?: string }> => {
-  // Use different paths for user vs partner magic links
-  const verifyPath = type === 'partner' ? '/partner/verify' : '/auth/verify';
+  // Use different paths for user, partner and admin magic links
+  const verifyPath = type === 'partner' ? '/partner/verify' : type === 'admin' ? '/admin/verify' : '/auth/verify';
   const magicLinkUrl = `${frontendUrl}${verifyPath}/${token}`;
 
   // Check if we should send email - send if SMTP is configured (regardless of NODE_ENV)
   const shouldSendEmail = isEmailConfigured();
 
-  // Always log in development or when email is not configured
+  // Log instead when email is not configured
   if (!shouldSendEmail) {
-    console.log('\n========================================');
-    console.log('MAGIC LINK FOR LOGIN');
-    console.log('========================================');
-    console.log(`Mode: ${isEmailConfigured() ? 'Development mode' : 'Email NOT configured'}`);
-    console.log(`User: ${email}`);
-    console.log(`URL: ${magicLinkUrl}`);
-    console.log('Expires: 15 minutes');
-    console.log('========================================\n');
+    logUndeliveredMagicLink('Email not configured, magic link not sent', email, magicLinkUrl);
 
     return {
       success: true,
@@ -190,9 +245,8 @@ export const sendMagicLinkEmail = async (
   // Production mode - try to send actual email
   const transport = await getTransporter();
   if (!transport) {
-    // Fallback to console logging if transport not available
-    console.log('Email transport not available, logging magic link to console');
-    console.log(`Magic link for ${email}: ${magicLinkUrl}`);
+    // Fallback to logging if transport not available
+    logUndeliveredMagicLink('Email transport not available, magic link not sent', email, magicLinkUrl);
     return {
       success: true,
       message: 'Magic link sent (email service fallback)',
@@ -203,9 +257,13 @@ export const sendMagicLinkEmail = async (
     await transport.sendMail({
       from: `"CSR26 Platform" <${emailFrom}>`,
       to: email,
-      subject: 'Login to CSR26 - Your Environmental Portfolio',
-      text: getMagicLinkEmailText(userName || '', magicLinkUrl),
-      html: getMagicLinkEmailHtml(userName || '', magicLinkUrl),
+      subject: invitation
+        ? `You're invited to ${invitation.merchantName} on CSR26`
+        : type === 'admin'
+        ? 'CSR26 admin sign-in'
+        : 'Login to CSR26 - Your Environmental Portfolio',
+      text: getMagicLinkEmailText(userName || '', magicLinkUrl, type, invitation),
+      html: getMagicLinkEmailHtml(userName || '', magicLinkUrl, type, invitation),
     });
 
     return {
@@ -213,9 +271,8 @@ export const sendMagicLinkEmail = async (
       message: 'Magic link sent to email',
     };
   } catch (error) {
-    console.error('Failed to send magic link email:', error);
-    // Log the link as fallback
-    console.log(`Fallback - Magic link for ${email}: ${magicLinkUrl}`);
+    log.error('Failed to send magic link email', { error });
+    logUndeliveredMagicLink('Magic link not delivered', email, magicLinkUrl);
     return {
       success: true,
       message: 'Magic link generated (email delivery issue - check server logs)',
@@ -223,25 +280,253 @@ export const sendMagicLinkEmail = async (
   }
 };
 
+// "Invoice issued" email to a merchant, with the invoice PDF attached
+export interface InvoiceIssuedEmail {
+  merchantName: string;
+  number: string;
+  amount: number;
+  periodStart: Date;
+  periodEnd: Date;
+  filename: string;
+  pdf: Buffer;
+}
+
+const getInvoiceEmailHtml = (invoice: InvoiceIssuedEmail, billingUrl: string): string => `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Invoice ${invoice.number}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 6px; overflow: hidden; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1e40af; padding: 30px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 24px;">CSR26</h1>
+              <p style="color: #93c5fd; margin: 10px 0 0 0; font-size: 14px;">Environmental Impact Platform</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <h2 style="color: #1f2937; margin: 0 0 20px 0; font-size: 20px;">Hello ${invoice.merchantName},</h2>
+              <p style="color: #4b5563; line-height: 1.6; margin: 0 0 20px 0;">
+                Your invoice <strong>${invoice.number}</strong> for ${invoice.periodStart.toISOString().slice(0, 10)} to ${invoice.periodEnd.toISOString().slice(0, 10)}
+                has been issued. The total due is <strong>€${invoice.amount.toFixed(2)}</strong>. The invoice is attached to this email.
+              </p>
+
+              <!-- Button -->
+              <table role="presentation" style="margin: 30px 0;">
+                <tr>
+                  <td style="background-color: #1e40af; border-radius: 6px;">
+                    <a href="${billingUrl}" style="display: inline-block; padding: 14px 30px; color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px;">
+                      Pay Invoice
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 20px 0 0 0;">
+                You can pay by card or SEPA Direct Debit from the billing section of your merchant dashboard.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f9fafb; padding: 20px 30px; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 12px; margin: 0; text-align: center;">
+                © ${new Date().getFullYear()} CSR26 - Environmental Impact Platform<br/>
+                Certified by Control Union | CPRS Protocol Verified
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`.trim();
+
+const getInvoiceEmailText = (invoice: InvoiceIssuedEmail, billingUrl: string): string => `
+Hello ${invoice.merchantName},
+
+Your invoice ${invoice.number} for ${invoice.periodStart.toISOString().slice(0, 10)} to ${invoice.periodEnd.toISOString().slice(0, 10)} has been issued.
+The total due is €${invoice.amount.toFixed(2)}. The invoice is attached to this email.
+
+Pay by card or SEPA Direct Debit from your merchant dashboard:
+${billingUrl}
+
+---
+CSR26 - Environmental Impact Platform
+Certified by Control Union | CPRS Protocol Verified
+`.trim();
+
+// Send an issued invoice, returns whether it was delivered
+export const sendInvoiceIssuedEmail = async (email: string, invoice: InvoiceIssuedEmail): Promise<boolean> => {
+  const transport = await getTransporter();
+  if (!transport) {
+    log.warn('Email not configured, invoice not sent', { email, number: invoice.number });
+    return false;
+  }
+
+  const billingUrl = `${frontendUrl}/merchant`;
+
+  try {
+    await transport.sendMail({
+      from: `"CSR26 Platform" <${emailFrom}>`,
+      to: email,
+      subject: `CSR26 invoice ${invoice.number}`,
+      text: getInvoiceEmailText(invoice, billingUrl),
+      html: getInvoiceEmailHtml(invoice, billingUrl),
+      attachments: [{ filename: invoice.filename, content: invoice.pdf, contentType: 'application/pdf' }],
+    });
+
+    return true;
+  } catch (error) {
+    log.error('Failed to send invoice email', { email, number: invoice.number, error });
+    return false;
+  }
+};
+
+// "Low credit" alert to a merchant whose prepaid credit fell below its threshold
+export interface LowCreditEmail {
+  merchantName: string;
+  creditBalance: number;
+  threshold: number;
+  pausesWhenExhausted: boolean;   // Claims are rejected at zero instead of billed
+}
+
+const getLowCreditConsequence = (alert: LowCreditEmail): string => alert.pausesWhenExhausted
+  ? 'When it runs out, claims of your products are paused until you top up.'
+  : 'When it runs out, claims of your products are billed on your monthly invoice.';
+
+const getLowCreditEmailHtml = (alert: LowCreditEmail, billingUrl: string): string => `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your prepaid credit is running low</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 6px; overflow: hidden; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1e40af; padding: 30px; text-align: center;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 24px;">CSR26</h1>
+              <p style="color: #93c5fd; margin: 10px 0 0 0; font-size: 14px;">Environmental Impact Platform</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <h2 style="color: #1f2937; margin: 0 0 20px 0; font-size: 20px;">Hello ${alert.merchantName},</h2>
+              <p style="color: #4b5563; line-height: 1.6; margin: 0 0 20px 0;">
+                Your prepaid credit is down to <strong>€${alert.creditBalance.toFixed(2)}</strong>,
+                below the €${alert.threshold.toFixed(2)} alert you set. ${getLowCreditConsequence(alert)}
+              </p>
+
+              <!-- Button -->
+              <table role="presentation" style="margin: 30px 0;">
+                <tr>
+                  <td style="background-color: #1e40af; border-radius: 6px;">
+                    <a href="${billingUrl}" style="display: inline-block; padding: 14px 30px; color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px;">
+                      Buy Credit
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f9fafb; padding: 20px 30px; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 12px; margin: 0; text-align: center;">
+                © ${new Date().getFullYear()} CSR26 - Environmental Impact Platform<br/>
+                Certified by Control Union | CPRS Protocol Verified
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`.trim();
+
+const getLowCreditEmailText = (alert: LowCreditEmail, billingUrl: string): string => `
+Hello ${alert.merchantName},
+
+Your prepaid credit is down to €${alert.creditBalance.toFixed(2)}, below the €${alert.threshold.toFixed(2)} alert you set.
+${getLowCreditConsequence(alert)}
+
+Buy credit from your merchant dashboard:
+${billingUrl}
+
+---
+CSR26 - Environmental Impact Platform
+Certified by Control Union | CPRS Protocol Verified
+`.trim();
+
+// Send a low credit alert, returns whether it was delivered
+export const sendLowCreditEmail = async (email: string, alert: LowCreditEmail): Promise<boolean> => {
+  const transport = await getTransporter();
+  if (!transport) {
+    log.warn('Email not configured, low credit alert not sent', { email });
+    return false;
+  }
+
+  const billingUrl = `${frontendUrl}/merchant`;
+
+  try {
+    await transport.sendMail({
+      from: `"CSR26 Platform" <${emailFrom}>`,
+      to: email,
+      subject: 'Your CSR26 prepaid credit is running low',
+      text: getLowCreditEmailText(alert, billingUrl),
+      html: getLowCreditEmailHtml(alert, billingUrl),
+    });
+
+    return true;
+  } catch (error) {
+    log.error('Failed to send low credit email', { email, error });
+    return false;
+  }
+};
+
 // Verify email transport configuration
 export const verifyEmailConfig = async (): Promise<boolean> => {
   if (!isEmailConfigured()) {
-    console.log('Email service not configured - magic links will be logged to console');
+    log.warn('Email service not configured, magic links will be logged outside production');
     return false;
   }
 
   const transport = await getTransporter();
   if (!transport) {
-    console.log('Nodemailer not available - install with: npm install nodemailer');
+    log.warn('Nodemailer not available, install with: npm install nodemailer');
     return false;
   }
 
   try {
     await transport.verify();
-    console.log('Email service configured and ready');
+    log.info('Email service configured and ready');
     return true;
   } catch (error) {
-    console.error('Email configuration error:', error);
+    log.error('Email configuration error', { error });
     return false;
   }
 };
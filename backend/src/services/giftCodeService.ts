@@ -0,0 +1,536 @@
+// CSR26 Gift Code Service
+// Gift card lifecycle: print batches, activation at the point of sale, expiry and partial balances
+//
+// A card holds a value (its own face value, or the SKU price) and is redeemed in one or more
+// GIFT_CARD transactions until nothing is left:
+// INACTIVE → UNUSED → PARTIALLY_USED → USED, or DEACTIVATED / EXPIRED on the way
+//
+// Generated codes follow GIFT_CODE_FORMAT ('#' = random character from GIFT_CODE_ALPHABET) and
+// end with a Luhn mod N check character (GiftCode.checkCharacter), so a typo is rejected without
+// looking up generated codes. Case and separators don't matter for them
+// Uploaded codes are matched exactly as stored, whatever they look like
+// Changing the alphabet or format invalidates the check of codes already printed
+
+import { prisma } from '../lib/prisma.js';
+import type { GiftCode, GiftCodeBatch, GiftCodeStatus, Prisma, Sku } from '@prisma/client';
+import crypto from 'crypto';
+import { createPdfDocument } from './pdfService.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type GiftCodeWithSku = GiftCode & { sku: Sku };
+
+export interface CreateGiftCodeBatchInput {
+  name: string;
+  skuCode: string;
+  codes: string[];
+  distributor?: string | null;
+  faceValue?: number | null;
+  activationRequired?: boolean;
+  expiresAt?: Date | null;
+  createdById?: string | null;
+  checkCharacter?: boolean;   // Codes were generated here
+}
+
+export interface GiftCodeBatchSummary extends GiftCodeBatch {
+  skuName: string;
+  quantity: number;
+  counts: Record<GiftCodeStatus, number>;
+  totalValue: number;
+  redeemedValue: number;
+  // Cards with at least one redemption, out of the cards sold (activated)
+  redemptionRate: number;
+}
+
+export type GenerateGiftCodeBatchInput = Omit<CreateGiftCodeBatchInput, 'codes' | 'checkCharacter'> & { quantity: number };
+
+export interface ParsedGiftCode {
+  code: string;          // As entered, trimmed
+  generated: boolean;    // Matches the generated code format (case and separators aside)
+  canonical: string;     // Generated codes in their stored form, the code as entered otherwise
+  checkValid: boolean;   // Check character is right (generated codes only)
+}
+
+export interface GiftCodeValidation {
+  valid: boolean;
+  giftCode?: GiftCodeWithSku;
+  balance?: number;
+  message?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_GIFT_CODE_BATCH_SIZE = 10000;
+
+// No 0/O, 1/I: easy to misread on a printed card
+export const GIFT_CODE_ALPHABET = process.env.GIFT_CODE_ALPHABET || 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const GIFT_CODE_FORMAT = process.env.GIFT_CODE_FORMAT || '####-####-####';
+
+// Characters users may type or leave out between groups
+const SEPARATOR_PATTERN = /[\s-]/g;
+
+// Format without separators, e.g. ############
+const COMPACT_FORMAT = GIFT_CODE_FORMAT.replace(SEPARATOR_PATTERN, '').toUpperCase();
+
+if (new Set(GIFT_CODE_ALPHABET).size !== GIFT_CODE_ALPHABET.length || GIFT_CODE_ALPHABET.length < 10) {
+  throw new Error('GIFT_CODE_ALPHABET must hold at least 10 distinct characters');
+}
+if ((COMPACT_FORMAT.match(/#/g) ?? []).length < 8) {
+  throw new Error('GIFT_CODE_FORMAT must hold at least 8 # placeholders');
+}
+
+const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Statuses a card can be redeemed in
+export const REDEEMABLE_GIFT_CODE_STATUSES: GiftCodeStatus[] = ['UNUSED', 'PARTIALLY_USED'];
+
+const EMPTY_COUNTS: Record<GiftCodeStatus, number> = {
+  INACTIVE: 0,
+  UNUSED: 0,
+  PARTIALLY_USED: 0,
+  USED: 0,
+  DEACTIVATED: 0,
+  EXPIRED: 0,
+};
+
+// ============================================
+// BALANCE
+// ============================================
+
+// Value loaded on the card
+export const getGiftCodeValue = (giftCode: GiftCodeWithSku): number =>
+  Number(giftCode.faceValue ?? giftCode.sku.price);
+
+// Value left to redeem
+export const getGiftCodeBalance = (giftCode: GiftCodeWithSku): number =>
+  Math.max(0, Math.round((getGiftCodeValue(giftCode) - Number(giftCode.redeemedAmount)) * 100) / 100);
+
+// Status after the redeemed amount changed
+const getStatusForRedeemed = (value: number, redeemedAmount: number): GiftCodeStatus => {
+  if (redeemedAmount <= 0) return 'UNUSED';
+  return redeemedAmount >= value ? 'USED' : 'PARTIALLY_USED';
+};
+
+// ============================================
+// GENERATION
+// ============================================
+
+// Luhn mod N check character of a code body
+const computeCheckCharacter = (body: string): string => {
+  const n = GIFT_CODE_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = body.length - 1; i >= 0; i--) {
+    const addend = factor * GIFT_CODE_ALPHABET.indexOf(body.charAt(i));
+    sum += Math.floor(addend / n) + (addend % n);
+    factor = factor === 2 ? 1 : 2;
+  }
+
+  return GIFT_CODE_ALPHABET.charAt((n - (sum % n)) % n);
+};
+
+// Random characters of a code (placeholders only), the last one is the check character
+const getCodeCharacters = (compact: string): string =>
+  Array.from(compact).filter((_, i) => COMPACT_FORMAT[i] === '#').join('');
+
+// Lay characters out in the format, separators included
+const applyFormat = (characters: string): string => {
+  let next = 0;
+  return Array.from(GIFT_CODE_FORMAT.toUpperCase())
+    .map((slot) => (slot === '#' ? characters[next++] : slot))
+    .join('');
+};
+
+// Cryptographically random code in GIFT_CODE_FORMAT, check character last
+export const generateGiftCode = (): string => {
+  const placeholders = (COMPACT_FORMAT.match(/#/g) ?? []).length;
+  const body = Array.from(
+    { length: placeholders - 1 },
+    () => GIFT_CODE_ALPHABET[crypto.randomInt(GIFT_CODE_ALPHABET.length)]
+  ).join('');
+
+  return applyFormat(body + computeCheckCharacter(body));
+};
+
+// Read a code typed by a user: generated codes may be typed in any case, with or without separators
+export const parseGiftCode = (input: string): ParsedGiftCode => {
+  const trimmed = input.trim();
+  const compact = trimmed.toUpperCase().replace(SEPARATOR_PATTERN, '');
+
+  const generated = compact.length === COMPACT_FORMAT.length && Array.from(compact).every((char, i) =>
+    COMPACT_FORMAT[i] === '#' ? GIFT_CODE_ALPHABET.includes(char) : char === COMPACT_FORMAT[i]
+  );
+
+  if (!generated) {
+    return { code: trimmed, generated: false, canonical: trimmed, checkValid: false };
+  }
+
+  const characters = getCodeCharacters(compact);
+  const body = characters.slice(0, -1);
+
+  return {
+    code: trimmed,
+    generated: true,
+    canonical: applyFormat(characters),
+    checkValid: computeCheckCharacter(body) === characters.slice(-1),
+  };
+};
+
+// Generate a print batch of new codes
+export const generateGiftCodeBatch = async (
+  input: GenerateGiftCodeBatchInput
+): Promise<{ batch: GiftCodeBatch; codes: string[] } | null> => {
+  const codes = new Set<string>();
+
+  // Collisions are very unlikely, a few rounds are enough to replace them
+  for (let attempt = 0; attempt < 5 && codes.size < input.quantity; attempt++) {
+    const candidates = new Set<string>();
+    while (candidates.size < input.quantity - codes.size) {
+      const code = generateGiftCode();
+      if (!codes.has(code)) candidates.add(code);
+    }
+
+    const existing = await prisma.giftCode.findMany({
+      where: { code: { in: [...candidates] } },
+      select: { code: true },
+    });
+    const existingSet = new Set(existing.map((c) => c.code));
+    for (const code of candidates) {
+      if (!existingSet.has(code)) codes.add(code);
+    }
+  }
+
+  const { quantity: _quantity, ...batchInput } = input;
+  return createGiftCodeBatch({ ...batchInput, codes: [...codes], checkCharacter: true });
+};
+
+// ============================================
+// BATCHES
+// ============================================
+
+// Create a print batch with its codes, codes that already exist are skipped
+// Returns null if every code already exists
+export const createGiftCodeBatch = async (
+  input: CreateGiftCodeBatchInput
+): Promise<{ batch: GiftCodeBatch; codes: string[] } | null> => {
+  const existingCodes = await prisma.giftCode.findMany({
+    where: { code: { in: input.codes } },
+    select: { code: true },
+  });
+  const existingSet = new Set(existingCodes.map((c) => c.code));
+  const newCodes = [...new Set(input.codes)].filter((c) => !existingSet.has(c));
+
+  if (newCodes.length === 0) {
+    return null;
+  }
+
+  const activationRequired = input.activationRequired ?? false;
+
+  const batch = await prisma.$transaction(async (tx) => {
+    const created = await tx.giftCodeBatch.create({
+      data: {
+        name: input.name,
+        skuCode: input.skuCode,
+        distributor: input.distributor ?? null,
+        faceValue: input.faceValue ?? null,
+        activationRequired,
+        expiresAt: input.expiresAt ?? null,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    await tx.giftCode.createMany({
+      data: newCodes.map((code) => ({
+        code,
+        skuCode: input.skuCode,
+        batchId: created.id,
+        status: activationRequired ? 'INACTIVE' as const : 'UNUSED' as const,
+        faceValue: input.faceValue ?? null,
+        expiresAt: input.expiresAt ?? null,
+        checkCharacter: input.checkCharacter ?? false,
+      })),
+    });
+
+    return created;
+  });
+
+  return { batch, codes: newCodes };
+};
+
+// All batches, newest first, with card counts per status and redeemed value
+export const getGiftCodeBatches = async (): Promise<GiftCodeBatchSummary[]> => {
+  // Keep statuses accurate between daily cron runs
+  await expireGiftCodes();
+
+  const [batches, counts, amounts] = await Promise.all([
+    prisma.giftCodeBatch.findMany({
+      include: { sku: { select: { name: true, price: true } } },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.giftCode.groupBy({
+      by: ['batchId', 'status'],
+      where: { batchId: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.giftCode.groupBy({
+      by: ['batchId'],
+      where: { batchId: { not: null } },
+      _sum: { redeemedAmount: true },
+    }),
+  ]);
+
+  return batches.map(({ sku, ...batch }) => {
+    const batchCounts: Record<GiftCodeStatus, number> = { ...EMPTY_COUNTS };
+    for (const row of counts) {
+      if (row.batchId === batch.id) batchCounts[row.status] = row._count._all;
+    }
+
+    const quantity = Object.values(batchCounts).reduce((sum, n) => sum + n, 0);
+    const redeemedCards = batchCounts.PARTIALLY_USED + batchCounts.USED;
+    const soldCards = quantity - batchCounts.INACTIVE;
+    const faceValue = Number(batch.faceValue ?? sku.price);
+    const redeemedValue = Number(amounts.find((row) => row.batchId === batch.id)?._sum.redeemedAmount ?? 0);
+
+    return {
+      ...batch,
+      skuName: sku.name,
+      quantity,
+      counts: batchCounts,
+      totalValue: Math.round(faceValue * quantity * 100) / 100,
+      redeemedValue,
+      redemptionRate: soldCards > 0 ? Math.round((redeemedCards / soldCards) * 1000) / 10 : 0,
+    };
+  });
+};
+
+// Landing page URL printed on the cards of a SKU
+export const getGiftCardRedeemUrl = (skuCode: string): string =>
+  `${frontendUrl}/landing?${new URLSearchParams({ sku: skuCode }).toString()}`;
+
+const formatEuro = (value: number): string => `€${value.toFixed(2)}`;
+
+// CSV of a batch for the printer or the distributor: one row per card
+export const getGiftCodeBatchCsv = async (batch: GiftCodeBatch): Promise<string> => {
+  const codes = await prisma.giftCode.findMany({
+    where: { batchId: batch.id },
+    include: { sku: true },
+    orderBy: { code: 'asc' },
+  });
+
+  const headers = ['Code', 'SKU', 'Face Value', 'Balance', 'Status', 'Expires At', 'Batch', 'Distributor', 'URL'];
+  const rows = codes.map((c) => [
+    c.code,
+    c.skuCode,
+    getGiftCodeValue(c).toFixed(2),
+    getGiftCodeBalance(c).toFixed(2),
+    c.status,
+    c.expiresAt ? c.expiresAt.toISOString() : '',
+    batch.name,
+    batch.distributor ?? '',
+    getGiftCardRedeemUrl(c.skuCode),
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')),
+  ].join('\n');
+};
+
+// Printer-ready sheet: 2 × 4 credit-card-sized cards per A4 page with dashed cut lines
+export const getGiftCodeBatchPdf = async (batch: GiftCodeBatch): Promise<Buffer> => {
+  const codes = await prisma.giftCode.findMany({
+    where: { batchId: batch.id },
+    include: { sku: true },
+    orderBy: { code: 'asc' },
+  });
+
+  const pdf = createPdfDocument();
+  const cardWidth = 242.65;  // 85.6 mm
+  const cardHeight = 153.07; // 54 mm
+  const columns = 2;
+  const rows = 4;
+  const perPage = columns * rows;
+  const marginX = (pdf.pageWidth - columns * cardWidth) / 2;
+  const top = 90;
+  const pageCount = Math.max(1, Math.ceil(codes.length / perPage));
+
+  for (let page = 0; page < pageCount; page++) {
+    if (page > 0) pdf.addPage();
+
+    // Sheet header, outside the cut area
+    pdf.text(marginX, 48, batch.name, { font: 'bold', size: 12 });
+    pdf.text(
+      marginX,
+      64,
+      [batch.distributor, `${codes.length} cards`, `page ${page + 1} of ${pageCount}`].filter(Boolean).join(' • '),
+      { size: 9, gray: 0.4 }
+    );
+
+    codes.slice(page * perPage, (page + 1) * perPage).forEach((giftCode, index) => {
+      const x = marginX + (index % columns) * cardWidth;
+      const y = top + Math.floor(index / columns) * cardHeight;
+      const centerX = x + cardWidth / 2;
+
+      pdf.rect(x, y, cardWidth, cardHeight, { gray: 0.6, dash: 3 });
+      pdf.text(x + 16, y + 28, giftCode.sku.name, { font: 'bold', size: 11 });
+      pdf.text(x + cardWidth - 16, y + 28, formatEuro(getGiftCodeValue(giftCode)), { font: 'bold', size: 14, align: 'right' });
+      pdf.text(centerX, y + 72, 'Your gift code', { size: 8, gray: 0.4, align: 'center' });
+      pdf.text(centerX, y + 92, giftCode.code, { font: 'mono', size: 16, align: 'center' });
+      pdf.text(centerX, y + 116, `Redeem at ${getGiftCardRedeemUrl(giftCode.skuCode)}`, { size: 7, gray: 0.3, align: 'center' });
+
+      const notes = [
+        batch.activationRequired && 'Valid once activated at the till',
+        giftCode.expiresAt && `Valid until ${giftCode.expiresAt.toISOString().slice(0, 10)}`,
+      ].filter(Boolean).join(' • ');
+      if (notes) {
+        pdf.text(centerX, y + 134, notes, { size: 7, gray: 0.3, align: 'center' });
+      }
+    });
+  }
+
+  return pdf.toBuffer();
+};
+
+// Activate every INACTIVE card of a batch (shipped cards sold by the distributor)
+// Returns the number of cards activated
+export const activateGiftCodeBatch = async (batchId: string): Promise<number> => {
+  const { count } = await prisma.giftCode.updateMany({
+    where: { batchId, status: 'INACTIVE' },
+    data: { status: 'UNUSED', activatedAt: new Date() },
+  });
+
+  return count;
+};
+
+// ============================================
+// REDEMPTION
+// ============================================
+
+// Check a code entered on the landing page without redeeming it
+export const validateGiftCodeForRedemption = async (
+  code: string,
+  skuCode?: string
+): Promise<GiftCodeValidation> => {
+  // Codes are matched as stored, generated ones also however they were typed
+  // A wrong check character is a typo: only uploaded codes (which have none) can still match
+  const parsed = parseGiftCode(code);
+  const typo = parsed.generated && !parsed.checkValid;
+  const matches = await prisma.giftCode.findMany({
+    where: typo
+      ? { code: parsed.code, checkCharacter: false }
+      : { code: { in: [...new Set([parsed.code, parsed.canonical])] } },
+    include: { sku: true },
+  });
+  const giftCode = matches.find((c) => c.code === parsed.code)
+    ?? matches.find((c) => c.code === parsed.canonical && c.checkCharacter);
+
+  if (!giftCode) {
+    return { valid: false, message: typo ? 'Invalid gift code, please check it for typos' : 'Invalid gift code' };
+  }
+
+  if (skuCode && giftCode.skuCode !== skuCode) {
+    return { valid: false, message: 'Code does not match this product' };
+  }
+
+  if (giftCode.status === 'INACTIVE') {
+    return { valid: false, message: 'This card has not been activated yet, please contact the store where you bought it' };
+  }
+
+  if (giftCode.status === 'USED') {
+    return { valid: false, message: 'Code already used' };
+  }
+
+  if (giftCode.status === 'DEACTIVATED') {
+    return { valid: false, message: 'Code deactivated' };
+  }
+
+  if (giftCode.status === 'EXPIRED' || (giftCode.expiresAt && giftCode.expiresAt < new Date())) {
+    return { valid: false, message: 'This gift card has expired' };
+  }
+
+  const balance = getGiftCodeBalance(giftCode);
+  if (balance <= 0) {
+    return { valid: false, message: 'Code already used' };
+  }
+
+  return { valid: true, giftCode, balance };
+};
+
+// Redeem part or all of the balance of a validated code
+// Guarded on the redeemed amount read at validation, so two redemptions can't spend the same balance
+// Returns false if the code changed in between
+export const redeemGiftCode = async (
+  giftCode: GiftCodeWithSku,
+  amount: number,
+  userId: string
+): Promise<boolean> => {
+  const redeemedAmount = Math.round((Number(giftCode.redeemedAmount) + amount) * 100) / 100;
+
+  const { count } = await prisma.giftCode.updateMany({
+    where: {
+      code: giftCode.code,
+      status: { in: REDEEMABLE_GIFT_CODE_STATUSES },
+      redeemedAmount: giftCode.redeemedAmount,
+    },
+    data: {
+      redeemedAmount,
+      status: getStatusForRedeemed(getGiftCodeValue(giftCode), redeemedAmount),
+      usedAt: new Date(),
+      usedByUserId: userId,
+    },
+  });
+
+  return count === 1;
+};
+
+// Give an amount back to a card: the transaction could not be created, or it was reversed
+// Returns false if the code doesn't exist or less than the amount was redeemed
+export const releaseGiftCodeAmount = async (
+  code: string,
+  amount: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> => {
+  const giftCode = await client.giftCode.findUnique({
+    where: { code },
+    include: { sku: true },
+  });
+  if (!giftCode || Number(giftCode.redeemedAmount) < amount) return false;
+
+  const redeemedAmount = Math.round((Number(giftCode.redeemedAmount) - amount) * 100) / 100;
+  // Deactivated and expired cards stay that way, only the balance comes back
+  const keepStatus = giftCode.status === 'DEACTIVATED' || giftCode.status === 'EXPIRED';
+
+  const { count } = await client.giftCode.updateMany({
+    where: { code, redeemedAmount: giftCode.redeemedAmount },
+    data: {
+      redeemedAmount,
+      ...(!keepStatus && { status: getStatusForRedeemed(getGiftCodeValue(giftCode), redeemedAmount) }),
+      ...(redeemedAmount <= 0 && { usedAt: null, usedByUserId: null }),
+    },
+  });
+
+  return count === 1;
+};
+
+// ============================================
+// EXPIRY
+// ============================================
+
+// Mark cards past their expiry date as EXPIRED (daily cron), returns the number of cards updated
+// Redeemed balances stay redeemed, the rest of the balance is lost
+export const expireGiftCodes = async (): Promise<number> => {
+  const { count } = await prisma.giftCode.updateMany({
+    where: {
+      status: { in: ['INACTIVE', ...REDEEMABLE_GIFT_CODE_STATUSES] },
+      expiresAt: { lt: new Date() },
+    },
+    data: { status: 'EXPIRED' },
+  });
+
+  return count;
+};
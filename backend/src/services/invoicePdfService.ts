@@ -0,0 +1,252 @@
+// CSR26 Invoice PDF Service
+// Renders issued merchant invoices as A4 PDF documents (see pdfService)
+// Page 1: seller, buyer, summary lines by product and the VAT breakdown
+// Following pages: every billed transaction of the period
+//
+// Seller details come from the environment: INVOICE_SELLER_NAME, INVOICE_SELLER_ADDRESS
+// (lines separated by ;), INVOICE_SELLER_VAT_ID and INVOICE_SELLER_EMAIL
+
+import { createPdfDocument, PdfDocument } from './pdfService.js';
+import type { InvoiceDetails } from './billingService.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface InvoiceSeller {
+  name: string;
+  addressLines: string[];
+  vatId: string | null;
+  email: string | null;
+}
+
+interface InvoiceSummaryLine {
+  description: string;
+  quantity: number;
+  impactKg: number;
+  amount: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MARGIN = 50;
+const ROW_HEIGHT = 16;
+const DETAIL_ROWS_PER_PAGE = 42;
+
+// Legal note printed when no VAT is charged
+const VAT_NOTES: Record<string, string> = {
+  REVERSE_CHARGE:
+    'Reverse charge: VAT to be accounted for by the recipient (art. 196 Directive 2006/112/EC).',
+  OUTSIDE_EU:
+    'Services to a business established outside the EU, not subject to VAT (art. 44 Directive 2006/112/EC).',
+};
+
+const PAYMENT_MODE_LABELS: Record<string, string> = {
+  CLAIM: 'Claimed impact',
+  ALLOCATION: 'Allocated impact',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const getSeller = (): InvoiceSeller => ({
+  name: process.env.INVOICE_SELLER_NAME || 'CSR26',
+  addressLines: (process.env.INVOICE_SELLER_ADDRESS || '')
+    .split(';')
+    .map((line) => line.trim())
+    .filter(Boolean),
+  vatId: process.env.INVOICE_SELLER_VAT_ID || null,
+  email: process.env.INVOICE_SELLER_EMAIL || null,
+});
+
+const formatEuro = (value: number): string => `€${value.toFixed(2)}`;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const formatKg = (value: number): string => `${value.toFixed(2)} kg`;
+
+// One line per product and payment mode
+const getSummaryLines = (invoice: InvoiceDetails): InvoiceSummaryLine[] => {
+  const lines = new Map<string, InvoiceSummaryLine>();
+
+  for (const t of invoice.transactions) {
+    const key = `${t.paymentMode}:${t.skuCode ?? ''}`;
+    const line = lines.get(key) ?? {
+      description: [PAYMENT_MODE_LABELS[t.paymentMode] ?? t.paymentMode, t.skuCode].filter(Boolean).join(' - '),
+      quantity: 0,
+      impactKg: 0,
+      amount: 0,
+    };
+    line.quantity++;
+    line.impactKg += t.impactKg;
+    line.amount += t.amount;
+    lines.set(key, line);
+  }
+
+  return [...lines.values()];
+};
+
+// ============================================
+// RENDERING
+// ============================================
+
+const drawFooter = (pdf: PdfDocument, seller: InvoiceSeller, number: string, page: number, pageCount: number) => {
+  const y = pdf.pageHeight - 30;
+  pdf.line(MARGIN, y - 12, pdf.pageWidth - MARGIN, y - 12, { gray: 0.8 });
+  pdf.text(MARGIN, y, `${seller.name} • Invoice ${number}`, { size: 8, gray: 0.4 });
+  pdf.text(pdf.pageWidth - MARGIN, y, `Page ${page} of ${pageCount}`, { size: 8, gray: 0.4, align: 'right' });
+};
+
+// Table header row with right-aligned numeric columns
+const drawTableHeader = (pdf: PdfDocument, y: number, columns: { label: string; x: number; align?: 'right' }[]) => {
+  pdf.rect(MARGIN, y - 12, pdf.pageWidth - 2 * MARGIN, ROW_HEIGHT + 2, { fillGray: 0.93, width: 0 });
+  columns.forEach((column) => pdf.text(column.x, y, column.label, { font: 'bold', size: 9, align: column.align }));
+};
+
+// Render an issued invoice
+export const getInvoicePdf = (invoice: InvoiceDetails & { number: string }): Buffer => {
+  const pdf = createPdfDocument();
+  const seller = getSeller();
+  const right = pdf.pageWidth - MARGIN;
+  const detailPages = Math.ceil(invoice.transactions.length / DETAIL_ROWS_PER_PAGE);
+  const pageCount = 1 + detailPages;
+
+  // Seller
+  let y = 60;
+  pdf.text(MARGIN, y, seller.name, { font: 'bold', size: 16 });
+  for (const line of [...seller.addressLines, seller.vatId && `VAT ID ${seller.vatId}`, seller.email]) {
+    if (!line) continue;
+    y += 13;
+    pdf.text(MARGIN, y, line, { size: 9, gray: 0.3 });
+  }
+
+  // Document
+  pdf.text(right, 60, 'INVOICE', { font: 'bold', size: 20, align: 'right' });
+  pdf.text(right, 80, `No. ${invoice.number}`, { font: 'bold', size: 10, align: 'right' });
+  pdf.text(right, 94, `Date ${formatDate(invoice.issuedAt ?? invoice.createdAt)}`, { size: 9, align: 'right' });
+  pdf.text(right, 107, `Period ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}`, { size: 9, align: 'right' });
+  if (invoice.paid && invoice.paidAt) {
+    pdf.text(right, 120, `Paid on ${formatDate(invoice.paidAt)}`, { font: 'bold', size: 9, align: 'right', gray: 0.3 });
+  }
+
+  // Buyer
+  y = Math.max(y, 120) + 30;
+  pdf.text(MARGIN, y, 'Bill to', { size: 8, gray: 0.4 });
+  y += 15;
+  pdf.text(MARGIN, y, invoice.billingName || invoice.merchant.name, { font: 'bold', size: 11 });
+  const buyerLines = [
+    ...(invoice.billingAddress ? invoice.billingAddress.split('\n') : []),
+    invoice.billingVatId && `VAT ID ${invoice.billingVatId}`,
+    invoice.merchant.email,
+  ];
+  for (const line of buyerLines) {
+    if (!line) continue;
+    y += 13;
+    pdf.text(MARGIN, y, line, { size: 9 });
+  }
+
+  // Summary lines
+  y += 40;
+  const columns = [
+    { label: 'Description', x: MARGIN + 6 },
+    { label: 'Transactions', x: right - 200, align: 'right' as const },
+    { label: 'Impact', x: right - 100, align: 'right' as const },
+    { label: 'Amount', x: right - 6, align: 'right' as const },
+  ];
+  drawTableHeader(pdf, y, columns);
+
+  const netAmount = invoice.netAmount !== null ? Number(invoice.netAmount) : Number(invoice.amount);
+  const lines = getSummaryLines(invoice);
+  const linesTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  // Invoices issued before invoice lines billed the merchant balance, which may not match
+  // the transactions linked to them by the backfill (balance corrections)
+  const carriedOver = Math.round((netAmount - linesTotal) * 100) / 100;
+  if (carriedOver !== 0) {
+    lines.push({ description: 'Balance carried over and adjustments', quantity: 0, impactKg: 0, amount: carriedOver });
+  }
+
+  for (const line of lines) {
+    y += ROW_HEIGHT + 2;
+    pdf.text(MARGIN + 6, y, line.description, { size: 9 });
+    pdf.text(right - 200, y, line.quantity ? String(line.quantity) : '', { size: 9, align: 'right' });
+    pdf.text(right - 100, y, line.impactKg ? formatKg(line.impactKg) : '', { size: 9, align: 'right' });
+    pdf.text(right - 6, y, formatEuro(line.amount), { size: 9, align: 'right' });
+  }
+  y += 10;
+  pdf.line(MARGIN, y, right, y, { gray: 0.7 });
+
+  // Totals
+  const totals: [string, string][] = [['Net amount', formatEuro(netAmount)]];
+  if (invoice.vatAmount !== null && invoice.vatRate !== null) {
+    const rate = Number(invoice.vatRate);
+    totals.push([
+      invoice.vatTreatment === 'DOMESTIC' ? `VAT ${rate}%` : 'VAT 0%',
+      formatEuro(Number(invoice.vatAmount)),
+    ]);
+  } else {
+    totals.push(['VAT', 'not itemised']);
+  }
+
+  for (const [label, value] of totals) {
+    y += ROW_HEIGHT;
+    pdf.text(right - 120, y, label, { size: 9, align: 'right' });
+    pdf.text(right - 6, y, value, { size: 9, align: 'right' });
+  }
+  y += ROW_HEIGHT + 6;
+  pdf.rect(right - 230, y - 14, 230, ROW_HEIGHT + 6, { fillGray: 0.93, width: 0 });
+  pdf.text(right - 120, y, 'Total due', { font: 'bold', size: 11, align: 'right' });
+  pdf.text(right - 6, y, formatEuro(Number(invoice.amount)), { font: 'bold', size: 11, align: 'right' });
+
+  // Notes
+  y += 40;
+  const vatNote = invoice.vatTreatment ? VAT_NOTES[invoice.vatTreatment] : undefined;
+  if (vatNote) {
+    pdf.text(MARGIN, y, vatNote, { size: 8 });
+    y += 13;
+  }
+  pdf.text(
+    MARGIN,
+    y,
+    `${invoice.transactionCount} transactions, ${formatKg(Number(invoice.totalImpactKg))} of environmental impact in the period.`,
+    { size: 8, gray: 0.4 }
+  );
+  if (detailPages > 0) {
+    pdf.text(MARGIN, y + 13, 'Transaction detail on the following pages.', { size: 8, gray: 0.4 });
+  }
+
+  drawFooter(pdf, seller, invoice.number, 1, pageCount);
+
+  // Transaction detail
+  for (let page = 0; page < detailPages; page++) {
+    pdf.addPage();
+    y = 60;
+    pdf.text(MARGIN, y, `Transaction detail - invoice ${invoice.number}`, { font: 'bold', size: 12 });
+    y += 30;
+    drawTableHeader(pdf, y, [
+      { label: 'Date', x: MARGIN + 6 },
+      { label: 'Transaction', x: MARGIN + 80 },
+      { label: 'Type', x: MARGIN + 170 },
+      { label: 'SKU', x: MARGIN + 250 },
+      { label: 'Impact', x: right - 100, align: 'right' },
+      { label: 'Amount', x: right - 6, align: 'right' },
+    ]);
+
+    for (const t of invoice.transactions.slice(page * DETAIL_ROWS_PER_PAGE, (page + 1) * DETAIL_ROWS_PER_PAGE)) {
+      y += ROW_HEIGHT;
+      pdf.text(MARGIN + 6, y, formatDate(t.createdAt), { size: 8 });
+      pdf.text(MARGIN + 80, y, t.id.slice(0, 8), { font: 'mono', size: 8 });
+      pdf.text(MARGIN + 170, y, t.paymentMode, { size: 8 });
+      pdf.text(MARGIN + 250, y, t.skuCode ?? '-', { size: 8 });
+      pdf.text(right - 100, y, formatKg(t.impactKg), { size: 8, align: 'right' });
+      pdf.text(right - 6, y, formatEuro(t.amount), { size: 8, align: 'right' });
+    }
+
+    drawFooter(pdf, seller, invoice.number, page + 2, pageCount);
+  }
+
+  return pdf.toBuffer();
+};
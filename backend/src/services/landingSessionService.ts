@@ -0,0 +1,52 @@
+// CSR26 Landing Session Service
+// Short-lived token issued with a landing page claim or payment
+// It only lets the thank-you screen read the wallet of the user who just claimed or paid
+// (a newly created user or the signed-in owner, never an existing account named by email alone),
+// once that transaction is completed
+//
+// Signed with a key derived from JWT_SECRET, so it can never be used as a sign-in token
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LandingWalletTokenPayload {
+  landingUserId: string;
+  transactionId: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-change-in-production';
+const LANDING_TOKEN_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('landing-wallet-token').digest('hex');
+
+// Long enough for the thank-you screen, short enough to be useless once shared
+const LANDING_TOKEN_TTL = '30m';
+
+// ============================================
+// TOKENS
+// ============================================
+
+// Issue a wallet token for the user of a landing page transaction
+export const issueLandingWalletToken = (userId: string, transactionId: string): string => {
+  const payload: LandingWalletTokenPayload = { landingUserId: userId, transactionId };
+  return jwt.sign(payload, LANDING_TOKEN_SECRET, { expiresIn: LANDING_TOKEN_TTL });
+};
+
+// Returns the user and transaction the token was issued for, or null if it is invalid or expired
+export const verifyLandingWalletToken = (token: string): LandingWalletTokenPayload | null => {
+  try {
+    const payload = jwt.verify(token, LANDING_TOKEN_SECRET) as Partial<LandingWalletTokenPayload>;
+    if (typeof payload.landingUserId !== 'string' || typeof payload.transactionId !== 'string') {
+      return null;
+    }
+    return { landingUserId: payload.landingUserId, transactionId: payload.transactionId };
+  } catch {
+    return null;
+  }
+};
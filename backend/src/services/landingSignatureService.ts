@@ -0,0 +1,223 @@
+// CSR26 Landing Signature Service
+// Merchant-funded landing URLs (CLAIM/ALLOCATION) are signed with HMAC-SHA256 and expire,
+// so editing ?amount=, ?merchant= or ?weight= can't credit a wallet or charge a merchant
+// Each merchant (or partner, for links without a merchant) has its own signing key
+// Partner-signed links name no merchant to charge, so they are refused for CLAIM/ALLOCATION
+//
+// Signed query parameters: sku, merchant, partner, amount, weight, multiplier, email, exp, sig
+// sig = base64url(HMAC-SHA256(secret, "v1\n" + [sku, merchant, partner, amount, weight, multiplier, email, exp].join("\n")))
+// Absent parameters are signed as empty strings, exp is a Unix timestamp in seconds
+
+import { prisma } from '../lib/prisma.js';
+import type { LandingSigningKey } from '@prisma/client';
+import crypto from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Owner of a signing key
+export type LandingSigner = { merchantId: string } | { partnerId: string };
+
+// Landing URL parameters covered by the signature, as they appear in the URL
+export interface LandingLinkParams {
+  sku?: string;
+  merchant?: string;
+  partner?: string;
+  amount?: string;
+  weight?: string;
+  multiplier?: string;
+  email?: string;
+}
+
+export interface SignedLandingParams extends LandingLinkParams {
+  exp: string;
+  sig: string;
+}
+
+// Verified parameters, ready for transaction creation
+export interface VerifiedLanding {
+  skuCode?: string;
+  merchantId?: string;
+  partnerId?: string;
+  amount?: number;
+  weightGrams?: number;
+  multiplier?: number;
+  email?: string;
+  expiresAt: Date;
+}
+
+export interface LandingSigningKeyInfo {
+  secret: string;
+  createdAt: Date;
+  rotatedAt: Date | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SIGNATURE_VERSION = 'v1';
+
+// Order matters: it is part of the signed payload
+const SIGNED_FIELDS: (keyof LandingLinkParams)[] = ['sku', 'merchant', 'partner', 'amount', 'weight', 'multiplier', 'email'];
+
+// Printed QR codes live on packaging for a while
+export const DEFAULT_LINK_DAYS = 365;
+export const MAX_LINK_DAYS = 730;
+
+const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// ============================================
+// SIGNING KEYS
+// ============================================
+
+const signerWhere = (signer: LandingSigner) =>
+  'merchantId' in signer ? { merchantId: signer.merchantId } : { partnerId: signer.partnerId };
+
+// Links are signed by their merchant, or by their partner when there is no merchant
+const getSigner = (params: LandingLinkParams): LandingSigner | null => {
+  if (params.merchant) return { merchantId: params.merchant };
+  if (params.partner) return { partnerId: params.partner };
+  return null;
+};
+
+const generateSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+export const toSigningKeyInfo = (key: LandingSigningKey): LandingSigningKeyInfo => ({
+  secret: key.secret,
+  createdAt: key.createdAt,
+  rotatedAt: key.rotatedAt,
+});
+
+// Get the signer's key, creating it on first use
+export const getOrCreateSigningKey = async (signer: LandingSigner): Promise<LandingSigningKey> => {
+  return prisma.landingSigningKey.upsert({
+    where: signerWhere(signer),
+    create: { ...signer, secret: generateSecret() },
+    update: {},
+  });
+};
+
+// Replace the signer's key: every link signed with the old key stops working
+export const rotateSigningKey = async (signer: LandingSigner): Promise<LandingSigningKey> => {
+  return prisma.landingSigningKey.upsert({
+    where: signerWhere(signer),
+    create: { ...signer, secret: generateSecret() },
+    update: { secret: generateSecret(), rotatedAt: new Date() },
+  });
+};
+
+// ============================================
+// SIGNING
+// ============================================
+
+const computeSignature = (params: LandingLinkParams, exp: string, secret: string): string => {
+  const payload = [SIGNATURE_VERSION, ...SIGNED_FIELDS.map((field) => params[field] ?? ''), exp].join('\n');
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+};
+
+// Sign landing parameters with a secret
+export const signLandingParams = (
+  params: LandingLinkParams,
+  secret: string,
+  expiresAt: Date
+): SignedLandingParams => {
+  const exp = String(Math.floor(expiresAt.getTime() / 1000));
+  return { ...params, exp, sig: computeSignature(params, exp, secret) };
+};
+
+// Build a signed landing URL with the merchant's key (or the partner's when there is no merchant)
+// Returns null when there is neither a merchant nor a partner to sign with
+export const createSignedLandingUrl = async (
+  params: LandingLinkParams,
+  days: number = DEFAULT_LINK_DAYS
+): Promise<{ url: string; expiresAt: Date } | null> => {
+  const signer = getSigner(params);
+  if (!signer) {
+    return null;
+  }
+
+  const key = await getOrCreateSigningKey(signer);
+  const expiresAt = new Date(Date.now() + Math.min(days, MAX_LINK_DAYS) * 24 * 60 * 60 * 1000);
+  const signed = signLandingParams(params, key.secret, expiresAt);
+
+  const query = new URLSearchParams();
+  for (const [field, value] of Object.entries(signed)) {
+    if (value) query.set(field, value);
+  }
+
+  return { url: `${frontendUrl}/landing?${query.toString()}`, expiresAt };
+};
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+const toOptionalNumber = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const toOptionalInteger = (value?: string): number | undefined => {
+  const parsed = toOptionalNumber(value);
+  return parsed !== undefined && Number.isInteger(parsed) ? parsed : undefined;
+};
+
+// Check the signature and expiry of landing parameters sent by the landing page
+// Returns null if the signature is missing, invalid or expired
+export const verifyLandingParams = async (input: unknown): Promise<VerifiedLanding | null> => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  // Only keep string values of the known fields
+  const raw = input as Record<string, unknown>;
+  const pick = (field: string): string | undefined =>
+    typeof raw[field] === 'string' && raw[field] !== '' ? (raw[field] as string) : undefined;
+
+  const params: LandingLinkParams = {};
+  for (const field of SIGNED_FIELDS) {
+    const value = pick(field);
+    if (value !== undefined) params[field] = value;
+  }
+  const exp = pick('exp');
+  const sig = pick('sig');
+
+  if (!exp || !sig || !/^\d+$/.test(exp)) {
+    return null;
+  }
+
+  const expiresAt = new Date(Number(exp) * 1000);
+  if (expiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  const signer = getSigner(params);
+  if (!signer) {
+    return null;
+  }
+
+  const key = await prisma.landingSigningKey.findUnique({ where: signerWhere(signer) });
+  if (!key) {
+    return null;
+  }
+
+  const expected = Buffer.from(computeSignature(params, exp, key.secret));
+  const received = Buffer.from(sig);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return {
+    skuCode: params.sku,
+    merchantId: params.merchant,
+    partnerId: params.partner,
+    amount: toOptionalNumber(params.amount),
+    weightGrams: toOptionalInteger(params.weight),
+    multiplier: toOptionalInteger(params.multiplier),
+    email: params.email,
+    expiresAt,
+  };
+};
@@ -0,0 +1,166 @@
+// CSR26 Wallet Ledger Service
+// Every change to a user's wallet is written here as an append-only entry
+// User.walletBalance / walletImpactKg / maturedImpactKg / pendingImpactKg are a cache of the ledger sums
+
+import { prisma } from '../lib/prisma.js';
+import type { Prisma, LedgerReason, WalletLedgerEntry } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LedgerEntryInput {
+  userId: string;
+  reason: LedgerReason;
+  amountEur?: number;
+  impactKg?: number;
+  maturedKg?: number;
+  pendingKg?: number;
+  transactionId?: string | null;
+  actorId?: string | null;
+  note?: string | null;
+}
+
+export interface LedgerBalances {
+  walletBalance: number;
+  walletImpactKg: number;
+  maturedImpactKg: number;
+  pendingImpactKg: number;
+}
+
+export interface LedgerCheckResult {
+  userId: string;
+  ledger: LedgerBalances;
+  wallet: LedgerBalances;
+  inSync: boolean;
+}
+
+// Tolerance for Decimal rounding differences (matches column precision)
+const EUR_TOLERANCE = 0.005;
+const KG_TOLERANCE = 0.00005;
+
+// ============================================
+// WRITING ENTRIES
+// ============================================
+
+// Append a ledger entry and apply the same deltas to the cached User balances
+// Pass a transaction client to include the write in a caller's $transaction
+export const recordLedgerEntry = async (
+  input: LedgerEntryInput,
+  client?: Prisma.TransactionClient
+): Promise<WalletLedgerEntry> => {
+  const amountEur = input.amountEur ?? 0;
+  const impactKg = input.impactKg ?? 0;
+  const maturedKg = input.maturedKg ?? 0;
+  const pendingKg = input.pendingKg ?? 0;
+
+  // Maturation moves kg from pending to matured, so it counts as a credit
+  const type = amountEur < 0 || impactKg < 0 || maturedKg < 0 ? 'DEBIT' : 'CREDIT';
+
+  const write = async (tx: Prisma.TransactionClient): Promise<WalletLedgerEntry> => {
+    const entry = await tx.walletLedgerEntry.create({
+      data: {
+        userId: input.userId,
+        type,
+        reason: input.reason,
+        amountEur,
+        impactKg,
+        maturedKg,
+        pendingKg,
+        transactionId: input.transactionId ?? null,
+        actorId: input.actorId ?? null,
+        note: input.note ?? null,
+      },
+    });
+
+    await tx.user.update({
+      where: { id: input.userId },
+      data: {
+        walletBalance: { increment: amountEur },
+        walletImpactKg: { increment: impactKg },
+        maturedImpactKg: { increment: maturedKg },
+        pendingImpactKg: { increment: pendingKg },
+      },
+    });
+
+    return entry;
+  };
+
+  return client ? write(client) : prisma.$transaction(write);
+};
+
+// ============================================
+// READING ENTRIES
+// ============================================
+
+// Get a user's ledger entries (newest first)
+export const getUserLedger = async (
+  userId: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ entries: WalletLedgerEntry[]; total: number }> => {
+  const [entries, total] = await Promise.all([
+    prisma.walletLedgerEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.walletLedgerEntry.count({ where: { userId } }),
+  ]);
+
+  return { entries, total };
+};
+
+// Sum all ledger entries for a user
+export const getLedgerBalances = async (userId: string): Promise<LedgerBalances> => {
+  const sums = await prisma.walletLedgerEntry.aggregate({
+    where: { userId },
+    _sum: {
+      amountEur: true,
+      impactKg: true,
+      maturedKg: true,
+      pendingKg: true,
+    },
+  });
+
+  return {
+    walletBalance: Number(sums._sum.amountEur || 0),
+    walletImpactKg: Number(sums._sum.impactKg || 0),
+    maturedImpactKg: Number(sums._sum.maturedKg || 0),
+    pendingImpactKg: Number(sums._sum.pendingKg || 0),
+  };
+};
+
+// Compare the cached User balances with the ledger sums
+export const checkUserLedger = async (userId: string): Promise<LedgerCheckResult | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      walletBalance: true,
+      walletImpactKg: true,
+      maturedImpactKg: true,
+      pendingImpactKg: true,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const ledger = await getLedgerBalances(userId);
+  const wallet: LedgerBalances = {
+    walletBalance: Number(user.walletBalance),
+    walletImpactKg: Number(user.walletImpactKg),
+    maturedImpactKg: Number(user.maturedImpactKg),
+    pendingImpactKg: Number(user.pendingImpactKg),
+  };
+
+  const inSync =
+    Math.abs(ledger.walletBalance - wallet.walletBalance) < EUR_TOLERANCE &&
+    Math.abs(ledger.walletImpactKg - wallet.walletImpactKg) < KG_TOLERANCE &&
+    Math.abs(ledger.maturedImpactKg - wallet.maturedImpactKg) < KG_TOLERANCE &&
+    Math.abs(ledger.pendingImpactKg - wallet.pendingImpactKg) < KG_TOLERANCE;
+
+  return { userId, ledger, wallet, inSync };
+};
@@ -0,0 +1,576 @@
+// CSR26 Merchant Credit Service
+// Prepaid credit merchants buy in packs (EUR or kg) and CLAIM/ALLOCATION transactions draw down
+//
+// A transaction is paid from credit when the balance covers it in full (Transaction.prepaid),
+// otherwise it is billed in arrears as before, or rejected when the merchant chose PAUSE.
+// Every change goes through the MerchantCreditEntry ledger, so the ledger always sums to the balance.
+// Monthly spending caps pause claims for the rest of the calendar month, whatever pays for them.
+
+import { prisma } from '../lib/prisma.js';
+import { stripe } from '../lib/stripe.js';
+import { createLogger } from '../lib/logger.js';
+import { getPricePerKg } from './calculationService.js';
+import { calculateInvoiceTax, getVatRate, getVatTreatment } from './billingService.js';
+import { sendLowCreditEmail } from './emailService.js';
+import type {
+  CreditExhaustedAction,
+  CreditPackUnit,
+  CreditPurchaseStatus,
+  Merchant,
+  MerchantCreditEntry,
+  MerchantCreditPurchase,
+  MerchantCreditReason,
+  Prisma,
+} from '@prisma/client';
+import type Stripe from 'stripe';
+import type { MerchantCreditStatus } from '../types/index.js';
+
+const log = createLogger('merchant-credit');
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Packs on sale, quantity in the pack's unit
+const CREDIT_PACKS: { id: string; unit: CreditPackUnit; quantity: number }[] = [
+  { id: 'eur-50', unit: 'EUR', quantity: 50 },
+  { id: 'eur-100', unit: 'EUR', quantity: 100 },
+  { id: 'eur-250', unit: 'EUR', quantity: 250 },
+  { id: 'eur-500', unit: 'EUR', quantity: 500 },
+  { id: 'kg-500', unit: 'KG', quantity: 500 },
+  { id: 'kg-1000', unit: 'KG', quantity: 1000 },
+  { id: 'kg-5000', unit: 'KG', quantity: 5000 },
+];
+
+// Payment intents for credit packs carry this metadata, so the webhook can tell them from other payments
+const CREDIT_PURCHASE_PAYMENT_TYPE = 'credit_pack';
+
+// Payment modes drawing on the merchant's credit (and counted against its spending cap)
+const MERCHANT_FUNDED_MODES = ['CLAIM', 'ALLOCATION'] as const;
+
+// Shown to the customer when a claim is rejected, whatever the reason
+export const MERCHANT_PAUSED_MESSAGE = 'Claims of this product are paused for now, please try again later';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CreditPackOffer {
+  id: string;
+  unit: CreditPackUnit;
+  quantity: number;
+  creditAmount: number;   // EUR of credit added
+  netAmount: number;
+  vatAmount: number;
+  amount: number;         // Charged, VAT included
+}
+
+export interface MerchantCreditOverview {
+  status: MerchantCreditStatus;
+  packs: CreditPackOffer[];
+  purchases: MerchantCreditPurchase[];
+  entries: MerchantCreditEntry[];
+}
+
+export interface CreditPurchasePayment {
+  purchase: MerchantCreditPurchase;
+  clientSecret: string;
+  paymentIntentId: string;
+}
+
+export interface CreditPurchaseSyncResult {
+  purchaseId: string;
+  status: CreditPurchaseStatus;
+  updated: boolean;
+  message: string;
+}
+
+export interface MerchantChargedTransaction<T> {
+  transaction: T;
+  prepaid: boolean;     // Paid from credit
+}
+
+export interface MerchantCreditSettings {
+  creditExhaustedAction?: CreditExhaustedAction;
+  lowCreditThreshold?: number | null;
+  monthlySpendingCap?: number | null;
+}
+
+interface CreditChange {
+  merchantId: string;
+  reason: MerchantCreditReason;
+  amount: number;           // Signed, EUR
+  transactionId?: string;
+  purchaseId?: string;
+  actorId?: string;
+  note?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const getMonthStart = (date: Date = new Date()): Date =>
+  new Date(date.getFullYear(), date.getMonth(), 1);
+
+// CLAIM/ALLOCATION amounts of the current calendar month, reversals deducted
+const getMonthSpend = async (
+  merchantId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const result = await client.transaction.aggregate({
+    where: {
+      merchantId,
+      paymentMode: { in: [...MERCHANT_FUNDED_MODES] },
+      createdAt: { gte: getMonthStart() },
+    },
+    _sum: { amount: true },
+  });
+
+  return roundCents(Number(result._sum.amount ?? 0));
+};
+
+// Why a charge of `amount` would be rejected right now, null if it goes through
+const getChargeBlockReason = (
+  merchant: Pick<Merchant, 'creditBalance' | 'creditExhaustedAction' | 'monthlySpendingCap'>,
+  monthSpend: number,
+  amount: number
+): string | null => {
+  if (merchant.monthlySpendingCap !== null && monthSpend + amount > Number(merchant.monthlySpendingCap)) {
+    return 'Monthly spending cap reached';
+  }
+  if (merchant.creditExhaustedAction === 'PAUSE' && Number(merchant.creditBalance) < amount) {
+    return 'Prepaid credit exhausted';
+  }
+  return null;
+};
+
+// Rolls back a charge the merchant can't take, see createMerchantChargedTransaction
+class MerchantChargeBlocked extends Error {}
+
+// Apply a change to the balance and record it in the ledger
+// Debits only go through if the credit covers them; returns the updated merchant, null otherwise
+const applyCreditChange = async (tx: Prisma.TransactionClient, change: CreditChange): Promise<Merchant | null> => {
+  const { count } = await tx.merchant.updateMany({
+    where: {
+      id: change.merchantId,
+      ...(change.amount < 0 && { creditBalance: { gte: -change.amount } }),
+    },
+    data: { creditBalance: { increment: change.amount } },
+  });
+  if (count === 0) return null;
+
+  const merchant = await tx.merchant.findUniqueOrThrow({ where: { id: change.merchantId } });
+
+  await tx.merchantCreditEntry.create({
+    data: {
+      merchantId: change.merchantId,
+      reason: change.reason,
+      amount: change.amount,
+      balanceAfter: merchant.creditBalance,
+      transactionId: change.transactionId,
+      purchaseId: change.purchaseId,
+      actorId: change.actorId,
+      note: change.note,
+    },
+  });
+
+  // Back above the threshold: alert again the next time credit runs low
+  if (
+    change.amount > 0 &&
+    merchant.lowCreditNotifiedAt &&
+    merchant.lowCreditThreshold !== null &&
+    Number(merchant.creditBalance) >= Number(merchant.lowCreditThreshold)
+  ) {
+    return tx.merchant.update({ where: { id: merchant.id }, data: { lowCreditNotifiedAt: null } });
+  }
+
+  return merchant;
+};
+
+// Email the merchant once when its credit falls below its threshold
+// Failures are logged, never thrown: the transaction that drew the credit already happened
+const notifyLowCredit = async (merchant: Merchant): Promise<void> => {
+  if (merchant.lowCreditThreshold === null || merchant.lowCreditNotifiedAt) return;
+
+  const creditBalance = Number(merchant.creditBalance);
+  const threshold = Number(merchant.lowCreditThreshold);
+  if (creditBalance >= threshold) return;
+
+  try {
+    // Claim the alert so concurrent claims send it once
+    const { count } = await prisma.merchant.updateMany({
+      where: { id: merchant.id, lowCreditNotifiedAt: null },
+      data: { lowCreditNotifiedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    const sent = await sendLowCreditEmail(merchant.email, {
+      merchantName: merchant.name,
+      creditBalance,
+      threshold,
+      pausesWhenExhausted: merchant.creditExhaustedAction === 'PAUSE',
+    });
+    log.info('Low credit alert', { merchantId: merchant.id, creditBalance, threshold, sent });
+  } catch (error) {
+    log.error('Failed to send low credit alert', { merchantId: merchant.id, error });
+  }
+};
+
+// ============================================
+// CREDIT PACKS
+// ============================================
+
+// Packs with the merchant's prices (kg at today's price per kg, VAT as on its invoices)
+export const getCreditPackOffers = async (
+  merchant: Pick<Merchant, 'billingCountry' | 'vatId'>
+): Promise<CreditPackOffer[]> => {
+  const [pricePerKg, vatRate] = await Promise.all([getPricePerKg(), getVatRate()]);
+  const treatment = getVatTreatment(merchant);
+
+  return CREDIT_PACKS.map((pack) => {
+    const creditAmount = roundCents(pack.unit === 'KG' ? pack.quantity * pricePerKg : pack.quantity);
+    const { netAmount, vatAmount, amount } = calculateInvoiceTax(creditAmount, treatment, vatRate);
+    return { ...pack, creditAmount, netAmount, vatAmount, amount };
+  });
+};
+
+// ============================================
+// STATUS
+// ============================================
+
+export const getMerchantCreditStatus = async (merchant: Merchant): Promise<MerchantCreditStatus> => {
+  const [pricePerKg, monthSpend] = await Promise.all([getPricePerKg(), getMonthSpend(merchant.id)]);
+  const creditBalance = Number(merchant.creditBalance);
+
+  // A claim of any amount is rejected once the cap is reached or PAUSE credit is gone
+  const pausedReason = getChargeBlockReason(merchant, monthSpend, 0.01);
+
+  return {
+    creditBalance,
+    creditKg: pricePerKg > 0 ? Math.round((creditBalance / pricePerKg) * 100) / 100 : 0,
+    pricePerKg,
+    creditExhaustedAction: merchant.creditExhaustedAction,
+    lowCreditThreshold: merchant.lowCreditThreshold !== null ? Number(merchant.lowCreditThreshold) : null,
+    monthlySpendingCap: merchant.monthlySpendingCap !== null ? Number(merchant.monthlySpendingCap) : null,
+    monthSpend,
+    paused: pausedReason !== null,
+    pausedReason,
+  };
+};
+
+// Status, pack prices and the latest purchases and ledger entries
+export const getMerchantCreditOverview = async (merchant: Merchant): Promise<MerchantCreditOverview> => {
+  const [status, packs, purchases, entries] = await Promise.all([
+    getMerchantCreditStatus(merchant),
+    getCreditPackOffers(merchant),
+    prisma.merchantCreditPurchase.findMany({
+      where: { merchantId: merchant.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+    prisma.merchantCreditEntry.findMany({
+      where: { merchantId: merchant.id },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    }),
+  ]);
+
+  return { status, packs, purchases, entries };
+};
+
+// ============================================
+// CHARGING TRANSACTIONS
+// ============================================
+
+// Message for the customer if the merchant can't be charged `amount` right now, null otherwise
+// Checked before the claim token is used, so a rejected claim keeps its code
+// Only a pre-check: createMerchantChargedTransaction is what enforces it
+export const getMerchantChargeBlock = async (merchant: Merchant, amount: number): Promise<string | null> => {
+  const monthSpend = merchant.monthlySpendingCap !== null ? await getMonthSpend(merchant.id) : 0;
+  const reason = getChargeBlockReason(merchant, monthSpend, amount);
+  if (!reason) return null;
+
+  log.info('Merchant claim paused', { merchantId: merchant.id, amount, reason });
+  return MERCHANT_PAUSED_MESSAGE;
+};
+
+// Create a CLAIM/ALLOCATION transaction and charge it to the merchant in one DB transaction:
+// from its credit if it covers the whole amount (the transaction is then marked prepaid),
+// to its billing balance otherwise
+// Charges of one merchant are serialized, so its spending cap and credit can't be overrun by
+// concurrent claims. Returns null, with nothing created, when the cap is reached or the merchant
+// chose PAUSE and its credit doesn't cover the amount
+export const createMerchantChargedTransaction = async <T extends { id: string }>(
+  merchantId: string,
+  amount: number,
+  create: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<MerchantChargedTransaction<T> | null> => {
+  try {
+    const charged = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`csr26:merchant-charge:${merchantId}`}))`;
+
+      const merchant = await tx.merchant.findUniqueOrThrow({ where: { id: merchantId } });
+      if (merchant.monthlySpendingCap !== null) {
+        const monthSpend = await getMonthSpend(merchantId, tx);
+        if (monthSpend + amount > Number(merchant.monthlySpendingCap)) {
+          throw new MerchantChargeBlocked('Monthly spending cap reached');
+        }
+      }
+
+      const transaction = await create(tx);
+
+      const drawn = amount > 0
+        ? await applyCreditChange(tx, { merchantId, reason: 'USAGE', amount: -amount, transactionId: transaction.id })
+        : null;
+
+      if (drawn) {
+        await tx.transaction.update({ where: { id: transaction.id }, data: { prepaid: true } });
+      } else if (amount > 0 && merchant.creditExhaustedAction === 'PAUSE') {
+        throw new MerchantChargeBlocked('Prepaid credit exhausted');
+      } else {
+        await tx.merchant.update({
+          where: { id: merchantId },
+          data: { currentBalance: { increment: amount } },
+        });
+      }
+
+      return { transaction, drawn };
+    });
+
+    if (charged.drawn) {
+      await notifyLowCredit(charged.drawn);
+    }
+    return { transaction: charged.transaction, prepaid: !!charged.drawn };
+  } catch (error) {
+    if (error instanceof MerchantChargeBlocked) {
+      log.info('Merchant claim paused', { merchantId, amount, reason: error.message });
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Give back the credit a prepaid transaction drew, when it is reversed
+export const refundTransactionCredit = async (
+  tx: Prisma.TransactionClient,
+  merchantId: string,
+  amount: number,
+  reversalId: string
+): Promise<void> => {
+  await applyCreditChange(tx, {
+    merchantId,
+    reason: 'REVERSAL',
+    amount,
+    transactionId: reversalId,
+  });
+};
+
+// ============================================
+// ADMIN ADJUSTMENTS
+// ============================================
+
+// Grant (positive) or remove (negative) credit
+// Returns the updated merchant, null if removing more than the balance
+export const adjustMerchantCredit = async (
+  merchantId: string,
+  amount: number,
+  actorId: string,
+  note?: string
+): Promise<Merchant | null> => {
+  const merchant = await prisma.$transaction((tx) =>
+    applyCreditChange(tx, { merchantId, reason: 'ADJUSTMENT', amount: roundCents(amount), actorId, note })
+  );
+
+  if (merchant) {
+    log.info('Merchant credit adjusted', { merchantId, amount, actorId });
+    await notifyLowCredit(merchant);
+  }
+  return merchant;
+};
+
+// ============================================
+// SETTINGS
+// ============================================
+
+const isAmountOrNull = (value: unknown): boolean =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+// Validate credit settings, returns the error message or null
+export const getCreditSettingsError = (data: Record<string, unknown>): string | null => {
+  if (data.creditExhaustedAction !== undefined && data.creditExhaustedAction !== 'BILL' && data.creditExhaustedAction !== 'PAUSE') {
+    return 'creditExhaustedAction must be BILL or PAUSE';
+  }
+  if (data.lowCreditThreshold !== undefined && !isAmountOrNull(data.lowCreditThreshold)) {
+    return 'lowCreditThreshold must be a positive amount or null';
+  }
+  if (data.monthlySpendingCap !== undefined && !isAmountOrNull(data.monthlySpendingCap)) {
+    return 'monthlySpendingCap must be a positive amount or null';
+  }
+  return null;
+};
+
+// Pick the credit settings out of a request body
+export const pickCreditSettings = (data: Record<string, unknown>): MerchantCreditSettings => ({
+  ...(data.creditExhaustedAction !== undefined && { creditExhaustedAction: data.creditExhaustedAction as CreditExhaustedAction }),
+  ...(data.lowCreditThreshold !== undefined && { lowCreditThreshold: data.lowCreditThreshold as number | null }),
+  ...(data.monthlySpendingCap !== undefined && { monthlySpendingCap: data.monthlySpendingCap as number | null }),
+});
+
+// Update validated credit settings
+// A new threshold re-arms the low credit alert
+export const updateMerchantCreditSettings = async (
+  merchantId: string,
+  settings: MerchantCreditSettings
+): Promise<Merchant> => {
+  const merchant = await prisma.merchant.update({
+    where: { id: merchantId },
+    data: {
+      ...settings,
+      ...(settings.lowCreditThreshold !== undefined && { lowCreditNotifiedAt: null }),
+    },
+  });
+
+  await notifyLowCredit(merchant);
+  return merchant;
+};
+
+// ============================================
+// PURCHASES
+// ============================================
+
+export const isCreditPurchasePayment = (paymentIntent: Stripe.PaymentIntent): boolean =>
+  paymentIntent.metadata?.type === CREDIT_PURCHASE_PAYMENT_TYPE && !!paymentIntent.metadata.purchaseId;
+
+// Start buying a pack: records the purchase and creates its payment intent (card or SEPA debit)
+// Returns null if Stripe is not configured
+export const startCreditPurchase = async (
+  merchant: Merchant,
+  pack: CreditPackOffer,
+  createdById: string
+): Promise<CreditPurchasePayment | null> => {
+  if (!stripe) return null;
+
+  const purchase = await prisma.merchantCreditPurchase.create({
+    data: {
+      merchantId: merchant.id,
+      packId: pack.id,
+      unit: pack.unit,
+      quantity: pack.quantity,
+      creditAmount: pack.creditAmount,
+      netAmount: pack.netAmount,
+      vatAmount: pack.vatAmount,
+      amount: pack.amount,
+      createdById,
+    },
+  });
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: toCents(pack.amount),
+    currency: 'eur',
+    payment_method_types: ['card', 'sepa_debit'],
+    description: `CSR26 prepaid credit ${pack.quantity} ${pack.unit} - ${merchant.name}`,
+    receipt_email: merchant.email,
+    metadata: {
+      type: CREDIT_PURCHASE_PAYMENT_TYPE,
+      purchaseId: purchase.id,
+      merchantId: merchant.id,
+    },
+  });
+
+  const started = await prisma.merchantCreditPurchase.update({
+    where: { id: purchase.id },
+    data: { stripePaymentId: paymentIntent.id },
+  });
+
+  log.info('Credit purchase started', { merchantId: merchant.id, purchaseId: purchase.id, packId: pack.id, amount: pack.amount });
+
+  return { purchase: started, clientSecret: paymentIntent.client_secret!, paymentIntentId: paymentIntent.id };
+};
+
+// Reconcile a purchase with the state of its payment intent (webhook or confirmation after checkout)
+// Idempotent: credit is added once, a paid purchase is never changed again
+// Returns null if the intent is not for a known purchase
+export const syncCreditPurchase = async (
+  paymentIntent: Stripe.PaymentIntent
+): Promise<CreditPurchaseSyncResult | null> => {
+  const purchaseId = paymentIntent.metadata?.purchaseId;
+  if (!purchaseId) return null;
+
+  const purchase = await prisma.merchantCreditPurchase.findUnique({ where: { id: purchaseId } });
+  if (!purchase) return null;
+
+  if (purchase.status === 'PAID') {
+    return { purchaseId, status: 'PAID', updated: false, message: `Credit purchase ${purchaseId} already paid` };
+  }
+
+  if (paymentIntent.status === 'succeeded') {
+    const expected = toCents(Number(purchase.amount));
+    if (paymentIntent.amount_received < expected) {
+      const error = `Received €${(paymentIntent.amount_received / 100).toFixed(2)} of €${(expected / 100).toFixed(2)}`;
+      await prisma.merchantCreditPurchase.update({ where: { id: purchaseId }, data: { status: 'FAILED', paymentError: error } });
+      log.warn('Credit purchase amount mismatch', { purchaseId, paymentIntentId: paymentIntent.id, error });
+      return { purchaseId, status: 'FAILED', updated: true, message: `Credit purchase ${purchaseId} not settled: ${error}` };
+    }
+
+    // IDEMPOTENCY: the webhook and the confirmation call may race, only one adds the credit
+    const merchant = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.merchantCreditPurchase.updateMany({
+        where: { id: purchaseId, status: { not: 'PAID' } },
+        data: { status: 'PAID', paidAt: new Date(), paymentError: null },
+      });
+      if (claimed.count === 0) return null;
+
+      return applyCreditChange(tx, {
+        merchantId: purchase.merchantId,
+        reason: 'PURCHASE',
+        amount: Number(purchase.creditAmount),
+        purchaseId,
+      });
+    });
+
+    if (merchant) {
+      log.info('Credit purchase paid', { purchaseId, merchantId: purchase.merchantId, creditAmount: Number(purchase.creditAmount) });
+    }
+    return { purchaseId, status: 'PAID', updated: !!merchant, message: `Credit purchase ${purchaseId} paid` };
+  }
+
+  if (paymentIntent.status === 'processing') {
+    if (purchase.status === 'PROCESSING') {
+      return { purchaseId, status: 'PROCESSING', updated: false, message: `Credit purchase ${purchaseId} already processing` };
+    }
+    await prisma.merchantCreditPurchase.update({
+      where: { id: purchaseId },
+      data: { status: 'PROCESSING', paymentError: null },
+    });
+    return { purchaseId, status: 'PROCESSING', updated: true, message: `Credit purchase ${purchaseId} processing` };
+  }
+
+  const failed = paymentIntent.status === 'canceled' || !!paymentIntent.last_payment_error;
+  if (failed) {
+    const error = paymentIntent.last_payment_error?.message ?? 'Payment was cancelled';
+    await prisma.merchantCreditPurchase.update({
+      where: { id: purchaseId },
+      data: { status: 'FAILED', paymentError: error },
+    });
+    log.warn('Credit purchase payment failed', { purchaseId, paymentIntentId: paymentIntent.id, error });
+    return { purchaseId, status: 'FAILED', updated: true, message: `Credit purchase ${purchaseId} payment failed: ${error}` };
+  }
+
+  return { purchaseId, status: purchase.status, updated: false, message: `Credit purchase ${purchaseId} awaiting the merchant` };
+};
+
+// Reconcile a purchase with its payment intent, fetched from Stripe
+// Returns null if Stripe is not configured or the purchase has no payment intent
+export const refreshCreditPurchase = async (
+  purchase: MerchantCreditPurchase
+): Promise<CreditPurchaseSyncResult | null> => {
+  if (!stripe || !purchase.stripePaymentId) return null;
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(purchase.stripePaymentId);
+  return syncCreditPurchase(paymentIntent);
+};
@@ -0,0 +1,209 @@
+// CSR26 Merchant Member Service
+// Staff access to merchant accounts: memberships with roles and magic link invitations
+// An invitation is a pending membership plus a magic link; signing in with any magic link accepts it
+
+import { prisma } from '../lib/prisma.js';
+import type { Merchant, MerchantMember, MerchantMemberRole, User } from '@prisma/client';
+import crypto from 'crypto';
+import { sendMagicLinkEmail } from './emailService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('merchant-members');
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MerchantMembership = MerchantMember & { merchant: Merchant };
+
+export type MerchantMemberWithUser = MerchantMember & {
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+};
+
+export interface InviteMerchantMemberInput {
+  merchantId: string;
+  email: string;
+  role: MerchantMemberRole;
+  invitedById?: string;
+}
+
+export interface InviteMerchantMemberResult {
+  member: MerchantMemberWithUser;
+  message: string;
+  magicLinkUrl?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MERCHANT_MEMBER_ROLES: MerchantMemberRole[] = ['OWNER', 'FINANCE', 'VIEWER'];
+
+// Roles allowed to see balances and invoices
+export const MERCHANT_BILLING_ROLES: MerchantMemberRole[] = ['OWNER', 'FINANCE'];
+
+// Roles allowed to draft and edit products (SKUs)
+export const MERCHANT_CATALOG_ROLES: MerchantMemberRole[] = ['OWNER'];
+
+// Invitations stay valid longer than a login link
+const INVITATION_EXPIRY_DAYS = 7;
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+} as const;
+
+// ============================================
+// MEMBERSHIP LOOKUP
+// ============================================
+
+// Get a user's accepted membership
+// Without a merchant ID, the oldest membership is used (most users belong to one merchant)
+export const getMerchantMembership = async (
+  userId: string,
+  merchantId?: string
+): Promise<MerchantMembership | null> => {
+  return prisma.merchantMember.findFirst({
+    where: {
+      userId,
+      acceptedAt: { not: null },
+      ...(merchantId && { merchantId }),
+    },
+    include: { merchant: true },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+// List the merchants a user belongs to
+export const getUserMemberships = async (userId: string): Promise<MerchantMembership[]> => {
+  return prisma.merchantMember.findMany({
+    where: { userId, acceptedAt: { not: null } },
+    include: { merchant: true },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+// List a merchant's members, including pending invitations
+export const getMerchantMembers = async (merchantId: string): Promise<MerchantMemberWithUser[]> => {
+  return prisma.merchantMember.findMany({
+    where: { merchantId },
+    include: { user: { select: MEMBER_USER_SELECT } },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+// Count accepted owners (a merchant must always keep one)
+export const countMerchantOwners = async (merchantId: string): Promise<number> => {
+  return prisma.merchantMember.count({
+    where: { merchantId, role: 'OWNER', acceptedAt: { not: null } },
+  });
+};
+
+// ============================================
+// INVITATIONS
+// ============================================
+
+// Invite a user (created if needed) to a merchant and email them a magic link
+// Re-inviting a pending member updates the role and sends a fresh link
+export const inviteMerchantMember = async (
+  input: InviteMerchantMemberInput
+): Promise<InviteMerchantMemberResult> => {
+  const merchant = await prisma.merchant.findUniqueOrThrow({ where: { id: input.merchantId } });
+
+  const user = await prisma.user.upsert({
+    where: { email: input.email },
+    create: { email: input.email },
+    update: {},
+  });
+
+  const member = await prisma.merchantMember.upsert({
+    where: { merchantId_userId: { merchantId: input.merchantId, userId: user.id } },
+    create: {
+      merchantId: input.merchantId,
+      userId: user.id,
+      role: input.role,
+      invitedById: input.invitedById ?? null,
+    },
+    update: {
+      role: input.role,
+      invitedById: input.invitedById ?? null,
+    },
+    include: { user: { select: MEMBER_USER_SELECT } },
+  });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.magicLink.create({
+    data: {
+      userId: user.id,
+      token,
+      expiresAt: new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  const emailResult = await sendMagicLinkEmail(user.email, token, user.firstName || undefined, 'user', {
+    merchantName: merchant.name,
+    role: input.role,
+    expiresInDays: INVITATION_EXPIRY_DAYS,
+  });
+
+  log.info('Merchant member invited', { userId: user.id, merchantId: merchant.id, role: input.role });
+
+  return {
+    member,
+    message: emailResult.message,
+    ...(emailResult.magicLinkUrl && { magicLinkUrl: emailResult.magicLinkUrl }),
+  };
+};
+
+// Accept all pending invitations for a user (called when a magic link is verified)
+// Gives the user the MERCHANT role so the merchant dashboard is available
+export const acceptPendingMemberships = async (userId: string): Promise<number> => {
+  const accepted = await prisma.merchantMember.updateMany({
+    where: { userId, acceptedAt: null },
+    data: { acceptedAt: new Date() },
+  });
+
+  if (accepted.count > 0) {
+    await prisma.user.updateMany({
+      where: { id: userId, role: 'USER' },
+      data: { role: 'MERCHANT' },
+    });
+  }
+
+  return accepted.count;
+};
+
+// ============================================
+// MEMBER MANAGEMENT
+// ============================================
+
+// Change a member's role
+export const updateMerchantMemberRole = async (
+  memberId: string,
+  role: MerchantMemberRole
+): Promise<MerchantMemberWithUser> => {
+  return prisma.merchantMember.update({
+    where: { id: memberId },
+    data: { role },
+    include: { user: { select: MEMBER_USER_SELECT } },
+  });
+};
+
+// Remove a member (or cancel a pending invitation)
+// Users left without any merchant go back to the USER role
+export const removeMerchantMember = async (memberId: string): Promise<void> => {
+  const member = await prisma.merchantMember.delete({ where: { id: memberId } });
+
+  const remaining = await prisma.merchantMember.count({
+    where: { userId: member.userId, acceptedAt: { not: null } },
+  });
+
+  if (remaining === 0) {
+    await prisma.user.updateMany({
+      where: { id: member.userId, role: 'MERCHANT' },
+      data: { role: 'USER' },
+    });
+  }
+};
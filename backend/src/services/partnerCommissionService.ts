@@ -0,0 +1,413 @@
+// CSR26 Partner Commission Service
+// Commission partners earn on the transactions of their merchants (or attributed to them directly)
+//
+// Commission is accrued when a transaction completes, at the partner's rate in force at that time,
+// and clawed back at the same rate when the transaction is reversed, refunded or disputed.
+// The monthly cron settles open commissions into a PartnerStatement, whose payout admins track
+// (PENDING → APPROVED → PAID). A net negative or zero month stays open and is carried over.
+
+import { prisma } from '../lib/prisma.js';
+import { createLogger } from '../lib/logger.js';
+import { getPartnerStatementPdf } from './partnerStatementPdfService.js';
+import type { PartnerCommissionType, PartnerPayoutStatus, PartnerStatement, Prisma } from '@prisma/client';
+
+const log = createLogger('partner-commission');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PartnerStatementResult {
+  partnerId: string;
+  partnerName: string;
+  statement: PartnerStatement | null;
+  error?: string;
+}
+
+export interface MonthlyPartnerStatementsResult {
+  processedAt: string;
+  periodStart: string;
+  periodEnd: string;
+  partnersProcessed: number;
+  statementsGenerated: number;
+  totalCommission: number;
+  results: PartnerStatementResult[];
+}
+
+export interface PartnerCommissionTotals {
+  accrued: number;
+  clawedBack: number;   // Negative
+  net: number;
+}
+
+export interface PartnerStatementDetails extends PartnerStatement {
+  partner: {
+    id: string;
+    name: string;
+    email: string;
+    contactPerson: string | null;
+  };
+  commissions: {
+    id: string;
+    transactionId: string;
+    type: PartnerCommissionType;
+    baseAmount: number;
+    rate: number;
+    amount: number;
+    createdAt: Date;
+    merchantName: string | null;
+    paymentMode: string;
+  }[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// ============================================
+// ACCRUAL
+// ============================================
+
+// Accrue the partner's commission on a completed transaction, at the partner's current rate
+// Runs inside the caller's $transaction; safe to call twice (one accrual per transaction)
+export const accruePartnerCommission = async (
+  tx: Prisma.TransactionClient,
+  transactionId: string
+): Promise<void> => {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: transactionId },
+    select: {
+      amount: true,
+      partnerId: true,
+      merchant: { select: { partnerId: true } },
+    },
+  });
+
+  // Direct attribution (signed landing links only) wins over the merchant's partner
+  const partnerId = transaction?.partnerId ?? transaction?.merchant?.partnerId;
+  if (!transaction || !partnerId) {
+    return;
+  }
+
+  const partner = await tx.partner.findUnique({
+    where: { id: partnerId },
+    select: { commissionRate: true },
+  });
+
+  const baseAmount = Number(transaction.amount);
+  const rate = Number(partner?.commissionRate ?? 0);
+  if (rate <= 0 || baseAmount <= 0) {
+    return;
+  }
+
+  await tx.partnerCommission.createMany({
+    data: [{
+      partnerId,
+      transactionId,
+      type: 'ACCRUAL',
+      baseAmount,
+      rate,
+      amount: roundCents((baseAmount * rate) / 100),
+    }],
+    skipDuplicates: true,
+  });
+};
+
+// Take back the commission accrued on a transaction that is reversed, refunded or disputed
+// Negates the accrual at its original rate, whatever the partner's rate is now
+// Runs inside the caller's $transaction; safe to call twice (one clawback per transaction)
+export const clawBackPartnerCommission = async (
+  tx: Prisma.TransactionClient,
+  transactionId: string
+): Promise<void> => {
+  const accrual = await tx.partnerCommission.findUnique({
+    where: { transactionId_type: { transactionId, type: 'ACCRUAL' } },
+  });
+
+  if (!accrual) {
+    return;
+  }
+
+  await tx.partnerCommission.createMany({
+    data: [{
+      partnerId: accrual.partnerId,
+      transactionId,
+      type: 'CLAWBACK',
+      baseAmount: accrual.baseAmount.negated(),
+      rate: accrual.rate,
+      amount: accrual.amount.negated(),
+    }],
+    skipDuplicates: true,
+  });
+};
+
+// Commission accrued and clawed back in a period (by when it was recorded)
+export const getPartnerCommissionTotals = async (
+  partnerId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PartnerCommissionTotals> => {
+  const groups = await prisma.partnerCommission.groupBy({
+    by: ['type'],
+    where: { partnerId, createdAt: { gte: startDate, lte: endDate } },
+    _sum: { amount: true },
+  });
+
+  const sumOf = (type: PartnerCommissionType): number =>
+    Number(groups.find((group) => group.type === type)?._sum.amount ?? 0);
+
+  const accrued = sumOf('ACCRUAL');
+  const clawedBack = sumOf('CLAWBACK');
+
+  return { accrued, clawedBack, net: roundCents(accrued + clawedBack) };
+};
+
+// ============================================
+// STATEMENT GENERATION
+// ============================================
+
+// Settle a partner's open commissions up to the end of the period into a statement
+// Returns null when the period already has a statement or the open commissions don't add up to a payout
+export const generatePartnerStatement = async (
+  partnerId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<PartnerStatement | null> => {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.partnerStatement.findUnique({
+      where: { partnerId_periodStart: { partnerId, periodStart } },
+    });
+
+    if (existing) {
+      return null;
+    }
+
+    const commissions = await tx.partnerCommission.findMany({
+      where: { partnerId, statementId: null, createdAt: { lte: periodEnd } },
+      select: { id: true, transactionId: true, baseAmount: true, amount: true },
+    });
+
+    const commissionAmount = roundCents(commissions.reduce((sum, c) => sum + Number(c.amount), 0));
+
+    // Clawbacks outweigh accruals: carry everything over to the next statement
+    if (commissions.length === 0 || commissionAmount <= 0) {
+      if (commissions.length > 0) {
+        log.info('Partner commission carried over', { partnerId, commissionAmount });
+      }
+      return null;
+    }
+
+    const statement = await tx.partnerStatement.create({
+      data: {
+        partnerId,
+        periodStart,
+        periodEnd,
+        transactionCount: new Set(commissions.map((c) => c.transactionId)).size,
+        baseAmount: roundCents(commissions.reduce((sum, c) => sum + Number(c.baseAmount), 0)),
+        commissionAmount,
+      },
+    });
+
+    await tx.partnerCommission.updateMany({
+      where: { id: { in: commissions.map((c) => c.id) }, statementId: null },
+      data: { statementId: statement.id },
+    });
+
+    return statement;
+  });
+};
+
+// Produce the monthly statements of every partner with open commissions
+export const runMonthlyPartnerStatements = async (
+  year?: number,
+  month?: number
+): Promise<MonthlyPartnerStatementsResult> => {
+  // Default to previous month
+  const now = new Date();
+  const statementYear = year ?? (now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear());
+  const statementMonth = month ?? (now.getMonth() === 0 ? 11 : now.getMonth() - 1);
+
+  const periodStart = new Date(statementYear, statementMonth, 1, 0, 0, 0, 0);
+  const periodEnd = new Date(statementYear, statementMonth + 1, 0, 23, 59, 59, 999);
+
+  log.info('Partner statements started', { periodStart, periodEnd });
+
+  const partners = await prisma.partnerCommission.findMany({
+    where: { statementId: null, createdAt: { lte: periodEnd } },
+    distinct: ['partnerId'],
+    select: { partner: { select: { id: true, name: true } } },
+  });
+
+  const results: PartnerStatementResult[] = [];
+  let statementsGenerated = 0;
+  let totalCommission = 0;
+
+  for (const { partner } of partners) {
+    try {
+      const statement = await generatePartnerStatement(partner.id, periodStart, periodEnd);
+
+      if (statement) {
+        statementsGenerated++;
+        totalCommission += Number(statement.commissionAmount);
+      }
+
+      results.push({ partnerId: partner.id, partnerName: partner.name, statement });
+    } catch (error) {
+      log.error('Partner statement failed', { partnerId: partner.id, error });
+      results.push({
+        partnerId: partner.id,
+        partnerName: partner.name,
+        statement: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  log.info('Partner statements completed', { statementsGenerated, totalCommission });
+
+  return {
+    processedAt: new Date().toISOString(),
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    partnersProcessed: partners.length,
+    statementsGenerated,
+    totalCommission: roundCents(totalCommission),
+    results,
+  };
+};
+
+// ============================================
+// STATEMENT QUERIES
+// ============================================
+
+// Statements of one partner, or of every partner (admin), newest first
+export const getPartnerStatements = async (
+  filter: { partnerId?: string; payoutStatus?: PartnerPayoutStatus } = {},
+  limit: number = 24
+) => {
+  return prisma.partnerStatement.findMany({
+    where: filter,
+    include: { partner: { select: { id: true, name: true } } },
+    orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+    take: limit,
+  });
+};
+
+// Get statement with its commission lines
+export const getPartnerStatementDetails = async (statementId: string): Promise<PartnerStatementDetails | null> => {
+  const statement = await prisma.partnerStatement.findUnique({
+    where: { id: statementId },
+    include: {
+      partner: {
+        select: { id: true, name: true, email: true, contactPerson: true },
+      },
+      commissions: {
+        include: {
+          transaction: {
+            select: { paymentMode: true, merchant: { select: { name: true } } },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!statement) {
+    return null;
+  }
+
+  return {
+    ...statement,
+    commissions: statement.commissions.map((c) => ({
+      id: c.id,
+      transactionId: c.transactionId,
+      type: c.type,
+      baseAmount: Number(c.baseAmount),
+      rate: Number(c.rate),
+      amount: Number(c.amount),
+      createdAt: c.createdAt,
+      merchantName: c.transaction.merchant?.name ?? null,
+      paymentMode: c.transaction.paymentMode,
+    })),
+  };
+};
+
+// PDF of a statement, null if it doesn't exist
+export const getPartnerStatementDocument = async (
+  statementId: string
+): Promise<{ filename: string; pdf: Buffer; partnerId: string } | null> => {
+  const details = await getPartnerStatementDetails(statementId);
+  if (!details) {
+    return null;
+  }
+
+  return {
+    filename: `commission-statement-${details.periodStart.toISOString().slice(0, 7)}.pdf`,
+    pdf: getPartnerStatementPdf(details),
+    partnerId: details.partnerId,
+  };
+};
+
+// ============================================
+// PAYOUT
+// ============================================
+
+const PAYOUT_TRANSITIONS: Record<PartnerPayoutStatus, PartnerPayoutStatus[]> = {
+  PENDING: ['APPROVED'],
+  APPROVED: ['PAID', 'PENDING'],
+  PAID: [],
+};
+
+// Validate a payout status change
+export const getPayoutStatusError = (current: PartnerPayoutStatus, next: unknown): string | null => {
+  if (typeof next !== 'string' || !(next in PAYOUT_TRANSITIONS)) {
+    return 'Payout status must be PENDING, APPROVED or PAID';
+  }
+  if (next === current) {
+    return `Statement is already ${current.toLowerCase()}`;
+  }
+  if (current === 'PAID') {
+    return 'Paid statements cannot be changed';
+  }
+  if (!PAYOUT_TRANSITIONS[current].includes(next as PartnerPayoutStatus)) {
+    return 'Approve the statement before marking it paid';
+  }
+  return null;
+};
+
+// Move a statement to a new payout status (validate with getPayoutStatusError first)
+// Returns null when the statement changed status in the meantime
+export const updateStatementPayoutStatus = async (
+  statement: PartnerStatement,
+  status: PartnerPayoutStatus,
+  source: { actorId?: string; paymentReference?: string | null } = {}
+): Promise<PartnerStatement | null> => {
+  const now = new Date();
+  const data: Prisma.PartnerStatementUpdateManyMutationInput = { payoutStatus: status };
+
+  if (status === 'APPROVED') {
+    data.approvedAt = now;
+    data.approvedById = source.actorId ?? null;
+  } else if (status === 'PAID') {
+    data.paidAt = now;
+    data.paidById = source.actorId ?? null;
+    data.paymentReference = source.paymentReference || null;
+  } else {
+    // Approval withdrawn
+    data.approvedAt = null;
+    data.approvedById = null;
+  }
+
+  const updated = await prisma.partnerStatement.updateMany({
+    where: { id: statement.id, payoutStatus: statement.payoutStatus },
+    data,
+  });
+
+  if (updated.count === 0) {
+    return null;
+  }
+
+  return prisma.partnerStatement.findUnique({ where: { id: statement.id } });
+};
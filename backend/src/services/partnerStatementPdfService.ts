@@ -0,0 +1,155 @@
+// CSR26 Partner Statement PDF Service
+// Renders monthly partner commission statements as A4 PDF documents (see pdfService)
+// Page 1: issuer, partner, commission totals and payout status
+// Following pages: every commission line settled by the statement
+
+import { createPdfDocument, PdfDocument } from './pdfService.js';
+import type { PartnerStatementDetails } from './partnerCommissionService.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MARGIN = 50;
+const ROW_HEIGHT = 16;
+const DETAIL_ROWS_PER_PAGE = 42;
+
+const PAYOUT_LABELS: Record<string, string> = {
+  PENDING: 'Pending approval',
+  APPROVED: 'Approved for payout',
+  PAID: 'Paid',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const getIssuerName = (): string => process.env.INVOICE_SELLER_NAME || 'CSR26';
+
+const formatEuro = (value: number): string => `€${value.toFixed(2)}`;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const formatPeriod = (date: Date): string => date.toISOString().slice(0, 7);
+
+// ============================================
+// RENDERING
+// ============================================
+
+const drawFooter = (pdf: PdfDocument, statement: PartnerStatementDetails, page: number, pageCount: number) => {
+  const y = pdf.pageHeight - 30;
+  pdf.line(MARGIN, y - 12, pdf.pageWidth - MARGIN, y - 12, { gray: 0.8 });
+  pdf.text(MARGIN, y, `${getIssuerName()} • Commission statement ${formatPeriod(statement.periodStart)}`, { size: 8, gray: 0.4 });
+  pdf.text(pdf.pageWidth - MARGIN, y, `Page ${page} of ${pageCount}`, { size: 8, gray: 0.4, align: 'right' });
+};
+
+const drawTableHeader = (pdf: PdfDocument, y: number, columns: { label: string; x: number; align?: 'right' }[]) => {
+  pdf.rect(MARGIN, y - 12, pdf.pageWidth - 2 * MARGIN, ROW_HEIGHT + 2, { fillGray: 0.93, width: 0 });
+  columns.forEach((column) => pdf.text(column.x, y, column.label, { font: 'bold', size: 9, align: column.align }));
+};
+
+// Render a partner statement
+export const getPartnerStatementPdf = (statement: PartnerStatementDetails): Buffer => {
+  const pdf = createPdfDocument();
+  const right = pdf.pageWidth - MARGIN;
+  const detailPages = Math.ceil(statement.commissions.length / DETAIL_ROWS_PER_PAGE);
+  const pageCount = 1 + detailPages;
+
+  // Issuer
+  pdf.text(MARGIN, 60, getIssuerName(), { font: 'bold', size: 16 });
+
+  // Document
+  pdf.text(right, 60, 'COMMISSION STATEMENT', { font: 'bold', size: 18, align: 'right' });
+  pdf.text(right, 80, `Period ${formatDate(statement.periodStart)} to ${formatDate(statement.periodEnd)}`, { size: 9, align: 'right' });
+  pdf.text(right, 94, `Issued ${formatDate(statement.createdAt)}`, { size: 9, align: 'right' });
+
+  // Partner
+  let y = 150;
+  pdf.text(MARGIN, y, 'Partner', { size: 8, gray: 0.4 });
+  y += 15;
+  pdf.text(MARGIN, y, statement.partner.name, { font: 'bold', size: 11 });
+  for (const line of [statement.partner.contactPerson, statement.partner.email]) {
+    if (!line) continue;
+    y += 13;
+    pdf.text(MARGIN, y, line, { size: 9 });
+  }
+
+  // Totals
+  y += 40;
+  const accrued = statement.commissions.filter((c) => c.type === 'ACCRUAL');
+  const clawedBack = statement.commissions.filter((c) => c.type === 'CLAWBACK');
+  const rows: [string, string, string][] = [
+    ['Commission earned', String(accrued.length), formatEuro(accrued.reduce((sum, c) => sum + c.amount, 0))],
+    ['Reversed transactions', String(clawedBack.length), formatEuro(clawedBack.reduce((sum, c) => sum + c.amount, 0))],
+  ];
+
+  drawTableHeader(pdf, y, [
+    { label: 'Description', x: MARGIN + 6 },
+    { label: 'Lines', x: right - 150, align: 'right' },
+    { label: 'Amount', x: right - 6, align: 'right' },
+  ]);
+  for (const [label, count, amount] of rows) {
+    y += ROW_HEIGHT + 2;
+    pdf.text(MARGIN + 6, y, label, { size: 9 });
+    pdf.text(right - 150, y, count, { size: 9, align: 'right' });
+    pdf.text(right - 6, y, amount, { size: 9, align: 'right' });
+  }
+  y += 10;
+  pdf.line(MARGIN, y, right, y, { gray: 0.7 });
+
+  y += ROW_HEIGHT + 6;
+  pdf.rect(right - 230, y - 14, 230, ROW_HEIGHT + 6, { fillGray: 0.93, width: 0 });
+  pdf.text(right - 120, y, 'Commission due', { font: 'bold', size: 11, align: 'right' });
+  pdf.text(right - 6, y, formatEuro(Number(statement.commissionAmount)), { font: 'bold', size: 11, align: 'right' });
+
+  // Payout
+  y += 40;
+  const payout = [PAYOUT_LABELS[statement.payoutStatus] ?? statement.payoutStatus];
+  if (statement.paidAt) payout.push(`on ${formatDate(statement.paidAt)}`);
+  if (statement.paymentReference) payout.push(`(reference ${statement.paymentReference})`);
+  pdf.text(MARGIN, y, `Payout: ${payout.join(' ')}`, { font: 'bold', size: 9 });
+  y += 13;
+  pdf.text(
+    MARGIN,
+    y,
+    `${statement.transactionCount} transactions, ${formatEuro(Number(statement.baseAmount))} of commissionable revenue. ` +
+      'Commission is accrued at the rate in force when each transaction completed.',
+    { size: 8, gray: 0.4 }
+  );
+  if (detailPages > 0) {
+    pdf.text(MARGIN, y + 13, 'Commission detail on the following pages.', { size: 8, gray: 0.4 });
+  }
+
+  drawFooter(pdf, statement, 1, pageCount);
+
+  // Commission detail
+  for (let page = 0; page < detailPages; page++) {
+    pdf.addPage();
+    y = 60;
+    pdf.text(MARGIN, y, `Commission detail - ${formatPeriod(statement.periodStart)}`, { font: 'bold', size: 12 });
+    y += 30;
+    drawTableHeader(pdf, y, [
+      { label: 'Date', x: MARGIN + 6 },
+      { label: 'Transaction', x: MARGIN + 80 },
+      { label: 'Merchant', x: MARGIN + 160 },
+      { label: 'Base', x: right - 150, align: 'right' },
+      { label: 'Rate', x: right - 90, align: 'right' },
+      { label: 'Commission', x: right - 6, align: 'right' },
+    ]);
+
+    for (const c of statement.commissions.slice(page * DETAIL_ROWS_PER_PAGE, (page + 1) * DETAIL_ROWS_PER_PAGE)) {
+      y += ROW_HEIGHT;
+      pdf.text(MARGIN + 6, y, formatDate(c.createdAt), { size: 8 });
+      pdf.text(MARGIN + 80, y, c.transactionId.slice(0, 8), { font: 'mono', size: 8 });
+      const merchant = (c.merchantName ?? 'Direct').slice(0, 28);
+      pdf.text(MARGIN + 160, y, c.type === 'CLAWBACK' ? `Reversed - ${merchant}` : merchant, { size: 8 });
+      pdf.text(right - 150, y, formatEuro(c.baseAmount), { size: 8, align: 'right' });
+      pdf.text(right - 90, y, `${c.rate}%`, { size: 8, align: 'right' });
+      pdf.text(right - 6, y, formatEuro(c.amount), { size: 8, align: 'right' });
+    }
+
+    drawFooter(pdf, statement, page + 2, pageCount);
+  }
+
+  return pdf.toBuffer();
+};
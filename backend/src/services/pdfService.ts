@@ -0,0 +1,248 @@
+// CSR26 PDF Service
+// Minimal PDF writer for printable documents (gift card sheets, invoices)
+// A4 pages, the standard Helvetica and Courier fonts (no embedding), text, lines and rectangles
+//
+// Coordinates are in points from the TOP-left corner of the page (1 mm = 2.835 pt)
+
+import zlib from 'zlib';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  align?: 'left' | 'center' | 'right';
+  gray?: number; // 0 = black, 1 = white
+}
+
+export interface PdfLineOptions {
+  width?: number;
+  gray?: number;
+  dash?: number; // Dash length, for cut lines
+}
+
+export interface PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  addPage: () => void;
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfLineOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: PdfLineOptions & { fillGray?: number }) => void;
+  textWidth: (value: string, font?: PdfFont, size?: number) => number;
+  toBuffer: () => Buffer;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier-Bold' },
+};
+
+// Glyph widths (1/1000 em) of characters 32-126, from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+// ============================================
+// ENCODING
+// ============================================
+
+// Text as WinAnsi bytes, unsupported characters become '?'
+const encodeText = (value: string): number[] =>
+  Array.from(value).map((char) => {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return WIN_ANSI_EXTRAS[char];
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+    return 63;
+  });
+
+// PDF string literal, escaping delimiters and writing non-ASCII bytes as octal
+const toPdfString = (value: string): string =>
+  '(' +
+  encodeText(value)
+    .map((byte) => {
+      if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+      if (byte > 126) return `\\${byte.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(byte);
+    })
+    .join('') +
+  ')';
+
+const glyphWidth = (byte: number, font: PdfFont): number => {
+  if (font === 'mono') return 600;
+  if (byte === 0x80) return 556; // Euro
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return (byte >= 32 && byte <= 126 ? widths[byte - 32] : undefined) ?? 556;
+};
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+// New A4 document with one empty page
+export const createPdfDocument = (): PdfDocument => {
+  let current: string[] = [];
+  const pages: string[][] = [current];
+
+  // Page coordinates are top-down, PDF ones bottom-up
+  const flipY = (y: number) => A4_HEIGHT - y;
+
+  const textWidth = (value: string, font: PdfFont = 'regular', size = 10): number =>
+    (encodeText(value).reduce((sum, byte) => sum + glyphWidth(byte, font), 0) / 1000) * size;
+
+  const strokeStyle = (options: PdfLineOptions = {}): string =>
+    [
+      `${num(options.width ?? 0.5)} w`,
+      `${num(options.gray ?? 0)} G`,
+      options.dash ? `[${num(options.dash)} ${num(options.dash)}] 0 d` : '[] 0 d',
+    ].join(' ');
+
+  return {
+    pageWidth: A4_WIDTH,
+    pageHeight: A4_HEIGHT,
+
+    addPage: () => {
+      current = [];
+      pages.push(current);
+    },
+
+    // y is the text baseline
+    text: (x, y, value, options = {}) => {
+      const font = options.font ?? 'regular';
+      const size = options.size ?? 10;
+      const width = textWidth(value, font, size);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+      current.push(
+        `BT /${FONT_RESOURCES[font].name} ${num(size)} Tf ${num(options.gray ?? 0)} g ${num(left)} ${num(flipY(y))} Td ${toPdfString(value)} Tj ET`
+      );
+    },
+
+    line: (x1, y1, x2, y2, options) => {
+      current.push(`${strokeStyle(options)} ${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l S`);
+    },
+
+    rect: (x, y, width, height, options = {}) => {
+      const path = `${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re`;
+      if (options.fillGray !== undefined) {
+        current.push(`${num(options.fillGray)} g ${path} f`);
+      }
+      if (options.width !== 0) {
+        current.push(`${strokeStyle(options)} ${path} S`);
+      }
+    },
+
+    textWidth,
+
+    toBuffer: () => writePdf(pages),
+  };
+};
+
+// Serialize pages of content operators into a PDF file
+const writePdf = (pages: string[][]): Buffer => {
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer): number => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+
+  // 1: catalog, 2: page tree, fonts next, then one page + content stream per page
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // Page tree, written once page ids are known
+
+  const fontRefs = (Object.keys(FONT_RESOURCES) as PdfFont[]).map((font) => {
+    const { name, baseFont } = FONT_RESOURCES[font];
+    const id = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+    return `/${name} ${id} 0 R`;
+  });
+
+  const pageIds = pages.map((operators) => {
+    const content = zlib.deflateSync(Buffer.from(operators.join('\n'), 'latin1'));
+    const contentId = addObject(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << ${fontRefs.join(' ')} >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    'latin1'
+  );
+
+  const header = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+  const parts: Buffer[] = [header];
+  const offsets: number[] = [];
+  let offset = header.length;
+
+  objects.forEach((body, index) => {
+    const object = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    parts.push(object);
+    offset += object.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((o) => `${o.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+
+  parts.push(Buffer.from(xref + '\n', 'latin1'));
+  return Buffer.concat(parts);
+};
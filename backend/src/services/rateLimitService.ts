@@ -0,0 +1,190 @@
+// CSR26 Rate Limit Service
+// Counter stores behind the rate limit middleware
+// memory (default): counters live in the server process, limits apply per instance
+// postgres: counters in the RateLimitBucket table, shared by every instance
+//
+// Select with RATE_LIMIT_STORE=memory|postgres
+
+import { prisma } from '../lib/prisma.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Counter of one key (endpoint + IP or identifier), times in ms since epoch
+export interface RateLimitState {
+  count: number;
+  resetAt: number;
+  strikes: number;
+  lockedUntil: number | null;
+}
+
+export interface RateLimitLock {
+  strikes: number;
+  lockedUntil: number;
+  // Strikes are forgotten after this
+  expiresAt: number;
+}
+
+export interface RateLimitStore {
+  // Count a request, starting a new window when the previous one has ended
+  increment: (key: string, windowMs: number, now: number) => Promise<RateLimitState>;
+  // Lock a key out; the window restarts when the lockout ends
+  lock: (key: string, lock: RateLimitLock) => Promise<void>;
+  // Delete expired counters, returns how many were removed
+  cleanup: (now: number) => Promise<number>;
+}
+
+type RateLimitStoreName = 'memory' | 'postgres';
+
+// ============================================
+// MEMORY STORE
+// ============================================
+
+interface MemoryBucket extends RateLimitState {
+  expiresAt: number;
+}
+
+// Drop expired counters once the map grows, so idle IPs don't accumulate
+const MAX_MEMORY_BUCKETS = 10000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, MemoryBucket>();
+
+  const cleanup = async (now: number): Promise<number> => {
+    let removed = 0;
+    for (const [key, bucket] of buckets) {
+      if (bucket.expiresAt <= now) {
+        buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  return {
+    increment: async (key, windowMs, now) => {
+      if (buckets.size > MAX_MEMORY_BUCKETS) {
+        await cleanup(now);
+      }
+
+      let bucket = buckets.get(key);
+      if (!bucket || bucket.expiresAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs, strikes: 0, lockedUntil: null, expiresAt: now + windowMs };
+        buckets.set(key, bucket);
+      } else if (bucket.resetAt <= now) {
+        bucket.count = 0;
+        bucket.resetAt = now + windowMs;
+        bucket.expiresAt = Math.max(bucket.expiresAt, bucket.resetAt);
+      }
+
+      bucket.count++;
+      return { count: bucket.count, resetAt: bucket.resetAt, strikes: bucket.strikes, lockedUntil: bucket.lockedUntil };
+    },
+
+    lock: async (key, lock) => {
+      buckets.set(key, {
+        count: 0,
+        resetAt: lock.lockedUntil,
+        strikes: lock.strikes,
+        lockedUntil: lock.lockedUntil,
+        expiresAt: lock.expiresAt,
+      });
+    },
+
+    cleanup,
+  };
+};
+
+// ============================================
+// POSTGRES STORE
+// ============================================
+
+interface RateLimitRow {
+  count: number;
+  resetAt: Date;
+  strikes: number;
+  lockedUntil: Date | null;
+}
+
+export const createPostgresRateLimitStore = (): RateLimitStore => ({
+  // Single upsert, so concurrent requests on several instances can't lose counts
+  increment: async (key, windowMs, now) => {
+    const nowDate = new Date(now);
+    const resetAt = new Date(now + windowMs);
+
+    const rows = await prisma.$queryRaw<RateLimitRow[]>`
+      INSERT INTO "RateLimitBucket" ("key", "count", "resetAt", "strikes", "expiresAt")
+      VALUES (${key}, 1, ${resetAt}, 0, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "RateLimitBucket"."resetAt" <= ${nowDate} THEN 1 ELSE "RateLimitBucket"."count" + 1 END,
+        "resetAt" = CASE WHEN "RateLimitBucket"."resetAt" <= ${nowDate} THEN ${resetAt} ELSE "RateLimitBucket"."resetAt" END,
+        "strikes" = CASE WHEN "RateLimitBucket"."expiresAt" <= ${nowDate} THEN 0 ELSE "RateLimitBucket"."strikes" END,
+        "lockedUntil" = CASE WHEN "RateLimitBucket"."expiresAt" <= ${nowDate} THEN NULL ELSE "RateLimitBucket"."lockedUntil" END,
+        "expiresAt" = GREATEST("RateLimitBucket"."expiresAt", ${resetAt})
+      RETURNING "count", "resetAt", "strikes", "lockedUntil"
+    `;
+
+    const row = rows[0];
+    if (!row) {
+      throw new Error(`Rate limit counter ${key} was not written`);
+    }
+
+    return {
+      count: row.count,
+      resetAt: row.resetAt.getTime(),
+      strikes: row.strikes,
+      lockedUntil: row.lockedUntil?.getTime() ?? null,
+    };
+  },
+
+  lock: async (key, lock) => {
+    const data = {
+      count: 0,
+      resetAt: new Date(lock.lockedUntil),
+      strikes: lock.strikes,
+      lockedUntil: new Date(lock.lockedUntil),
+      expiresAt: new Date(lock.expiresAt),
+    };
+
+    await prisma.rateLimitBucket.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  },
+
+  cleanup: async (now) => {
+    const { count } = await prisma.rateLimitBucket.deleteMany({
+      where: { expiresAt: { lte: new Date(now) } },
+    });
+    return count;
+  },
+});
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+const getStoreName = (): RateLimitStoreName => {
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+  if (name !== 'memory' && name !== 'postgres') {
+    throw new Error(`RATE_LIMIT_STORE must be memory or postgres, got ${name}`);
+  }
+  return name;
+};
+
+let store: RateLimitStore | null = null;
+
+// Store configured for this process, created on first use
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = getStoreName() === 'postgres' ? createPostgresRateLimitStore() : createMemoryRateLimitStore();
+  }
+  return store;
+};
+
+// Delete expired counters of the configured store
+export const cleanupRateLimits = async (): Promise<number> => {
+  return getRateLimitStore().cleanup(Date.now());
+};
@@ -0,0 +1,128 @@
+// CSR26 Reversal Service
+// Undoes a completed transaction: the original moves to REVERSED and a compensating
+// transaction with negated amounts records who reversed it and why
+
+import { prisma } from '../lib/prisma.js';
+import type { Transaction } from '@prisma/client';
+import { checkThresholdDowngrade, debitTransactionCredit } from './calculationService.js';
+import { releaseGiftCodeAmount } from './giftCodeService.js';
+import { refundTransactionCredit } from './merchantCreditService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('reversals');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReverseTransactionInput {
+  transactionId: string;
+  reason: string;
+  actorId?: string;
+  resetGiftCode?: boolean; // Give the amount back to the gift card's balance (GIFT_CARD only)
+}
+
+export interface ReverseTransactionResult {
+  original: Transaction;
+  reversal: Transaction;
+  merchantCredited: number;
+  giftCodeReset: boolean;
+  userDowngraded: boolean;
+}
+
+// ============================================
+// REVERSAL
+// ============================================
+
+// Reverse a COMPLETED transaction
+// 1. Debits what the transaction credited to the user's wallet and cancels its pending maturation tranches
+// 2. Credits back the merchant's billing balance, or its prepaid credit, for CLAIM/ALLOCATION
+// 3. Optionally gives the amount back to the gift card so it can be redeemed again
+// 4. Downgrades the user if completed transactions fall below the certification threshold
+// Returns null if the transaction is missing or no longer COMPLETED (e.g. refunded concurrently)
+export const reverseTransaction = async (input: ReverseTransactionInput): Promise<ReverseTransactionResult | null> => {
+  const original = await prisma.transaction.findUnique({
+    where: { id: input.transactionId },
+  });
+
+  if (!original || original.paymentStatus !== 'COMPLETED' || original.reversalOfId) {
+    return null;
+  }
+
+  const amount = Number(original.amount);
+  const creditsMerchant = Boolean(original.merchantId) &&
+    (original.paymentMode === 'CLAIM' || original.paymentMode === 'ALLOCATION');
+
+  const result = await prisma.$transaction(async (tx) => {
+    const debited = await debitTransactionCredit(tx, original.id, 'REVERSED', {
+      actorId: input.actorId,
+      note: `Reversal: ${input.reason}`,
+    });
+
+    // Another reversal, refund or dispute got there first
+    if (!debited) {
+      return null;
+    }
+
+    const reversal = await tx.transaction.create({
+      data: {
+        userId: original.userId,
+        skuCode: original.skuCode,
+        amount: -amount,
+        impactKg: -Number(original.impactKg),
+        paymentMode: original.paymentMode,
+        paymentStatus: 'REVERSED',
+        masterId: original.masterId,
+        partnerId: original.partnerId,
+        merchantId: original.merchantId,
+        giftCodeUsed: original.giftCodeUsed,
+        weightGrams: original.weightGrams,
+        multiplier: original.multiplier,
+        reversalOfId: original.id,
+        reversalReason: input.reason,
+        prepaid: original.prepaid,
+      },
+    });
+
+    // The merchant paid this claim from its prepaid credit: give the credit back
+    if (creditsMerchant && original.merchantId && original.prepaid) {
+      await refundTransactionCredit(tx, original.merchantId, amount, reversal.id);
+    }
+
+    // The merchant was charged for this claim; a negative balance carries over to the next invoice
+    if (creditsMerchant && original.merchantId && !original.prepaid) {
+      await tx.merchant.update({
+        where: { id: original.merchantId },
+        data: { currentBalance: { decrement: amount } },
+      });
+    }
+
+    let giftCodeReset = false;
+    if (input.resetGiftCode && original.giftCodeUsed) {
+      giftCodeReset = await releaseGiftCodeAmount(original.giftCodeUsed, amount, tx);
+    }
+
+    const updated = await tx.transaction.findUniqueOrThrow({ where: { id: original.id } });
+
+    return { original: updated, reversal, giftCodeReset };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  const userDowngraded = await checkThresholdDowngrade(original.userId);
+
+  log.info('Transaction reversed', {
+    transactionId: original.id,
+    actorId: input.actorId ?? 'system',
+    amount,
+    reason: input.reason,
+  });
+
+  return {
+    ...result,
+    merchantCredited: creditsMerchant ? amount : 0,
+    userDowngraded,
+  };
+};
@@ -0,0 +1,150 @@
+// CSR26 Scheduler Service
+// In-process scheduler for the cron jobs: daily tasks every day, monthly tasks on the 1st
+// Times are in the server's local time zone
+//
+// Each period runs once: before running, the scheduler checks the JobRun history, so restarts,
+// several instances and manual runs from the admin don't repeat a job (task locks cover races)
+//
+// SCHEDULER_ENABLED=false turns it off (e.g. when an external cron calls the admin endpoints)
+// SCHEDULER_DAILY_HOUR (default 2) and SCHEDULER_MONTHLY_HOUR (default 3)
+
+import { runDailyTasks, runMonthlyTasks, hasJobRunSince, CronJob } from './cronService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('scheduler');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  dailyHour: number;
+  monthlyHour: number;
+  nextDailyRun: string | null;
+  nextMonthlyRun: string | null;
+}
+
+type ScheduledJob = Exclude<CronJob, 'all'>;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TICK_MS = 60 * 1000;
+
+// A run missed by more than this (server down at the time) waits for the next period,
+// so a deploy mid-month doesn't bill merchants on the wrong day
+const CATCH_UP_MS = 12 * 60 * 60 * 1000;
+
+const isEnabled = (): boolean => process.env.SCHEDULER_ENABLED !== 'false';
+
+const getHour = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 && value <= 23 ? value : fallback;
+};
+
+const getDailyHour = (): number => getHour('SCHEDULER_DAILY_HOUR', 2);
+const getMonthlyHour = (): number => getHour('SCHEDULER_MONTHLY_HOUR', 3);
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+// Most recent time a job was due, at or before now
+const getLastDueAt = (job: ScheduledJob, now: Date): Date => {
+  if (job === 'daily') {
+    const due = new Date(now.getFullYear(), now.getMonth(), now.getDate(), getDailyHour());
+    if (due > now) due.setDate(due.getDate() - 1);
+    return due;
+  }
+
+  const due = new Date(now.getFullYear(), now.getMonth(), 1, getMonthlyHour());
+  if (due > now) due.setMonth(due.getMonth() - 1);
+  return due;
+};
+
+// Next time a job is due, after now
+const getNextDueAt = (job: ScheduledJob, now: Date): Date => {
+  const next = getLastDueAt(job, now);
+  if (job === 'daily') {
+    next.setDate(next.getDate() + 1);
+  } else {
+    next.setMonth(next.getMonth() + 1);
+  }
+  return next;
+};
+
+const JOB_RUNNERS: Record<ScheduledJob, typeof runDailyTasks> = {
+  daily: runDailyTasks,
+  monthly: runMonthlyTasks,
+};
+
+// Run a job if it is due and hasn't run since
+const runIfDue = async (job: ScheduledJob, now: Date): Promise<void> => {
+  const dueAt = getLastDueAt(job, now);
+  if (now.getTime() - dueAt.getTime() > CATCH_UP_MS) return;
+  if (await hasJobRunSince(job, dueAt)) return;
+
+  log.info('Running scheduled job', { job, dueAt });
+  await JOB_RUNNERS[job]({ trigger: 'scheduler' });
+};
+
+// ============================================
+// SCHEDULER
+// ============================================
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+const tick = async (): Promise<void> => {
+  // A long monthly run spans several ticks
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    const now = new Date();
+    await runIfDue('daily', now);
+    await runIfDue('monthly', now);
+  } catch (error) {
+    log.error('Scheduled run failed', { error });
+  } finally {
+    ticking = false;
+  }
+};
+
+// Start checking for due jobs, called once the server listens
+export const startScheduler = (): void => {
+  if (timer) return;
+
+  if (!isEnabled()) {
+    log.info('Scheduler disabled');
+    return;
+  }
+
+  timer = setInterval(() => void tick(), TICK_MS);
+  timer.unref();
+  void tick();
+
+  log.info('Scheduler started', { dailyHour: getDailyHour(), monthlyHour: getMonthlyHour() });
+};
+
+export const stopScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+export const getSchedulerStatus = (): SchedulerStatus => {
+  const enabled = isEnabled();
+  const now = new Date();
+
+  return {
+    enabled,
+    dailyHour: getDailyHour(),
+    monthlyHour: getMonthlyHour(),
+    nextDailyRun: enabled ? getNextDueAt('daily', now).toISOString() : null,
+    nextMonthlyRun: enabled ? getNextDueAt('monthly', now).toISOString() : null,
+  };
+};
@@ -0,0 +1,148 @@
+// CSR26 SKU Service
+// Validation shared by admin SKU management and merchant self-service drafts,
+// the admin approval workflow, and landing URLs for merchant QR codes
+
+import { prisma } from '../lib/prisma.js';
+import { createSignedLandingUrl, DEFAULT_LINK_DAYS } from './landingSignatureService.js';
+import type { PaymentMode, Sku } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SkuDraftInput {
+  code?: string;
+  name?: string;
+  description?: string | null;
+  paymentMode?: PaymentMode;
+  price?: number | string;
+  weightGrams?: number | string | null;
+  multiplier?: number | string;
+}
+
+export interface ReviewSkuInput {
+  code: string;
+  approve: boolean;
+  reviewerId?: string;
+  note?: string;
+}
+
+export interface SkuLandingLink {
+  code: string;
+  name: string;
+  url: string;
+  expiresAt: Date;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Allowed multiplier values per requirements.md
+export const ALLOWED_MULTIPLIERS = [1, 2, 5, 10];
+
+// Modes merchants can pick for their own products
+// GIFT_CARD needs admin-managed gift codes, ADJUSTMENT is admin-only
+export const MERCHANT_SKU_PAYMENT_MODES: PaymentMode[] = ['CLAIM', 'PAY', 'ALLOCATION'];
+
+// Uppercase letters, digits, dashes and underscores
+const SKU_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,49}$/;
+
+// ADMIN-* codes open the admin sign-in on the landing page
+const RESERVED_CODE_PREFIXES = ['ADMIN-'];
+
+// ============================================
+// VALIDATION
+// ============================================
+
+// Check a merchant draft, returns the first problem or null
+// With partial = true only the provided fields are checked (draft updates)
+export const getSkuDraftError = (input: SkuDraftInput, partial = false): string | null => {
+  if (!partial || input.code !== undefined) {
+    const code = String(input.code ?? '').trim().toUpperCase();
+    if (!SKU_CODE_PATTERN.test(code)) {
+      return 'SKU code must be 3-50 characters: letters, digits, dashes or underscores';
+    }
+    if (RESERVED_CODE_PREFIXES.some((prefix) => code.startsWith(prefix))) {
+      return 'This SKU code prefix is reserved';
+    }
+  }
+
+  if ((!partial || input.name !== undefined) && !String(input.name ?? '').trim()) {
+    return 'Name is required';
+  }
+
+  if ((!partial || input.paymentMode !== undefined) &&
+    !MERCHANT_SKU_PAYMENT_MODES.includes(input.paymentMode as PaymentMode)) {
+    return `Invalid payment mode. Must be one of: ${MERCHANT_SKU_PAYMENT_MODES.join(', ')}`;
+  }
+
+  if (input.price !== undefined) {
+    const price = Number(input.price);
+    if (isNaN(price) || price < 0) {
+      return 'Price must be zero or a positive number';
+    }
+  }
+
+  if (input.weightGrams !== undefined && input.weightGrams !== null && input.weightGrams !== '') {
+    const weight = Number(input.weightGrams);
+    if (!Number.isInteger(weight) || weight <= 0) {
+      return 'Weight must be a positive number of grams';
+    }
+  }
+
+  if (input.multiplier !== undefined && !ALLOWED_MULTIPLIERS.includes(Number(input.multiplier))) {
+    return `Invalid multiplier value: ${input.multiplier}. Allowed values are: ${ALLOWED_MULTIPLIERS.join(', ')}`;
+  }
+
+  return null;
+};
+
+// Approved and active SKUs can be used on landing pages, in transactions and QR codes
+export const isSkuAvailable = (sku: Pick<Sku, 'status' | 'active'>): boolean =>
+  sku.status === 'APPROVED' && sku.active;
+
+// ============================================
+// APPROVAL
+// ============================================
+
+// Approve or reject a merchant draft
+// Returns null if the SKU is missing or no longer waiting for approval
+export const reviewSku = async (input: ReviewSkuInput): Promise<Sku | null> => {
+  const { count } = await prisma.sku.updateMany({
+    where: { code: input.code, status: 'PENDING_APPROVAL' },
+    data: {
+      status: input.approve ? 'APPROVED' : 'REJECTED',
+      reviewedById: input.reviewerId ?? null,
+      reviewedAt: new Date(),
+      reviewNote: input.approve ? null : input.note ?? null,
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.sku.findUnique({ where: { code: input.code } });
+};
+
+// ============================================
+// LANDING LINKS
+// ============================================
+
+// Signed landing page URL encoded in a merchant's product QR code
+export const getSkuLandingLink = async (
+  sku: Pick<Sku, 'code' | 'name'>,
+  merchantId: string,
+  days: number = DEFAULT_LINK_DAYS
+): Promise<SkuLandingLink> => {
+  const link = await createSignedLandingUrl({ sku: sku.code, merchant: merchantId }, days);
+
+  return {
+    code: sku.code,
+    name: sku.name,
+    // Always signed: a merchant is given
+    url: link!.url,
+    expiresAt: link!.expiresAt,
+  };
+};
@@ -0,0 +1,158 @@
+// CSR26 TOTP Service
+// Time-based one-time passwords (RFC 6238) for the admin second factor
+// HMAC-SHA1, 30 second steps, 6 digits: the defaults every authenticator app supports
+// Codes are computed locally from the shared secret, no network access needed
+
+import crypto from 'crypto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+// Accept the previous and next step too, for clock drift between server and phone
+const DRIFT_STEPS = 1;
+
+// 160-bit secrets, as recommended by RFC 4226
+const SECRET_BYTES = 20;
+
+const ISSUER = 'CSR26';
+
+// ============================================
+// BASE32 (RFC 4648, no padding)
+// ============================================
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// ============================================
+// CODE GENERATION
+// ============================================
+
+// HOTP (RFC 4226) for one counter value
+const hotp = (key: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return binary.toString().padStart(DIGITS, '0');
+};
+
+// Time step for a timestamp (ms)
+export const getTotpStep = (timestamp: number = Date.now()): number => {
+  return Math.floor(timestamp / 1000 / STEP_SECONDS);
+};
+
+// Generate a new random base32 secret
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+};
+
+// Current code for a secret
+export const generateTotpCode = (secret: string, timestamp: number = Date.now()): string => {
+  return hotp(base32Decode(secret), getTotpStep(timestamp));
+};
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+// Check a code against the current step and its neighbours
+// Returns the matched step, or null if the code is wrong
+// Steps at or before lastStep are rejected, so an accepted code can't be replayed
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  lastStep: number | null = null,
+  timestamp: number = Date.now()
+): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep(timestamp);
+
+  for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// ============================================
+// ENROLLMENT
+// ============================================
+
+// otpauth:// URI understood by authenticator apps (Google Authenticator, 1Password, ...)
+export const getTotpUri = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
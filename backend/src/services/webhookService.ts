@@ -0,0 +1,281 @@
+// CSR26 Webhook Service
+// Records every Stripe webhook event with its processing outcome and dispatches it to a handler
+// Handlers are idempotent, so stored events can be replayed safely by an admin
+
+import { prisma } from '../lib/prisma.js';
+import type { Prisma, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import type Stripe from 'stripe';
+import { completeTransaction, reverseWalletCredit } from './calculationService.js';
+import { isInvoicePayment, syncInvoicePayment } from './billingService.js';
+import { isCreditPurchasePayment, syncCreditPurchase } from './merchantCreditService.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('webhooks');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WebhookHandlerResult {
+  status: Extract<WebhookEventStatus, 'PROCESSED' | 'IGNORED'>;
+  message: string;
+}
+
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================
+// EVENT HANDLERS
+// ============================================
+
+// Get the payment intent ID from a charge/dispute field (string or expanded object)
+const getPaymentIntentId = (paymentIntent: string | Stripe.PaymentIntent | null): string | null => {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+};
+
+// payment_intent.succeeded - complete the transaction and credit the wallet
+const handlePaymentSucceeded = async (paymentIntent: Stripe.PaymentIntent): Promise<WebhookHandlerResult> => {
+  const transaction = await prisma.transaction.findFirst({
+    where: { stripePaymentId: paymentIntent.id },
+  });
+
+  if (!transaction) {
+    return { status: 'IGNORED', message: `No transaction for payment intent ${paymentIntent.id}` };
+  }
+
+  // Only a PENDING/FAILED transaction is completed, so a replayed event never credits twice
+  const completed = await completeTransaction(transaction.id);
+
+  if (!completed) {
+    return { status: 'IGNORED', message: `Transaction ${transaction.id} already ${transaction.paymentStatus}` };
+  }
+
+  return { status: 'PROCESSED', message: `Completed transaction ${transaction.id}` };
+};
+
+// payment_intent.payment_failed - mark the pending transaction as failed
+const handlePaymentFailed = async (paymentIntent: Stripe.PaymentIntent): Promise<WebhookHandlerResult> => {
+  const updated = await prisma.transaction.updateMany({
+    where: { stripePaymentId: paymentIntent.id, paymentStatus: 'PENDING' },
+    data: { paymentStatus: 'FAILED' },
+  });
+
+  if (updated.count === 0) {
+    return { status: 'IGNORED', message: `No pending transaction for payment intent ${paymentIntent.id}` };
+  }
+
+  return { status: 'PROCESSED', message: `Marked ${updated.count} transaction(s) as FAILED` };
+};
+
+// charge.refunded - reverse the wallet credit of a fully refunded payment
+const handleChargeRefunded = async (charge: Stripe.Charge): Promise<WebhookHandlerResult> => {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  if (!paymentIntentId) {
+    return { status: 'IGNORED', message: `Charge ${charge.id} has no payment intent` };
+  }
+
+  // Partial refunds need an admin decision on how much impact to take back
+  if (!charge.refunded) {
+    return {
+      status: 'IGNORED',
+      message: `Partial refund of €${(charge.amount_refunded / 100).toFixed(2)} on charge ${charge.id} not reversed automatically`,
+    };
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { stripePaymentId: paymentIntentId },
+  });
+
+  if (!transaction) {
+    return { status: 'IGNORED', message: `No transaction for payment intent ${paymentIntentId}` };
+  }
+
+  const reversed = await reverseWalletCredit(transaction.id, 'REFUNDED', {
+    note: `Stripe refund on charge ${charge.id}`,
+  });
+
+  if (!reversed) {
+    return { status: 'IGNORED', message: `Transaction ${transaction.id} is ${transaction.paymentStatus}, nothing to reverse` };
+  }
+
+  return { status: 'PROCESSED', message: `Refunded transaction ${transaction.id}` };
+};
+
+// charge.dispute.created - reverse the wallet credit while the chargeback is open
+const handleDisputeCreated = async (dispute: Stripe.Dispute): Promise<WebhookHandlerResult> => {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  if (!paymentIntentId) {
+    return { status: 'IGNORED', message: `Dispute ${dispute.id} has no payment intent` };
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { stripePaymentId: paymentIntentId },
+  });
+
+  if (!transaction) {
+    return { status: 'IGNORED', message: `No transaction for payment intent ${paymentIntentId}` };
+  }
+
+  const reversed = await reverseWalletCredit(transaction.id, 'DISPUTED', {
+    note: `Stripe dispute ${dispute.id} (${dispute.reason})`,
+  });
+
+  if (!reversed) {
+    return { status: 'IGNORED', message: `Transaction ${transaction.id} is ${transaction.paymentStatus}, nothing to reverse` };
+  }
+
+  return { status: 'PROCESSED', message: `Disputed transaction ${transaction.id}` };
+};
+
+// payment_intent.* of a merchant invoice payment - reconcile the invoice
+const handleInvoicePayment = async (paymentIntent: Stripe.PaymentIntent): Promise<WebhookHandlerResult> => {
+  const result = await syncInvoicePayment(paymentIntent);
+
+  if (!result) {
+    return { status: 'IGNORED', message: `No invoice for payment intent ${paymentIntent.id}` };
+  }
+
+  return { status: result.updated ? 'PROCESSED' : 'IGNORED', message: result.message };
+};
+
+// payment_intent.* of a merchant credit pack - add the credit once paid
+const handleCreditPurchasePayment = async (paymentIntent: Stripe.PaymentIntent): Promise<WebhookHandlerResult> => {
+  const result = await syncCreditPurchase(paymentIntent);
+
+  if (!result) {
+    return { status: 'IGNORED', message: `No credit purchase for payment intent ${paymentIntent.id}` };
+  }
+
+  return { status: result.updated ? 'PROCESSED' : 'IGNORED', message: result.message };
+};
+
+// Handler for merchant payments (invoices, credit packs), null for wallet payments
+const getMerchantPaymentHandler = (paymentIntent: Stripe.PaymentIntent): Promise<WebhookHandlerResult> | null => {
+  if (isInvoicePayment(paymentIntent)) return handleInvoicePayment(paymentIntent);
+  if (isCreditPurchasePayment(paymentIntent)) return handleCreditPurchasePayment(paymentIntent);
+  return null;
+};
+
+// Dispatch an event to its handler
+// Payment intents are wallet payments (Transaction), invoice payments (metadata.type = invoice)
+// or credit pack purchases (metadata.type = credit_pack)
+const dispatchEvent = async (event: Stripe.Event): Promise<WebhookHandlerResult> => {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return getMerchantPaymentHandler(event.data.object) ?? handlePaymentSucceeded(event.data.object);
+
+    case 'payment_intent.processing':
+      return getMerchantPaymentHandler(event.data.object)
+        ?? { status: 'IGNORED', message: `Payment intent ${event.data.object.id} processing` };
+
+    case 'payment_intent.payment_failed':
+      return getMerchantPaymentHandler(event.data.object) ?? handlePaymentFailed(event.data.object);
+
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object);
+
+    case 'charge.dispute.created':
+      return handleDisputeCreated(event.data.object);
+
+    default:
+      return { status: 'IGNORED', message: `Unhandled event type: ${event.type}` };
+  }
+};
+
+// ============================================
+// EVENT LOG
+// ============================================
+
+// Run the handler for a stored event and save the outcome
+const processStoredEvent = async (record: WebhookEvent): Promise<WebhookEvent> => {
+  const event = record.payload as unknown as Stripe.Event;
+
+  try {
+    const result = await dispatchEvent(event);
+    log.info(result.message, { type: record.type, stripeEventId: record.stripeEventId, status: result.status });
+
+    return await prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: result.status,
+        error: result.status === 'IGNORED' ? result.message : null,
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Webhook event failed', { type: record.type, stripeEventId: record.stripeEventId, error });
+
+    return prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: 'FAILED',
+        error: message,
+        attempts: { increment: 1 },
+      },
+    });
+  }
+};
+
+// Store a verified Stripe event and process it
+// Stripe may deliver an event more than once: events already handled are not processed again
+export const receiveStripeEvent = async (event: Stripe.Event): Promise<WebhookEvent> => {
+  const existing = await prisma.webhookEvent.findUnique({
+    where: { stripeEventId: event.id },
+  });
+
+  if (existing && (existing.status === 'PROCESSED' || existing.status === 'IGNORED')) {
+    log.info('Duplicate webhook delivery skipped', { stripeEventId: event.id, status: existing.status });
+    return existing;
+  }
+
+  const record = existing ?? await prisma.webhookEvent.create({
+    data: {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  return processStoredEvent(record);
+};
+
+// Replay a stored event (admin)
+// Returns null if the event does not exist
+export const replayWebhookEvent = async (id: string): Promise<WebhookEvent | null> => {
+  const record = await prisma.webhookEvent.findUnique({ where: { id } });
+
+  if (!record) {
+    return null;
+  }
+
+  return processStoredEvent(record);
+};
+
+// List stored events (newest first)
+export const getWebhookEvents = async (
+  filters: WebhookEventFilters = {}
+): Promise<{ events: WebhookEvent[]; total: number }> => {
+  const where: Prisma.WebhookEventWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.type && { type: filters.type }),
+  };
+
+  const [events, total] = await Promise.all([
+    prisma.webhookEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.webhookEvent.count({ where }),
+  ]);
+
+  return { events, total };
+};
@@ -6,15 +6,48 @@ import type {
   Transaction,
   Sku,
   GiftCode,
+  GiftCodeBatch,
+  ClaimToken,
+  ClaimTokenBatch,
   Merchant,
+  MerchantMember,
+  MerchantMemberRole,
+  MerchantCreditPurchase,
+  MerchantCreditEntry,
+  CreditExhaustedAction,
+  CreditPackUnit,
+  CreditPurchaseStatus,
+  MerchantCreditReason,
+  PartnerCommission,
+  PartnerCommissionType,
+  PartnerPayoutStatus,
+  PartnerStatement,
   Invoice,
+  InvoiceLine,
+  VatTreatment,
   Setting,
   MagicLink,
+  MagicLinkPurpose,
+  TotpCredential,
   PaymentMode,
   PaymentStatus,
   UserStatus,
   GiftCodeStatus,
+  ClaimTokenStatus,
+  SkuStatus,
   UserRole,
+  WalletLedgerEntry,
+  MaturationEvent,
+  MaturationSchedule,
+  WebhookEvent,
+  WebhookEventStatus,
+  AuditLog,
+  LedgerEntryType,
+  LedgerReason,
+  Consent,
+  ConsentType,
+  JobRun,
+  JobRunStatus,
 } from '@prisma/client';
 
 // Re-export Prisma types
@@ -23,15 +56,48 @@ export type {
   Transaction,
   Sku,
   GiftCode,
+  GiftCodeBatch,
+  ClaimToken,
+  ClaimTokenBatch,
   Merchant,
+  MerchantMember,
+  MerchantMemberRole,
+  MerchantCreditPurchase,
+  MerchantCreditEntry,
+  CreditExhaustedAction,
+  CreditPackUnit,
+  CreditPurchaseStatus,
+  MerchantCreditReason,
+  PartnerCommission,
+  PartnerCommissionType,
+  PartnerPayoutStatus,
+  PartnerStatement,
   Invoice,
+  InvoiceLine,
+  VatTreatment,
   Setting,
   MagicLink,
+  MagicLinkPurpose,
+  TotpCredential,
   PaymentMode,
   PaymentStatus,
   UserStatus,
   GiftCodeStatus,
+  ClaimTokenStatus,
+  SkuStatus,
   UserRole,
+  WalletLedgerEntry,
+  MaturationEvent,
+  MaturationSchedule,
+  WebhookEvent,
+  WebhookEventStatus,
+  AuditLog,
+  LedgerEntryType,
+  LedgerReason,
+  Consent,
+  ConsentType,
+  JobRun,
+  JobRunStatus,
 };
 
 // ============================================
@@ -49,6 +115,7 @@ export interface ApiErrorResponse {
     message: string;
     code?: string;
     details?: unknown;
+    requestId?: string;
   };
 }
 
@@ -69,6 +136,20 @@ export interface AuthResponse {
   token: string;
 }
 
+// Landing form registration: a session for a new user, a sign-in link for an existing email
+export type RegisterResponse =
+  | AuthResponse
+  | { magicLinkSent: true; message: string; magicLinkUrl?: string };
+
+// Admin sign-in step after opening the link: enrolled admins only enter a code,
+// others first add the secret to their authenticator app
+export interface AdminSignInChallenge {
+  email: string;
+  enrolled: boolean;
+  secret?: string;      // Base32 key for manual entry
+  otpauthUrl?: string;  // otpauth:// URI with the same key
+}
+
 // ============================================
 // Landing Page Types (6 Cases)
 // ============================================
@@ -102,8 +183,9 @@ export interface LandingFormData {
   country?: string;
   state?: string;
 
-  // Terms
+  // Terms (recorded as TERMS and PRIVACY consents) and marketing opt-in
   termsAccepted?: boolean;
+  marketingOptIn?: boolean;
 
   // Payment specific
   amount?: number;
@@ -120,9 +202,17 @@ export interface CreateTransactionRequest {
   paymentMode: PaymentMode;
   giftCode?: string;
   merchantId?: string;
-  partnerId?: string;
+  partnerId?: string; // Ignored, partners are only taken from the signed landing parameters
   weightGrams?: number;
   multiplier?: number;
+  // Signed landing URL parameters (sku, merchant, partner, amount, weight, multiplier, email, exp, sig)
+  // Required for CLAIM and ALLOCATION, unless a claim token is given
+  landing?: Record<string, string>;
+  // Claim token from a printed QR code (CLAIM only)
+  claimToken?: string;
+  // Consents given on the landing form
+  termsAccepted?: boolean;
+  marketingOptIn?: boolean;
 }
 
 export interface TransactionWithRelations extends Transaction {
@@ -147,6 +237,11 @@ export interface WalletSummary {
   upcomingMaturations?: Array<{
     amount: number;
     date: string;
+    label: string;
+  }>;
+  maturationSchedules?: Array<{
+    name: string;
+    tranches: MaturationTranche[];
   }>;
 }
 
@@ -161,16 +256,31 @@ export interface ValidateGiftCodeRequest {
 
 export interface ValidateGiftCodeResponse {
   valid: boolean;
-  amount?: number;
+  amount?: number;        // Balance left on the card, redeemed unless the user picks less
+  faceValue?: number;
+  expiresAt?: Date | null;
   impactKg?: number;
   message?: string;
 }
 
-export interface BatchUploadGiftCodesRequest {
+// Print batch the codes belong to
+export interface GiftCodeBatchOptions {
   skuCode: string;
+  name?: string;
+  distributor?: string;
+  faceValue?: number;          // Value loaded on each card, default = SKU price
+  activationRequired?: boolean;
+  expiresAt?: string;          // ISO date
+}
+
+export interface BatchUploadGiftCodesRequest extends GiftCodeBatchOptions {
   codes: string[];
 }
 
+export interface GenerateGiftCodesRequest extends GiftCodeBatchOptions {
+  quantity: number;
+}
+
 // ============================================
 // Merchant Types
 // ============================================
@@ -185,12 +295,26 @@ export interface MerchantSummary {
   nextBillingDate: Date | null;
 }
 
+// Prepaid credit of a merchant and what it allows right now
+export interface MerchantCreditStatus {
+  creditBalance: number;
+  creditKg: number;                 // Balance in kg at today's price per kg
+  pricePerKg: number;
+  creditExhaustedAction: CreditExhaustedAction;
+  lowCreditThreshold: number | null;
+  monthlySpendingCap: number | null;
+  monthSpend: number;               // CLAIM/ALLOCATION amounts this calendar month, reversals deducted
+  paused: boolean;                  // New claims are currently rejected
+  pausedReason: string | null;
+}
+
 export interface MerchantBillingInfo {
   currentBalance: number;
   pendingTransactions: number;
   nextBillingDate: Date | null;
   lastBillingDate: Date | null;
   invoices: Invoice[];
+  credit: MerchantCreditStatus;
 }
 
 // ============================================
@@ -225,19 +349,36 @@ export interface ImpactCalculation {
 }
 
 // ============================================
-// Maturation Types (5/45/50 Rule)
+// Maturation Types (configurable schedules, default 5/45/50)
 // ============================================
 
+// One tranche of a maturation schedule
+export interface MaturationTranche {
+  label: string;            // "Immediate", "Mid-term", "Final"
+  percent: number;          // Share of the impact, all tranches sum to 100
+  weeks: number;            // Weeks after the transaction (0 = immediately)
+}
+
+// A tranche applied to a transaction's impact
+export interface MaturationTrancheBreakdown extends MaturationTranche {
+  impactKg: number;
+  maturesAt: Date;
+}
+
+// Schedule resolved for a SKU/merchant (id null = built-in 5/45/50)
+export interface ResolvedMaturationSchedule {
+  id: string | null;
+  name: string;
+  tranches: MaturationTranche[];
+}
+
 export interface MaturationBreakdown {
+  scheduleId: string | null;
+  scheduleName: string;
   totalKg: number;
-  immediateKg: number;      // 5% immediately
-  midTermKg: number;        // 45% at 40 weeks
-  finalKg: number;          // 50% at 80 weeks
-  midTermMaturesAt: Date;   // Date when 45% matures
-  finalMaturesAt: Date;     // Date when 50% matures
-  immediatePercent: number; // 5
-  midTermPercent: number;   // 45
-  finalPercent: number;     // 50
+  immediateKg: number;      // Tranches with weeks = 0, matured when credited
+  pendingKg: number;        // All later tranches
+  tranches: MaturationTrancheBreakdown[];
 }
 
 export interface UserImpactSummary {
@@ -247,6 +388,11 @@ export interface UserImpactSummary {
   upcomingMaturations: Array<{
     amount: number;
     date: Date;
+    label: string;
+  }>;
+  schedules: Array<{
+    name: string;
+    tranches: MaturationTranche[];
   }>;
 }
 
@@ -34,6 +34,19 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Error message for the UI; server errors carry the request ID so support can find them in the logs
+const getErrorMessage = (error: AxiosError<ApiErrorResponse>): string => {
+  const message = error.response?.data?.error?.message
+    || error.message
+    || 'An unexpected error occurred';
+  const requestId = error.response?.data?.error?.requestId;
+
+  if (requestId && (error.response?.status ?? 0) >= 500) {
+    return `${message} (reference: ${requestId})`;
+  }
+  return message;
+};
+
 // Response interceptor - handle errors
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => {
@@ -46,13 +59,8 @@ apiClient.interceptors.response.use(
       // Navigation will be handled by Redux state
     }
 
-    // Extract error message
-    const errorMessage = error.response?.data?.error?.message
-      || error.message
-      || 'An unexpected error occurred';
-
     // Return a standardized error
-    return Promise.reject(new Error(errorMessage));
+    return Promise.reject(new Error(getErrorMessage(error)));
   }
 );
 
@@ -78,18 +86,8 @@ export const clearAuthToken = (): void => {
 
 // Auth endpoints
 export const authApi = {
-  register: (data: {
-    email: string;
-    firstName?: string;
-    lastName?: string;
-    dateOfBirth?: string;
-    street?: string;
-    city?: string;
-    postalCode?: string;
-    country?: string;
-    state?: string;
-  }) =>
-    apiClient.post<ApiResponse<{ user: import('../types').User; token: string }>>('/auth/register', data),
+  register: (data: import('../types').RegisterRequest) =>
+    apiClient.post<ApiResponse<import('../types').RegisterResponse>>('/auth/register', data),
 
   sendMagicLink: (email: string) =>
     apiClient.post<ApiResponse<{ message: string }>>('/auth/magic-link', { email }),
@@ -100,9 +98,44 @@ export const authApi = {
   getMe: () =>
     apiClient.get<ApiResponse<import('../types').User>>('/auth/me'),
 
-  // Admin login via secret code (from landing page)
-  adminLogin: (secretCode: string) =>
-    apiClient.post<ApiResponse<{ user: import('../types').User; token: string }>>('/auth/admin-login', { secretCode }),
+  // Admin sign-in: magic link first, then a TOTP code from the authenticator app
+  requestAdminSignIn: (email: string) =>
+    apiClient.post<ApiResponse<{ message: string; magicLinkUrl?: string }>>('/auth/admin/magic-link', { email }),
+
+  getAdminSignInChallenge: (token: string) =>
+    apiClient.post<ApiResponse<import('../types').AdminSignInChallenge>>('/auth/admin/verify', { token }),
+
+  verifyAdminSignIn: (token: string, code: string) =>
+    apiClient.post<ApiResponse<{ user: import('../types').User; token: string }>>('/auth/admin/verify', { token, code }),
+};
+
+// Signed-in user's data rights (GDPR)
+export const meApi = {
+  getDataExportUrl: (format: import('../types').DataExportFormat) => {
+    const queryParams = new URLSearchParams({ format });
+
+    // Add auth token to query params for window.open() download
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) {
+      queryParams.append('token', token);
+    }
+
+    return `${API_BASE_URL}/me/export?${queryParams.toString()}`;
+  },
+
+  // Pseudonymizes the account, confirmEmail must match the signed-in user's email
+  deleteAccount: (confirmEmail: string) =>
+    apiClient.delete<ApiResponse<{ deletedAt: string }>>('/me', { data: { confirmEmail } }),
+
+  getConsents: () =>
+    apiClient.get<ApiResponse<import('../types').UserConsents>>('/me/consents'),
+
+  // Consents to the current version of the document
+  grantConsent: (type: import('../types').ConsentType) =>
+    apiClient.post<ApiResponse<import('../types').UserConsents>>('/me/consents', { type }),
+
+  withdrawConsent: (type: import('../types').ConsentType) =>
+    apiClient.delete<ApiResponse<import('../types').UserConsents>>(`/me/consents/${type}`),
 };
 
 // SKU endpoints
@@ -110,8 +143,8 @@ export const skuApi = {
   getByCode: (code: string) =>
     apiClient.get<ApiResponse<import('../types').Sku>>(`/skus/${code}`),
 
-  getAll: () =>
-    apiClient.get<ApiResponse<import('../types').Sku[]>>('/skus'),
+  getAll: (params?: { status?: import('../types').SkuStatus }) =>
+    apiClient.get<ApiResponse<import('../types').Sku[]>>('/skus', { params }),
 
   create: (data: Partial<import('../types').Sku>) =>
     apiClient.post<ApiResponse<import('../types').Sku>>('/skus', data),
@@ -121,6 +154,13 @@ export const skuApi = {
 
   delete: (code: string) =>
     apiClient.delete<ApiResponse<{ message: string }>>(`/skus/${code}`),
+
+  // Merchant draft review
+  approve: (code: string) =>
+    apiClient.post<ApiResponse<import('../types').Sku>>(`/skus/${code}/approve`),
+
+  reject: (code: string, reason: string) =>
+    apiClient.post<ApiResponse<import('../types').Sku>>(`/skus/${code}/reject`, { reason }),
 };
 
 // Settings endpoints
@@ -135,10 +175,25 @@ export const settingsApi = {
     apiClient.put<ApiResponse<import('../types').Setting>>(`/settings/${key}`, data),
 };
 
+// Maturation schedule endpoints (admin)
+export const maturationScheduleApi = {
+  getAll: () =>
+    apiClient.get<ApiResponse<import('../types').MaturationScheduleWithCounts[]>>('/maturation-schedules'),
+
+  create: (data: { name: string; description?: string; tranches: import('../types').MaturationTranche[] }) =>
+    apiClient.post<ApiResponse<import('../types').MaturationSchedule>>('/maturation-schedules', data),
+
+  update: (id: string, data: Partial<Pick<import('../types').MaturationSchedule, 'name' | 'description' | 'tranches' | 'active'>>) =>
+    apiClient.put<ApiResponse<import('../types').MaturationSchedule>>(`/maturation-schedules/${id}`, data),
+
+  delete: (id: string) =>
+    apiClient.delete<ApiResponse<{ message: string }>>(`/maturation-schedules/${id}`),
+};
+
 // Transaction endpoints
 export const transactionApi = {
   create: (data: import('../types').CreateTransactionRequest) =>
-    apiClient.post<ApiResponse<import('../types').Transaction>>('/transactions', data),
+    apiClient.post<ApiResponse<import('../types').CreateTransactionResponse>>('/transactions', data),
 
   getAll: (params?: { limit?: number; offset?: number; paymentMode?: string; merchantId?: string }) =>
     apiClient.get<ApiResponse<import('../types').TransactionListResponse>>('/transactions', { params }),
@@ -152,8 +207,11 @@ export const walletApi = {
   get: () =>
     apiClient.get<ApiResponse<import('../types').WalletSummary>>('/wallet'),
 
-  getByEmail: (email: string) =>
-    apiClient.get<ApiResponse<import('../types').WalletSummary>>(`/wallet/email/${email}`),
+  // Landing page thank-you screen, with the token returned by the claim or payment
+  getLanding: (walletToken: string) =>
+    apiClient.get<ApiResponse<import('../types').WalletSummary>>('/wallet/landing', {
+      headers: { 'X-Landing-Token': walletToken },
+    }),
 };
 
 // Gift code endpoints
@@ -161,12 +219,31 @@ export const giftCodeApi = {
   validate: (data: import('../types').ValidateGiftCodeRequest) =>
     apiClient.post<ApiResponse<import('../types').ValidateGiftCodeResponse>>('/gift-codes/validate', data),
 
-  getAll: (params?: { skuCode?: string; status?: string }) =>
+  getAll: (params?: { skuCode?: string; status?: string; batchId?: string }) =>
     apiClient.get<ApiResponse<{ giftCodes: import('../types').GiftCode[]; total: number }>>('/gift-codes', { params }),
 
+  getBatches: () =>
+    apiClient.get<ApiResponse<import('../types').GiftCodeBatchSummary[]>>('/gift-codes/batches'),
+
+  activateBatch: (id: string) =>
+    apiClient.patch<ApiResponse<{ activated: number }>>(`/gift-codes/batches/${id}/activate`),
+
   batchUpload: (data: import('../types').BatchUploadGiftCodesRequest) =>
     apiClient.post<ApiResponse<{ count: number; codes: import('../types').GiftCode[] }>>('/gift-codes/batch', data),
 
+  generate: (data: import('../types').GenerateGiftCodesRequest) =>
+    apiClient.post<ApiResponse<{ batch: import('../types').GiftCodeBatch; count: number }>>('/gift-codes/generate', data),
+
+  // Code list of a batch for the printer, CSV or a printable PDF sheet
+  getBatchDownloadUrl: (id: string, format: import('../types').GiftCodeBatchDownloadFormat) => {
+    const queryParams = new URLSearchParams({ format });
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) {
+      queryParams.append('token', token);
+    }
+    return `${API_BASE_URL}/gift-codes/batches/${id}/download?${queryParams.toString()}`;
+  },
+
   deactivate: (code: string) =>
     apiClient.delete<ApiResponse<import('../types').GiftCode>>(`/gift-codes/${code}`),
 
@@ -193,6 +270,16 @@ export const merchantApi = {
 
   update: (id: string, data: Partial<import('../types').Merchant>) =>
     apiClient.put<ApiResponse<import('../types').Merchant>>(`/merchants/${id}`, data),
+
+  getMembers: (id: string) =>
+    apiClient.get<ApiResponse<import('../types').MerchantMember[]>>(`/merchants/${id}/members`),
+
+  inviteMember: (id: string, data: { email: string; role: import('../types').MerchantMemberRole }) =>
+    apiClient.post<ApiResponse<import('../types').InviteMerchantMemberResponse>>(`/merchants/${id}/members`, data),
+
+  // Grant (positive) or remove (negative) prepaid credit
+  adjustCredit: (id: string, data: { amount: number; note: string }) =>
+    apiClient.post<ApiResponse<import('../types').MerchantCreditStatus>>(`/merchants/${id}/credit`, data),
 };
 
 // Payment endpoints (Stripe)
@@ -221,9 +308,26 @@ export const userApi = {
   adjustWallet: (id: string, data: { amount: number; reason: string }) =>
     apiClient.post<ApiResponse<import('../types').UserWithCounts>>(`/users/${id}/adjust-wallet`, data),
 
-  getExportUrl: (params?: { status?: string; startDate?: string; endDate?: string }) => {
+  getLedger: (id: string, params?: { limit?: number; offset?: number }) =>
+    apiClient.get<ApiResponse<import('../types').UserLedgerResponse>>(`/users/${id}/ledger`, { params }),
+
+  // Admin-assisted data subject requests
+  getDataExportUrl: (id: string, format: import('../types').DataExportFormat) => {
+    const queryParams = new URLSearchParams({ format });
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) {
+      queryParams.append('token', token);
+    }
+    return `${API_BASE_URL}/users/${id}/export?${queryParams.toString()}`;
+  },
+
+  delete: (id: string) =>
+    apiClient.delete<ApiResponse<import('../types').User>>(`/users/${id}`),
+
+  getExportUrl: (params?: { status?: string; startDate?: string; endDate?: string; marketing?: 'opted-in' }) => {
     const queryParams = new URLSearchParams();
     if (params?.status) queryParams.append('status', params.status);
+    if (params?.marketing) queryParams.append('marketing', params.marketing);
     if (params?.startDate) queryParams.append('startDate', params.startDate);
     if (params?.endDate) queryParams.append('endDate', params.endDate);
 
@@ -284,12 +388,44 @@ export const adminApi = {
   updateTransactionStatus: (id: string, paymentStatus: 'PENDING' | 'COMPLETED' | 'FAILED') =>
     apiClient.patch<ApiResponse<import('../types').Transaction>>(`/admin/transactions/${id}`, { paymentStatus }),
 
+  reverseTransaction: (id: string, data: { reason: string; resetGiftCode?: boolean }) =>
+    apiClient.post<ApiResponse<import('../types').ReverseTransactionResult>>(`/admin/transactions/${id}/reverse`, data),
+
   createManualTransaction: (data: { email: string; amount: number; paymentMode: string; reason: string }) =>
     apiClient.post<ApiResponse<import('../types').Transaction>>('/admin/transactions/manual', data),
 
-  // Admin access
-  verifyAdminAccess: (code: string) =>
-    apiClient.post<ApiResponse<{ message: string; role?: string; valid?: boolean }>>('/admin/access', { code }),
+  // Stripe webhook events
+  getWebhookEvents: (params?: { status?: string; type?: string; limit?: number; offset?: number }) =>
+    apiClient.get<ApiResponse<{ events: import('../types').WebhookEvent[]; total: number }>>('/admin/webhooks', { params }),
+
+  replayWebhookEvent: (id: string) =>
+    apiClient.post<ApiResponse<import('../types').WebhookEvent>>(`/admin/webhooks/${id}/replay`),
+
+  // Audit log
+  getAuditLogs: (params?: {
+    action?: string;
+    entityType?: string;
+    entityId?: string;
+    actorId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  }) =>
+    apiClient.get<ApiResponse<{ logs: import('../types').AuditLog[]; total: number }>>('/admin/audit-logs', { params }),
+
+  // Admin accounts
+  getAdminAccounts: () =>
+    apiClient.get<ApiResponse<import('../types').AdminAccount[]>>('/admin/admins'),
+
+  createAdminAccount: (data: { email: string; firstName?: string; lastName?: string }) =>
+    apiClient.post<ApiResponse<import('../types').CreateAdminAccountResponse>>('/admin/admins', data),
+
+  revokeAdminAccount: (id: string) =>
+    apiClient.delete<ApiResponse<{ id: string; role: string }>>(`/admin/admins/${id}`),
+
+  resetAdminTotp: (id: string) =>
+    apiClient.post<ApiResponse<{ id: string; reset: boolean }>>(`/admin/admins/${id}/reset-totp`),
 
   // Billing
   getBillingStats: () =>
@@ -298,6 +434,9 @@ export const adminApi = {
   getOutstandingBalances: () =>
     apiClient.get<ApiResponse<unknown>>('/admin/billing/outstanding'),
 
+  getBillingReconciliation: () =>
+    apiClient.get<ApiResponse<import('../types').BillingReconciliationReport>>('/admin/billing/reconciliation'),
+
   runMonthlyBilling: (params?: { year?: number; month?: number }) =>
     apiClient.post<ApiResponse<unknown>>('/admin/billing/run', params),
 
@@ -307,15 +446,31 @@ export const adminApi = {
   payInvoice: (id: string, stripePaymentId?: string) =>
     apiClient.post<ApiResponse<unknown>>(`/admin/billing/invoices/${id}/pay`, { stripePaymentId }),
 
+  // Token in query params for window.open() download
+  getInvoicePdfUrl: (id: string) => {
+    const token = localStorage.getItem(TOKEN_KEY);
+    return `${API_BASE_URL}/admin/billing/invoices/${id}/pdf${token ? `?token=${token}` : ''}`;
+  },
+
+  // Email the invoice PDF to the merchant again
+  sendInvoice: (id: string) =>
+    apiClient.post<ApiResponse<{ sent: boolean }>>(`/admin/billing/invoices/${id}/send`),
+
   // Cron
   runDailyCron: () =>
-    apiClient.post<ApiResponse<unknown>>('/admin/cron/daily'),
+    apiClient.post<ApiResponse<import('../types').CronRunResult>>('/admin/cron/daily'),
 
   runMonthlyCron: () =>
-    apiClient.post<ApiResponse<unknown>>('/admin/cron/monthly'),
+    apiClient.post<ApiResponse<import('../types').CronRunResult>>('/admin/cron/monthly'),
 
   runAllCron: () =>
-    apiClient.post<ApiResponse<unknown>>('/admin/cron/all'),
+    apiClient.post<ApiResponse<import('../types').CronRunResult>>('/admin/cron/all'),
+
+  getJobRuns: (params?: { job?: string; status?: string; limit?: number; offset?: number }) =>
+    apiClient.get<ApiResponse<{ runs: import('../types').JobRun[]; total: number; scheduler: import('../types').SchedulerStatus }>>('/admin/jobs', { params }),
+
+  retryJobRun: (id: string) =>
+    apiClient.post<ApiResponse<import('../types').CronRunResult>>(`/admin/jobs/${id}/retry`),
 };
 
 // Merchant self-service endpoints
@@ -332,8 +487,89 @@ export const merchantSelfServiceApi = {
   getMyInvoice: (invoiceId: string) =>
     apiClient.get<ApiResponse<unknown>>(`/merchants/me/invoices/${invoiceId}`),
 
-  getMySKUs: () =>
-    apiClient.get<ApiResponse<import('../types').Sku[]>>('/merchants/me/skus'),
+  // Invoice payment (card or SEPA debit), confirmed by the Stripe webhook
+  payMyInvoice: (invoiceId: string, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').InvoicePaymentIntent>>(`/merchants/me/invoices/${invoiceId}/pay`, {}, { params: { merchantId } }),
+
+  confirmMyInvoicePayment: (invoiceId: string, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').InvoicePaymentSyncResult>>(`/merchants/me/invoices/${invoiceId}/pay/confirm`, {}, { params: { merchantId } }),
+
+  // Token in query params for window.open() download
+  getMyInvoicePdfUrl: (invoiceId: string, merchantId?: string) => {
+    const queryParams = new URLSearchParams();
+    if (merchantId) queryParams.append('merchantId', merchantId);
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) queryParams.append('token', token);
+    return `${API_BASE_URL}/merchants/me/invoices/${invoiceId}/pdf?${queryParams.toString()}`;
+  },
+
+  // Prepaid credit packs (card or SEPA debit), credited by the Stripe webhook
+  getMyCredit: (merchantId?: string) =>
+    apiClient.get<ApiResponse<import('../types').MerchantCreditOverview>>('/merchants/me/credit', { params: { merchantId } }),
+
+  buyCreditPack: (packId: string, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').CreditPurchasePayment>>('/merchants/me/credit/purchases', { packId }, { params: { merchantId } }),
+
+  confirmCreditPurchase: (purchaseId: string, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').CreditPurchaseSyncResult>>(`/merchants/me/credit/purchases/${purchaseId}/confirm`, {}, { params: { merchantId } }),
+
+  updateMyCreditSettings: (data: import('../types').MerchantCreditSettings, merchantId?: string) =>
+    apiClient.put<ApiResponse<import('../types').MerchantCreditStatus>>('/merchants/me/credit/settings', data, { params: { merchantId } }),
+
+  // Products (merchantId selects the merchant when the user belongs to several)
+  getMySKUs: (merchantId?: string) =>
+    apiClient.get<ApiResponse<import('../types').Sku[]>>('/merchants/me/skus', { params: { merchantId } }),
+
+  createMySku: (data: import('../types').SkuDraftRequest, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').Sku>>('/merchants/me/skus', data, { params: { merchantId } }),
+
+  updateMySku: (code: string, data: Partial<import('../types').SkuDraftRequest>, merchantId?: string) =>
+    apiClient.put<ApiResponse<import('../types').Sku>>(`/merchants/me/skus/${code}`, data, { params: { merchantId } }),
+
+  getMySkuQrLink: (code: string, merchantId?: string, days?: number) =>
+    apiClient.get<ApiResponse<import('../types').SkuLandingLink>>(`/merchants/me/skus/${code}/qr`, { params: { merchantId, days } }),
+
+  // Claim tokens for printed QR codes (owner only, except listing)
+  setMySkuClaimTokenRequired: (code: string, required: boolean, merchantId?: string) =>
+    apiClient.put<ApiResponse<import('../types').Sku>>(`/merchants/me/skus/${code}/claim-token-required`, { required }, { params: { merchantId } }),
+
+  getMyClaimTokenBatches: (merchantId?: string) =>
+    apiClient.get<ApiResponse<import('../types').ClaimTokenBatchSummary[]>>('/merchants/me/claim-token-batches', { params: { merchantId } }),
+
+  createMyClaimTokenBatch: (data: import('../types').CreateClaimTokenBatchRequest, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').ClaimTokenBatch>>('/merchants/me/claim-token-batches', data, { params: { merchantId } }),
+
+  // Token in query params for window.open() download
+  getClaimTokenBatchCsvUrl: (batchId: string, merchantId?: string) => {
+    const queryParams = new URLSearchParams();
+    if (merchantId) queryParams.append('merchantId', merchantId);
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) queryParams.append('token', token);
+    return `${API_BASE_URL}/merchants/me/claim-token-batches/${batchId}/csv?${queryParams.toString()}`;
+  },
+
+  // Landing URL signing (owner only)
+  getMySigningKey: (merchantId?: string) =>
+    apiClient.get<ApiResponse<import('../types').LandingSigningKeyInfo>>('/merchants/me/signing-key', { params: { merchantId } }),
+
+  rotateMySigningKey: (merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').LandingSigningKeyInfo>>('/merchants/me/signing-key/rotate', {}, { params: { merchantId } }),
+
+  // Team (merchantId selects the merchant when the user belongs to several)
+  getMyMemberships: () =>
+    apiClient.get<ApiResponse<import('../types').MerchantMembership[]>>('/merchants/me/memberships'),
+
+  getMyMembers: (merchantId?: string) =>
+    apiClient.get<ApiResponse<import('../types').MerchantMember[]>>('/merchants/me/members', { params: { merchantId } }),
+
+  inviteMember: (data: { email: string; role: import('../types').MerchantMemberRole }, merchantId?: string) =>
+    apiClient.post<ApiResponse<import('../types').InviteMerchantMemberResponse>>('/merchants/me/members', data, { params: { merchantId } }),
+
+  updateMember: (memberId: string, role: import('../types').MerchantMemberRole, merchantId?: string) =>
+    apiClient.patch<ApiResponse<import('../types').MerchantMember>>(`/merchants/me/members/${memberId}`, { role }, { params: { merchantId } }),
+
+  removeMember: (memberId: string, merchantId?: string) =>
+    apiClient.delete<ApiResponse<{ message: string }>>(`/merchants/me/members/${memberId}`, { params: { merchantId } }),
 };
 
 // Partner endpoints
@@ -384,10 +620,7 @@ partnerClient.interceptors.response.use(
     if (error.response?.status === 401) {
       localStorage.removeItem(PARTNER_TOKEN_KEY);
     }
-    const errorMessage = error.response?.data?.error?.message
-      || error.message
-      || 'An unexpected error occurred';
-    return Promise.reject(new Error(errorMessage));
+    return Promise.reject(new Error(getErrorMessage(error)));
   }
 );
 
@@ -470,12 +703,28 @@ export const partnerApi = {
         transactions: number;
         revenue: number;
         impactKg: number;
-        estimatedCommission: number;
+        commission: number;           // Accrued in the period, net of clawbacks
+        commissionClawedBack: number; // Negative
       };
       byMerchant: Array<{ id: string; name: string; count: number; revenue: number; impactKg: number }>;
       byPaymentMode: Record<string, { count: number; revenue: number; impactKg: number }>;
     }>>('/partners/me/reports/summary', { params }),
 
+  getSigningKey: () =>
+    partnerClient.get<ApiResponse<import('../types').LandingSigningKeyInfo>>('/partners/me/signing-key'),
+
+  rotateSigningKey: () =>
+    partnerClient.post<ApiResponse<import('../types').LandingSigningKeyInfo>>('/partners/me/signing-key/rotate'),
+
+  getMyStatements: () =>
+    partnerClient.get<ApiResponse<import('../types').PartnerStatement[]>>('/partners/me/statements'),
+
+  // Token in query params for window.open() download
+  getMyStatementPdfUrl: (id: string) => {
+    const token = localStorage.getItem(PARTNER_TOKEN_KEY);
+    return `${API_BASE_URL}/partners/me/statements/${id}/pdf${token ? `?token=${token}` : ''}`;
+  },
+
   // Admin endpoints (uses regular apiClient with admin auth)
   getAll: () =>
     apiClient.get<ApiResponse<Array<{
@@ -508,6 +757,18 @@ export const partnerApi = {
       commissionRate: number;
       active: boolean;
     }>>(`/partners/${id}`, data),
+
+  getStatements: (params?: { partnerId?: string; payoutStatus?: import('../types').PartnerPayoutStatus }) =>
+    apiClient.get<ApiResponse<import('../types').PartnerStatement[]>>('/partners/statements', { params }),
+
+  updateStatementPayout: (id: string, data: { payoutStatus: import('../types').PartnerPayoutStatus; paymentReference?: string }) =>
+    apiClient.patch<ApiResponse<import('../types').PartnerStatement>>(`/partners/statements/${id}/payout`, data),
+
+  // Token in query params for window.open() download
+  getStatementPdfUrl: (id: string) => {
+    const token = localStorage.getItem(TOKEN_KEY);
+    return `${API_BASE_URL}/partners/statements/${id}/pdf${token ? `?token=${token}` : ''}`;
+  },
 };
 
 export default apiClient;
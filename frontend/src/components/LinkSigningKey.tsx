@@ -0,0 +1,158 @@
+// CSR26 Link Signing Key Component
+// Shows the secret merchants and partners use to sign their own landing URLs, and rotates it
+// Used by the merchant dashboard (owners) and the partner dashboard
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useCallback, useEffect, useState } from 'react';
+import type { LandingSigningKeyInfo } from '../types';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+
+interface LinkSigningKeyProps {
+  loadKey: () => Promise<LandingSigningKeyInfo>;
+  rotateKey: () => Promise<LandingSigningKeyInfo>;
+}
+
+// Must match the payload signed by the backend landing signature service
+const SIGNATURE_FORMAT = `sig = base64url(HMAC-SHA256(secret,
+  "v1\\n" + [sku, merchant, partner, amount, weight, multiplier, email, exp].join("\\n")))`;
+
+const LinkSigningKey = ({ loadKey, rotateKey }: LinkSigningKeyProps) => {
+  const [keyInfo, setKeyInfo] = useState<LandingSigningKeyInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rotating, setRotating] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchKey = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setKeyInfo(await loadKey());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadKey]);
+
+  useEffect(() => {
+    fetchKey();
+  }, [fetchKey]);
+
+  const handleRotate = async () => {
+    if (!confirm('Rotate the signing key? Every link and QR code signed with the current key stops working.')) return;
+    setRotating(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setKeyInfo(await rotateKey());
+      setRevealed(false);
+      setSuccess('Signing key rotated. Reissue your links and QR codes.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (keyInfo) navigator.clipboard.writeText(keyInfo.secret);
+  };
+
+  return (
+    <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">Link Signing</h3>
+        <p className="text-sm text-gray-500">
+          Claim and allocation links must be signed, so nobody can change the amount or weight in the URL
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <CircularProgress size={24} />
+          </div>
+        ) : keyInfo && (
+          <>
+            {/* Secret */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Signing secret</p>
+              <div className="flex flex-col md:flex-row md:items-center gap-2">
+                <code className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-xs break-all">
+                  {revealed ? keyInfo.secret : '•'.repeat(32)}
+                </code>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={() => setRevealed(!revealed)}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    {revealed ? 'Hide' : 'Reveal'}
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={handleCopy}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Copy
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    color="error"
+                    onClick={handleRotate}
+                    disabled={rotating}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    {rotating ? 'Rotating...' : 'Rotate'}
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Created {new Date(keyInfo.createdAt).toLocaleDateString()}
+                {keyInfo.rotatedAt && ` · Last rotated ${new Date(keyInfo.rotatedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+
+            {/* Format */}
+            <div className="pt-4 border-t border-gray-200">
+              <p className="text-sm font-medium text-gray-700 mb-2">Signing your own links (e-commerce, allocations)</p>
+              <p className="text-sm text-gray-600 mb-2">
+                Add <code>exp</code> (Unix time in seconds) and <code>sig</code> to the landing URL.
+                Parameters you leave out are signed as empty strings.
+              </p>
+              <pre className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-xs overflow-x-auto">
+                {SIGNATURE_FORMAT}
+              </pre>
+              <p className="text-xs text-gray-500 mt-2">
+                Keep this secret on your server. Anyone who has it can create links charged to your account.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LinkSigningKey;
@@ -167,7 +167,8 @@ interface StripePaymentFormProps {
   amount: number;
   email: string;
   skuCode?: string;
-  onSuccess: (transactionId: string) => void;
+  // walletToken lets the landing page show the updated wallet
+  onSuccess: (transactionId: string, walletToken?: string) => void;
   onError: (error: string) => void;
   onCancel?: () => void;
 }
@@ -183,6 +184,7 @@ const StripePaymentForm = ({
 }: StripePaymentFormProps) => {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [transactionId, setTransactionId] = useState<string | null>(null);
+  const [walletToken, setWalletToken] = useState<string | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -201,6 +203,7 @@ const StripePaymentForm = ({
         if (!cancelled) {
           setClientSecret(response.data.data.clientSecret);
           setTransactionId(response.data.data.transactionId || '');
+          setWalletToken(response.data.data.walletToken ?? undefined);
         }
       } catch (err) {
         if (!cancelled) {
@@ -279,7 +282,7 @@ const StripePaymentForm = ({
         clientSecret={clientSecret}
         amount={amount}
         transactionId={transactionId}
-        onSuccess={onSuccess}
+        onSuccess={(id) => onSuccess(id, walletToken)}
         onError={onError}
       />
     </Elements>
@@ -28,6 +28,7 @@ export const useNavigation = () => {
       if (params.email) searchParams.set('email', params.email);
       if (params.weight) searchParams.set('weight', params.weight.toString());
       if (params.multiplier) searchParams.set('multiplier', params.multiplier.toString());
+      if (params.token) searchParams.set('token', params.token);
       navigate(`/landing?${searchParams.toString()}`);
     } else {
       navigate('/landing');
@@ -89,6 +90,7 @@ export const useNavigation = () => {
       email: searchParams.get('email') || undefined,
       weight: searchParams.get('weight') ? parseInt(searchParams.get('weight')!) : undefined,
       multiplier: searchParams.get('multiplier') ? parseInt(searchParams.get('multiplier')!) : undefined,
+      token: searchParams.get('token') || undefined,
     };
   }, [searchParams]);
 
@@ -0,0 +1,176 @@
+// CSR26 Admin Accounts Manager
+// Lists admin accounts, grants admin access by email, revokes it and resets lost authenticators
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useEffect, useState, useCallback } from 'react';
+import { adminApi } from '../../api/apiClient';
+import { useAppSelector } from '../../store/hooks';
+import type { AdminAccount } from '../../types';
+import { formatDate } from '../../utils/formatters';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+
+const AdminAccountsManager = () => {
+  const currentUser = useAppSelector((state) => state.auth.user);
+
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const fetchAdmins = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getAdminAccounts();
+      setAdmins(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    setAdding(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await adminApi.createAdminAccount({ email: email.trim() });
+      setSuccess(`${response.data.data.admin.email} is now an admin. A sign-in link has been sent.`);
+      setEmail('');
+      fetchAdmins();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRevoke = async (admin: AdminAccount) => {
+    if (!confirm(`Revoke admin access for ${admin.email}?`)) return;
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await adminApi.revokeAdminAccount(admin.id);
+      setSuccess(`Admin access revoked for ${admin.email}`);
+      fetchAdmins();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleResetTotp = async (admin: AdminAccount) => {
+    if (!confirm(`Reset the authenticator of ${admin.email}? They will set up a new one on their next sign-in.`)) return;
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await adminApi.resetAdminTotp(admin.id);
+      setSuccess(`Authenticator reset for ${admin.email}`);
+      fetchAdmins();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800">Admin Accounts</h3>
+        <p className="text-sm text-gray-500">
+          Admins sign in with an emailed link and a code from their authenticator app.
+        </p>
+      </div>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <CircularProgress size={24} />
+        </div>
+      ) : (
+        <div className="bg-gray-50 rounded-md divide-y divide-gray-200">
+          {admins.map((admin) => (
+            <div key={admin.id} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-gray-800">{admin.email}</p>
+                  {admin.id === currentUser?.id && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-blue-100 text-blue-800">You</span>
+                  )}
+                  {admin.totpEnabledAt ? (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-green-100 text-green-800">Authenticator set up</span>
+                  ) : (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-yellow-100 text-yellow-800">Setup pending</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {[admin.firstName, admin.lastName].filter(Boolean).join(' ') || 'No name'}
+                  {' · '}Admin since {formatDate(admin.createdAt)}
+                  {admin.totpEnabledAt && ` · Authenticator since ${formatDate(admin.totpEnabledAt)}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {admin.totpEnabledAt && (
+                  <Button size="small" onClick={() => handleResetTotp(admin)} sx={{ textTransform: 'none' }}>
+                    Reset Authenticator
+                  </Button>
+                )}
+                {admin.id !== currentUser?.id && (
+                  <Button size="small" color="error" onClick={() => handleRevoke(admin)} sx={{ textTransform: 'none' }}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add Admin */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <TextField
+          label="Email"
+          type="email"
+          size="small"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          variant="contained"
+          onClick={handleAdd}
+          disabled={adding || !email.trim()}
+          sx={{ textTransform: 'none' }}
+        >
+          {adding ? 'Adding...' : 'Add Admin'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AdminAccountsManager;
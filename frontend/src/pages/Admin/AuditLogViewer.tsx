@@ -0,0 +1,352 @@
+// CSR26 Admin Audit Log Viewer
+// Read-only list of privileged mutations: who changed what, when and from where
+// Requirements: filter by action, entity, actor and date; show before/after of each change
+
+import { useEffect, useState, useCallback, Fragment } from 'react';
+import { adminApi } from '../../api/apiClient';
+import type { AuditEntityType, AuditLog } from '../../types';
+import LoadingSpinner from '../../components/LoadingSpinner';
+
+const entityTypes: AuditEntityType[] = [
+  'Setting',
+  'User',
+  'Transaction',
+  'Merchant',
+  'MerchantMember',
+  'Partner',
+  'PartnerStatement',
+  'Sku',
+  'GiftCode',
+  'GiftCodeBatch',
+  'ClaimTokenBatch',
+  'Invoice',
+  'MaturationSchedule',
+  'WebhookEvent',
+  'Billing',
+  'CorsairExport',
+  'Cron',
+];
+
+// Fields that differ between the before and after snapshots
+const getChangedFields = (log: AuditLog): string[] => {
+  const keys = new Set([...Object.keys(log.before ?? {}), ...Object.keys(log.after ?? {})]);
+  return [...keys].filter(
+    (key) => key !== 'updatedAt' && JSON.stringify(log.before?.[key]) !== JSON.stringify(log.after?.[key])
+  );
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLogViewer = () => {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Filters
+  const [action, setAction] = useState('');
+  const [entityType, setEntityType] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [actorId, setActorId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Pagination
+  const [page, setPage] = useState(0);
+  const limit = 25;
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getAuditLogs({
+        limit,
+        offset: page * limit,
+        ...(action && { action: action.trim() }),
+        ...(entityType && { entityType }),
+        ...(entityId && { entityId: entityId.trim() }),
+        ...(actorId && { actorId: actorId.trim() }),
+        ...(startDate && { from: startDate }),
+        // Include the whole end day
+        ...(endDate && { to: `${endDate}T23:59:59.999Z` }),
+      });
+      setLogs(response.data.data.logs);
+      setTotal(response.data.data.total);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, action, entityType, entityId, actorId, startDate, endDate]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const handleClearFilters = () => {
+    setAction('');
+    setEntityType('');
+    setEntityId('');
+    setActorId('');
+    setStartDate('');
+    setEndDate('');
+    setPage(0);
+  };
+
+  // Show everything the same admin did
+  const handleFilterByActor = (log: AuditLog) => {
+    if (!log.actorId) return;
+    setActorId(log.actorId);
+    setPage(0);
+  };
+
+  // Show the full history of one entity
+  const handleFilterByEntity = (log: AuditLog) => {
+    if (!log.entityId) return;
+    setEntityType(log.entityType);
+    setEntityId(log.entityId);
+    setPage(0);
+  };
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800">Audit Log</h3>
+        <p className="text-sm text-gray-600">{total} recorded admin actions</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-md p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <input
+              type="text"
+              value={action}
+              onChange={(e) => { setAction(e.target.value); setPage(0); }}
+              placeholder="e.g. wallet. or sku.update"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+            <select
+              value={entityType}
+              onChange={(e) => { setEntityType(e.target.value); setPage(0); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All</option>
+              {entityTypes.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity ID</label>
+            <input
+              type="text"
+              value={entityId}
+              onChange={(e) => { setEntityId(e.target.value); setPage(0); }}
+              placeholder="ID, SKU code, setting key..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Actor ID</label>
+            <input
+              type="text"
+              value={actorId}
+              onChange={(e) => { setActorId(e.target.value); setPage(0); }}
+              placeholder="User ID"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => { setStartDate(e.target.value); setPage(0); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => { setEndDate(e.target.value); setPage(0); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleClearFilters}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Loading */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="large" />
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No audit entries match these filters.</p>
+      ) : (
+        <>
+          {/* Table */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Actor</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Action</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Entity</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Changes</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">IP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {logs.map((log) => {
+                  const changed = getChangedFields(log);
+                  const expanded = expandedId === log.id;
+
+                  return (
+                    <Fragment key={log.id}>
+                      <tr
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : log.id)}
+                      >
+                        <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                          {new Date(log.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3">
+                          {log.actorId ? (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleFilterByActor(log); }}
+                              className="text-blue-600 hover:underline"
+                              title="Show all actions by this user"
+                            >
+                              {log.actorEmail || log.actorId}
+                            </button>
+                          ) : (
+                            <span className="text-gray-500">{log.actorEmail || 'System'}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-mono">
+                            {log.action}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-gray-800">{log.entityType}</div>
+                          {log.entityId && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleFilterByEntity(log); }}
+                              className="text-xs text-blue-600 hover:underline font-mono"
+                              title="Show the history of this entity"
+                            >
+                              {log.entityId.length > 20 ? `${log.entityId.slice(0, 8)}…` : log.entityId}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {changed.length > 0 ? changed.slice(0, 4).join(', ') + (changed.length > 4 ? ` +${changed.length - 4}` : '') : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-gray-500 text-xs">{log.ip || '-'}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-4 py-3">
+                            {changed.length > 0 ? (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-gray-500">
+                                    <th className="py-1 pr-4 text-left font-medium">Field</th>
+                                    <th className="py-1 pr-4 text-left font-medium">Before</th>
+                                    <th className="py-1 text-left font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changed.map((field) => (
+                                    <tr key={field} className="align-top">
+                                      <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+                                      <td className="py-1 pr-4 font-mono text-red-700 break-all">{formatValue(log.before?.[field])}</td>
+                                      <td className="py-1 font-mono text-green-700 break-all">{formatValue(log.after?.[field])}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <p className="text-xs text-gray-500">No field changes recorded.</p>
+                            )}
+                            {log.userAgent && (
+                              <p className="text-xs text-gray-400 mt-2 break-all">{log.userAgent}</p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                Showing {page * limit + 1}-{Math.min((page + 1) * limit, total)} of {total}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(Math.max(0, page - 1))}
+                  disabled={page === 0}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="px-3 py-1 text-sm">
+                  Page {page + 1} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
+                  disabled={page >= totalPages - 1}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
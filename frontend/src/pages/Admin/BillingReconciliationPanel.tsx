@@ -0,0 +1,151 @@
+// CSR26 Admin Billing Reconciliation Panel
+// Merchant balances against the transactions no invoice has billed yet
+// RULE: Balance and unbilled transactions move together; a difference means a balance was changed
+// outside billing (manual edit, lost update) and must be looked into before the next billing run
+
+import { useEffect, useState, useCallback } from 'react';
+import { adminApi } from '../../api/apiClient';
+import type { BillingReconciliationReport } from '../../types';
+import { formatEUR, formatDate } from '../../utils/formatters';
+import LoadingSpinner from '../../components/LoadingSpinner';
+
+const BillingReconciliationPanel = () => {
+  const [report, setReport] = useState<BillingReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mismatchedOnly, setMismatchedOnly] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getBillingReconciliation();
+      setReport(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const merchants = report
+    ? report.merchants.filter((merchant) => !mismatchedOnly || merchant.mismatched)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Billing Reconciliation</h3>
+          <p className="text-sm text-gray-600">
+            Each merchant's balance should equal the sum of its transactions not yet billed on an invoice.
+          </p>
+          {report && (
+            <p className="text-sm text-gray-600 mt-1">
+              Checked {new Date(report.generatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={fetchReport}
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+        >
+          Check Again
+        </button>
+      </div>
+
+      {/* Summary */}
+      {report && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-gray-50 rounded-md p-4">
+            <p className="text-sm text-gray-500">Merchants</p>
+            <p className="text-2xl font-bold text-gray-800">{report.merchantsChecked}</p>
+          </div>
+          <div className={`rounded-md p-4 ${report.mismatchedCount > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+            <p className="text-sm text-gray-500">Mismatched</p>
+            <p className={`text-2xl font-bold ${report.mismatchedCount > 0 ? 'text-red-700' : 'text-green-700'}`}>
+              {report.mismatchedCount}
+            </p>
+          </div>
+          <div className="bg-gray-50 rounded-md p-4">
+            <p className="text-sm text-gray-500">Total Balances</p>
+            <p className="text-2xl font-bold text-gray-800">{formatEUR(report.totalBalance)}</p>
+          </div>
+          <div className="bg-gray-50 rounded-md p-4">
+            <p className="text-sm text-gray-500">Total Unbilled</p>
+            <p className="text-2xl font-bold text-gray-800">{formatEUR(report.totalUnbilled)}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={mismatchedOnly}
+          onChange={(e) => setMismatchedOnly(e.target.checked)}
+          className="rounded"
+        />
+        Mismatched merchants only
+      </label>
+
+      {/* Messages */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Loading */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="large" />
+        </div>
+      ) : merchants.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">
+          {mismatchedOnly ? 'Every balance matches its unbilled transactions.' : 'No merchant has a balance or unbilled transactions.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Merchant</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Balance</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Unbilled</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Transactions</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Oldest Unbilled</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Difference</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {merchants.map((merchant) => (
+                <tr key={merchant.merchantId} className={merchant.mismatched ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                  <td className="px-4 py-3 text-gray-800">{merchant.merchantName}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{formatEUR(merchant.currentBalance)}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{formatEUR(merchant.unbilledAmount)}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{merchant.unbilledTransactions}</td>
+                  <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                    {merchant.oldestUnbilledAt ? formatDate(merchant.oldestUnbilledAt) : '-'}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-medium ${merchant.mismatched ? 'text-red-700' : 'text-gray-400'}`}>
+                    {merchant.mismatched ? formatEUR(merchant.difference) : 'OK'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BillingReconciliationPanel;
@@ -1,5 +1,5 @@
 // CSR26 Admin Gift Code Manager
-// Upload and manage gift codes
+// Generate or upload gift codes and manage them, grouped in print batches with redemption rates
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import { useEffect, useState } from 'react';
@@ -7,15 +7,22 @@ import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import {
   fetchAllGiftCodes,
   batchUploadGiftCodes,
+  generateGiftCodes,
   deactivateGiftCode,
   activateGiftCode,
+  fetchGiftCodeBatches,
+  activateGiftCodeBatch,
   clearLastBatchUpload,
+  clearLastGeneratedBatch,
 } from '../../store/slices/giftCodeSlice';
 import { fetchAllSkus } from '../../store/slices/skuSlice';
-import type { GiftCodeStatus } from '../../types';
-import { formatDate } from '../../utils/formatters';
+import { giftCodeApi } from '../../api/apiClient';
+import type { GiftCode, GiftCodeBatchDownloadFormat, GiftCodeStatus } from '../../types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
 import Select from '@mui/material/Select';
 import MenuItem from '@mui/material/MenuItem';
 import Alert from '@mui/material/Alert';
@@ -25,20 +32,55 @@ import DialogTitle from '@mui/material/DialogTitle';
 import DialogContent from '@mui/material/DialogContent';
 import DialogActions from '@mui/material/DialogActions';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+
+// Same limit as the backend
+const MAX_BATCH_SIZE = 10000;
+
+interface BatchForm {
+  name: string;
+  distributor: string;
+  faceValue: string;
+  expiresAt: string;
+  activationRequired: boolean;
+}
+
+const emptyBatchForm: BatchForm = {
+  name: '',
+  distributor: '',
+  faceValue: '',
+  expiresAt: '',
+  activationRequired: false,
+};
+
+const STATUS_LABELS: Record<GiftCodeStatus, string> = {
+  INACTIVE: 'Inactive',
+  UNUSED: 'Unused',
+  PARTIALLY_USED: 'Partially Used',
+  USED: 'Used',
+  DEACTIVATED: 'Deactivated',
+  EXPIRED: 'Expired',
+};
 
 const GiftCodeManager = () => {
   const dispatch = useAppDispatch();
-  const { giftCodes, lastBatchUpload, loading, error } = useAppSelector(
+  const { giftCodes, batches, lastBatchUpload, lastGeneratedBatch, loading, error } = useAppSelector(
     (state) => state.giftCode
   );
   const { skus } = useAppSelector((state) => state.sku);
 
   // Local state
+  const [view, setView] = useState<'codes' | 'batches'>('codes');
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  // Codes generated by the server, or printed elsewhere and uploaded
+  const [codeSource, setCodeSource] = useState<'generate' | 'upload'>('generate');
   const [selectedSku, setSelectedSku] = useState('');
   const [codesText, setCodesText] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [batchForm, setBatchForm] = useState<BatchForm>(emptyBatchForm);
   const [statusFilter, setStatusFilter] = useState<'all' | GiftCodeStatus>('all');
   const [skuFilter, setSkuFilter] = useState<string>('all');
+  const [batchFilter, setBatchFilter] = useState<string>('all');
 
   // Fetch gift codes and SKUs on mount
   useEffect(() => {
@@ -46,14 +88,69 @@ const GiftCodeManager = () => {
       fetchAllGiftCodes({
         status: statusFilter === 'all' ? undefined : statusFilter,
         skuCode: skuFilter === 'all' ? undefined : skuFilter,
+        batchId: batchFilter === 'all' ? undefined : batchFilter,
       })
     );
     dispatch(fetchAllSkus());
-  }, [dispatch, statusFilter, skuFilter]);
+  }, [dispatch, statusFilter, skuFilter, batchFilter]);
+
+  // Batches feed the batch filter and the batches view
+  useEffect(() => {
+    dispatch(fetchGiftCodeBatches());
+  }, [dispatch]);
 
   // Get gift card SKUs
   const giftCardSkus = skus.filter((s) => s.paymentMode === 'GIFT_CARD' && s.active);
 
+  const openDialog = (source: 'generate' | 'upload') => {
+    setCodeSource(source);
+    setUploadDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setUploadDialogOpen(false);
+    setSelectedSku('');
+    setCodesText('');
+    setQuantity('');
+    setBatchForm(emptyBatchForm);
+  };
+
+  const getBatchOptions = () => ({
+    skuCode: selectedSku,
+    name: batchForm.name.trim() || undefined,
+    distributor: batchForm.distributor.trim() || undefined,
+    faceValue: batchForm.faceValue ? parseFloat(batchForm.faceValue) : undefined,
+    activationRequired: batchForm.activationRequired,
+    expiresAt: batchForm.expiresAt ? new Date(batchForm.expiresAt).toISOString() : undefined,
+  });
+
+  const quantityValue = parseInt(quantity, 10);
+  const quantityValid = Number.isInteger(quantityValue) && quantityValue >= 1 && quantityValue <= MAX_BATCH_SIZE;
+
+  // Handle code generation
+  const handleGenerate = async () => {
+    if (!selectedSku || !quantityValid) return;
+
+    const result = await dispatch(generateGiftCodes({ ...getBatchOptions(), quantity: quantityValue }));
+
+    if (generateGiftCodes.fulfilled.match(result)) {
+      closeDialog();
+      dispatch(fetchGiftCodeBatches());
+      dispatch(
+        fetchAllGiftCodes({
+          status: statusFilter === 'all' ? undefined : statusFilter,
+          skuCode: skuFilter === 'all' ? undefined : skuFilter,
+          batchId: batchFilter === 'all' ? undefined : batchFilter,
+        })
+      );
+    }
+  };
+
+  // Code list for the printer
+  const handleDownloadBatch = (id: string, format: GiftCodeBatchDownloadFormat) => {
+    window.open(giftCodeApi.getBatchDownloadUrl(id, format), '_blank');
+  };
+
   // Handle batch upload
   const handleUpload = async () => {
     if (!selectedSku || !codesText.trim()) return;
@@ -66,17 +163,11 @@ const GiftCodeManager = () => {
 
     if (codes.length === 0) return;
 
-    const result = await dispatch(
-      batchUploadGiftCodes({
-        skuCode: selectedSku,
-        codes,
-      })
-    );
+    const result = await dispatch(batchUploadGiftCodes({ ...getBatchOptions(), codes }));
 
     if (batchUploadGiftCodes.fulfilled.match(result)) {
-      setUploadDialogOpen(false);
-      setSelectedSku('');
-      setCodesText('');
+      closeDialog();
+      dispatch(fetchGiftCodeBatches());
     }
   };
 
@@ -92,26 +183,48 @@ const GiftCodeManager = () => {
     await dispatch(activateGiftCode(code));
   };
 
+  // Handle batch activation (cards sold by the distributor)
+  const handleActivateBatch = async (id: string, inactive: number) => {
+    if (!confirm(`Activate ${inactive} inactive cards of this batch?`)) return;
+    await dispatch(activateGiftCodeBatch(id));
+  };
+
+  // Show the codes of one batch
+  const handleViewBatchCodes = (id: string) => {
+    setBatchFilter(id);
+    setView('codes');
+  };
+
   // Get status badge color
   const getStatusBadge = (status: GiftCodeStatus) => {
     const colors: Record<GiftCodeStatus, string> = {
+      INACTIVE: 'bg-yellow-100 text-yellow-800',
       UNUSED: 'bg-green-100 text-green-800',
+      PARTIALLY_USED: 'bg-teal-100 text-teal-800',
       USED: 'bg-blue-100 text-blue-800',
       DEACTIVATED: 'bg-gray-100 text-gray-800',
+      EXPIRED: 'bg-red-100 text-red-800',
     };
     return colors[status] || 'bg-gray-100 text-gray-800';
   };
 
+  // Value left on a card
+  const getBalance = (gc: GiftCode) => {
+    const value = Number(gc.faceValue ?? gc.sku?.price ?? 0);
+    return Math.max(0, value - Number(gc.redeemedAmount));
+  };
+
   // Filter codes
   const filteredCodes = giftCodes.filter((gc) => {
     if (statusFilter !== 'all' && gc.status !== statusFilter) return false;
     if (skuFilter !== 'all' && gc.skuCode !== skuFilter) return false;
+    if (batchFilter !== 'all' && gc.batchId !== batchFilter) return false;
     return true;
   });
 
   // Count by status
   const unusedCount = giftCodes.filter((gc) => gc.status === 'UNUSED').length;
-  const usedCount = giftCodes.filter((gc) => gc.status === 'USED').length;
+  const usedCount = giftCodes.filter((gc) => gc.status === 'USED' || gc.status === 'PARTIALLY_USED').length;
 
   return (
     <div className="space-y-6">
@@ -120,67 +233,111 @@ const GiftCodeManager = () => {
         <div>
           <h3 className="text-lg font-semibold text-gray-800">Gift Code Management</h3>
           <p className="text-sm text-gray-500">
-            {giftCodes.length} codes total • {unusedCount} unused • {usedCount} used
+            {view === 'codes'
+              ? `${giftCodes.length} codes total • ${unusedCount} unused • ${usedCount} used`
+              : `${batches.length} print batches`}
           </p>
         </div>
 
-        <div className="flex items-center gap-3">
-          <Select
-            value={skuFilter}
-            onChange={(e) => setSkuFilter(e.target.value)}
-            size="small"
-            displayEmpty
-            sx={{ minWidth: 150 }}
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            variant={view === 'codes' ? 'contained' : 'outlined'}
+            onClick={() => setView('codes')}
+            sx={{ textTransform: 'none' }}
           >
-            <MenuItem value="all">All SKUs</MenuItem>
-            {giftCardSkus.map((sku) => (
-              <MenuItem key={sku.code} value={sku.code}>
-                {sku.code}
-              </MenuItem>
-            ))}
-          </Select>
-          <Select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
-            size="small"
-            sx={{ minWidth: 130 }}
+            Codes
+          </Button>
+          <Button
+            variant={view === 'batches' ? 'contained' : 'outlined'}
+            onClick={() => setView('batches')}
+            sx={{ textTransform: 'none' }}
           >
-            <MenuItem value="all">All Status</MenuItem>
-            <MenuItem value="UNUSED">Unused</MenuItem>
-            <MenuItem value="USED">Used</MenuItem>
-            <MenuItem value="DEACTIVATED">Deactivated</MenuItem>
-          </Select>
+            Batches
+          </Button>
+          {view === 'codes' && (
+            <>
+            <Select
+              value={batchFilter}
+              onChange={(e) => setBatchFilter(e.target.value)}
+              size="small"
+              displayEmpty
+              sx={{ minWidth: 150 }}
+            >
+              <MenuItem value="all">All Batches</MenuItem>
+              {batches.map((batch) => (
+                <MenuItem key={batch.id} value={batch.id}>
+                  {batch.name}
+                </MenuItem>
+              ))}
+            </Select>
+            <Select
+              value={skuFilter}
+              onChange={(e) => setSkuFilter(e.target.value)}
+              size="small"
+              displayEmpty
+              sx={{ minWidth: 150 }}
+            >
+              <MenuItem value="all">All SKUs</MenuItem>
+              {giftCardSkus.map((sku) => (
+                <MenuItem key={sku.code} value={sku.code}>
+                  {sku.code}
+                </MenuItem>
+              ))}
+            </Select>
+            <Select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+              size="small"
+              sx={{ minWidth: 130 }}
+            >
+              <MenuItem value="all">All Status</MenuItem>
+              {(Object.keys(STATUS_LABELS) as GiftCodeStatus[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </Select>
+            <Button
+              variant="outlined"
+              onClick={() => {
+                // Export unused codes to CSV
+                const unusedCodes = giftCodes.filter((gc) => gc.status === 'UNUSED');
+                if (unusedCodes.length === 0) {
+                  alert('No unused codes to export');
+                  return;
+                }
+                const csvContent = ['Code,SKU,Created']
+                  .concat(unusedCodes.map((gc) => `${gc.code},${gc.skuCode},${new Date(gc.createdAt).toLocaleDateString()}`))
+                  .join('\n');
+                const blob = new Blob([csvContent], { type: 'text/csv' });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = `unused-gift-codes-${new Date().toISOString().split('T')[0]}.csv`;
+                a.click();
+                URL.revokeObjectURL(url);
+              }}
+              sx={{ textTransform: 'none' }}
+            >
+              Export Unused
+            </Button>
+            </>
+          )}
           <Button
             variant="outlined"
-            onClick={() => {
-              // Export unused codes to CSV
-              const unusedCodes = giftCodes.filter((gc) => gc.status === 'UNUSED');
-              if (unusedCodes.length === 0) {
-                alert('No unused codes to export');
-                return;
-              }
-              const csvContent = ['Code,SKU,Created']
-                .concat(unusedCodes.map((gc) => `${gc.code},${gc.skuCode},${new Date(gc.createdAt).toLocaleDateString()}`))
-                .join('\n');
-              const blob = new Blob([csvContent], { type: 'text/csv' });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = `unused-gift-codes-${new Date().toISOString().split('T')[0]}.csv`;
-              a.click();
-              URL.revokeObjectURL(url);
-            }}
+            startIcon={<UploadFileIcon />}
+            onClick={() => openDialog('upload')}
             sx={{ textTransform: 'none' }}
           >
-            Export Unused
+            Upload Codes
           </Button>
           <Button
             variant="contained"
-            startIcon={<UploadFileIcon />}
-            onClick={() => setUploadDialogOpen(true)}
+            startIcon={<AutoAwesomeIcon />}
+            onClick={() => openDialog('generate')}
             sx={{ textTransform: 'none' }}
           >
-            Upload Codes
+            Generate Codes
           </Button>
         </div>
       </div>
@@ -194,6 +351,34 @@ const GiftCodeManager = () => {
           Successfully uploaded {lastBatchUpload.count} gift codes.
         </Alert>
       )}
+      {lastGeneratedBatch && (
+        <Alert
+          severity="success"
+          onClose={() => dispatch(clearLastGeneratedBatch())}
+          action={
+            <div className="flex gap-2">
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => handleDownloadBatch(lastGeneratedBatch.batch.id, 'csv')}
+                sx={{ textTransform: 'none' }}
+              >
+                Download CSV
+              </Button>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => handleDownloadBatch(lastGeneratedBatch.batch.id, 'pdf')}
+                sx={{ textTransform: 'none' }}
+              >
+                Download PDF
+              </Button>
+            </div>
+          }
+        >
+          Generated {lastGeneratedBatch.count} gift codes in batch &quot;{lastGeneratedBatch.batch.name}&quot;.
+        </Alert>
+      )}
 
       {/* Loading State */}
       {loading && giftCodes.length === 0 && (
@@ -203,10 +388,10 @@ const GiftCodeManager = () => {
       )}
 
       {/* Gift Codes Table */}
-      {(!loading || giftCodes.length > 0) && (
+      {view === 'codes' && (!loading || giftCodes.length > 0) && (
         <div className="bg-gray-50 rounded-md overflow-hidden">
           <div className="overflow-x-auto">
-            <table className="w-full min-w-[700px]">
+            <table className="w-full min-w-[1000px]">
               <thead className="bg-gray-100">
                 <tr>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
@@ -215,9 +400,18 @@ const GiftCodeManager = () => {
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                     SKU
                   </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Batch
+                  </th>
                   <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
                     Status
                   </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Balance
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Expires
+                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                     Used By
                   </th>
@@ -236,19 +430,26 @@ const GiftCodeManager = () => {
                 {filteredCodes.slice(0, 100).map((gc) => (
                   <tr
                     key={gc.code}
-                    className={gc.status === 'DEACTIVATED' ? 'bg-gray-50 opacity-60' : ''}
+                    className={gc.status === 'DEACTIVATED' || gc.status === 'EXPIRED' ? 'bg-gray-50 opacity-60' : ''}
                   >
                     <td className="px-4 py-3 text-sm font-mono text-gray-800">{gc.code}</td>
                     <td className="px-4 py-3 text-sm text-gray-600">{gc.skuCode}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{gc.batch?.name || '-'}</td>
                     <td className="px-4 py-3 text-center">
                       <span
                         className={`px-2 py-1 text-xs font-medium rounded-md ${getStatusBadge(
                           gc.status
                         )}`}
                       >
-                        {gc.status}
+                        {STATUS_LABELS[gc.status]}
                       </span>
                     </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-800">
+                      {formatCurrency(getBalance(gc))}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {gc.expiresAt ? formatDate(gc.expiresAt) : '-'}
+                    </td>
                     <td className="px-4 py-3 text-sm text-gray-600">
                       {gc.usedByUserId || '-'}
                     </td>
@@ -259,7 +460,7 @@ const GiftCodeManager = () => {
                       {formatDate(gc.createdAt)}
                     </td>
                     <td className="px-4 py-3 text-right">
-                      {gc.status === 'UNUSED' && (
+                      {(gc.status === 'UNUSED' || gc.status === 'PARTIALLY_USED' || gc.status === 'INACTIVE') && (
                         <Button
                           variant="outlined"
                           size="small"
@@ -270,13 +471,13 @@ const GiftCodeManager = () => {
                           Deactivate
                         </Button>
                       )}
-                      {gc.status === 'DEACTIVATED' && (
+                      {(gc.status === 'DEACTIVATED' || gc.status === 'INACTIVE') && (
                         <Button
                           variant="outlined"
                           size="small"
                           color="success"
                           onClick={() => handleActivate(gc.code)}
-                          sx={{ textTransform: 'none' }}
+                          sx={{ textTransform: 'none', ml: 1 }}
                         >
                           Activate
                         </Button>
@@ -302,14 +503,128 @@ const GiftCodeManager = () => {
         </div>
       )}
 
+      {/* Batches Table */}
+      {view === 'batches' && (
+        <div className="bg-gray-50 rounded-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[1000px]">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Batch
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Distributor
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Face Value
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Cards
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Inactive
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Redeemed
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Value Redeemed
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Expires
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {batches.map((batch) => (
+                  <tr key={batch.id}>
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium text-gray-800">{batch.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {batch.skuCode} • {formatDate(batch.createdAt)}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{batch.distributor || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-800">
+                      {batch.faceValue !== null ? formatCurrency(Number(batch.faceValue)) : 'SKU price'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-800">{batch.quantity}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">{batch.counts.INACTIVE}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-800">
+                      {batch.counts.USED + batch.counts.PARTIALLY_USED}
+                      <span className="ml-1 text-xs text-gray-500">({batch.redemptionRate}%)</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-800">
+                      {formatCurrency(batch.redeemedValue)}
+                      <span className="ml-1 text-xs text-gray-500">of {formatCurrency(batch.totalValue)}</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {batch.expiresAt ? formatDate(batch.expiresAt) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => handleViewBatchCodes(batch.id)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        View Codes
+                      </Button>
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => handleDownloadBatch(batch.id, 'csv')}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        CSV
+                      </Button>
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => handleDownloadBatch(batch.id, 'pdf')}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        PDF
+                      </Button>
+                      {batch.counts.INACTIVE > 0 && (
+                        <Button
+                          variant="outlined"
+                          size="small"
+                          color="success"
+                          onClick={() => handleActivateBatch(batch.id, batch.counts.INACTIVE)}
+                          disabled={loading}
+                          sx={{ textTransform: 'none', ml: 1 }}
+                        >
+                          Activate All
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {batches.length === 0 && !loading && (
+            <div className="p-8 text-center text-gray-500">
+              No print batches yet. Generated and uploaded codes are grouped in a batch.
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Upload Dialog */}
       <Dialog
         open={uploadDialogOpen}
-        onClose={() => setUploadDialogOpen(false)}
+        onClose={closeDialog}
         maxWidth="sm"
         fullWidth
       >
-        <DialogTitle>Upload Gift Codes</DialogTitle>
+        <DialogTitle>{codeSource === 'generate' ? 'Generate Gift Codes' : 'Upload Gift Codes'}</DialogTitle>
         <DialogContent>
           <div className="space-y-4 pt-4">
             <Select
@@ -328,40 +643,119 @@ const GiftCodeManager = () => {
               ))}
             </Select>
 
-            <TextField
-              label="Gift Codes (one per line)"
-              value={codesText}
-              onChange={(e) => setCodesText(e.target.value)}
-              fullWidth
-              multiline
-              rows={10}
-              placeholder="CODE001&#10;CODE002&#10;CODE003"
-              helperText={
-                codesText.trim()
-                  ? `${codesText.split('\n').filter((c) => c.trim()).length} codes detected`
-                  : 'Enter codes, one per line'
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TextField
+                label="Batch Name"
+                value={batchForm.name}
+                onChange={(e) => setBatchForm({ ...batchForm, name: e.target.value })}
+                placeholder="e.g. Christmas 2026 - Store A"
+                fullWidth
+              />
+              <TextField
+                label="Distributor"
+                value={batchForm.distributor}
+                onChange={(e) => setBatchForm({ ...batchForm, distributor: e.target.value })}
+                fullWidth
+              />
+              <TextField
+                label="Face Value (€)"
+                type="number"
+                value={batchForm.faceValue}
+                onChange={(e) => setBatchForm({ ...batchForm, faceValue: e.target.value })}
+                helperText="Leave empty to use the SKU price"
+                slotProps={{ htmlInput: { min: 0.01, step: 0.01 } }}
+                fullWidth
+              />
+              <TextField
+                label="Expires On"
+                type="date"
+                value={batchForm.expiresAt}
+                onChange={(e) => setBatchForm({ ...batchForm, expiresAt: e.target.value })}
+                helperText="Leave empty for cards that never expire"
+                slotProps={{ inputLabel: { shrink: true } }}
+                fullWidth
+              />
+            </div>
+
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={batchForm.activationRequired}
+                  onChange={(e) => setBatchForm({ ...batchForm, activationRequired: e.target.checked })}
+                />
               }
+              label="Cards must be activated at the point of sale before they can be redeemed"
             />
 
-            <div className="bg-yellow-50 rounded-md p-3">
-              <p className="text-sm text-yellow-800">
-                <strong>Note:</strong> Codes must be unique. Duplicate codes will be skipped.
-              </p>
-            </div>
+            {codeSource === 'generate' ? (
+              <>
+                <TextField
+                  label="Number of Codes"
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  error={quantity !== '' && !quantityValid}
+                  helperText={`Between 1 and ${MAX_BATCH_SIZE.toLocaleString()}`}
+                  slotProps={{ htmlInput: { min: 1, max: MAX_BATCH_SIZE, step: 1 } }}
+                  fullWidth
+                />
+
+                <div className="bg-yellow-50 rounded-md p-3">
+                  <p className="text-sm text-yellow-800">
+                    <strong>Note:</strong> Codes are random and end with a check character, so typos are
+                    rejected before a lookup. Download the batch as CSV or as a printable PDF afterwards.
+                  </p>
+                </div>
+              </>
+            ) : (
+              <>
+                <TextField
+                  label="Gift Codes (one per line)"
+                  value={codesText}
+                  onChange={(e) => setCodesText(e.target.value)}
+                  fullWidth
+                  multiline
+                  rows={10}
+                  placeholder="CODE001&#10;CODE002&#10;CODE003"
+                  helperText={
+                    codesText.trim()
+                      ? `${codesText.split('\n').filter((c) => c.trim()).length} codes detected`
+                      : 'Enter codes, one per line'
+                  }
+                />
+
+                <div className="bg-yellow-50 rounded-md p-3">
+                  <p className="text-sm text-yellow-800">
+                    <strong>Note:</strong> Codes must be unique. Duplicate codes will be skipped.
+                  </p>
+                </div>
+              </>
+            )}
           </div>
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setUploadDialogOpen(false)} sx={{ textTransform: 'none' }}>
+          <Button onClick={closeDialog} sx={{ textTransform: 'none' }}>
             Cancel
           </Button>
-          <Button
-            variant="contained"
-            onClick={handleUpload}
-            disabled={loading || !selectedSku || !codesText.trim()}
-            sx={{ textTransform: 'none' }}
-          >
-            Upload
-          </Button>
+          {codeSource === 'generate' ? (
+            <Button
+              variant="contained"
+              onClick={handleGenerate}
+              disabled={loading || !selectedSku || !quantityValid}
+              sx={{ textTransform: 'none' }}
+            >
+              Generate
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              onClick={handleUpload}
+              disabled={loading || !selectedSku || !codesText.trim()}
+              sx={{ textTransform: 'none' }}
+            >
+              Upload
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
 
@@ -383,9 +777,11 @@ const GiftCodeManager = () => {
         <div>
           <p className="text-sm font-medium text-blue-800">Gift Code Workflow</p>
           <p className="text-xs text-blue-600 mt-1">
-            Gift codes are tied to a specific SKU. When a customer enters a valid code on the
-            landing page, the SKU&apos;s price is applied as their contribution. Codes can only be
-            used once and are marked as USED after redemption.
+            Gift codes are tied to a specific SKU and generated (with a check character that catches typos)
+            or uploaded in named print batches, downloadable as CSV or a printable PDF. A card holds the
+            batch&apos;s face value (or the SKU&apos;s price) and can be redeemed in several contributions
+            until its balance is used up. Cards of batches requiring activation stay INACTIVE until
+            activated, and cards past their expiry date become EXPIRED.
           </p>
         </div>
       </div>
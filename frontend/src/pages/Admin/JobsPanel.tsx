@@ -0,0 +1,356 @@
+// CSR26 Admin Jobs Panel
+// History of cron runs (scheduled, manual and retries) with per-task results
+// RULE: Failed or skipped tasks can be retried; tasks already running elsewhere are skipped by the server
+
+import { useEffect, useState, useCallback, Fragment } from 'react';
+import { adminApi } from '../../api/apiClient';
+import type { CronJob, CronTaskResult, JobRun, JobRunStatus, SchedulerStatus } from '../../types';
+import LoadingSpinner from '../../components/LoadingSpinner';
+
+const jobs: CronJob[] = ['daily', 'monthly', 'all'];
+
+const statuses: JobRunStatus[] = ['RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED'];
+
+const statusStyles: Record<JobRunStatus, string> = {
+  RUNNING: 'bg-blue-100 text-blue-700',
+  SUCCEEDED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+  SKIPPED: 'bg-yellow-100 text-yellow-700',
+};
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '-';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+};
+
+const getTaskDuration = (task: CronTaskResult): number =>
+  new Date(task.completedAt).getTime() - new Date(task.startedAt).getTime();
+
+const getTaskStatus = (task: CronTaskResult): JobRunStatus => {
+  if (task.success) return 'SUCCEEDED';
+  return task.skipped ? 'SKIPPED' : 'FAILED';
+};
+
+const JobsPanel = () => {
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [scheduler, setScheduler] = useState<SchedulerStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Filters
+  const [job, setJob] = useState('');
+  const [status, setStatus] = useState('');
+
+  // Pagination
+  const [page, setPage] = useState(0);
+  const limit = 25;
+
+  const fetchRuns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getJobRuns({
+        limit,
+        offset: page * limit,
+        ...(job && { job }),
+        ...(status && { status }),
+      });
+      setRuns(response.data.data.runs);
+      setTotal(response.data.data.total);
+      setScheduler(response.data.data.scheduler);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, job, status]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Runs wait for every task, so the request can take a while
+  const handleRun = async (kind: 'daily' | 'monthly') => {
+    const warning = kind === 'monthly'
+      ? 'Run the monthly tasks now? This bills merchants and exports to Corsair.'
+      : 'Run the daily tasks now?';
+    if (!confirm(warning)) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = kind === 'monthly' ? await adminApi.runMonthlyCron() : await adminApi.runDailyCron();
+      const result = response.data.data;
+      setMessage(`${kind === 'monthly' ? 'Monthly' : 'Daily'} run ${result.status.toLowerCase()}: ${result.tasksSucceeded}/${result.tasksRun} tasks succeeded`);
+      setPage(0);
+      await fetchRuns();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRetry = async (run: JobRun) => {
+    if (!confirm('Run the failed and skipped tasks of this run again?')) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await adminApi.retryJobRun(run.id);
+      const result = response.data.data;
+      setMessage(`Retry ${result.status.toLowerCase()}: ${result.tasksSucceeded}/${result.tasksRun} tasks succeeded`);
+      setPage(0);
+      await fetchRuns();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Scheduled Jobs</h3>
+          <p className="text-sm text-gray-600">{total} recorded runs</p>
+          {scheduler && (
+            <p className="text-sm text-gray-600 mt-1">
+              {scheduler.enabled ? (
+                <>
+                  Next daily run {scheduler.nextDailyRun ? new Date(scheduler.nextDailyRun).toLocaleString() : '-'},
+                  next monthly run {scheduler.nextMonthlyRun ? new Date(scheduler.nextMonthlyRun).toLocaleString() : '-'}
+                </>
+              ) : (
+                'Built-in scheduler disabled: jobs only run when triggered externally or from here.'
+              )}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRun('daily')}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            Run Daily
+          </button>
+          <button
+            onClick={() => handleRun('monthly')}
+            disabled={busy}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm disabled:opacity-50"
+          >
+            Run Monthly
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-md p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Job</label>
+            <select
+              value={job}
+              onChange={(e) => { setJob(e.target.value); setPage(0); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All</option>
+              {jobs.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => { setStatus(e.target.value); setPage(0); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All</option>
+              {statuses.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+          {message}
+        </div>
+      )}
+
+      {/* Loading */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="large" />
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No job runs match these filters.</p>
+      ) : (
+        <>
+          {/* Table */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Started</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Job</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Trigger</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Duration</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Tasks</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {runs.map((run) => {
+                  const expanded = expandedId === run.id;
+                  const canRetry = run.status === 'FAILED' || run.status === 'SKIPPED';
+
+                  return (
+                    <Fragment key={run.id}>
+                      <tr
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : run.id)}
+                      >
+                        <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                          {new Date(run.startedAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-mono">
+                            {run.job}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          <div>{run.trigger}</div>
+                          {run.triggeredBy && (
+                            <div className="text-xs text-gray-500">{run.triggeredBy.email}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[run.status]}`}>
+                            {run.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{formatDuration(run.durationMs)}</td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {run.tasksRun > 0 ? `${run.tasksRun - run.tasksFailed}/${run.tasksRun}` : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {canRetry && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleRetry(run); }}
+                              disabled={busy}
+                              className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={7} className="px-4 py-3">
+                            {run.results && run.results.length > 0 ? (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-gray-500">
+                                    <th className="py-1 pr-4 text-left font-medium">Task</th>
+                                    <th className="py-1 pr-4 text-left font-medium">Status</th>
+                                    <th className="py-1 pr-4 text-left font-medium">Duration</th>
+                                    <th className="py-1 text-left font-medium">Result</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {run.results.map((task) => {
+                                    const taskStatus = getTaskStatus(task);
+                                    return (
+                                      <tr key={task.task} className="align-top">
+                                        <td className="py-1 pr-4 font-mono text-gray-700">{task.task}</td>
+                                        <td className="py-1 pr-4">
+                                          <span className={`px-2 py-0.5 rounded ${statusStyles[taskStatus]}`}>{taskStatus}</span>
+                                        </td>
+                                        <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{formatDuration(getTaskDuration(task))}</td>
+                                        <td className={`py-1 font-mono break-all ${task.error ? 'text-red-700' : 'text-gray-600'}`}>
+                                          {task.error ?? (task.result !== undefined ? JSON.stringify(task.result) : '-')}
+                                        </td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <p className="text-xs text-gray-500">{run.error || 'No task results recorded yet.'}</p>
+                            )}
+                            {run.retryOfId && (
+                              <p className="text-xs text-gray-400 mt-2 font-mono">Retry of {run.retryOfId}</p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                Showing {page * limit + 1}-{Math.min((page + 1) * limit, total)} of {total}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(Math.max(0, page - 1))}
+                  disabled={page === 0}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="px-3 py-1 text-sm">
+                  Page {page + 1} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
+                  disabled={page >= totalPages - 1}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
@@ -0,0 +1,333 @@
+// CSR26 Admin Maturation Schedule Manager
+// Create and edit named maturation schedules, choose the global default
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useEffect, useState, useCallback } from 'react';
+import { maturationScheduleApi, settingsApi } from '../../api/apiClient';
+import type { MaturationScheduleWithCounts, MaturationTranche } from '../../types';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+interface ScheduleFormData {
+  name: string;
+  description: string;
+  tranches: MaturationTranche[];
+}
+
+const emptyForm: ScheduleFormData = {
+  name: '',
+  description: '',
+  tranches: [
+    { label: 'Immediate', percent: 5, weeks: 0 },
+    { label: 'Mid-term', percent: 45, weeks: 40 },
+    { label: 'Final', percent: 50, weeks: 80 },
+  ],
+};
+
+const MaturationScheduleManager = () => {
+  const [schedules, setSchedules] = useState<MaturationScheduleWithCounts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ScheduleFormData>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSchedules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await maturationScheduleApi.getAll();
+      setSchedules(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  // Sum of tranche percents (must be 100)
+  const totalPercent = formData.tranches.reduce((sum, tranche) => sum + (tranche.percent || 0), 0);
+
+  const handleCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (schedule: MaturationScheduleWithCounts) => {
+    setEditingId(schedule.id);
+    setFormData({
+      name: schedule.name,
+      description: schedule.description || '',
+      tranches: schedule.tranches.map((tranche) => ({ ...tranche })),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleTrancheChange = (index: number, field: keyof MaturationTranche, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      tranches: prev.tranches.map((tranche, i) =>
+        i === index
+          ? { ...tranche, [field]: field === 'label' ? value : parseFloat(value) || 0 }
+          : tranche
+      ),
+    }));
+  };
+
+  const handleAddTranche = () => {
+    const last = formData.tranches[formData.tranches.length - 1];
+    setFormData((prev) => ({
+      ...prev,
+      tranches: [...prev.tranches, { label: '', percent: 0, weeks: last ? last.weeks + 1 : 0 }],
+    }));
+  };
+
+  const handleRemoveTranche = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      tranches: prev.tranches.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const data = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || undefined,
+        tranches: formData.tranches,
+      };
+
+      if (editingId) {
+        await maturationScheduleApi.update(editingId, data);
+      } else {
+        await maturationScheduleApi.create(data);
+      }
+      setDialogOpen(false);
+      fetchSchedules();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (schedule: MaturationScheduleWithCounts) => {
+    setError(null);
+
+    try {
+      await settingsApi.update('DEFAULT_MATURATION_SCHEDULE', { value: schedule.name });
+      fetchSchedules();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleToggleActive = async (schedule: MaturationScheduleWithCounts) => {
+    setError(null);
+
+    try {
+      if (schedule.active) {
+        if (!confirm('Deactivate this schedule? SKUs and merchants using it will fall back to the default.')) return;
+        await maturationScheduleApi.delete(schedule.id);
+      } else {
+        await maturationScheduleApi.update(schedule.id, { active: true });
+      }
+      fetchSchedules();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Maturation Schedules</h3>
+          <p className="text-sm text-gray-500">
+            How impact matures over time. Assign schedules to SKUs or merchants; others use the default.
+          </p>
+        </div>
+        <Button variant="contained" size="small" onClick={handleCreate} sx={{ textTransform: 'none' }}>
+          New Schedule
+        </Button>
+      </div>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <CircularProgress size={24} />
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No schedules yet. The built-in 5/45/50 rule is used for all transactions.
+        </p>
+      ) : (
+        <div className="bg-gray-50 rounded-md divide-y divide-gray-200">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-gray-800">{schedule.name}</p>
+                  {schedule.isDefault && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-green-100 text-green-800">Default</span>
+                  )}
+                  {!schedule.active && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-gray-200 text-gray-600">Inactive</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {schedule.tranches
+                    .map((tranche) => `${tranche.percent}% ${tranche.weeks === 0 ? 'now' : `@ ${tranche.weeks}wk`}`)
+                    .join(' · ')}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {schedule._count.skus} SKUs · {schedule._count.merchants} merchants · {schedule._count.transactions} transactions
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {!schedule.isDefault && schedule.active && (
+                  <Button variant="outlined" size="small" onClick={() => handleSetDefault(schedule)} sx={{ textTransform: 'none' }}>
+                    Set Default
+                  </Button>
+                )}
+                <Button variant="outlined" size="small" onClick={() => handleEdit(schedule)} sx={{ textTransform: 'none' }}>
+                  Edit
+                </Button>
+                {!schedule.isDefault && (
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    color={schedule.active ? 'error' : 'primary'}
+                    onClick={() => handleToggleActive(schedule)}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    {schedule.active ? 'Deactivate' : 'Activate'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth disableRestoreFocus>
+        <DialogTitle>{editingId ? 'Edit Maturation Schedule' : 'New Maturation Schedule'}</DialogTitle>
+        <DialogContent>
+          <div className="pt-4 flex flex-col gap-4">
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              fullWidth
+              required
+            />
+            <TextField
+              label="Description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              fullWidth
+            />
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Tranches</p>
+              <div className="space-y-2">
+                {formData.tranches.map((tranche, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-5">
+                      <TextField
+                        label="Label"
+                        size="small"
+                        value={tranche.label}
+                        onChange={(e) => handleTrancheChange(index, 'label', e.target.value)}
+                        fullWidth
+                      />
+                    </div>
+                    <div className="col-span-3">
+                      <TextField
+                        label="%"
+                        type="number"
+                        size="small"
+                        value={tranche.percent}
+                        onChange={(e) => handleTrancheChange(index, 'percent', e.target.value)}
+                        fullWidth
+                      />
+                    </div>
+                    <div className="col-span-3">
+                      <TextField
+                        label="Weeks"
+                        type="number"
+                        size="small"
+                        value={tranche.weeks}
+                        onChange={(e) => handleTrancheChange(index, 'weeks', e.target.value)}
+                        fullWidth
+                      />
+                    </div>
+                    <div className="col-span-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveTranche(index)}
+                        disabled={formData.tranches.length <= 1}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-300"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <button type="button" onClick={handleAddTranche} className="text-sm text-blue-600 hover:text-blue-800">
+                  + Add tranche
+                </button>
+                <span className={`text-xs ${Math.abs(totalPercent - 100) < 0.001 ? 'text-green-600' : 'text-red-600'}`}>
+                  Total: {totalPercent}%
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Tranches with 0 weeks mature immediately. Existing transactions keep the tranches they were created with.
+              </p>
+            </div>
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || !formData.name.trim() || Math.abs(totalPercent - 100) >= 0.001}
+            sx={{ textTransform: 'none' }}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MaturationScheduleManager;
@@ -3,14 +3,20 @@
 // Requirements: List all merchants, create new, set multiplier, view transactions
 
 import { useEffect, useState, useCallback } from 'react';
-import { merchantApi, partnerApi } from '../../api/apiClient';
+import { merchantApi, partnerApi, maturationScheduleApi } from '../../api/apiClient';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import type { CreditExhaustedAction } from '../../types';
 
 interface PartnerBasic {
   id: string;
   name: string;
 }
 
+interface ScheduleBasic {
+  id: string;
+  name: string;
+}
+
 interface MerchantWithCounts {
   id: string;
   name: string;
@@ -21,6 +27,17 @@ interface MerchantWithCounts {
   currentBalance: string | number;
   active: boolean;
   partnerId: string | null;
+  maturationScheduleId: string | null;
+  legalName: string | null;
+  vatId: string | null;
+  billingAddress: string | null;
+  billingPostalCode: string | null;
+  billingCity: string | null;
+  billingCountry: string;
+  creditBalance: string | number;
+  creditExhaustedAction: CreditExhaustedAction;
+  lowCreditThreshold: string | number | null;
+  monthlySpendingCap: string | number | null;
   lastBillingDate: string | null;
   createdAt: string;
   _count?: {
@@ -35,21 +52,35 @@ interface MerchantFormData {
   multiplier: number;
   monthlyBilling: boolean;
   partnerId?: string;
+  maturationScheduleId?: string | null;
+  // Billing details printed on invoices
+  legalName?: string | null;
+  vatId?: string | null;
+  billingAddress?: string | null;
+  billingPostalCode?: string | null;
+  billingCity?: string | null;
+  billingCountry?: string;
+  // Prepaid credit controls (edit only)
+  creditExhaustedAction?: CreditExhaustedAction;
+  lowCreditThreshold?: number | null;
+  monthlySpendingCap?: number | null;
 }
 
+// Empty field = no threshold / no cap
+const toAmountOrNull = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const EMPTY_FORM: MerchantFormData = { name: '', email: '', multiplier: 1, monthlyBilling: true, billingCountry: 'IT' };
+
 const MerchantManager = () => {
   const [merchants, setMerchants] = useState<MerchantWithCounts[]>([]);
   const [partners, setPartners] = useState<PartnerBasic[]>([]);
+  const [schedules, setSchedules] = useState<ScheduleBasic[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [editingMerchant, setEditingMerchant] = useState<MerchantWithCounts | null>(null);
-  const [formData, setFormData] = useState<MerchantFormData>({
-    name: '',
-    email: '',
-    multiplier: 1,
-    monthlyBilling: true,
-  });
+  const [formData, setFormData] = useState<MerchantFormData>(EMPTY_FORM);
+  const [creditAdjustment, setCreditAdjustment] = useState({ amount: '', note: '' });
 
   const fetchMerchants = useCallback(async () => {
     setLoading(true);
@@ -74,14 +105,24 @@ const MerchantManager = () => {
     }
   }, []);
 
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await maturationScheduleApi.getAll();
+      setSchedules(response.data.data.filter((s) => s.active).map((s) => ({ id: s.id, name: s.name })));
+    } catch (err) {
+      console.error('Failed to fetch maturation schedules:', err);
+    }
+  }, []);
+
   useEffect(() => {
     fetchMerchants();
     fetchPartners();
-  }, [fetchMerchants, fetchPartners]);
+    fetchSchedules();
+  }, [fetchMerchants, fetchPartners, fetchSchedules]);
 
   const handleCreate = () => {
     setEditingMerchant(null);
-    setFormData({ name: '', email: '', multiplier: 1, monthlyBilling: true });
+    setFormData(EMPTY_FORM);
     setShowForm(true);
   };
 
@@ -93,7 +134,18 @@ const MerchantManager = () => {
       multiplier: merchant.multiplier,
       monthlyBilling: merchant.monthlyBilling,
       partnerId: merchant.partnerId || undefined,
+      maturationScheduleId: merchant.maturationScheduleId,
+      legalName: merchant.legalName,
+      vatId: merchant.vatId,
+      billingAddress: merchant.billingAddress,
+      billingPostalCode: merchant.billingPostalCode,
+      billingCity: merchant.billingCity,
+      billingCountry: merchant.billingCountry,
+      creditExhaustedAction: merchant.creditExhaustedAction,
+      lowCreditThreshold: merchant.lowCreditThreshold !== null ? Number(merchant.lowCreditThreshold) : null,
+      monthlySpendingCap: merchant.monthlySpendingCap !== null ? Number(merchant.monthlySpendingCap) : null,
     });
+    setCreditAdjustment({ amount: '', note: '' });
     setShowForm(true);
   };
 
@@ -126,7 +178,28 @@ const MerchantManager = () => {
   const handleCancel = () => {
     setShowForm(false);
     setEditingMerchant(null);
-    setFormData({ name: '', email: '', multiplier: 1, monthlyBilling: true });
+    setFormData(EMPTY_FORM);
+  };
+
+  // Grant or remove prepaid credit, recorded in the merchant's credit ledger
+  const handleAdjustCredit = async () => {
+    if (!editingMerchant) return;
+    const amount = Number(creditAdjustment.amount);
+    if (!amount || !creditAdjustment.note.trim()) {
+      setError('Enter a non-zero amount and a note for the credit adjustment');
+      return;
+    }
+    if (!confirm(`${amount > 0 ? 'Grant' : 'Remove'} €${Math.abs(amount).toFixed(2)} of prepaid credit ${amount > 0 ? 'to' : 'from'} ${editingMerchant.name}?`)) return;
+
+    setError(null);
+    try {
+      const response = await merchantApi.adjustCredit(editingMerchant.id, { amount, note: creditAdjustment.note.trim() });
+      setEditingMerchant({ ...editingMerchant, creditBalance: response.data.data.creditBalance });
+      setCreditAdjustment({ amount: '', note: '' });
+      fetchMerchants();
+    } catch (err) {
+      setError((err as Error).message);
+    }
   };
 
   const handleToggleActive = async (merchant: MerchantWithCounts) => {
@@ -164,7 +237,7 @@ const MerchantManager = () => {
       {/* Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-md shadow-xl p-6 w-full max-w-md mx-4">
+          <div className="bg-white rounded-md shadow-xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold text-gray-800 mb-4">
               {editingMerchant ? 'Edit Merchant' : 'Add Merchant'}
             </h3>
@@ -215,6 +288,20 @@ const MerchantManager = () => {
                 </select>
                 <p className="text-xs text-gray-500 mt-1">Attribution: Master → Partner → Merchant</p>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Maturation Schedule</label>
+                <select
+                  value={formData.maturationScheduleId || ''}
+                  onChange={(e) => setFormData({ ...formData, maturationScheduleId: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Global Default</option>
+                  {schedules.map((s) => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Used for this merchant's SKUs unless the SKU has its own</p>
+              </div>
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -227,6 +314,145 @@ const MerchantManager = () => {
                   Enable monthly billing
                 </label>
               </div>
+              <div className="pt-4 border-t border-gray-100 space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Billing Details</p>
+                  <p className="text-xs text-gray-500">Printed on invoices issued from now on</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Legal Name</label>
+                  <input
+                    type="text"
+                    value={formData.legalName || ''}
+                    onChange={(e) => setFormData({ ...formData, legalName: e.target.value || null })}
+                    placeholder={formData.name}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                  <input
+                    type="text"
+                    value={formData.billingAddress || ''}
+                    onChange={(e) => setFormData({ ...formData, billingAddress: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Postal Code</label>
+                    <input
+                      type="text"
+                      value={formData.billingPostalCode || ''}
+                      onChange={(e) => setFormData({ ...formData, billingPostalCode: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                    <input
+                      type="text"
+                      value={formData.billingCity || ''}
+                      onChange={(e) => setFormData({ ...formData, billingCity: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+                    <input
+                      type="text"
+                      value={formData.billingCountry || ''}
+                      onChange={(e) => setFormData({ ...formData, billingCountry: e.target.value.toUpperCase() })}
+                      maxLength={2}
+                      placeholder="IT"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md uppercase"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">VAT ID</label>
+                  <input
+                    type="text"
+                    value={formData.vatId || ''}
+                    onChange={(e) => setFormData({ ...formData, vatId: e.target.value || null })}
+                    placeholder="e.g. DE123456789"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Businesses in another EU country with a VAT ID are invoiced with reverse charge</p>
+                </div>
+              </div>
+              {editingMerchant && (
+                <div className="pt-4 border-t border-gray-100 space-y-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700">Prepaid Credit</p>
+                    <p className="text-xs text-gray-500">
+                      €{Number(editingMerchant.creditBalance).toFixed(2)} left, drawn by claims before billing
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">When Credit Runs Out</label>
+                    <select
+                      value={formData.creditExhaustedAction || 'BILL'}
+                      onChange={(e) => setFormData({ ...formData, creditExhaustedAction: e.target.value as CreditExhaustedAction })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      <option value="BILL">Invoice monthly</option>
+                      <option value="PAUSE">Pause claims</option>
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Low Credit Alert (€)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={formData.lowCreditThreshold ?? ''}
+                        onChange={(e) => setFormData({ ...formData, lowCreditThreshold: toAmountOrNull(e.target.value) })}
+                        placeholder="None"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Cap (€)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={formData.monthlySpendingCap ?? ''}
+                        onChange={(e) => setFormData({ ...formData, monthlySpendingCap: toAmountOrNull(e.target.value) })}
+                        placeholder="None"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Adjust Credit</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        value={creditAdjustment.amount}
+                        onChange={(e) => setCreditAdjustment({ ...creditAdjustment, amount: e.target.value })}
+                        placeholder="€ +/-"
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                      <input
+                        type="text"
+                        value={creditAdjustment.note}
+                        onChange={(e) => setCreditAdjustment({ ...creditAdjustment, note: e.target.value })}
+                        placeholder="Reason"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleAdjustCredit}
+                        className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Applied right away, negative amounts remove credit</p>
+                  </div>
+                </div>
+              )}
               <div className="flex gap-2 pt-4">
                 <button
                   type="button"
@@ -265,6 +491,7 @@ const MerchantManager = () => {
                 <th className="px-4 py-3 text-center font-medium text-gray-700">Multiplier</th>
                 <th className="px-4 py-3 text-center font-medium text-gray-700">Transactions</th>
                 <th className="px-4 py-3 text-right font-medium text-gray-700">Balance</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Credit</th>
                 <th className="px-4 py-3 text-center font-medium text-gray-700">Status</th>
                 <th className="px-4 py-3 text-center font-medium text-gray-700">Actions</th>
               </tr>
@@ -291,6 +518,12 @@ const MerchantManager = () => {
                   <td className="px-4 py-3 text-right font-medium">
                     {Number(m.currentBalance).toFixed(2)}
                   </td>
+                  <td className="px-4 py-3 text-right text-gray-600">
+                    {Number(m.creditBalance).toFixed(2)}
+                    {m.creditExhaustedAction === 'PAUSE' && (
+                      <span className="ml-1 text-xs text-gray-400" title="Claims pause when credit runs out">(pause)</span>
+                    )}
+                  </td>
                   <td className="px-4 py-3 text-center">
                     <span
                       className={`px-2 py-1 rounded text-xs font-medium ${
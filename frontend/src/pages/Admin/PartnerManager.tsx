@@ -1,10 +1,12 @@
 // CSR26 Admin Partner Manager
-// Admin interface for managing partners: list, create, edit
+// Admin interface for managing partners: list, create, edit, and commission statement payouts
 // Partners are the middle tier: Master → Partner → Merchant
 
 import { useEffect, useState, useCallback } from 'react';
 import { partnerApi } from '../../api/apiClient';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import { formatEUR, formatDate } from '../../utils/formatters';
+import type { PartnerPayoutStatus, PartnerStatement } from '../../types';
 
 interface PartnerWithCounts {
   id: string;
@@ -26,6 +28,15 @@ interface PartnerFormData {
   commissionRate: number;
 }
 
+const PAYOUT_STATUS_STYLES: Record<PartnerPayoutStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-700' },
+  APPROVED: { label: 'Approved', className: 'bg-blue-100 text-blue-700' },
+  PAID: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+};
+
+const formatPeriod = (statement: PartnerStatement): string =>
+  formatDate(statement.periodStart, { year: 'numeric', month: 'long' });
+
 const PartnerManager = () => {
   const [partners, setPartners] = useState<PartnerWithCounts[]>([]);
   const [loading, setLoading] = useState(true);
@@ -39,6 +50,11 @@ const PartnerManager = () => {
     commissionRate: 0,
   });
 
+  // Commission statements
+  const [statements, setStatements] = useState<PartnerStatement[]>([]);
+  const [statementsLoading, setStatementsLoading] = useState(true);
+  const [payoutFilter, setPayoutFilter] = useState<PartnerPayoutStatus | ''>('');
+
   const fetchPartners = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -57,6 +73,23 @@ const PartnerManager = () => {
     fetchPartners();
   }, [fetchPartners]);
 
+  const fetchStatements = useCallback(async () => {
+    setStatementsLoading(true);
+
+    try {
+      const response = await partnerApi.getStatements({ payoutStatus: payoutFilter || undefined });
+      setStatements(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setStatementsLoading(false);
+    }
+  }, [payoutFilter]);
+
+  useEffect(() => {
+    fetchStatements();
+  }, [fetchStatements]);
+
   const handleCreate = () => {
     setEditingPartner(null);
     setFormData({ name: '', email: '', contactPerson: '', commissionRate: 0 });
@@ -124,6 +157,28 @@ const PartnerManager = () => {
     }
   };
 
+  const handlePayout = async (statement: PartnerStatement, payoutStatus: PartnerPayoutStatus) => {
+    const label = `${statement.partner.name}, ${formatPeriod(statement)} (${formatEUR(statement.commissionAmount)})`;
+    let paymentReference: string | undefined;
+
+    if (payoutStatus === 'PAID') {
+      const reference = prompt(`Mark ${label} as paid.\nBank transfer reference (optional):`);
+      if (reference === null) return;
+      paymentReference = reference.trim() || undefined;
+    } else if (!confirm(payoutStatus === 'APPROVED' ? `Approve ${label} for payout?` : `Withdraw the approval of ${label}?`)) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await partnerApi.updateStatementPayout(statement.id, { payoutStatus, paymentReference });
+      fetchStatements();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -197,7 +252,7 @@ const PartnerManager = () => {
                   onChange={(e) => setFormData({ ...formData, commissionRate: parseFloat(e.target.value) || 0 })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 />
-                <p className="text-xs text-gray-500 mt-1">Partner's commission percentage on revenue</p>
+                <p className="text-xs text-gray-500 mt-1">Partner's commission percentage on revenue, applies to new transactions</p>
               </div>
               <div className="flex gap-2 pt-4">
                 <button
@@ -297,6 +352,112 @@ const PartnerManager = () => {
           )}
         </div>
       )}
+
+      {/* Commission Statements */}
+      <div className="pt-6 border-t border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Commission Statements</h3>
+            <p className="text-sm text-gray-600">
+              Produced monthly from the commission accrued on each transaction. Approve, then mark paid once transferred.
+            </p>
+          </div>
+          <select
+            value={payoutFilter}
+            onChange={(e) => setPayoutFilter(e.target.value as PartnerPayoutStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="PENDING">Pending</option>
+            <option value="APPROVED">Approved</option>
+            <option value="PAID">Paid</option>
+          </select>
+        </div>
+
+        {statementsLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Partner</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Period</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Transactions</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Revenue</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Commission</th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-700">Payout</th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {statements.map((st) => (
+                  <tr key={st.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-800">{st.partner.name}</td>
+                    <td className="px-4 py-3 text-gray-600">{formatPeriod(st)}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{st.transactionCount}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{formatEUR(st.baseAmount)}</td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-800">{formatEUR(st.commissionAmount)}</td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${PAYOUT_STATUS_STYLES[st.payoutStatus].className}`}>
+                        {PAYOUT_STATUS_STYLES[st.payoutStatus].label}
+                      </span>
+                      {st.paidAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDate(st.paidAt)}
+                          {st.paymentReference && <> • {st.paymentReference}</>}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <div className="flex gap-1 justify-center">
+                        {st.payoutStatus === 'PENDING' && (
+                          <button
+                            onClick={() => handlePayout(st, 'APPROVED')}
+                            className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs hover:bg-blue-200"
+                          >
+                            Approve
+                          </button>
+                        )}
+                        {st.payoutStatus === 'APPROVED' && (
+                          <>
+                            <button
+                              onClick={() => handlePayout(st, 'PAID')}
+                              className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs hover:bg-green-200"
+                            >
+                              Mark Paid
+                            </button>
+                            <button
+                              onClick={() => handlePayout(st, 'PENDING')}
+                              className="px-2 py-1 bg-yellow-100 text-yellow-700 rounded text-xs hover:bg-yellow-200"
+                            >
+                              Withdraw
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => window.open(partnerApi.getStatementPdfUrl(st.id), '_blank')}
+                          className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          PDF
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {statements.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                No statements{payoutFilter ? ` ${PAYOUT_STATUS_STYLES[payoutFilter].label.toLowerCase()}` : ' yet'}.
+              </div>
+            )}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
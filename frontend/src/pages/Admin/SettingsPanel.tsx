@@ -1,5 +1,5 @@
 // CSR26 Admin Settings Panel
-// Manage platform settings: pricePerKg, threshold, multiplier, billing minimum
+// Manage platform settings: pricePerKg, threshold, multiplier, billing minimum, maturation schedules
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import { useEffect, useState } from 'react';
@@ -9,6 +9,8 @@ import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
 import Alert from '@mui/material/Alert';
 import CircularProgress from '@mui/material/CircularProgress';
+import MaturationScheduleManager from './MaturationScheduleManager';
+import AdminAccountsManager from './AdminAccountsManager';
 
 interface SettingRow {
   key: string;
@@ -47,6 +49,13 @@ const settingsConfig: SettingRow[] = [
     type: 'number',
     unit: '€',
   },
+  {
+    key: 'VAT_RATE',
+    label: 'VAT Rate',
+    description: 'VAT charged on invoices to domestic merchants (%)',
+    type: 'number',
+    unit: '%',
+  },
 ];
 
 const SettingsPanel = () => {
@@ -223,6 +232,16 @@ const SettingsPanel = () => {
           </p>
         </div>
       </div>
+
+      {/* Maturation Schedules */}
+      <div className="pt-6 border-t border-gray-200">
+        <MaturationScheduleManager />
+      </div>
+
+      {/* Admin Accounts */}
+      <div className="pt-6 border-t border-gray-200">
+        <AdminAccountsManager />
+      </div>
     </div>
   );
 };
@@ -1,11 +1,11 @@
 // CSR26 Admin SKU Manager
-// CRUD operations for SKUs
+// CRUD operations for SKUs, plus approval of SKUs drafted by merchants
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import { useEffect, useState } from 'react';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { fetchAllSkus, createSku, updateSku, deleteSku } from '../../store/slices/skuSlice';
-import type { Sku, PaymentMode } from '../../types';
+import { fetchAllSkus, createSku, updateSku, deleteSku, approveSku, rejectSku } from '../../store/slices/skuSlice';
+import type { Sku, PaymentMode, MaturationSchedule } from '../../types';
 import { formatEUR } from '../../utils/formatters';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
@@ -21,7 +21,7 @@ import DialogTitle from '@mui/material/DialogTitle';
 import DialogContent from '@mui/material/DialogContent';
 import DialogActions from '@mui/material/DialogActions';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
-import { skuApi } from '../../api/apiClient';
+import { skuApi, maturationScheduleApi } from '../../api/apiClient';
 
 const emptySkuForm: Partial<Sku> = {
   code: '',
@@ -44,24 +44,38 @@ const SkuManager = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingSku, setEditingSku] = useState<Partial<Sku> | null>(null);
   const [formData, setFormData] = useState<Partial<Sku>>(emptySkuForm);
-  const [filter, setFilter] = useState<'all' | 'active' | 'inactive'>('all');
+  const [filter, setFilter] = useState<'all' | 'active' | 'inactive' | 'pending'>('all');
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [importText, setImportText] = useState('');
   const [importLoading, setImportLoading] = useState(false);
+  const [schedules, setSchedules] = useState<MaturationSchedule[]>([]);
+  const [rejectTarget, setRejectTarget] = useState<Sku | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
 
   // Fetch SKUs on mount
   useEffect(() => {
     dispatch(fetchAllSkus());
   }, [dispatch]);
 
+  // Fetch maturation schedules for the SKU form
+  useEffect(() => {
+    maturationScheduleApi
+      .getAll()
+      .then((response) => setSchedules(response.data.data.filter((schedule) => schedule.active)))
+      .catch((err) => console.error('Failed to fetch maturation schedules:', err));
+  }, []);
+
   // Filter SKUs
   const filteredSkus = skus.filter((sku) => {
     if (filter === 'active') return sku.active;
     if (filter === 'inactive') return !sku.active;
+    if (filter === 'pending') return sku.status === 'PENDING_APPROVAL';
     return true;
   });
 
+  const pendingCount = skus.filter((sku) => sku.status === 'PENDING_APPROVAL').length;
+
   // Open create dialog
   const handleCreate = () => {
     setEditingSku(null);
@@ -112,6 +126,22 @@ const SkuManager = () => {
     await dispatch(deleteSku(code));
   };
 
+  // Approve a merchant draft: it becomes usable on landing pages and QR codes
+  const handleApprove = async (sku: Sku) => {
+    if (!confirm(`Approve ${sku.code} for ${sku.merchant?.name || 'this merchant'}?`)) return;
+    await dispatch(approveSku(sku.code));
+  };
+
+  // Reject a merchant draft, the reason is shown to the merchant
+  const handleReject = async () => {
+    if (!rejectTarget || !rejectReason.trim()) return;
+    const result = await dispatch(rejectSku({ code: rejectTarget.code, reason: rejectReason.trim() }));
+    if (rejectSku.fulfilled.match(result)) {
+      setRejectTarget(null);
+      setRejectReason('');
+    }
+  };
+
   // Handle import from spreadsheet (CSV format)
   const handleImport = async () => {
     if (!importText.trim()) return;
@@ -171,6 +201,7 @@ const SkuManager = () => {
       PAY: 'bg-blue-100 text-blue-800',
       GIFT_CARD: 'bg-purple-100 text-purple-800',
       ALLOCATION: 'bg-orange-100 text-orange-800',
+      ADJUSTMENT: 'bg-gray-100 text-gray-800',
     };
     return colors[mode] || 'bg-gray-100 text-gray-800';
   };
@@ -191,6 +222,7 @@ const SkuManager = () => {
           <h3 className="text-lg font-semibold text-gray-800">SKU Management</h3>
           <p className="text-sm text-gray-500">
             {skus.length} SKUs total, {skus.filter((s) => s.active).length} active
+            {pendingCount > 0 && `, ${pendingCount} waiting for approval`}
           </p>
         </div>
 
@@ -204,6 +236,7 @@ const SkuManager = () => {
             <MenuItem value="all">All</MenuItem>
             <MenuItem value="active">Active</MenuItem>
             <MenuItem value="inactive">Inactive</MenuItem>
+            <MenuItem value="pending">Pending approval ({pendingCount})</MenuItem>
           </Select>
           <Button
             variant="outlined"
@@ -268,7 +301,12 @@ const SkuManager = () => {
                   <td className="px-4 py-3 text-sm font-mono text-gray-800">
                     {sku.code}
                   </td>
-                  <td className="px-4 py-3 text-sm text-gray-800">{sku.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-800">
+                    {sku.name}
+                    {sku.merchant && (
+                      <div className="text-xs text-gray-500">{sku.merchant.name}</div>
+                    )}
+                  </td>
                   <td className="px-4 py-3">
                     <span
                       className={`px-2 py-1 text-xs font-medium rounded-md ${getPaymentModeBadge(
@@ -285,18 +323,53 @@ const SkuManager = () => {
                     {sku.multiplier}x
                   </td>
                   <td className="px-4 py-3 text-center">
-                    <span
-                      className={`px-2 py-1 text-xs font-medium rounded-md ${
-                        sku.active
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-gray-100 text-gray-800'
-                      }`}
-                    >
-                      {sku.active ? 'Active' : 'Inactive'}
-                    </span>
+                    {sku.status === 'PENDING_APPROVAL' ? (
+                      <span className="px-2 py-1 text-xs font-medium rounded-md bg-yellow-100 text-yellow-800">
+                        Pending approval
+                      </span>
+                    ) : sku.status === 'REJECTED' ? (
+                      <span
+                        className="px-2 py-1 text-xs font-medium rounded-md bg-red-100 text-red-800"
+                        title={sku.reviewNote || undefined}
+                      >
+                        Rejected
+                      </span>
+                    ) : (
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-md ${
+                          sku.active
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {sku.active ? 'Active' : 'Inactive'}
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-right">
                     <div className="flex justify-end gap-2">
+                      {sku.status === 'PENDING_APPROVAL' && (
+                        <>
+                          <Button
+                            variant="contained"
+                            size="small"
+                            color="success"
+                            onClick={() => handleApprove(sku)}
+                            sx={{ textTransform: 'none', minWidth: 70 }}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outlined"
+                            size="small"
+                            color="error"
+                            onClick={() => setRejectTarget(sku)}
+                            sx={{ textTransform: 'none', minWidth: 60 }}
+                          >
+                            Reject
+                          </Button>
+                        </>
+                      )}
                       <Button
                         variant="outlined"
                         size="small"
@@ -305,7 +378,7 @@ const SkuManager = () => {
                       >
                         Edit
                       </Button>
-                      {sku.active && (
+                      {sku.active && sku.status === 'APPROVED' && (
                         <Button
                           variant="outlined"
                           size="small"
@@ -404,6 +477,21 @@ const SkuManager = () => {
               fullWidth
               helperText="For weight-based calculations (e-commerce)"
             />
+            <FormControl fullWidth>
+              <InputLabel>Maturation Schedule</InputLabel>
+              <Select
+                value={formData.maturationScheduleId || ''}
+                onChange={(e) => handleFieldChange('maturationScheduleId', e.target.value || null)}
+                label="Maturation Schedule"
+              >
+                <MenuItem value="">Merchant / Global Default</MenuItem>
+                {schedules.map((schedule) => (
+                  <MenuItem key={schedule.id} value={schedule.id}>
+                    {schedule.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-700">Payment Required</span>
               <Switch
@@ -442,6 +530,46 @@ const SkuManager = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Reject Draft Dialog */}
+      <Dialog
+        open={!!rejectTarget}
+        onClose={() => setRejectTarget(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Reject {rejectTarget?.code}</DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-4">
+            <p className="text-sm text-gray-600">
+              {rejectTarget?.merchant?.name || 'The merchant'} will see this reason and can edit and resubmit the SKU.
+            </p>
+            <TextField
+              label="Reason"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              fullWidth
+              multiline
+              rows={3}
+              required
+            />
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejectTarget(null)} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleReject}
+            disabled={!rejectReason.trim()}
+            sx={{ textTransform: 'none' }}
+          >
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Import Dialog */}
       <Dialog
         open={importDialogOpen}
@@ -13,6 +13,11 @@ interface TransactionWithRelations extends Transaction {
   merchant?: { id: string; name: string } | null;
 }
 
+interface ReverseForm {
+  reason: string;
+  resetGiftCode: boolean;
+}
+
 interface ManualTransactionForm {
   email: string;
   amount: string;
@@ -43,6 +48,12 @@ const TransactionManager = () => {
   });
   const [createLoading, setCreateLoading] = useState(false);
 
+  // Reversal
+  const [reverseTarget, setReverseTarget] = useState<TransactionWithRelations | null>(null);
+  const [reverseForm, setReverseForm] = useState<ReverseForm>({ reason: '', resetGiftCode: false });
+  const [reverseLoading, setReverseLoading] = useState(false);
+  const [reverseMessage, setReverseMessage] = useState<string | null>(null);
+
   // Pagination
   const [page, setPage] = useState(0);
   const limit = 20;
@@ -100,6 +111,38 @@ const TransactionManager = () => {
     }
   };
 
+  const handleOpenReverse = (transaction: TransactionWithRelations) => {
+    setReverseTarget(transaction);
+    setReverseForm({ reason: '', resetGiftCode: false });
+  };
+
+  const handleReverse = async () => {
+    if (!reverseTarget || !reverseForm.reason.trim()) return;
+    setReverseLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.reverseTransaction(reverseTarget.id, {
+        reason: reverseForm.reason.trim(),
+        resetGiftCode: reverseForm.resetGiftCode,
+      });
+      const result = response.data.data;
+      const details = [
+        `€${Number(reverseTarget.amount).toFixed(2)} reversed for ${reverseTarget.user?.email || 'user'}`,
+        result.merchantCredited > 0 && `€${result.merchantCredited.toFixed(2)} credited back to ${reverseTarget.merchant?.name || 'merchant'}`,
+        result.giftCodeReset && `€${Number(reverseTarget.amount).toFixed(2)} returned to gift code ${reverseTarget.giftCodeUsed}`,
+        result.userDowngraded && 'user downgraded to ACCUMULATION',
+      ].filter(Boolean);
+      setReverseMessage(details.join(' · '));
+      setReverseTarget(null);
+      fetchTransactions();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setReverseLoading(false);
+    }
+  };
+
   const handleExport = () => {
     // Build CSV content
     const headers = ['Date', 'User Email', 'Payment Mode', 'Amount (EUR)', 'Impact (kg)', 'Status', 'Merchant', 'SKU'];
@@ -197,6 +240,7 @@ const TransactionManager = () => {
               <option value="PAY">PAY</option>
               <option value="GIFT_CARD">GIFT_CARD</option>
               <option value="ALLOCATION">ALLOCATION</option>
+              <option value="ADJUSTMENT">ADJUSTMENT</option>
             </select>
           </div>
           <div>
@@ -210,6 +254,9 @@ const TransactionManager = () => {
               <option value="PENDING">PENDING</option>
               <option value="COMPLETED">COMPLETED</option>
               <option value="FAILED">FAILED</option>
+              <option value="REFUNDED">REFUNDED</option>
+              <option value="DISPUTED">DISPUTED</option>
+              <option value="REVERSED">REVERSED</option>
             </select>
           </div>
           <div>
@@ -247,6 +294,16 @@ const TransactionManager = () => {
         </div>
       </div>
 
+      {/* Reversal result */}
+      {reverseMessage && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm flex justify-between items-center">
+          <span>{reverseMessage}</span>
+          <button onClick={() => setReverseMessage(null)} className="text-green-700 hover:text-green-900">
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
@@ -294,6 +351,11 @@ const TransactionManager = () => {
                       <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-medium">
                         {t.paymentMode}
                       </span>
+                      {t.note && (
+                        <div className="text-xs text-gray-500 mt-1 max-w-48 truncate" title={t.note}>
+                          {t.note}
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-right font-medium">
                       {Number(t.amount).toFixed(2)}
@@ -308,11 +370,18 @@ const TransactionManager = () => {
                             ? 'bg-green-100 text-green-700'
                             : t.paymentStatus === 'PENDING'
                             ? 'bg-yellow-100 text-yellow-700'
+                            : t.paymentStatus === 'REFUNDED' || t.paymentStatus === 'REVERSED'
+                            ? 'bg-gray-100 text-gray-700'
                             : 'bg-red-100 text-red-700'
                         }`}
                       >
                         {t.paymentStatus}
                       </span>
+                      {t.reversalOfId && (
+                        <div className="text-xs text-gray-500 mt-1" title={t.reversalReason || undefined}>
+                          Compensating
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-600">
                       {t.merchant?.name || '-'}
@@ -334,6 +403,14 @@ const TransactionManager = () => {
                           </button>
                         </div>
                       )}
+                      {t.paymentStatus === 'COMPLETED' && !t.reversalOfId && (
+                        <button
+                          onClick={() => handleOpenReverse(t)}
+                          className="px-2 py-1 bg-red-100 text-red-700 rounded text-xs hover:bg-red-200"
+                        >
+                          Reverse
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -371,6 +448,64 @@ const TransactionManager = () => {
         </>
       )}
 
+      {/* Reverse Transaction Dialog */}
+      {reverseTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-md shadow-xl p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Reverse Transaction</h3>
+            <div className="bg-gray-50 rounded-md p-3 mb-4 text-sm text-gray-700 space-y-1">
+              <div>{reverseTarget.user?.email || '-'} · {reverseTarget.paymentMode}</div>
+              <div>
+                €{Number(reverseTarget.amount).toFixed(2)} · {Number(reverseTarget.impactKg).toFixed(2)} kg
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              A compensating transaction is created and the impact is removed from the user's wallet.
+              {reverseTarget.merchantId && (reverseTarget.paymentMode === 'CLAIM' || reverseTarget.paymentMode === 'ALLOCATION') &&
+                ` €${Number(reverseTarget.amount).toFixed(2)} is credited back to ${reverseTarget.merchant?.name || 'the merchant'}.`}
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+                <textarea
+                  value={reverseForm.reason}
+                  onChange={(e) => setReverseForm({ ...reverseForm, reason: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  rows={3}
+                  placeholder="Enter reason for the reversal (e.g., duplicate claim, test transaction)"
+                  required
+                />
+              </div>
+              {reverseTarget.paymentMode === 'GIFT_CARD' && reverseTarget.giftCodeUsed && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reverseForm.resetGiftCode}
+                    onChange={(e) => setReverseForm({ ...reverseForm, resetGiftCode: e.target.checked })}
+                  />
+                  Return the amount to gift code {reverseTarget.giftCodeUsed} so it can be redeemed again
+                </label>
+              )}
+              <div className="flex gap-2 pt-4">
+                <button
+                  onClick={handleReverse}
+                  disabled={reverseLoading || !reverseForm.reason.trim()}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {reverseLoading ? 'Reversing...' : 'Reverse Transaction'}
+                </button>
+                <button
+                  onClick={() => setReverseTarget(null)}
+                  className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Manual Transaction Dialog */}
       {createDialogOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -414,6 +549,7 @@ const TransactionManager = () => {
                   <option value="PAY">PAY</option>
                   <option value="GIFT_CARD">GIFT_CARD</option>
                   <option value="ALLOCATION">ALLOCATION</option>
+                  <option value="ADJUSTMENT">ADJUSTMENT (not revenue)</option>
                 </select>
               </div>
               <div>
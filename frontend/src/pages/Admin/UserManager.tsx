@@ -4,9 +4,9 @@
 
 import { useEffect, useState } from 'react';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { fetchAllUsers, fetchUserById, adjustUserWallet, clearSelectedUser } from '../../store/slices/userSlice';
+import { fetchAllUsers, fetchUserById, fetchUserLedger, adjustUserWallet, deleteUser, clearSelectedUser } from '../../store/slices/userSlice';
 import { userApi } from '../../api/apiClient';
-import type { UserStatus, UserWithCounts } from '../../types';
+import type { DataExportFormat, UserStatus, UserWithCounts } from '../../types';
 import { formatEUR, formatWeightKg, formatDate } from '../../utils/formatters';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
@@ -22,7 +22,7 @@ import DownloadIcon from '@mui/icons-material/Download';
 
 const UserManager = () => {
   const dispatch = useAppDispatch();
-  const { users, total, selectedUser, loading, error } = useAppSelector((state) => state.user);
+  const { users, total, selectedUser, selectedUserLedger, ledgerLoading, loading, error } = useAppSelector((state) => state.user);
 
   // Local state
   const [search, setSearch] = useState('');
@@ -68,10 +68,16 @@ const UserManager = () => {
     window.open(url, '_blank');
   };
 
+  // Export users who opted in to marketing emails
+  const handleExportMailingList = () => {
+    window.open(userApi.getExportUrl({ marketing: 'opted-in' }), '_blank');
+  };
+
   // Handle view user details
   const handleViewUser = (user: UserWithCounts) => {
     setSelectedUserId(user.id);
     dispatch(fetchUserById(user.id));
+    dispatch(fetchUserLedger({ id: user.id, limit: 10 }));
     setDetailDialogOpen(true);
   };
 
@@ -106,6 +112,8 @@ const UserManager = () => {
       setAdjustDialogOpen(false);
       setAdjustSuccess(true);
       setTimeout(() => setAdjustSuccess(false), 3000);
+      // Refresh ledger to show the adjustment entry
+      dispatch(fetchUserLedger({ id: selectedUserId, limit: 10 }));
       // Refresh user list
       dispatch(fetchAllUsers({
         search: search || undefined,
@@ -118,6 +126,20 @@ const UserManager = () => {
     }
   };
 
+  // Handle data export (admin-assisted access request)
+  const handleExportUserData = (format: DataExportFormat) => {
+    if (!selectedUserId) return;
+    window.open(userApi.getDataExportUrl(selectedUserId, format), '_blank');
+  };
+
+  // Handle account deletion (admin-assisted erasure request)
+  const handleDeleteUser = async () => {
+    if (!selectedUser) return;
+    if (!confirm(`Delete the account of ${selectedUser.email}? Personal data is erased, transactions and impact are kept anonymously. This cannot be undone.`)) return;
+
+    await dispatch(deleteUser(selectedUser.id));
+  };
+
   // Get status badge color
   const getStatusBadge = (status: UserStatus) => {
     if (status === 'CERTIFIED') {
@@ -169,6 +191,14 @@ const UserManager = () => {
           >
             Export CSV
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExportMailingList}
+            sx={{ textTransform: 'none' }}
+          >
+            Mailing List
+          </Button>
         </div>
       </div>
 
@@ -248,6 +278,11 @@ const UserManager = () => {
                       >
                         {user.status}
                       </span>
+                      {user.deletedAt && (
+                        <span className="ml-1 px-2 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-600">
+                          DELETED
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-600">
                       {formatDate(user.createdAt)}
@@ -345,6 +380,13 @@ const UserManager = () => {
             </div>
           ) : selectedUser ? (
             <div className="space-y-6 pt-2">
+              {error && <Alert severity="error">{error}</Alert>}
+              {selectedUser.deletedAt && (
+                <Alert severity="info">
+                  Account deleted on {formatDate(selectedUser.deletedAt)}. Personal data was erased, transactions are kept anonymously.
+                </Alert>
+              )}
+
               {/* User Info */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -412,8 +454,61 @@ const UserManager = () => {
                 </div>
               )}
 
-              {/* Wallet Adjustment Button */}
-              <div className="pt-2">
+              {/* Wallet Ledger */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs text-gray-500">
+                    Wallet Ledger{selectedUserLedger ? ` (${selectedUserLedger.total} entries)` : ''}
+                  </p>
+                  {selectedUserLedger && (
+                    <span
+                      className={`inline-block px-2 py-1 text-xs font-medium rounded-md ${
+                        selectedUserLedger.balances.inSync ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}
+                    >
+                      {selectedUserLedger.balances.inSync ? 'In sync' : 'Out of sync'}
+                    </span>
+                  )}
+                </div>
+                {ledgerLoading && !selectedUserLedger ? (
+                  <div className="flex justify-center py-4">
+                    <CircularProgress size={20} />
+                  </div>
+                ) : selectedUserLedger && selectedUserLedger.entries.length > 0 ? (
+                  <div className="bg-gray-50 rounded-md divide-y divide-gray-200">
+                    {selectedUserLedger.entries.map((entry) => (
+                      <div key={entry.id} className="p-3 flex items-center justify-between">
+                        <div>
+                          <p className="text-sm text-gray-800">
+                            {entry.reason.replace(/_/g, ' ')}
+                            <span className={`ml-2 text-xs ${entry.type === 'DEBIT' ? 'text-red-600' : 'text-green-600'}`}>
+                              {entry.type}
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(entry.createdAt)}{entry.note ? ` - ${entry.note}` : ''}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-medium text-gray-800">{formatEUR(entry.amountEur)}</p>
+                          <p className="text-xs text-green-600">{formatWeightKg(entry.impactKg)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No ledger entries</p>
+                )}
+                {selectedUserLedger && !selectedUserLedger.balances.inSync && (
+                  <p className="text-xs text-red-600 mt-2">
+                    Ledger total {formatEUR(selectedUserLedger.balances.ledger.walletBalance)} differs from wallet{' '}
+                    {formatEUR(selectedUserLedger.balances.wallet.walletBalance)}
+                  </p>
+                )}
+              </div>
+
+              {/* Wallet Adjustment and Data Subject Request Buttons */}
+              <div className="pt-2 flex flex-wrap gap-2">
                 <Button
                   variant="outlined"
                   onClick={handleOpenAdjust}
@@ -421,6 +516,31 @@ const UserManager = () => {
                 >
                   Adjust Wallet
                 </Button>
+                <Button
+                  variant="outlined"
+                  onClick={() => handleExportUserData('json')}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Export Data (JSON)
+                </Button>
+                <Button
+                  variant="outlined"
+                  onClick={() => handleExportUserData('zip')}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Export Data (ZIP)
+                </Button>
+                {!selectedUser.deletedAt && selectedUser.role !== 'ADMIN' && (
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    onClick={handleDeleteUser}
+                    disabled={loading}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Delete Account
+                  </Button>
+                )}
               </div>
             </div>
           ) : null}
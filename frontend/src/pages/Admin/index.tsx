@@ -16,9 +16,12 @@ import TransactionManager from './TransactionManager';
 import MerchantManager from './MerchantManager';
 import PartnerManager from './PartnerManager';
 import CorsairExportPanel from './CorsairExportPanel';
+import AuditLogViewer from './AuditLogViewer';
+import JobsPanel from './JobsPanel';
+import BillingReconciliationPanel from './BillingReconciliationPanel';
 import Button from '@mui/material/Button';
 
-type AdminTab = 'settings' | 'skus' | 'users' | 'giftcodes' | 'transactions' | 'merchants' | 'partners' | 'corsair';
+type AdminTab = 'settings' | 'skus' | 'users' | 'giftcodes' | 'transactions' | 'merchants' | 'partners' | 'billing' | 'corsair' | 'jobs' | 'audit';
 
 const AdminPanel = () => {
   const [activeTab, setActiveTab] = useState<AdminTab>('settings');
@@ -94,6 +97,15 @@ const AdminPanel = () => {
         </svg>
       ),
     },
+    {
+      key: 'billing',
+      label: 'Billing',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+        </svg>
+      ),
+    },
     {
       key: 'corsair',
       label: 'Corsair Export',
@@ -103,6 +115,24 @@ const AdminPanel = () => {
         </svg>
       ),
     },
+    {
+      key: 'jobs',
+      label: 'Jobs',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+    },
+    {
+      key: 'audit',
+      label: 'Audit Log',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+        </svg>
+      ),
+    },
   ];
 
   // Not authenticated or not admin
@@ -176,7 +206,10 @@ const AdminPanel = () => {
               {activeTab === 'transactions' && <TransactionManager />}
               {activeTab === 'merchants' && <MerchantManager />}
               {activeTab === 'partners' && <PartnerManager />}
+              {activeTab === 'billing' && <BillingReconciliationPanel />}
               {activeTab === 'corsair' && <CorsairExportPanel />}
+              {activeTab === 'jobs' && <JobsPanel />}
+              {activeTab === 'audit' && <AuditLogViewer />}
             </div>
           </div>
         </div>
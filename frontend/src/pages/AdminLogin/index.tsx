@@ -0,0 +1,37 @@
+// CSR26 Admin Login Page
+// Admins request a sign-in link here; the authenticator code is asked on /admin/verify/:token
+
+import { useEffect } from 'react';
+import { useAppSelector } from '../../store/hooks';
+import { useNavigation } from '../../hooks/useNavigation';
+import Navigation from '../../components/Navigation';
+import Footer from '../../components/Footer';
+import AdminLoginForm from '../Landing/AdminLoginForm';
+
+const AdminLogin = () => {
+  const { goToAdmin } = useNavigation();
+  const { isAuthenticated, user } = useAppSelector((state) => state.auth);
+
+  // Already signed in as admin
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'ADMIN') {
+      goToAdmin();
+    }
+  }, [isAuthenticated, user, goToAdmin]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 pt-14">
+      <Navigation />
+
+      <main className="flex-1 flex items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md">
+          <AdminLoginForm />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminLogin;
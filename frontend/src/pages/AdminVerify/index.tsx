@@ -0,0 +1,197 @@
+// CSR26 Admin Sign-in Verification Page
+// Admin sign-in, step 2: opened from the emailed link, asks for the authenticator code
+// On the first sign-in the admin adds the shown key to their authenticator app before entering a code
+// DATA FLOW: Page mount → authApi.getAdminSignInChallenge → code → dispatch verifyAdminSignIn → Redirect
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { authApi } from '../../api/apiClient';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { verifyAdminSignIn, clearAuthError } from '../../store/slices/authSlice';
+import { useNavigation } from '../../hooks/useNavigation';
+import Navigation from '../../components/Navigation';
+import Footer from '../../components/Footer';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import type { AdminSignInChallenge } from '../../types';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+
+// Show the base32 key in groups of 4 so it can be typed into an app
+const formatSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+const AdminVerify = () => {
+  const dispatch = useAppDispatch();
+  const { token } = useParams<{ token: string }>();
+  const { goToAdmin, goTo } = useNavigation();
+
+  // Redux state
+  const { isAuthenticated, user, loading, error } = useAppSelector((state) => state.auth);
+
+  // Local state
+  const [challenge, setChallenge] = useState<AdminSignInChallenge | null>(null);
+  const [challengeLoading, setChallengeLoading] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+
+  // Check the link and get the enrollment key if needed
+  useEffect(() => {
+    if (!token) return;
+
+    authApi.getAdminSignInChallenge(token)
+      .then((response) => setChallenge(response.data.data))
+      .catch((err) => setLinkError((err as Error).message))
+      .finally(() => setChallengeLoading(false));
+  }, [token]);
+
+  // Redirect to the admin panel once signed in
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'ADMIN') {
+      goToAdmin();
+    }
+  }, [isAuthenticated, user, goToAdmin]);
+
+  // Clear errors on unmount
+  useEffect(() => {
+    return () => {
+      dispatch(clearAuthError());
+    };
+  }, [dispatch]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || code.length !== 6) return;
+
+    const result = await dispatch(verifyAdminSignIn({ token, code }));
+    if (verifyAdminSignIn.rejected.match(result)) {
+      setCode('');
+      // Wrong codes use up the link after a few attempts
+      if (String(result.payload).includes('new sign-in link')) {
+        setLinkError(result.payload as string);
+      }
+    }
+  };
+
+  const handleRequestNewLink = () => {
+    goTo('/admin/login');
+  };
+
+  const renderContent = () => {
+    if (!token || linkError) {
+      return (
+        <div className="text-center">
+          <Alert severity="error" className="mb-6 text-left">
+            {linkError || 'Invalid sign-in link. No token provided.'}
+          </Alert>
+          <Button
+            fullWidth
+            variant="contained"
+            onClick={handleRequestNewLink}
+            sx={{
+              textTransform: 'none',
+              backgroundColor: '#1a1a2e',
+              '&:hover': { backgroundColor: '#2d2d44' },
+            }}
+          >
+            Request New Link
+          </Button>
+        </div>
+      );
+    }
+
+    if (challengeLoading || !challenge) {
+      return (
+        <div className="text-center">
+          <LoadingSpinner size="large" />
+          <p className="text-gray-600 mt-6">Checking your sign-in link...</p>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2">
+            {challenge.enrolled ? 'Enter your authenticator code' : 'Set up your authenticator'}
+          </h2>
+          <p className="text-sm text-gray-500">{challenge.email}</p>
+        </div>
+
+        {/* Enrollment: first sign-in, or the authenticator was reset by another admin */}
+        {!challenge.enrolled && challenge.secret && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Add this key to an authenticator app (Google Authenticator, Microsoft Authenticator,
+              1Password, ...) as a time-based key, then enter the 6-digit code it shows.
+            </p>
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-md text-center">
+              <p className="text-xs text-gray-500 mb-1">Setup key</p>
+              <p className="font-mono text-lg text-gray-800 tracking-wider break-all select-all">
+                {formatSecret(challenge.secret)}
+              </p>
+            </div>
+            {challenge.otpauthUrl && (
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer">Setup URI for password managers</summary>
+                <p className="mt-2 font-mono break-all select-all">{challenge.otpauthUrl}</p>
+              </details>
+            )}
+            <p className="text-xs text-gray-500">
+              This key is only shown until your first code is confirmed. Keep it private.
+            </p>
+          </div>
+        )}
+
+        <TextField
+          fullWidth
+          label="6-digit code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          autoComplete="one-time-code"
+          autoFocus
+          slotProps={{ htmlInput: { inputMode: 'numeric', pattern: '[0-9]*' } }}
+        />
+
+        {error && (
+          <Alert severity="error">{error}</Alert>
+        )}
+
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          disabled={loading || code.length !== 6}
+          sx={{
+            textTransform: 'none',
+            py: 1.5,
+            backgroundColor: '#1a1a2e',
+            '&:hover': { backgroundColor: '#2d2d44' },
+          }}
+        >
+          {loading ? <LoadingSpinner size="small" /> : challenge.enrolled ? 'Sign In' : 'Confirm and Sign In'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 pt-14">
+      {/* Navigation */}
+      <Navigation />
+
+      {/* Main Content */}
+      <main className="flex-1 flex items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md">
+          <div className="bg-white rounded-md shadow-sm border border-gray-200 p-8">
+            {renderContent()}
+          </div>
+        </div>
+      </main>
+
+      {/* Footer */}
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminVerify;
@@ -0,0 +1,213 @@
+// CSR26 Consent Section
+// Review which Terms / Privacy Policy versions were accepted, accept updates, withdraw consents
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { meApi } from '../../api/apiClient';
+import type { ConsentStatus, ConsentType, UserConsents } from '../../types';
+import { CONSENT_LABELS } from '../../utils/legal';
+import { formatDate, formatDateTime } from '../../utils/formatters';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+
+// Page with the text of each document
+const CONSENT_LINKS: Partial<Record<ConsentType, string>> = {
+  TERMS: '/terms',
+  PRIVACY: '/privacy',
+};
+
+// What withdrawing means, shown in the confirmation
+const WITHDRAW_WARNINGS: Partial<Record<ConsentType, string>> = {
+  PRIVACY: 'Your data will no longer be shared with certification registries (Corsair Connect), so new certifications cannot be registered in your name.',
+  MARKETING: 'You will no longer receive news and campaign emails.',
+};
+
+const ConsentSection = () => {
+  const [data, setData] = useState<UserConsents | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<ConsentType | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConsents = async () => {
+      try {
+        const response = await meApi.getConsents();
+        setData(response.data.data);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConsents();
+  }, []);
+
+  const handleGrant = async (type: ConsentType) => {
+    setSaving(type);
+    setError(null);
+
+    try {
+      const response = await meApi.grantConsent(type);
+      setData(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleWithdraw = async (type: ConsentType) => {
+    if (!confirm(`Withdraw your consent to the ${CONSENT_LABELS[type]}? ${WITHDRAW_WARNINGS[type] ?? ''}`)) return;
+    setSaving(type);
+    setError(null);
+
+    try {
+      const response = await meApi.withdrawConsent(type);
+      setData(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderStatus = (consent: ConsentStatus) => {
+    if (!consent.active) {
+      return <span className="text-gray-500">Not given</span>;
+    }
+    return (
+      <span className="text-gray-600">
+        Version {consent.active.version}, accepted {formatDate(consent.active.createdAt)}
+        {!consent.upToDate && (
+          <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-md bg-yellow-100 text-yellow-800">
+            Updated to {consent.currentVersion}
+          </span>
+        )}
+      </span>
+    );
+  };
+
+  const renderActions = (consent: ConsentStatus) => {
+    const busy = saving === consent.type;
+    const canWithdraw = consent.type !== 'TERMS';
+
+    return (
+      <div className="flex gap-2">
+        {(!consent.active || !consent.upToDate) && (
+          <Button
+            variant="outlined"
+            size="small"
+            onClick={() => handleGrant(consent.type)}
+            disabled={busy}
+            sx={{ textTransform: 'none' }}
+          >
+            {!consent.active && consent.type === 'MARKETING' ? 'Opt in' : `Accept version ${consent.currentVersion}`}
+          </Button>
+        )}
+        {canWithdraw && consent.active && (
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            onClick={() => handleWithdraw(consent.type)}
+            disabled={busy}
+            sx={{ textTransform: 'none' }}
+          >
+            Withdraw
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-md border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Your Consents</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        What you agreed to and when. The Terms of Service end with your account.
+      </p>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <CircularProgress size={24} />
+        </div>
+      ) : data && (
+        <>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {data.consents.map((consent) => (
+              <div key={consent.type} className="px-4 py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-800">
+                    {CONSENT_LINKS[consent.type] ? (
+                      <Link to={CONSENT_LINKS[consent.type]!} className="hover:underline">
+                        {CONSENT_LABELS[consent.type]}
+                      </Link>
+                    ) : (
+                      CONSENT_LABELS[consent.type]
+                    )}
+                  </p>
+                  <p className="text-xs">{renderStatus(consent)}</p>
+                </div>
+                {renderActions(consent)}
+              </div>
+            ))}
+          </div>
+
+          {/* History */}
+          {data.history.length > 0 && (
+            <div className="mt-4">
+              <Button
+                variant="text"
+                size="small"
+                onClick={() => setShowHistory(!showHistory)}
+                sx={{ textTransform: 'none' }}
+              >
+                {showHistory ? 'Hide history' : `Show history (${data.history.length})`}
+              </Button>
+              {showHistory && (
+                <div className="overflow-x-auto mt-2">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Consent</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Version</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Given</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Where</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Withdrawn</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {data.history.map((record) => (
+                        <tr key={record.id}>
+                          <td className="px-4 py-2 text-gray-800">{CONSENT_LABELS[record.type]}</td>
+                          <td className="px-4 py-2 text-gray-600">{record.version}</td>
+                          <td className="px-4 py-2 text-gray-600">{formatDateTime(record.createdAt)}</td>
+                          <td className="px-4 py-2 text-gray-600">{record.source}</td>
+                          <td className="px-4 py-2 text-gray-600">
+                            {record.withdrawnAt ? formatDateTime(record.withdrawnAt) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConsentSection;
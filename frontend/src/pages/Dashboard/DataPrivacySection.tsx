@@ -0,0 +1,132 @@
+// CSR26 Data & Privacy Section
+// Data subject rights from the dashboard: download my data, delete my account
+// Deletion pseudonymizes personal data; contributions and certified impact stay in the platform totals
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useState } from 'react';
+import { useAppDispatch } from '../../store/hooks';
+import { logout } from '../../store/slices/authSlice';
+import { useNavigation } from '../../hooks/useNavigation';
+import { meApi } from '../../api/apiClient';
+import type { DataExportFormat } from '../../types';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+interface DataPrivacySectionProps {
+  email: string;
+}
+
+const DataPrivacySection = ({ email }: DataPrivacySectionProps) => {
+  const dispatch = useAppDispatch();
+  const { goToLanding } = useNavigation();
+
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: DataExportFormat) => {
+    window.open(meApi.getDataExportUrl(format), '_blank');
+  };
+
+  const handleOpenDelete = () => {
+    setConfirmEmail('');
+    setError(null);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+
+    try {
+      await meApi.deleteAccount(confirmEmail.trim());
+      // The session ends with the account
+      dispatch(logout());
+      goToLanding();
+    } catch (err) {
+      setError((err as Error).message);
+      setDeleting(false);
+    }
+  };
+
+  const emailMatches = confirmEmail.trim().toLowerCase() === email.toLowerCase();
+
+  return (
+    <div className="bg-white rounded-md border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Your Data</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Download everything we store about you, or delete your account.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          variant="outlined"
+          onClick={() => handleExport('json')}
+          sx={{ textTransform: 'none' }}
+        >
+          Download My Data (JSON)
+        </Button>
+        <Button
+          variant="outlined"
+          onClick={() => handleExport('zip')}
+          sx={{ textTransform: 'none' }}
+        >
+          Download My Data (ZIP)
+        </Button>
+        <Button
+          variant="outlined"
+          color="error"
+          onClick={handleOpenDelete}
+          sx={{ textTransform: 'none' }}
+        >
+          Delete My Account
+        </Button>
+      </div>
+
+      {/* Delete Account Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={() => !deleting && setDeleteDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete Account</DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-2">
+            <Alert severity="warning">
+              Your name, email, date of birth and address are erased and you can no longer sign in.
+              Your contributions stay in our records anonymously, so the impact you certified is not lost for the environment.
+              This cannot be undone.
+            </Alert>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField
+              label="Type your email to confirm"
+              value={confirmEmail}
+              onChange={(e) => setConfirmEmail(e.target.value)}
+              placeholder={email}
+              fullWidth
+            />
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteDialogOpen(false)} disabled={deleting} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleDelete}
+            disabled={!emailMatches || deleting}
+            sx={{ textTransform: 'none' }}
+          >
+            {deleting ? <CircularProgress size={20} /> : 'Delete My Account'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DataPrivacySection;
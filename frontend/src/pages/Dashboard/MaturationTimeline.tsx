@@ -1,12 +1,19 @@
 // CSR26 Maturation Timeline Component
-// Visual timeline showing the 5/45/50 accrual rule
+// Visual timeline showing how impact matures under the user's maturation schedules
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import { formatWeightKg } from '../../utils/formatters';
+import type { MaturationTranche } from '../../types';
 
 interface MaturationEvent {
   amount: number;
   date: string;
+  label?: string;
+}
+
+interface MaturationScheduleInfo {
+  name: string;
+  tranches: MaturationTranche[];
 }
 
 interface MaturationTimelineProps {
@@ -14,14 +21,40 @@ interface MaturationTimelineProps {
   maturedImpactKg: number;
   pendingImpactKg: number;
   upcomingMaturations?: MaturationEvent[];
+  schedules?: MaturationScheduleInfo[];
 }
 
+// Built-in schedule, shown until the wallet reports the user's schedules
+const STANDARD_SCHEDULE: MaturationScheduleInfo = {
+  name: 'Standard 5/45/50',
+  tranches: [
+    { label: 'Immediate', percent: 5, weeks: 0 },
+    { label: 'Mid-term', percent: 45, weeks: 40 },
+    { label: 'Final', percent: 50, weeks: 80 },
+  ],
+};
+
+// Tranche card colors, in tranche order
+const TRANCHE_COLORS = [
+  { card: 'bg-green-50 border-green-100', dot: 'bg-green-500', title: 'text-green-800', text: 'text-green-600' },
+  { card: 'bg-yellow-50 border-yellow-100', dot: 'bg-yellow-500', title: 'text-yellow-800', text: 'text-yellow-600' },
+  { card: 'bg-blue-50 border-blue-100', dot: 'bg-blue-500', title: 'text-blue-800', text: 'text-blue-600' },
+  { card: 'bg-purple-50 border-purple-100', dot: 'bg-purple-500', title: 'text-purple-800', text: 'text-purple-600' },
+];
+
+// Short rule name, e.g. "5/45/50"
+const formatScheduleRule = (tranches: MaturationTranche[]) =>
+  tranches.map((tranche) => tranche.percent).join('/');
+
 const MaturationTimeline = ({
   totalImpactKg,
   maturedImpactKg,
   pendingImpactKg,
   upcomingMaturations = [],
+  schedules = [],
 }: MaturationTimelineProps) => {
+  const displaySchedules = schedules.length > 0 ? schedules : [STANDARD_SCHEDULE];
+
   // Calculate percentages
   const maturedPercent = totalImpactKg > 0 ? (maturedImpactKg / totalImpactKg) * 100 : 0;
 
@@ -52,7 +85,9 @@ const MaturationTimeline = ({
           Impact Maturation Timeline
         </h3>
         <p className="text-sm text-gray-500">
-          Your environmental impact matures over time following the 5/45/50 rule
+          {displaySchedules.length === 1
+            ? `Your environmental impact matures over time following the ${formatScheduleRule(displaySchedules[0].tranches)} rule`
+            : 'Your environmental impact matures over time following the schedules of the projects you supported'}
         </p>
       </div>
 
@@ -85,35 +120,30 @@ const MaturationTimeline = ({
         </div>
       </div>
 
-      {/* 5/45/50 Rule Explanation */}
-      <div className="grid grid-cols-3 gap-4 mb-8">
-        {/* 5% Immediate */}
-        <div className="text-center p-4 bg-green-50 rounded-md border border-green-100">
-          <div className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-2">
-            <span className="text-white font-bold text-sm">5%</span>
-          </div>
-          <p className="text-sm font-medium text-green-800">Immediate</p>
-          <p className="text-xs text-green-600 mt-1">Available now</p>
-        </div>
-
-        {/* 45% Mid-term */}
-        <div className="text-center p-4 bg-yellow-50 rounded-md border border-yellow-100">
-          <div className="w-10 h-10 bg-yellow-500 rounded-full flex items-center justify-center mx-auto mb-2">
-            <span className="text-white font-bold text-sm">45%</span>
-          </div>
-          <p className="text-sm font-medium text-yellow-800">Mid-term</p>
-          <p className="text-xs text-yellow-600 mt-1">After 40 weeks</p>
-        </div>
-
-        {/* 50% Final */}
-        <div className="text-center p-4 bg-blue-50 rounded-md border border-blue-100">
-          <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center mx-auto mb-2">
-            <span className="text-white font-bold text-sm">50%</span>
+      {/* Maturation Schedule Explanation */}
+      {displaySchedules.map((schedule) => (
+        <div key={schedule.name} className="mb-8">
+          {displaySchedules.length > 1 && (
+            <p className="text-sm font-medium text-gray-700 mb-3">{schedule.name}</p>
+          )}
+          <div className={`grid gap-4 ${schedule.tranches.length >= 4 ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-3'}`}>
+            {schedule.tranches.map((tranche, index) => {
+              const colors = TRANCHE_COLORS[index % TRANCHE_COLORS.length];
+              return (
+                <div key={tranche.label} className={`text-center p-4 rounded-md border ${colors.card}`}>
+                  <div className={`w-10 h-10 rounded-full flex items-center justify-center mx-auto mb-2 ${colors.dot}`}>
+                    <span className="text-white font-bold text-sm">{tranche.percent}%</span>
+                  </div>
+                  <p className={`text-sm font-medium ${colors.title}`}>{tranche.label}</p>
+                  <p className={`text-xs mt-1 ${colors.text}`}>
+                    {tranche.weeks === 0 ? 'Available now' : `After ${tranche.weeks} weeks`}
+                  </p>
+                </div>
+              );
+            })}
           </div>
-          <p className="text-sm font-medium text-blue-800">Final</p>
-          <p className="text-xs text-blue-600 mt-1">After 80 weeks</p>
         </div>
-      </div>
+      ))}
 
       {/* Upcoming Maturations */}
       {upcomingMaturations.length > 0 && (
@@ -150,7 +180,7 @@ const MaturationTimeline = ({
                         +{formatWeightKg(maturation.amount)}
                       </p>
                       <p className="text-xs text-gray-500">
-                        {formatDate(maturation.date)}
+                        {maturation.label ? `${maturation.label} · ` : ''}{formatDate(maturation.date)}
                       </p>
                     </div>
                   </div>
@@ -185,7 +215,7 @@ const MaturationTimeline = ({
               <strong>Why does impact mature?</strong>
             </p>
             <p className="text-xs text-blue-700 mt-1">
-              The 5/45/50 rule ensures that plastic removal projects are completed
+              The maturation schedule ensures that plastic removal projects are completed
               responsibly over time. Your contribution funds ongoing environmental
               cleanup operations, with impact verified and certified at each stage.
             </p>
@@ -2,7 +2,7 @@
 // Displays user's wallet balance and impact with maturation data
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
-import type { UserStatus } from '../../types';
+import type { MaturationTranche, UserStatus } from '../../types';
 import { formatEUR, formatWeightKg, formatUserStatus } from '../../utils/formatters';
 
 interface WalletCardProps {
@@ -13,8 +13,19 @@ interface WalletCardProps {
   bottles: number;
   status: UserStatus;
   transactionCount: number;
+  maturationTranches?: MaturationTranche[];
 }
 
+// Built-in 5/45/50 schedule, used when no schedule is reported
+const STANDARD_TRANCHES: MaturationTranche[] = [
+  { label: 'Immediate', percent: 5, weeks: 0 },
+  { label: 'Mid-term', percent: 45, weeks: 40 },
+  { label: 'Final', percent: 50, weeks: 80 },
+];
+
+// Dot colors for each tranche, in order
+const TRANCHE_DOT_COLORS = ['bg-green-500', 'bg-yellow-500', 'bg-blue-500', 'bg-purple-500'];
+
 // Bottle SVG component for visual representation
 const BottleIcon = ({ filled = false }: { filled?: boolean }) => (
   <svg
@@ -34,6 +45,7 @@ const WalletCard = ({
   bottles,
   status,
   transactionCount,
+  maturationTranches = STANDARD_TRANCHES,
 }: WalletCardProps) => {
   const statusInfo = formatUserStatus(status);
 
@@ -135,24 +147,27 @@ const WalletCard = ({
       )}
 
       {/* Maturation Timeline Preview */}
-      {pendingImpactKg > 0 && (
+      {pendingImpactKg > 0 && maturationTranches.length > 0 && (
         <div className="mt-6 pt-4 border-t border-gray-100">
           <div className="flex items-center justify-between text-sm">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-              <span className="text-gray-600">5% Now</span>
-            </div>
-            <div className="flex-1 h-1 bg-gray-200 mx-4 rounded">
-              <div className="h-full bg-gradient-to-r from-green-500 via-yellow-500 to-blue-500 rounded" style={{ width: '5%' }}></div>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
-              <span className="text-gray-600">45% @ 40wk</span>
-            </div>
-            <div className="flex items-center gap-2 ml-4">
-              <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-              <span className="text-gray-600">50% @ 80wk</span>
-            </div>
+            {maturationTranches.map((tranche, index) => (
+              <div key={tranche.label} className="contents">
+                <div className={`flex items-center gap-2 ${index > 1 ? 'ml-4' : ''}`}>
+                  <div className={`w-3 h-3 rounded-full ${TRANCHE_DOT_COLORS[index % TRANCHE_DOT_COLORS.length]}`}></div>
+                  <span className="text-gray-600">
+                    {tranche.weeks === 0 ? `${tranche.percent}% Now` : `${tranche.percent}% @ ${tranche.weeks}wk`}
+                  </span>
+                </div>
+                {index === 0 && maturationTranches.length > 1 && (
+                  <div className="flex-1 h-1 bg-gray-200 mx-4 rounded">
+                    <div
+                      className="h-full bg-gradient-to-r from-green-500 via-yellow-500 to-blue-500 rounded"
+                      style={{ width: `${tranche.weeks === 0 ? tranche.percent : 0}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
         </div>
       )}
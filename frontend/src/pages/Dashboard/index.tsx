@@ -15,6 +15,8 @@ import ProgressBar from './ProgressBar';
 import TransactionList from './TransactionList';
 import MaturationTimeline from './MaturationTimeline';
 import PendingPaymentModal from './PendingPaymentModal';
+import DataPrivacySection from './DataPrivacySection';
+import ConsentSection from './ConsentSection';
 import Alert from '@mui/material/Alert';
 import Button from '@mui/material/Button';
 import { formatWeightKg } from '../../utils/formatters';
@@ -119,6 +121,7 @@ const Dashboard = () => {
                   bottles={wallet?.bottles || 0}
                   status={wallet?.status || 'ACCUMULATION'}
                   transactionCount={wallet?.transactionCount || 0}
+                  maturationTranches={wallet?.maturationSchedules?.[0]?.tranches}
                 />
               </div>
 
@@ -141,6 +144,7 @@ const Dashboard = () => {
                     maturedImpactKg={wallet?.maturedImpactKg || 0}
                     pendingImpactKg={wallet?.pendingImpactKg || 0}
                     upcomingMaturations={wallet?.upcomingMaturations}
+                    schedules={wallet?.maturationSchedules}
                   />
                 </div>
               )}
@@ -237,6 +241,14 @@ const Dashboard = () => {
                   Contribute More
                 </Button>
               </div>
+
+              {/* Data & Privacy */}
+              {user && (
+                <div className="space-y-6 animate-fade-up-slow">
+                  <ConsentSection />
+                  <DataPrivacySection email={user.email} />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,40 +1,38 @@
 // CSR26 Admin Login Form
-// Handles admin access via special SKU code with secret validation
-// Requirements: Admin accesses via landing?sku=ADMIN-ACCESS-2026 with secret code
+// Admin sign-in, step 1: request a sign-in link for an admin email
+// Step 2 (authenticator code) happens on /admin/verify/:token after opening the link
+// Shown on /admin/login and on the landing page for ADMIN-* SKU codes
 
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { adminLogin } from '../../store/slices/authSlice';
+import { authApi } from '../../api/apiClient';
 import LoadingSpinner from '../../components/LoadingSpinner';
 
 interface AdminLoginFormProps {
-  skuCode: string;
+  skuCode?: string;
 }
 
 const AdminLoginForm = ({ skuCode }: AdminLoginFormProps) => {
-  const dispatch = useAppDispatch();
-  const navigate = useNavigate();
-  const { loading, error } = useAppSelector((state) => state.auth);
-
-  const [secretCode, setSecretCode] = useState('');
-  const [localError, setLocalError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
 
   const handleSubmit = async () => {
-    setLocalError(null);
+    setError(null);
 
-    if (!secretCode.trim()) {
-      setLocalError('Secret code is required');
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError('Please enter a valid email address');
       return;
     }
 
-    const result = await dispatch(adminLogin(secretCode));
-
-    if (adminLogin.fulfilled.match(result)) {
-      // Successfully logged in as admin, redirect to admin panel
-      navigate('/admin');
-    } else {
-      setLocalError(result.payload as string || 'Invalid secret code');
+    setLoading(true);
+    try {
+      await authApi.requestAdminSignIn(email.trim());
+      setSent(true);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -58,66 +56,89 @@ const AdminLoginForm = ({ skuCode }: AdminLoginFormProps) => {
               />
             </svg>
           </div>
-          <h2 className="text-2xl font-bold text-gray-800">Admin Access</h2>
+          <h2 className="text-2xl font-bold text-gray-800">Admin Sign-in</h2>
           <p className="text-gray-600 mt-2">
-            Enter your secret code to access the admin panel
-          </p>
-          <p className="text-xs text-gray-400 mt-1">
-            SKU: {skuCode}
+            {sent
+              ? 'Check your inbox for the sign-in link'
+              : 'We will email you a sign-in link, then ask for your authenticator code'}
           </p>
+          {skuCode && (
+            <p className="text-xs text-gray-400 mt-1">
+              SKU: {skuCode}
+            </p>
+          )}
         </div>
 
-        {/* Form Content */}
-        <div className="space-y-6">
-          {/* Secret Code Input */}
-          <div>
-            <label
-              htmlFor="secretCode"
-              className="block text-sm font-medium text-gray-700 mb-2"
+        {sent ? (
+          <div className="space-y-6">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+              <p className="text-green-700 text-sm">
+                If <strong>{email.trim()}</strong> is an admin account, a sign-in link is on its way.
+                The link is valid for 15 minutes.
+              </p>
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setSent(false)}
+              className="w-full py-3 px-4 border border-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-50 transition-colors"
             >
-              Secret Code
-            </label>
-            <input
-              id="secretCode"
-              type="password"
-              value={secretCode}
-              onChange={(e) => setSecretCode(e.target.value)}
-              placeholder="Enter your secret code"
-              className="w-full px-4 py-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-              autoComplete="off"
-              autoFocus
-            />
+              Use a different email
+            </button>
           </div>
-
-          {/* Error Message */}
-          {(localError || error) && (
-            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
-              <p className="text-red-600 text-sm">{localError || error}</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Email Input */}
+            <div>
+              <label
+                htmlFor="adminEmail"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Admin Email
+              </label>
+              <input
+                id="adminEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                placeholder="you@impactcsr26.it"
+                className="w-full px-4 py-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                autoComplete="email"
+                autoFocus
+              />
             </div>
-          )}
 
-          {/* Submit Button */}
-          <button
-            type="button"
-            onClick={handleSubmit}
-            disabled={loading || !secretCode.trim()}
-            className="w-full py-3 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 focus:ring-4 focus:ring-blue-300 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-          >
-            {loading ? (
-              <>
-                <LoadingSpinner size="small" />
-                <span className="ml-2">Verifying...</span>
-              </>
-            ) : (
-              'Access Admin Panel'
+            {/* Error Message */}
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
             )}
-          </button>
-        </div>
+
+            {/* Submit Button */}
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={loading || !email.trim()}
+              className="w-full py-3 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 focus:ring-4 focus:ring-blue-300 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+            >
+              {loading ? (
+                <>
+                  <LoadingSpinner size="small" />
+                  <span className="ml-2">Sending...</span>
+                </>
+              ) : (
+                'Send Sign-in Link'
+              )}
+            </button>
+          </div>
+        )}
 
         {/* Security Note */}
         <div className="mt-6 pt-6 border-t border-gray-100">
           <p className="text-xs text-gray-500 text-center">
-            This is a secure admin access point. Unauthorized access attempts are logged.
+            Admin accounts need both the emailed link and a code from their authenticator app.
           </p>
         </div>
       </div>
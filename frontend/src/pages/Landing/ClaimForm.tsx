@@ -47,6 +47,7 @@ const ClaimForm = ({
     country: '',
     state: '',
     termsAccepted: false,
+    marketingOptIn: false,
   });
 
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
@@ -260,6 +261,21 @@ const ClaimForm = ({
               {validationErrors.termsAccepted && (
                 <p className="text-red-500 text-sm mt-1">{validationErrors.termsAccepted}</p>
               )}
+              {/* Marketing opt-in, optional */}
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.marketingOptIn}
+                    onChange={handleChange('marketingOptIn')}
+                    disabled={loading}
+                  />
+                }
+                label={
+                  <span className="text-sm text-gray-600">
+                    Keep me informed about CSR26 news and campaigns by email (optional).
+                  </span>
+                }
+              />
             </div>
           </>
         )}
@@ -38,7 +38,7 @@ interface GeneralFormProps {
   };
   amount: number;
   onAmountChange: (amount: number) => void;
-  onSubmit: (data: LandingFormData) => Promise<void>;
+  onSubmit: (data: LandingFormData, walletToken?: string) => Promise<void>;
   loading: boolean;
   error: string | null;
 }
@@ -64,6 +64,7 @@ const GeneralForm = ({
     country: '',
     state: '',
     termsAccepted: false,
+    marketingOptIn: false,
     amount: amount,
   });
 
@@ -148,11 +149,11 @@ const GeneralForm = ({
 
   // Step 2: Payment successful - transaction already created by createPaymentIntent
   // Just show success, don't create another transaction
-  const handlePaymentSuccess = async (_transactionId: string) => {
+  const handlePaymentSuccess = async (_transactionId: string, walletToken?: string) => {
     try {
       // Transaction was already created by createPaymentIntent and confirmed by confirmPayment
       // Just register/update user data and show success
-      await onSubmit({ ...formData, amount });
+      await onSubmit({ ...formData, amount }, walletToken);
     } catch (err) {
       // Even if onSubmit fails, payment was successful
       console.warn('Post-payment user update failed:', err);
@@ -453,6 +454,21 @@ const GeneralForm = ({
             {validationErrors.termsAccepted && (
               <p className="text-red-500 text-sm mt-1">{validationErrors.termsAccepted}</p>
             )}
+            {/* Marketing opt-in, optional */}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.marketingOptIn}
+                  onChange={handleChange('marketingOptIn')}
+                  disabled={loading}
+                />
+              }
+              label={
+                <span className="text-sm text-gray-600">
+                  Keep me informed about CSR26 news and campaigns by email (optional).
+                </span>
+              }
+            />
           </div>
         )}
 
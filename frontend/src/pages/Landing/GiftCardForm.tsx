@@ -1,6 +1,7 @@
 // CSR26 Gift Card Form Component
 // For Case D: GIFT_CARD mode (physical card with secret code)
 // RULE: Always requires full form after code validation
+// The whole card balance is redeemed unless the user picks a smaller amount, the rest stays on the card
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import { useState } from 'react';
@@ -13,6 +14,7 @@ import MenuItem from '@mui/material/MenuItem';
 import CardGiftcardIcon from '@mui/icons-material/CardGiftcard';
 import type { LandingFormData, ValidateGiftCodeResponse } from '../../types';
 import { COUNTRIES } from '../../types';
+import { formatDate, formatEUR } from '../../utils/formatters';
 
 interface GiftCardFormProps {
   formType: 'minimal' | 'standard' | 'full';
@@ -24,6 +26,8 @@ interface GiftCardFormProps {
     displayValue: string;
     impactKg: number;
   };
+  amount: number;
+  onAmountChange: (amount: number) => void;
   giftCodeValidated: boolean;
   validatedGiftCode: ValidateGiftCodeResponse | null;
   onValidateCode: (code: string) => Promise<void>;
@@ -36,6 +40,8 @@ const GiftCardForm = ({
   formType: _formType, // Always uses full form after validation
   message: _message, // Passed for API consistency, display handled by parent
   impact,
+  amount,
+  onAmountChange,
   giftCodeValidated,
   validatedGiftCode,
   onValidateCode,
@@ -55,10 +61,15 @@ const GiftCardForm = ({
     country: '',
     state: '',
     termsAccepted: false,
+    marketingOptIn: false,
     giftCode: '',
   });
 
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  // Amount typed by the user, null = whole balance
+  const [redeemAmount, setRedeemAmount] = useState<string | null>(null);
+
+  const balance = validatedGiftCode?.amount ?? 0;
 
   const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setGiftCode(e.target.value.toUpperCase());
@@ -84,6 +95,18 @@ const GiftCardForm = ({
     }
   };
 
+  const handleRedeemAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setRedeemAmount(value);
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue) && numValue > 0) {
+      onAmountChange(numValue);
+    }
+    if (validationErrors.amount) {
+      setValidationErrors((prev) => ({ ...prev, amount: '' }));
+    }
+  };
+
   const validate = (): boolean => {
     const errors: Record<string, string> = {};
 
@@ -92,6 +115,14 @@ const GiftCardForm = ({
       errors.giftCode = 'Please validate your gift code first';
     }
 
+    // Part or all of the card balance
+    const numAmount = redeemAmount === null ? amount : parseFloat(redeemAmount);
+    if (isNaN(numAmount) || numAmount <= 0) {
+      errors.amount = 'Please enter an amount';
+    } else if (numAmount > balance) {
+      errors.amount = `Only ${formatEUR(balance)} is left on this card`;
+    }
+
     // Full form validation (always required for gift cards)
     if (!formData.email) {
       errors.email = 'Email is required';
@@ -194,6 +225,29 @@ const GiftCardForm = ({
         <p className="text-sm text-gray-500">of plastic removed</p>
       </div>
 
+      {/* Card balance */}
+      <div className="mb-6 space-y-2 animate-fade-up-fast">
+        <p className="text-sm text-gray-600">
+          Card balance: <span className="font-semibold">{formatEUR(balance)}</span>
+          {validatedGiftCode?.expiresAt && (
+            <span className="text-gray-500"> · valid until {formatDate(validatedGiftCode.expiresAt)}</span>
+          )}
+        </p>
+        <TextField
+          fullWidth
+          label="Amount to redeem (€)"
+          type="number"
+          value={redeemAmount ?? String(amount)}
+          onChange={handleRedeemAmountChange}
+          error={!!validationErrors.amount}
+          helperText={validationErrors.amount || 'Redeem part of the balance and keep the rest for later'}
+          disabled={loading}
+          slotProps={{
+            htmlInput: { min: 0.01, max: balance, step: 0.01 },
+          }}
+        />
+      </div>
+
       {/* Error Alert */}
       {error && (
         <Alert severity="error" className="mb-4">
@@ -347,6 +401,21 @@ const GiftCardForm = ({
           {validationErrors.termsAccepted && (
             <p className="text-red-500 text-sm mt-1">{validationErrors.termsAccepted}</p>
           )}
+          {/* Marketing opt-in, optional */}
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={formData.marketingOptIn}
+                onChange={handleChange('marketingOptIn')}
+                disabled={loading}
+              />
+            }
+            label={
+              <span className="text-sm text-gray-600">
+                Keep me informed about CSR26 news and campaigns by email (optional).
+              </span>
+            }
+          />
         </div>
 
         {/* Submit Button */}
@@ -37,7 +37,7 @@ interface PayFormProps {
   };
   amount: number;
   onAmountChange: (amount: number) => void;
-  onSubmit: (data: LandingFormData) => Promise<void>;
+  onSubmit: (data: LandingFormData, walletToken?: string) => Promise<void>;
   loading: boolean;
   error: string | null;
 }
@@ -63,6 +63,7 @@ const PayForm = ({
     country: '',
     state: '',
     termsAccepted: false,
+    marketingOptIn: false,
     amount: amount,
   });
 
@@ -152,11 +153,11 @@ const PayForm = ({
 
   // Step 2: Payment successful - transaction already created by createPaymentIntent
   // Just show success, don't create another transaction
-  const handlePaymentSuccess = async (_transactionId: string) => {
+  const handlePaymentSuccess = async (_transactionId: string, walletToken?: string) => {
     try {
       // Transaction was already created by createPaymentIntent and confirmed by confirmPayment
       // Just register/update user data and show success
-      await onSubmit({ ...formData, amount });
+      await onSubmit({ ...formData, amount }, walletToken);
     } catch (err) {
       // Even if onSubmit fails, payment was successful
       console.warn('Post-payment user update failed:', err);
@@ -437,6 +438,21 @@ const PayForm = ({
             {validationErrors.termsAccepted && (
               <p className="text-red-500 text-sm mt-1">{validationErrors.termsAccepted}</p>
             )}
+            {/* Marketing opt-in, optional */}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={formData.marketingOptIn}
+                  onChange={handleChange('marketingOptIn')}
+                  disabled={loading}
+                />
+              }
+              label={
+                <span className="text-sm text-gray-600">
+                  Keep me informed about CSR26 news and campaigns by email (optional).
+                </span>
+              }
+            />
           </div>
         )}
 
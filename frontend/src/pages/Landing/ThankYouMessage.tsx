@@ -1,9 +1,13 @@
 // CSR26 Thank You Message Component
 // Displays success message after form submission
+// Shows the updated wallet once it has loaded with the landing session token
+// Existing accounts get no wallet here, they are pointed to the sign-in link emailed to them
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
 import Button from '@mui/material/Button';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import type { WalletSummary } from '../../types';
+import { formatCurrency, formatWeightKg } from '../../utils/formatters';
 
 interface ThankYouMessageProps {
   message: {
@@ -14,10 +18,12 @@ interface ThankYouMessageProps {
     displayValue: string;
     impactKg: number;
   };
+  wallet?: WalletSummary | null;
+  signInLinkSent?: boolean;
   onViewPortfolio: () => void;
 }
 
-const ThankYouMessage = ({ message, impact, onViewPortfolio }: ThankYouMessageProps) => {
+const ThankYouMessage = ({ message, impact, wallet, signInLinkSent, onViewPortfolio }: ThankYouMessageProps) => {
   return (
     <div className="text-center py-8 animate-zoom-in-normal">
       {/* Success Icon */}
@@ -41,6 +47,41 @@ const ThankYouMessage = ({ message, impact, onViewPortfolio }: ThankYouMessagePr
         <p className="text-lg text-gray-700">of plastic from the environment</p>
       </div>
 
+      {/* Wallet */}
+      {wallet && (
+        <div className="grid grid-cols-3 gap-4 border border-gray-200 rounded-md py-4 px-4 mb-6">
+          <div>
+            <p className="text-xs text-gray-500">Balance</p>
+            <p className="text-lg font-semibold text-gray-800">{formatCurrency(wallet.balance)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Total impact</p>
+            <p className="text-lg font-semibold text-gray-800">{formatWeightKg(wallet.impactKg)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Contributions</p>
+            <p className="text-lg font-semibold text-gray-800">{wallet.transactionCount}</p>
+          </div>
+          {wallet.status === 'ACCUMULATION' && (
+            <div className="col-span-3">
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500" style={{ width: `${wallet.thresholdProgress}%` }} />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {Math.round(wallet.thresholdProgress)}% of the way to certification
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Sign-in link (existing account) */}
+      {!wallet && signInLinkSent && (
+        <p className="text-sm text-gray-600 bg-gray-50 rounded-md py-3 px-4 mb-6">
+          This email already has an account. Open the sign-in link we sent to it to see your portfolio.
+        </p>
+      )}
+
       {/* Message */}
       <p className="text-gray-600 mb-8 max-w-md mx-auto">
         {message.message}
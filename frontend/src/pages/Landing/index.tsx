@@ -9,6 +9,7 @@ import { fetchSkuByCode, clearCurrentSku } from '../../store/slices/skuSlice';
 import { registerUser } from '../../store/slices/authSlice';
 import { createTransaction } from '../../store/slices/transactionSlice';
 import { validateGiftCode } from '../../store/slices/giftCodeSlice';
+import { fetchLandingWallet } from '../../store/slices/walletSlice';
 import { useNavigation } from '../../hooks/useNavigation';
 import type { LandingParams, LandingFormData, LandingCase, PaymentMode } from '../../types';
 import {
@@ -44,9 +45,10 @@ const LandingPage = () => {
   const { pricePerKg, certificationThreshold, loading: settingsLoading } = useAppSelector(
     (state) => state.settings
   );
-  const { loading: authLoading, isAuthenticated } = useAppSelector((state) => state.auth);
+  const { loading: authLoading, isAuthenticated, magicLinkSent } = useAppSelector((state) => state.auth);
   const { loading: transactionLoading } = useAppSelector((state) => state.transaction);
   const { loading: giftCodeLoading, validationResult } = useAppSelector((state) => state.giftCode);
+  const { wallet } = useAppSelector((state) => state.wallet);
 
   // Local state
   const [submitted, setSubmitted] = useState(false);
@@ -65,8 +67,13 @@ const LandingPage = () => {
     email: searchParams.get('email') || undefined,
     weight: searchParams.get('weight') ? Number(searchParams.get('weight')) : undefined,
     multiplier: searchParams.get('multiplier') ? Number(searchParams.get('multiplier')) : undefined,
+    token: searchParams.get('token') || undefined,
   }), [searchParams]);
 
+  // Raw URL parameters with their signature (exp, sig)
+  // The server checks them for merchant-funded modes (CLAIM, ALLOCATION)
+  const signedLink = useMemo(() => Object.fromEntries(searchParams.entries()), [searchParams]);
+
   // Fetch SKU on mount if provided
   useEffect(() => {
     if (params.sku) {
@@ -156,6 +163,7 @@ const LandingPage = () => {
           partnerId: params.partner,
           weightGrams: params.weight,
           multiplier: params.multiplier || currentSku?.multiplier,
+          landing: signedLink,
           email: params.email,
           firstName: params.name?.split(' ')[0],
           lastName: params.name?.split(' ').slice(1).join(' '),
@@ -163,7 +171,10 @@ const LandingPage = () => {
 
         if (createTransaction.fulfilled.match(transactionResult)) {
           setSubmitted(true);
+          const { walletToken } = transactionResult.payload;
+          if (walletToken) dispatch(fetchLandingWallet(walletToken));
         } else {
+          setError(transactionResult.payload as string || 'Failed to process allocation');
           submittedRef.current = false; // Reset on error to allow retry
         }
       } catch (err) {
@@ -173,7 +184,7 @@ const LandingPage = () => {
     };
 
     createAllocationTransaction();
-  }, [landingCase, params, amount, currentSku, settingsLoading, submitted, dispatch]);
+  }, [landingCase, params, signedLink, amount, currentSku, settingsLoading, submitted, dispatch]);
 
   // Handle amount selection (for PAY and GENERAL cases)
   const handleAmountChange = (newAmount: number) => {
@@ -202,7 +213,8 @@ const LandingPage = () => {
   };
 
   // Handle form submission
-  const handleSubmit = async (formData: LandingFormData) => {
+  // walletToken comes from the payment intent for PAY, from the created transaction otherwise
+  const handleSubmit = async (formData: LandingFormData, walletToken?: string) => {
     setError(null);
 
     // Determine payment mode
@@ -227,6 +239,8 @@ const LandingPage = () => {
         postalCode: formData.postalCode,
         country: formData.country,
         state: formData.state,
+        termsAccepted: formData.termsAccepted,
+        marketingOptIn: formData.marketingOptIn,
       }));
 
       if (registerUser.rejected.match(registerResult)) {
@@ -239,6 +253,7 @@ const LandingPage = () => {
       if (paymentMode === 'PAY') {
         submittedRef.current = true;
         setSubmitted(true);
+        if (walletToken) dispatch(fetchLandingWallet(walletToken));
         return;
       }
 
@@ -252,6 +267,8 @@ const LandingPage = () => {
         partnerId: params.partner,
         weightGrams: params.weight || currentSku?.weightGrams || undefined,
         multiplier: params.multiplier || currentSku?.multiplier,
+        landing: signedLink,
+        claimToken: params.token,
         email: formData.email,
         firstName: formData.firstName,
         lastName: formData.lastName,
@@ -261,6 +278,8 @@ const LandingPage = () => {
         postalCode: formData.postalCode,
         country: formData.country,
         state: formData.state,
+        termsAccepted: formData.termsAccepted,
+        marketingOptIn: formData.marketingOptIn,
       };
 
       const transactionResult = await dispatch(createTransaction(transactionData));
@@ -273,6 +292,8 @@ const LandingPage = () => {
       // Success
       submittedRef.current = true;
       setSubmitted(true);
+      const createdWalletToken = transactionResult.payload.walletToken;
+      if (createdWalletToken) dispatch(fetchLandingWallet(createdWalletToken));
     } catch (err) {
       setError('An unexpected error occurred');
     }
@@ -288,7 +309,7 @@ const LandingPage = () => {
 
   // Render the appropriate form based on case
   const renderForm = () => {
-    // Case ADMIN: Admin login via secret code
+    // Case ADMIN: ADMIN-* links only show the admin sign-in form (magic link + authenticator code)
     if (landingCase === 'ADMIN') {
       return <AdminLoginForm skuCode={params.sku || 'ADMIN'} />;
     }
@@ -299,6 +320,8 @@ const LandingPage = () => {
         <ThankYouMessage
           message={message}
           impact={impact}
+          wallet={wallet}
+          signInLinkSent={magicLinkSent}
           onViewPortfolio={handleViewPortfolio}
         />
       );
@@ -354,6 +377,8 @@ const LandingPage = () => {
           formType={formType}
           message={message}
           impact={impact}
+          amount={amount}
+          onAmountChange={handleAmountChange}
           giftCodeValidated={giftCodeValidated}
           validatedGiftCode={validationResult}
           onValidateCode={handleGiftCodeValidate}
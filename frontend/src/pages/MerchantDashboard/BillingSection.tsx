@@ -5,40 +5,48 @@
 import { useState } from 'react';
 import Button from '@mui/material/Button';
 import Alert from '@mui/material/Alert';
-import type { MerchantBillingInfo } from '../../types';
+import type { Invoice, InvoicePaymentState, MerchantBillingInfo } from '../../types';
 import { formatEUR, formatDate } from '../../utils/formatters';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import InvoicePaymentModal from './InvoicePaymentModal';
 
 interface BillingSectionProps {
   billing: MerchantBillingInfo;
-  onPayNow?: (amount: number) => void;
+  merchantId?: string;
+  // Members pay their own invoices; admins mark invoices paid from the admin panel
+  canPay?: boolean;
+  onInvoicePaid?: () => void;
 }
 
-const BillingSection = ({ billing, onPayNow }: BillingSectionProps) => {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [paymentStatus, setPaymentStatus] = useState<'idle' | 'success' | 'error'>('idle');
-
-  const handlePayNow = async () => {
-    setIsProcessing(true);
-    setPaymentStatus('idle');
-
-    try {
-      // In production, this would integrate with Stripe
-      // For now, show a message that payment processing will be available
-      if (onPayNow) {
-        onPayNow(billing.currentBalance);
-      }
-
-      // Simulate processing
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Show informational message
-      setPaymentStatus('success');
-    } catch {
-      setPaymentStatus('error');
-    } finally {
-      setIsProcessing(false);
+const getInvoiceStatus = (invoice: Invoice): { label: string; className: string } => {
+  if (invoice.paid) return { label: 'Paid', className: 'bg-green-100 text-green-800' };
+  if (invoice.paymentProcessingAt) return { label: 'Processing', className: 'bg-blue-100 text-blue-800' };
+  if (invoice.paymentError) return { label: 'Payment failed', className: 'bg-red-100 text-red-800' };
+  return { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' };
+};
+
+const BillingSection = ({ billing, merchantId, canPay = false, onInvoicePaid }: BillingSectionProps) => {
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [paymentState, setPaymentState] = useState<InvoicePaymentState | null>(null);
+
+  // Oldest first, so the button pays what has been due longest
+  const openInvoices = billing.invoices
+    .filter((invoice) => !invoice.paid && !invoice.paymentProcessingAt)
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+  const outstanding = openInvoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+
+  // Token in the URL, so the browser downloads the PDF directly
+  const handleDownload = (invoice: Invoice) => {
+    window.open(merchantSelfServiceApi.getMyInvoicePdfUrl(invoice.id, merchantId), '_blank');
+  };
+
+  const handlePaid = (state: InvoicePaymentState) => {
+    setPaymentState(state);
+    if (onInvoicePaid) {
+      onInvoicePaid();
     }
   };
+
   return (
     <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
       {/* Header */}
@@ -91,34 +99,40 @@ const BillingSection = ({ billing, onPayNow }: BillingSectionProps) => {
         </div>
 
         {/* Payment Status Alerts */}
-        {paymentStatus === 'success' && (
-          <Alert severity="info" className="mt-6" onClose={() => setPaymentStatus('idle')}>
-            Payment processing will be available soon. Your accumulated balance of {formatEUR(billing.currentBalance)} will be charged automatically on the next billing date, or you can contact support for manual processing.
+        {(paymentState === 'PAID' || paymentState === 'PENDING') && (
+          <Alert severity="success" className="mt-6" onClose={() => setPaymentState(null)}>
+            Thank you, your payment was received. The invoice will show as paid once Stripe confirms it.
           </Alert>
         )}
-        {paymentStatus === 'error' && (
-          <Alert severity="error" className="mt-6" onClose={() => setPaymentStatus('idle')}>
+        {paymentState === 'PROCESSING' && (
+          <Alert severity="info" className="mt-6" onClose={() => setPaymentState(null)}>
+            Your payment is being processed. SEPA Direct Debits take a few business days to clear.
+          </Alert>
+        )}
+        {paymentState === 'FAILED' && (
+          <Alert severity="error" className="mt-6" onClose={() => setPaymentState(null)}>
             Payment processing failed. Please try again or contact support.
           </Alert>
         )}
 
-        {/* Pay Early Option */}
-        {billing.currentBalance >= 10 && (
+        {/* Open Invoices */}
+        {canPay && openInvoices.length > 0 && (
           <div className="mt-6 p-4 bg-blue-50 rounded-md flex flex-col sm:flex-row sm:items-center justify-between gap-3">
             <div>
-              <p className="text-sm font-medium text-blue-800">Pay Now Option</p>
+              <p className="text-sm font-medium text-blue-800">
+                {openInvoices.length} open invoice{openInvoices.length !== 1 ? 's' : ''} • {formatEUR(outstanding)} due
+              </p>
               <p className="text-xs text-blue-600 mt-1">
-                Your balance has reached the minimum threshold. You can pay now if you prefer.
+                Pay by card or SEPA Direct Debit.
               </p>
             </div>
             <Button
               variant="contained"
               size="small"
-              onClick={handlePayNow}
-              disabled={isProcessing}
+              onClick={() => setPayingInvoice(openInvoices[0] ?? null)}
               sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
             >
-              {isProcessing ? 'Processing...' : `Pay ${formatEUR(billing.currentBalance)}`}
+              Pay {formatEUR(openInvoices[0]?.amount ?? 0)}
             </Button>
           </div>
         )}
@@ -169,25 +183,49 @@ const BillingSection = ({ billing, onPayNow }: BillingSectionProps) => {
                 >
                   <div>
                     <p className="text-sm font-medium text-gray-800">
+                      {invoice.number && <span className="font-mono mr-2">{invoice.number}</span>}
                       {formatDate(invoice.periodStart)} - {formatDate(invoice.periodEnd)}
                     </p>
                     <p className="text-xs text-gray-500">
                       {invoice.transactionCount} transactions • {invoice.totalImpactKg.toFixed(2)} kg impact
+                      {invoice.vatAmount !== null && invoice.vatTreatment === 'DOMESTIC' && (
+                        <> • incl. {formatEUR(invoice.vatAmount)} VAT</>
+                      )}
+                      {invoice.vatTreatment === 'REVERSE_CHARGE' && <> • VAT reverse charge</>}
                     </p>
                   </div>
-                  <div className="text-right">
-                    <p className="text-sm font-medium text-gray-800">
-                      {formatEUR(invoice.amount)}
-                    </p>
-                    <span
-                      className={`text-xs px-2 py-0.5 rounded-md ${
-                        invoice.paid
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}
-                    >
-                      {invoice.paid ? 'Paid' : 'Pending'}
-                    </span>
+                  <div className="flex items-center gap-3">
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-gray-800">
+                        {formatEUR(invoice.amount)}
+                      </p>
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-md ${getInvoiceStatus(invoice).className}`}
+                        title={invoice.paymentError ?? undefined}
+                      >
+                        {getInvoiceStatus(invoice).label}
+                      </span>
+                    </div>
+                    {invoice.number && (
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => handleDownload(invoice)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        PDF
+                      </Button>
+                    )}
+                    {canPay && !invoice.paid && !invoice.paymentProcessingAt && (
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        onClick={() => setPayingInvoice(invoice)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        Pay
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -195,6 +233,15 @@ const BillingSection = ({ billing, onPayNow }: BillingSectionProps) => {
           </div>
         )}
       </div>
+
+      {/* Invoice Payment */}
+      <InvoicePaymentModal
+        open={payingInvoice !== null}
+        invoice={payingInvoice}
+        merchantId={merchantId}
+        onClose={() => setPayingInvoice(null)}
+        onPaid={handlePaid}
+      />
     </div>
   );
 };
@@ -0,0 +1,269 @@
+// CSR26 Merchant Claim Token Batches Component
+// Single-use / N-use claim tokens for the printed QR codes of CLAIM products
+// A shared photo of a token QR code can only be claimed as many times as the token allows
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useCallback, useEffect, useState } from 'react';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import type { ClaimTokenBatchSummary, Sku } from '../../types';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Switch from '@mui/material/Switch';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+
+interface ClaimTokenBatchesProps {
+  merchantId: string;
+  // Approved, active CLAIM products
+  skus: Sku[];
+  // Owners generate batches and download tokens, other roles only see redemption counts
+  canManage: boolean;
+  onSkuChange: (sku: Sku) => void;
+}
+
+interface BatchForm {
+  skuCode: string;
+  quantity: string;
+  maxUses: string;
+  expiresInDays: string;
+}
+
+const emptyForm: BatchForm = {
+  skuCode: '',
+  quantity: '1000',
+  maxUses: '1',
+  expiresInDays: '',
+};
+
+const ClaimTokenBatches = ({ merchantId, skus, canManage, onSkuChange }: ClaimTokenBatchesProps) => {
+  const [batches, setBatches] = useState<ClaimTokenBatchSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [form, setForm] = useState<BatchForm>(emptyForm);
+  const [creating, setCreating] = useState(false);
+
+  const fetchBatches = useCallback(async () => {
+    if (!merchantId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await merchantSelfServiceApi.getMyClaimTokenBatches(merchantId);
+      setBatches(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [merchantId]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const handleCreateBatch = async () => {
+    if (!form.skuCode || !form.quantity) return;
+    setCreating(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await merchantSelfServiceApi.createMyClaimTokenBatch({
+        skuCode: form.skuCode,
+        quantity: parseInt(form.quantity),
+        maxUses: form.maxUses ? parseInt(form.maxUses) : undefined,
+        expiresInDays: form.expiresInDays ? parseInt(form.expiresInDays) : undefined,
+      }, merchantId);
+      setSuccess(`${response.data.data.quantity} tokens generated for ${response.data.data.skuCode}. Download the CSV for your print run.`);
+      setForm(emptyForm);
+      fetchBatches();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Static QR links stop working for the product while tokens are required
+  const handleToggleRequired = async (sku: Sku) => {
+    setError(null);
+
+    try {
+      const response = await merchantSelfServiceApi.setMySkuClaimTokenRequired(sku.code, !sku.claimTokenRequired, merchantId);
+      onSkuChange(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDownloadCsv = (batch: ClaimTokenBatchSummary) => {
+    window.open(merchantSelfServiceApi.getClaimTokenBatchCsvUrl(batch.id, merchantId), '_blank');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Claim Tokens</h4>
+        <p className="text-xs text-gray-500">
+          Each printed QR code carries its own token, so a shared photo can only be claimed as many times as the token allows.
+        </p>
+      </div>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Tokens-only products */}
+      {canManage && skus.length > 0 && (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {skus.map((sku) => (
+            <div key={sku.code} className="px-4 py-2 flex items-center justify-between gap-2">
+              <div>
+                <p className="text-sm text-gray-800">{sku.name}</p>
+                <p className="text-xs text-gray-500 font-mono">{sku.code}</p>
+              </div>
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                Only accept claim tokens
+                <Switch
+                  size="small"
+                  checked={sku.claimTokenRequired}
+                  onChange={() => handleToggleRequired(sku)}
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Batch */}
+      {canManage && (
+        <div className="bg-gray-50 rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <FormControl size="small" fullWidth>
+              <InputLabel>Product</InputLabel>
+              <Select
+                value={form.skuCode}
+                onChange={(e) => setForm({ ...form, skuCode: e.target.value })}
+                label="Product"
+              >
+                {skus.map((sku) => (
+                  <MenuItem key={sku.code} value={sku.code}>{sku.code} - {sku.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Tokens"
+              type="number"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              size="small"
+              helperText="One per printed pack"
+              fullWidth
+            />
+            <TextField
+              label="Uses per token"
+              type="number"
+              value={form.maxUses}
+              onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+              size="small"
+              helperText="1 = single-use"
+              fullWidth
+            />
+            <TextField
+              label="Expires in (days)"
+              type="number"
+              value={form.expiresInDays}
+              onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+              size="small"
+              helperText="Leave empty for no expiry"
+              fullWidth
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              variant="contained"
+              onClick={handleCreateBatch}
+              disabled={creating || !form.skuCode || !form.quantity}
+              sx={{ textTransform: 'none' }}
+            >
+              {creating ? 'Generating...' : 'Generate Tokens'}
+            </Button>
+          </div>
+          {skus.length === 0 && (
+            <p className="text-xs text-gray-500">Claim tokens are available for approved, active CLAIM products.</p>
+          )}
+        </div>
+      )}
+
+      {/* Batches */}
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <CircularProgress size={24} />
+        </div>
+      ) : batches.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Created</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Product</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Tokens</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Uses</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Issued</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Redeemed</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Expired</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Expires</th>
+                {canManage && <th className="px-4 py-2 text-right font-medium text-gray-600">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {batches.map((batch) => (
+                <tr key={batch.id}>
+                  <td className="px-4 py-2 text-gray-600">{new Date(batch.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-gray-800">
+                    {batch.skuName}
+                    <div className="text-xs text-gray-500 font-mono">{batch.skuCode}</div>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-600">{batch.quantity}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{batch.maxUses}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{batch.counts.ISSUED}</td>
+                  <td className="px-4 py-2 text-right text-green-700">{batch.counts.REDEEMED}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">{batch.counts.EXPIRED}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {batch.expiresAt ? new Date(batch.expiresAt).toLocaleDateString() : 'Never'}
+                  </td>
+                  {canManage && (
+                    <td className="px-4 py-2 text-right">
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => handleDownloadCsv(batch)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        CSV
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClaimTokenBatches;
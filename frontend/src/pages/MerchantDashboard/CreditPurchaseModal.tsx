@@ -0,0 +1,285 @@
+// CSR26 Credit Purchase Modal
+// Modal for buying a prepaid credit pack by card or SEPA debit
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+// DATA FLOW: Open → Create purchase + payment intent → Stripe form → Confirm → Sync purchase (webhook also adds the credit)
+
+import { useState, useEffect } from 'react';
+import { loadStripe } from '@stripe/stripe-js';
+import {
+  Elements,
+  PaymentElement,
+  useStripe,
+  useElements,
+} from '@stripe/react-stripe-js';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import { formatEUR, formatCreditPack } from '../../utils/formatters';
+import type { CreditPackOffer, CreditPurchaseStatus } from '../../types';
+
+// Initialize Stripe with public key from env
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || '');
+
+interface CreditPurchaseFormProps {
+  clientSecret: string;
+  purchaseId: string;
+  pack: CreditPackOffer;
+  merchantId?: string;
+  onComplete: (status: CreditPurchaseStatus) => void;
+}
+
+// Inner form component that uses Stripe hooks
+const CreditPurchaseForm = ({ clientSecret, purchaseId, pack, merchantId, onComplete }: CreditPurchaseFormProps) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const { error: submitError } = await elements.submit();
+      if (submitError) {
+        setError(submitError.message || 'Payment validation failed');
+        setProcessing(false);
+        return;
+      }
+
+      const { error: confirmError, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        clientSecret,
+        confirmParams: {
+          return_url: `${window.location.origin}/merchant`,
+        },
+        redirect: 'if_required',
+      });
+
+      if (confirmError) {
+        setError(confirmError.message || 'Payment failed');
+      } else if (paymentIntent && (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing')) {
+        // Add the credit now rather than waiting for the webhook
+        try {
+          const response = await merchantSelfServiceApi.confirmCreditPurchase(purchaseId, merchantId);
+          onComplete(response.data.data.status);
+        } catch {
+          // The webhook adds the credit anyway
+          onComplete(paymentIntent.status === 'succeeded' ? 'PAID' : 'PROCESSING');
+        }
+      } else if (paymentIntent && paymentIntent.status === 'requires_action') {
+        setError('Additional authentication required. Please complete the verification.');
+      } else {
+        setError('Payment processing. Please wait...');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert severity="error" className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
+        <PaymentElement
+          options={{
+            layout: 'tabs',
+          }}
+        />
+      </div>
+
+      <Button
+        onClick={handleSubmit}
+        variant="contained"
+        fullWidth
+        size="large"
+        disabled={!stripe || !elements || processing}
+        sx={{
+          py: 1.5,
+          textTransform: 'none',
+          fontSize: '1rem',
+        }}
+      >
+        {processing ? (
+          <div className="flex items-center gap-2">
+            <CircularProgress size={20} color="inherit" />
+            <span>Processing Payment...</span>
+          </div>
+        ) : (
+          `Pay ${formatEUR(pack.amount)}`
+        )}
+      </Button>
+
+      <p className="text-xs text-gray-500 text-center mt-2">
+        Pay by card or SEPA Direct Debit. SEPA credit is added once the debit clears, after a few business days.
+      </p>
+    </div>
+  );
+};
+
+interface CreditPurchaseModalProps {
+  open: boolean;
+  pack: CreditPackOffer | null;
+  merchantId?: string;
+  onClose: () => void;
+  onPurchased: (status: CreditPurchaseStatus) => void;
+}
+
+const CreditPurchaseModal = ({
+  open,
+  pack,
+  merchantId,
+  onClose,
+  onPurchased,
+}: CreditPurchaseModalProps) => {
+  const [payment, setPayment] = useState<{ clientSecret: string; purchaseId: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start the purchase when the modal opens
+  useEffect(() => {
+    const startPurchase = async () => {
+      if (!pack || !open) return;
+
+      setLoading(true);
+      setError(null);
+      setPayment(null);
+
+      try {
+        const response = await merchantSelfServiceApi.buyCreditPack(pack.id, merchantId);
+        const { clientSecret, purchase } = response.data.data;
+        setPayment({ clientSecret, purchaseId: purchase.id });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to initialize payment');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    startPurchase();
+  }, [pack, open, merchantId]);
+
+  const handleComplete = (status: CreditPurchaseStatus) => {
+    onPurchased(status);
+    onClose();
+  };
+
+  if (!pack) return null;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: '8px' },
+      }}
+    >
+      <DialogTitle>
+        <div className="flex items-center justify-between">
+          <span className="text-xl font-semibold text-gray-800">
+            Buy Prepaid Credit
+          </span>
+          <IconButton
+            onClick={onClose}
+            size="small"
+            sx={{ color: 'gray' }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </IconButton>
+        </div>
+      </DialogTitle>
+
+      <DialogContent>
+        {/* Pack Summary */}
+        <div className="mb-6 p-4 bg-teal-50 rounded-md border border-teal-100">
+          <h4 className="text-sm font-medium text-teal-800 mb-3">{formatCreditPack(pack)}</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-teal-600">Credit</p>
+              <p className="text-lg font-bold text-teal-900">{formatEUR(pack.creditAmount)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-teal-600">Total</p>
+              <p className="text-lg font-bold text-teal-900">{formatEUR(pack.amount)}</p>
+            </div>
+          </div>
+          <p className="text-xs text-teal-600 mt-3">
+            {pack.vatAmount > 0 ? `Incl. ${formatEUR(pack.vatAmount)} VAT` : 'No VAT charged'} • Claims of your
+            products draw on the credit before anything is invoiced
+          </p>
+        </div>
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex flex-col items-center justify-center py-8">
+            <CircularProgress size={40} />
+            <p className="mt-4 text-gray-600">Initializing secure payment...</p>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && !loading && (
+          <div className="space-y-4">
+            <Alert severity="error">{error}</Alert>
+            <Button
+              onClick={onClose}
+              variant="outlined"
+              fullWidth
+              sx={{ textTransform: 'none' }}
+            >
+              Close
+            </Button>
+          </div>
+        )}
+
+        {/* Payment Form */}
+        {payment && !loading && !error && (
+          <Elements
+            key={payment.clientSecret}
+            stripe={stripePromise}
+            options={{
+              clientSecret: payment.clientSecret,
+              appearance: {
+                theme: 'stripe',
+                variables: {
+                  colorPrimary: '#1976d2',
+                  borderRadius: '6px',
+                },
+              },
+            }}
+          >
+            <CreditPurchaseForm
+              clientSecret={payment.clientSecret}
+              purchaseId={payment.purchaseId}
+              pack={pack}
+              merchantId={merchantId}
+              onComplete={handleComplete}
+            />
+          </Elements>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditPurchaseModal;
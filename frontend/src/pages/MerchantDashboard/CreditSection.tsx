@@ -0,0 +1,309 @@
+// CSR26 Merchant Credit Section Component
+// Prepaid credit: balance, credit packs, spending cap and low credit alert, recent movements
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+// DATA FLOW: Mount → getMyCredit → UI; buy → CreditPurchaseModal → refetch; save settings → updateMyCreditSettings
+
+import { useCallback, useEffect, useState } from 'react';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import { formatEUR, formatWeightKg, formatDateTime, formatCreditPack } from '../../utils/formatters';
+import type {
+  CreditExhaustedAction,
+  CreditPackOffer,
+  CreditPurchaseStatus,
+  MerchantCreditOverview,
+  MerchantCreditReason,
+} from '../../types';
+import CreditPurchaseModal from './CreditPurchaseModal';
+
+interface CreditSectionProps {
+  merchantId?: string;
+  // Called when the balance or settings changed, to refresh the billing summary
+  onCreditChanged?: () => void;
+}
+
+const REASON_LABELS: Record<MerchantCreditReason, string> = {
+  PURCHASE: 'Credit pack',
+  USAGE: 'Claim',
+  REVERSAL: 'Claim reversed',
+  ADJUSTMENT: 'Adjustment',
+};
+
+// Empty field = no threshold / no cap
+const toAmountOrNull = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const CreditSection = ({ merchantId, onCreditChanged }: CreditSectionProps) => {
+  const [credit, setCredit] = useState<MerchantCreditOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [buyingPack, setBuyingPack] = useState<CreditPackOffer | null>(null);
+  const [purchaseStatus, setPurchaseStatus] = useState<CreditPurchaseStatus | null>(null);
+
+  // Settings form
+  const [exhaustedAction, setExhaustedAction] = useState<CreditExhaustedAction>('BILL');
+  const [threshold, setThreshold] = useState('');
+  const [spendingCap, setSpendingCap] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const fetchCredit = useCallback(async () => {
+    setError(null);
+
+    try {
+      const response = await merchantSelfServiceApi.getMyCredit(merchantId);
+      const overview = response.data.data;
+      setCredit(overview);
+      setExhaustedAction(overview.status.creditExhaustedAction);
+      setThreshold(overview.status.lowCreditThreshold?.toString() ?? '');
+      setSpendingCap(overview.status.monthlySpendingCap?.toString() ?? '');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [merchantId]);
+
+  useEffect(() => {
+    fetchCredit();
+  }, [fetchCredit]);
+
+  const handlePurchased = (status: CreditPurchaseStatus) => {
+    setPurchaseStatus(status);
+    fetchCredit();
+    onCreditChanged?.();
+  };
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      await merchantSelfServiceApi.updateMyCreditSettings(
+        {
+          creditExhaustedAction: exhaustedAction,
+          lowCreditThreshold: toAmountOrNull(threshold),
+          monthlySpendingCap: toAmountOrNull(spendingCap),
+        },
+        merchantId
+      );
+      setSaved(true);
+      fetchCredit();
+      onCreditChanged?.();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-md border border-gray-200 p-6 flex justify-center">
+        <CircularProgress size={32} />
+      </div>
+    );
+  }
+
+  const status = credit?.status;
+  const pendingPurchases = credit?.purchases.filter((p) => p.status === 'PENDING' || p.status === 'PROCESSING') ?? [];
+
+  return (
+    <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">Prepaid Credit</h3>
+        <p className="text-sm text-gray-500">
+          Claims of your products are paid from your credit first, anything beyond it is invoiced monthly
+        </p>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <Alert severity="error" className="mb-6" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {status && (
+          <>
+            {/* Credit Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-gray-50 rounded-md p-4">
+                <p className="text-sm text-gray-500 mb-1">Remaining Credit</p>
+                <p className="text-2xl font-bold text-gray-800">{formatEUR(status.creditBalance)}</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  About {formatWeightKg(status.creditKg)} at {formatEUR(status.pricePerKg)}/kg
+                </p>
+              </div>
+
+              <div className="bg-gray-50 rounded-md p-4">
+                <p className="text-sm text-gray-500 mb-1">Spent This Month</p>
+                <p className="text-2xl font-bold text-gray-800">{formatEUR(status.monthSpend)}</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {status.monthlySpendingCap !== null
+                    ? `of a ${formatEUR(status.monthlySpendingCap)} monthly cap`
+                    : 'No monthly cap'}
+                </p>
+              </div>
+
+              <div className="bg-gray-50 rounded-md p-4">
+                <p className="text-sm text-gray-500 mb-1">When Credit Runs Out</p>
+                <p className="text-2xl font-bold text-gray-800">
+                  {status.creditExhaustedAction === 'PAUSE' ? 'Pause claims' : 'Invoice'}
+                </p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {status.lowCreditThreshold !== null
+                    ? `Email alert below ${formatEUR(status.lowCreditThreshold)}`
+                    : 'No low credit alert'}
+                </p>
+              </div>
+            </div>
+
+            {/* Paused Claims */}
+            {status.paused && (
+              <Alert severity="warning" className="mt-6">
+                {status.pausedReason}: customers can&apos;t claim your products until you buy credit or raise your cap.
+              </Alert>
+            )}
+          </>
+        )}
+
+        {/* Purchase Status Alerts */}
+        {purchaseStatus === 'PAID' && (
+          <Alert severity="success" className="mt-6" onClose={() => setPurchaseStatus(null)}>
+            Thank you, your credit has been added.
+          </Alert>
+        )}
+        {(purchaseStatus === 'PROCESSING' || purchaseStatus === 'PENDING') && (
+          <Alert severity="info" className="mt-6" onClose={() => setPurchaseStatus(null)}>
+            Your payment is being processed. The credit is added once it clears.
+          </Alert>
+        )}
+        {purchaseStatus === 'FAILED' && (
+          <Alert severity="error" className="mt-6" onClose={() => setPurchaseStatus(null)}>
+            Payment processing failed. Please try again or contact support.
+          </Alert>
+        )}
+        {pendingPurchases.some((p) => p.status === 'PROCESSING') && (
+          <p className="text-xs text-blue-600 mt-4">
+            {pendingPurchases.filter((p) => p.status === 'PROCESSING').map((p) => formatCreditPack(p)).join(', ')} awaiting
+            payment clearance.
+          </p>
+        )}
+
+        {/* Credit Packs */}
+        {credit && credit.packs.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-gray-100">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Buy Credit</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+              {credit.packs.map((pack) => (
+                <button
+                  key={pack.id}
+                  onClick={() => setBuyingPack(pack)}
+                  className="bg-gray-50 rounded-md border border-gray-200 p-3 text-left hover:border-teal-300 hover:shadow-sm transition-all"
+                >
+                  <p className="text-sm font-semibold text-gray-800">{formatCreditPack(pack)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {pack.unit === 'KG' ? `${formatEUR(pack.creditAmount)} credit` : `about ${formatWeightKg(pack.creditAmount / (status?.pricePerKg || 1))}`}
+                  </p>
+                  <p className="text-sm text-teal-700 font-medium mt-2">{formatEUR(pack.amount)}</p>
+                  {pack.vatAmount > 0 && <p className="text-xs text-gray-400">incl. VAT</p>}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Settings */}
+        <div className="mt-6 pt-6 border-t border-gray-100">
+          <h4 className="text-sm font-medium text-gray-700 mb-3">Spending Controls</h4>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-start">
+            <FormControl size="small" fullWidth>
+              <InputLabel>When credit runs out</InputLabel>
+              <Select
+                value={exhaustedAction}
+                label="When credit runs out"
+                onChange={(e) => setExhaustedAction(e.target.value as CreditExhaustedAction)}
+              >
+                <MenuItem value="BILL">Invoice the rest monthly</MenuItem>
+                <MenuItem value="PAUSE">Pause claims</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Low credit alert below (€)"
+              type="number"
+              size="small"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              helperText="Empty for no alert"
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+            />
+            <TextField
+              label="Monthly spending cap (€)"
+              type="number"
+              size="small"
+              value={spendingCap}
+              onChange={(e) => setSpendingCap(e.target.value)}
+              helperText="Claims pause once reached"
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+            />
+            <Button
+              variant="outlined"
+              onClick={handleSaveSettings}
+              disabled={saving}
+              sx={{ textTransform: 'none', height: 40 }}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+          {saved && <p className="text-xs text-green-600 mt-2">Spending controls saved.</p>}
+        </div>
+
+        {/* Recent Movements */}
+        {credit && credit.entries.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-gray-100">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Recent Movements</h4>
+            <div className="space-y-2">
+              {credit.entries.slice(0, 10).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">{REASON_LABELS[entry.reason]}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDateTime(entry.createdAt)}
+                      {entry.note && <> • {entry.note}</>}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-sm font-medium ${entry.amount < 0 ? 'text-gray-800' : 'text-green-700'}`}>
+                      {entry.amount > 0 ? '+' : ''}{formatEUR(entry.amount)}
+                    </p>
+                    <p className="text-xs text-gray-500">Balance {formatEUR(entry.balanceAfter)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Credit Purchase */}
+      <CreditPurchaseModal
+        open={buyingPack !== null}
+        pack={buyingPack}
+        merchantId={merchantId}
+        onClose={() => setBuyingPack(null)}
+        onPurchased={handlePurchased}
+      />
+    </div>
+  );
+};
+
+export default CreditSection;
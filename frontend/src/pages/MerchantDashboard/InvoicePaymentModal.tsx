@@ -0,0 +1,283 @@
+// CSR26 Invoice Payment Modal
+// Modal for paying an open invoice by card or SEPA debit
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+// DATA FLOW: Open → Create/resume payment intent → Stripe form → Confirm → Sync invoice (webhook also reconciles)
+
+import { useState, useEffect } from 'react';
+import { loadStripe } from '@stripe/stripe-js';
+import {
+  Elements,
+  PaymentElement,
+  useStripe,
+  useElements,
+} from '@stripe/react-stripe-js';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import { formatEUR, formatDate } from '../../utils/formatters';
+import type { Invoice, InvoicePaymentState } from '../../types';
+
+// Initialize Stripe with public key from env
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || '');
+
+interface InvoicePaymentFormProps {
+  clientSecret: string;
+  invoice: Invoice;
+  merchantId?: string;
+  onComplete: (state: InvoicePaymentState) => void;
+}
+
+// Inner form component that uses Stripe hooks
+const InvoicePaymentForm = ({ clientSecret, invoice, merchantId, onComplete }: InvoicePaymentFormProps) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const { error: submitError } = await elements.submit();
+      if (submitError) {
+        setError(submitError.message || 'Payment validation failed');
+        setProcessing(false);
+        return;
+      }
+
+      const { error: confirmError, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        clientSecret,
+        confirmParams: {
+          return_url: `${window.location.origin}/merchant`,
+        },
+        redirect: 'if_required',
+      });
+
+      if (confirmError) {
+        setError(confirmError.message || 'Payment failed');
+      } else if (paymentIntent && (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing')) {
+        // Sync the invoice now rather than waiting for the webhook
+        try {
+          const response = await merchantSelfServiceApi.confirmMyInvoicePayment(invoice.id, merchantId);
+          onComplete(response.data.data.state);
+        } catch {
+          // The webhook reconciles the invoice anyway
+          onComplete(paymentIntent.status === 'succeeded' ? 'PAID' : 'PROCESSING');
+        }
+      } else if (paymentIntent && paymentIntent.status === 'requires_action') {
+        setError('Additional authentication required. Please complete the verification.');
+      } else {
+        setError('Payment processing. Please wait...');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert severity="error" className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
+        <PaymentElement
+          options={{
+            layout: 'tabs',
+          }}
+        />
+      </div>
+
+      <Button
+        onClick={handleSubmit}
+        variant="contained"
+        fullWidth
+        size="large"
+        disabled={!stripe || !elements || processing}
+        sx={{
+          py: 1.5,
+          textTransform: 'none',
+          fontSize: '1rem',
+        }}
+      >
+        {processing ? (
+          <div className="flex items-center gap-2">
+            <CircularProgress size={20} color="inherit" />
+            <span>Processing Payment...</span>
+          </div>
+        ) : (
+          `Pay ${formatEUR(invoice.amount)}`
+        )}
+      </Button>
+
+      <p className="text-xs text-gray-500 text-center mt-2">
+        Pay by card or SEPA Direct Debit. SEPA payments take a few business days to clear.
+      </p>
+    </div>
+  );
+};
+
+interface InvoicePaymentModalProps {
+  open: boolean;
+  invoice: Invoice | null;
+  merchantId?: string;
+  onClose: () => void;
+  onPaid: (state: InvoicePaymentState) => void;
+}
+
+const InvoicePaymentModal = ({
+  open,
+  invoice,
+  merchantId,
+  onClose,
+  onPaid,
+}: InvoicePaymentModalProps) => {
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create or resume the invoice's payment intent when the modal opens
+  useEffect(() => {
+    const fetchPaymentIntent = async () => {
+      if (!invoice || !open) return;
+
+      setLoading(true);
+      setError(null);
+      setClientSecret(null);
+
+      try {
+        const response = await merchantSelfServiceApi.payMyInvoice(invoice.id, merchantId);
+        setClientSecret(response.data.data.clientSecret);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to initialize payment');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPaymentIntent();
+  }, [invoice, open, merchantId]);
+
+  const handleComplete = (state: InvoicePaymentState) => {
+    onPaid(state);
+    onClose();
+  };
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: '8px' },
+      }}
+    >
+      <DialogTitle>
+        <div className="flex items-center justify-between">
+          <span className="text-xl font-semibold text-gray-800">
+            Pay Invoice
+          </span>
+          <IconButton
+            onClick={onClose}
+            size="small"
+            sx={{ color: 'gray' }}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </IconButton>
+        </div>
+      </DialogTitle>
+
+      <DialogContent>
+        {/* Invoice Summary */}
+        <div className="mb-6 p-4 bg-blue-50 rounded-md border border-blue-100">
+          <h4 className="text-sm font-medium text-blue-800 mb-3">Invoice Details</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-blue-600">Amount</p>
+              <p className="text-lg font-bold text-blue-900">{formatEUR(invoice.amount)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-blue-600">Period</p>
+              <p className="text-sm font-medium text-blue-900">
+                {formatDate(invoice.periodStart)} - {formatDate(invoice.periodEnd)}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-blue-600 mt-3">
+            {invoice.transactionCount} transactions • {invoice.totalImpactKg.toFixed(2)} kg impact
+          </p>
+        </div>
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex flex-col items-center justify-center py-8">
+            <CircularProgress size={40} />
+            <p className="mt-4 text-gray-600">Initializing secure payment...</p>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && !loading && (
+          <div className="space-y-4">
+            <Alert severity="error">{error}</Alert>
+            <Button
+              onClick={onClose}
+              variant="outlined"
+              fullWidth
+              sx={{ textTransform: 'none' }}
+            >
+              Close
+            </Button>
+          </div>
+        )}
+
+        {/* Payment Form */}
+        {clientSecret && !loading && !error && (
+          <Elements
+            key={clientSecret}
+            stripe={stripePromise}
+            options={{
+              clientSecret,
+              appearance: {
+                theme: 'stripe',
+                variables: {
+                  colorPrimary: '#1976d2',
+                  borderRadius: '6px',
+                },
+              },
+            }}
+          >
+            <InvoicePaymentForm
+              clientSecret={clientSecret}
+              invoice={invoice}
+              merchantId={merchantId}
+              onComplete={handleComplete}
+            />
+          </Elements>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoicePaymentModal;
@@ -1,18 +1,27 @@
 // CSR26 Merchant QR Code Section Component
-// Allows merchants to generate QR codes for their products
+// Lists the merchant's products, lets owners draft new ones for admin approval,
+// generates QR codes for approved, active products, and claim token batches for printed CLAIM packs
 // RULE: Use HTML + Tailwind for layout, MUI only for interactive components
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import type { PaymentMode, Sku, SkuDraftRequest } from '../../types';
+import { formatEUR, formatPaymentMode } from '../../utils/formatters';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
 import Select from '@mui/material/Select';
 import MenuItem from '@mui/material/MenuItem';
 import FormControl from '@mui/material/FormControl';
 import InputLabel from '@mui/material/InputLabel';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import ClaimTokenBatches from './ClaimTokenBatches';
 
 interface QRCodeSectionProps {
   merchantId: string;
   merchantName?: string;
+  // Owners draft and edit products, other roles only generate QR codes
+  canEditProducts: boolean;
 }
 
 interface GeneratedQR {
@@ -20,47 +29,147 @@ interface GeneratedQR {
   sku: string;
   name: string;
   url: string;
+  expiresAt: string;
   qrImageUrl: string;
 }
 
-const QRCodeSection = ({ merchantId, merchantName: _merchantName }: QRCodeSectionProps) => {
-  const [productName, setProductName] = useState('');
-  const [skuCode, setSkuCode] = useState('');
-  const [paymentMode, setPaymentMode] = useState<string>('CLAIM');
-  const [generatedQRs, setGeneratedQRs] = useState<GeneratedQR[]>([]);
-  const [isGenerating, setIsGenerating] = useState(false);
+interface DraftForm {
+  code: string;
+  name: string;
+  description: string;
+  paymentMode: PaymentMode;
+  price: string;
+  weightGrams: string;
+  multiplier: number;
+}
 
-  // Base URL for landing page
-  const baseUrl = window.location.origin;
+const emptyDraft: DraftForm = {
+  code: '',
+  name: '',
+  description: '',
+  paymentMode: 'CLAIM',
+  price: '',
+  weightGrams: '',
+  multiplier: 1,
+};
+
+const QRCodeSection = ({ merchantId, merchantName: _merchantName, canEditProducts }: QRCodeSectionProps) => {
+  const [skus, setSkus] = useState<Sku[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftForm>(emptyDraft);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [generatedQRs, setGeneratedQRs] = useState<GeneratedQR[]>([]);
+  const [generatingCode, setGeneratingCode] = useState<string | null>(null);
 
   // Generate QR code using QR Server API (free, no library needed)
   const generateQRCode = (url: string, size: number = 200): string => {
     return `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(url)}`;
   };
 
-  // Handle QR generation
-  const handleGenerateQR = () => {
-    if (!productName.trim() || !skuCode.trim()) {
-      return;
+  const fetchSkus = useCallback(async () => {
+    if (!merchantId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await merchantSelfServiceApi.getMySKUs(merchantId);
+      setSkus(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
     }
+  }, [merchantId]);
+
+  useEffect(() => {
+    fetchSkus();
+  }, [fetchSkus]);
+
+  // Handle QR generation: the server only returns a landing URL for approved, active products
+  const handleGenerateQR = async (sku: Sku) => {
+    setGeneratingCode(sku.code);
+    setError(null);
 
-    setIsGenerating(true);
+    try {
+      const response = await merchantSelfServiceApi.getMySkuQrLink(sku.code, merchantId);
+      const link = response.data.data;
 
-    // Build landing page URL with merchant ID
-    const landingUrl = `${baseUrl}/landing?sku=${encodeURIComponent(skuCode)}&merchant=${encodeURIComponent(merchantId)}`;
+      const newQR: GeneratedQR = {
+        id: `qr-${Date.now()}`,
+        sku: link.code,
+        name: link.name,
+        url: link.url,
+        expiresAt: link.expiresAt,
+        qrImageUrl: generateQRCode(link.url, 200),
+      };
 
-    const newQR: GeneratedQR = {
-      id: `qr-${Date.now()}`,
-      sku: skuCode.toUpperCase(),
-      name: productName,
-      url: landingUrl,
-      qrImageUrl: generateQRCode(landingUrl, 200),
+      setGeneratedQRs((prev) => [newQR, ...prev.filter((qr) => qr.sku !== link.code)]);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setGeneratingCode(null);
+    }
+  };
+
+  // Keep the product list in sync after a change made by a child section
+  const handleSkuChange = (updated: Sku) => {
+    setSkus((prev) => prev.map((sku) => (sku.code === updated.code ? updated : sku)));
+  };
+
+  // Load a pending or rejected draft into the form
+  const handleEditDraft = (sku: Sku) => {
+    setEditingCode(sku.code);
+    setDraft({
+      code: sku.code,
+      name: sku.name,
+      description: sku.description || '',
+      paymentMode: sku.paymentMode,
+      price: sku.price ? String(sku.price) : '',
+      weightGrams: sku.weightGrams ? String(sku.weightGrams) : '',
+      multiplier: sku.multiplier || 1,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingCode(null);
+    setDraft(emptyDraft);
+  };
+
+  // Submit a new draft, or resubmit an edited one, for admin approval
+  const handleSubmitDraft = async () => {
+    if (!draft.name.trim() || (!editingCode && !draft.code.trim())) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const data: SkuDraftRequest = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      paymentMode: draft.paymentMode,
+      price: draft.price ? parseFloat(draft.price) : 0,
+      weightGrams: draft.weightGrams ? parseInt(draft.weightGrams) : null,
+      multiplier: draft.multiplier,
     };
 
-    setGeneratedQRs([newQR, ...generatedQRs]);
-    setProductName('');
-    setSkuCode('');
-    setIsGenerating(false);
+    try {
+      if (editingCode) {
+        await merchantSelfServiceApi.updateMySku(editingCode, data, merchantId);
+        setSuccess(`${editingCode} resubmitted for approval.`);
+      } else {
+        const response = await merchantSelfServiceApi.createMySku({ ...data, code: draft.code.trim() }, merchantId);
+        setSuccess(`${response.data.data.code} submitted. You can generate its QR code once CSR26 approves it.`);
+      }
+      setEditingCode(null);
+      setDraft(emptyDraft);
+      fetchSkus();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
   };
 
   // Download QR code image
@@ -90,59 +199,217 @@ const QRCodeSection = ({ merchantId, merchantName: _merchantName }: QRCodeSectio
     navigator.clipboard.writeText(url);
   };
 
+  const getStatusBadge = (sku: Sku) => {
+    if (sku.status === 'PENDING_APPROVAL') {
+      return <span className="px-2 py-1 text-xs font-medium rounded-md bg-yellow-100 text-yellow-800">Pending approval</span>;
+    }
+    if (sku.status === 'REJECTED') {
+      return <span className="px-2 py-1 text-xs font-medium rounded-md bg-red-100 text-red-800">Rejected</span>;
+    }
+    return sku.active
+      ? <span className="px-2 py-1 text-xs font-medium rounded-md bg-green-100 text-green-800">Active</span>
+      : <span className="px-2 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-800">Inactive</span>;
+  };
+
   return (
     <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
       {/* Header */}
       <div className="px-6 py-4 border-b border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-800">QR Code Generator</h3>
+        <h3 className="text-lg font-semibold text-gray-800">Products &amp; QR Codes</h3>
         <p className="text-sm text-gray-500">
-          Generate QR codes for your products. Each QR links to your branded landing page.
+          Generate QR codes for your approved products. Each QR links to your branded landing page.
         </p>
       </div>
 
-      {/* QR Generation Form */}
-      <div className="p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-          <TextField
-            label="Product Name"
-            value={productName}
-            onChange={(e) => setProductName(e.target.value)}
-            size="small"
-            placeholder="e.g., Organic Pasta"
-            fullWidth
-          />
-          <TextField
-            label="SKU Code"
-            value={skuCode}
-            onChange={(e) => setSkuCode(e.target.value.toUpperCase())}
-            size="small"
-            placeholder="e.g., PASTA-001"
-            fullWidth
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {/* Products */}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <CircularProgress size={24} />
+          </div>
+        ) : skus.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No products yet.{canEditProducts && ' Draft your first product below.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">SKU</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">Product</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">Mode</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-600">Price</th>
+                  <th className="px-4 py-2 text-center font-medium text-gray-600">Status</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-600">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {skus.map((sku) => (
+                  <tr key={sku.code}>
+                    <td className="px-4 py-2 font-mono text-gray-800">{sku.code}</td>
+                    <td className="px-4 py-2 text-gray-800">
+                      {sku.name}
+                      {sku.status === 'REJECTED' && sku.reviewNote && (
+                        <div className="text-xs text-red-600">{sku.reviewNote}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{formatPaymentMode(sku.paymentMode)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatEUR(sku.price)}</td>
+                    <td className="px-4 py-2 text-center">{getStatusBadge(sku)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {sku.status === 'APPROVED' && sku.active && sku.claimTokenRequired && (
+                        <span className="text-xs text-gray-500">Claim tokens only</span>
+                      )}
+                      {sku.status === 'APPROVED' && sku.active && !sku.claimTokenRequired && (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          onClick={() => handleGenerateQR(sku)}
+                          disabled={generatingCode === sku.code}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          Generate QR
+                        </Button>
+                      )}
+                      {sku.status !== 'APPROVED' && canEditProducts && (
+                        <Button
+                          size="small"
+                          onClick={() => handleEditDraft(sku)}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          {sku.status === 'REJECTED' ? 'Edit & Resubmit' : 'Edit'}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Draft Form */}
+        {canEditProducts && (
+          <div className="bg-gray-50 rounded-md p-4 space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-gray-700">
+                {editingCode ? `Edit ${editingCode}` : 'Draft a Product'}
+              </h4>
+              <p className="text-xs text-gray-500">
+                New products are reviewed by CSR26 before QR codes can be generated.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <TextField
+                label="SKU Code"
+                value={draft.code}
+                onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+                size="small"
+                placeholder="e.g., PASTA-001"
+                disabled={!!editingCode}
+                fullWidth
+              />
+              <TextField
+                label="Product Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                size="small"
+                placeholder="e.g., Organic Pasta"
+                fullWidth
+              />
+              <FormControl size="small" fullWidth>
+                <InputLabel>Payment Mode</InputLabel>
+                <Select
+                  value={draft.paymentMode}
+                  onChange={(e) => setDraft({ ...draft, paymentMode: e.target.value as PaymentMode })}
+                  label="Payment Mode"
+                >
+                  <MenuItem value="CLAIM">CLAIM (Prepaid)</MenuItem>
+                  <MenuItem value="PAY">PAY (Customer Pays)</MenuItem>
+                  <MenuItem value="ALLOCATION">ALLOCATION (E-commerce)</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                label="Price (€)"
+                type="number"
+                value={draft.price}
+                onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                size="small"
+                fullWidth
+              />
+              <TextField
+                label="Weight (grams)"
+                type="number"
+                value={draft.weightGrams}
+                onChange={(e) => setDraft({ ...draft, weightGrams: e.target.value })}
+                size="small"
+                helperText="For weight-based products"
+                fullWidth
+              />
+              <FormControl size="small" fullWidth>
+                <InputLabel>Multiplier</InputLabel>
+                <Select
+                  value={draft.multiplier}
+                  onChange={(e) => setDraft({ ...draft, multiplier: Number(e.target.value) })}
+                  label="Multiplier"
+                >
+                  {[1, 2, 5, 10].map((value) => (
+                    <MenuItem key={value} value={value}>{value}x</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </div>
+            <TextField
+              label="Description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              size="small"
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <div className="flex justify-end gap-2">
+              {editingCode && (
+                <Button onClick={handleCancelEdit} sx={{ textTransform: 'none' }}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                variant="contained"
+                onClick={handleSubmitDraft}
+                disabled={saving || !draft.name.trim() || (!editingCode && !draft.code.trim())}
+                sx={{ textTransform: 'none' }}
+              >
+                {saving ? 'Submitting...' : editingCode ? 'Resubmit for Approval' : 'Submit for Approval'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Claim Tokens */}
+        {!loading && (
+          <ClaimTokenBatches
+            merchantId={merchantId}
+            skus={skus.filter((sku) => sku.paymentMode === 'CLAIM' && sku.status === 'APPROVED' && sku.active)}
+            canManage={canEditProducts}
+            onSkuChange={handleSkuChange}
           />
-          <FormControl size="small" fullWidth>
-            <InputLabel>Payment Mode</InputLabel>
-            <Select
-              value={paymentMode}
-              onChange={(e) => setPaymentMode(e.target.value)}
-              label="Payment Mode"
-            >
-              <MenuItem value="CLAIM">CLAIM (Prepaid)</MenuItem>
-              <MenuItem value="PAY">PAY (Customer Pays)</MenuItem>
-              <MenuItem value="ALLOCATION">ALLOCATION (E-commerce)</MenuItem>
-            </Select>
-          </FormControl>
-          <Button
-            variant="contained"
-            onClick={handleGenerateQR}
-            disabled={!productName.trim() || !skuCode.trim() || isGenerating}
-            sx={{ textTransform: 'none' }}
-          >
-            Generate QR
-          </Button>
-        </div>
+        )}
 
         {/* Info Box */}
-        <div className="bg-blue-50 rounded-md p-4 mb-6">
+        <div className="bg-blue-50 rounded-md p-4">
           <div className="flex gap-3">
             <svg className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -154,6 +421,7 @@ const QRCodeSection = ({ merchantId, merchantName: _merchantName }: QRCodeSectio
                 <li>Customers scan the QR to see their environmental impact</li>
                 <li>All transactions are attributed to your merchant account</li>
                 <li>You can print QR codes on product packaging, receipts, or displays</li>
+                <li>For CLAIM products, print claim tokens so each pack can only be claimed once</li>
               </ul>
             </div>
           </div>
@@ -178,7 +446,10 @@ const QRCodeSection = ({ merchantId, merchantName: _merchantName }: QRCodeSectio
 
                   {/* Product Info */}
                   <p className="font-medium text-gray-800 text-center">{qr.name}</p>
-                  <p className="text-xs text-gray-500 mb-3">SKU: {qr.sku}</p>
+                  <p className="text-xs text-gray-500">SKU: {qr.sku}</p>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Valid until {new Date(qr.expiresAt).toLocaleDateString()}
+                  </p>
 
                   {/* Actions */}
                   <div className="flex gap-2 w-full">
@@ -204,17 +475,6 @@ const QRCodeSection = ({ merchantId, merchantName: _merchantName }: QRCodeSectio
             </div>
           </div>
         )}
-
-        {/* Empty State */}
-        {generatedQRs.length === 0 && (
-          <div className="text-center py-8 text-gray-500">
-            <svg className="w-12 h-12 mx-auto mb-3 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h2M4 12h2m10 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
-            </svg>
-            <p>No QR codes generated yet.</p>
-            <p className="text-sm">Fill in the form above to create your first QR code.</p>
-          </div>
-        )}
       </div>
     </div>
   );
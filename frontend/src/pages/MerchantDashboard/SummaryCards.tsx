@@ -3,6 +3,7 @@
 // RULE: Use HTML + Tailwind for layout
 
 import { formatEUR, formatWeightKg, formatNumber } from '../../utils/formatters';
+import type { MerchantCreditStatus } from '../../types';
 
 interface SummaryCardsProps {
   totalImpactKg: number;
@@ -10,6 +11,7 @@ interface SummaryCardsProps {
   transactionCount: number;
   customerCount: number;
   multiplier: number;
+  credit?: MerchantCreditStatus | null;   // Only for members who can see billing
 }
 
 const SummaryCards = ({
@@ -18,6 +20,7 @@ const SummaryCards = ({
   transactionCount,
   customerCount,
   multiplier,
+  credit,
 }: SummaryCardsProps) => {
   const cards = [
     {
@@ -86,6 +89,28 @@ const SummaryCards = ({
     },
   ];
 
+  // Remaining prepaid credit, once the merchant has bought some or claims are paused
+  if (credit && (credit.creditBalance > 0 || credit.paused)) {
+    cards.push({
+      title: 'Prepaid Credit',
+      value: formatEUR(credit.creditBalance),
+      subtitle: credit.paused
+        ? `Claims paused: ${credit.pausedReason?.toLowerCase()}`
+        : `about ${formatWeightKg(credit.creditKg)} of impact left`,
+      color: credit.paused ? 'red' : 'teal',
+      icon: (
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"
+          />
+        </svg>
+      ),
+    });
+  }
+
   const colorClasses: Record<string, { bg: string; icon: string; text: string }> = {
     green: {
       bg: 'bg-green-50',
@@ -107,12 +132,22 @@ const SummaryCards = ({
       icon: 'text-orange-600',
       text: 'text-orange-600',
     },
+    teal: {
+      bg: 'bg-teal-50',
+      icon: 'text-teal-600',
+      text: 'text-teal-600',
+    },
+    red: {
+      bg: 'bg-red-50',
+      icon: 'text-red-600',
+      text: 'text-red-600',
+    },
   };
 
   return (
     <div className="space-y-4">
       {/* Cards Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className={`grid grid-cols-1 md:grid-cols-2 ${cards.length > 4 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'} gap-4`}>
         {cards.map((card) => {
           const colors = colorClasses[card.color];
           return (
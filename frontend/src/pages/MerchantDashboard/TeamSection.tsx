@@ -0,0 +1,235 @@
+// CSR26 Merchant Team Section Component
+// Lists the staff members of a merchant; owners (and admins) invite members by email
+// RULE: Use HTML + Tailwind for layout, MUI only for interactive components
+
+import { useCallback, useEffect, useState } from 'react';
+import { merchantApi, merchantSelfServiceApi } from '../../api/apiClient';
+import type { MerchantMember, MerchantMemberRole } from '../../types';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+
+interface TeamSectionProps {
+  merchantId: string;
+  // Admins use the /merchants/:id routes and can only invite
+  isAdmin: boolean;
+  // Role of the current user in this merchant (null for admins)
+  role: MerchantMemberRole | null;
+}
+
+const roleOptions: { value: MerchantMemberRole; label: string; description: string }[] = [
+  { value: 'OWNER', label: 'Owner', description: 'Full access, manages the team' },
+  { value: 'FINANCE', label: 'Finance', description: 'Dashboard, billing and invoices' },
+  { value: 'VIEWER', label: 'Viewer', description: 'Dashboard and transactions only' },
+];
+
+const TeamSection = ({ merchantId, isAdmin, role }: TeamSectionProps) => {
+  const [members, setMembers] = useState<MerchantMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MerchantMemberRole>('VIEWER');
+  const [inviting, setInviting] = useState(false);
+
+  const isOwner = role === 'OWNER';
+  const canInvite = isOwner || isAdmin;
+
+  const fetchMembers = useCallback(async () => {
+    if (!merchantId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = isAdmin
+        ? await merchantApi.getMembers(merchantId)
+        : await merchantSelfServiceApi.getMyMembers(merchantId);
+      setMembers(response.data.data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [merchantId, isAdmin]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return;
+    setInviting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const data = { email: inviteEmail.trim(), role: inviteRole };
+      const response = isAdmin
+        ? await merchantApi.inviteMember(merchantId, data)
+        : await merchantSelfServiceApi.inviteMember(data, merchantId);
+      setSuccess(`Invitation sent to ${response.data.data.member.user.email}`);
+      setInviteEmail('');
+      fetchMembers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: MerchantMember, newRole: MerchantMemberRole) => {
+    setError(null);
+
+    try {
+      await merchantSelfServiceApi.updateMember(member.id, newRole, merchantId);
+      fetchMembers();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRemove = async (member: MerchantMember) => {
+    const action = member.acceptedAt ? 'Remove' : 'Cancel the invitation for';
+    if (!confirm(`${action} ${member.user.email}?`)) return;
+    setError(null);
+
+    try {
+      await merchantSelfServiceApi.removeMember(member.id, merchantId);
+      fetchMembers();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">Team</h3>
+        <p className="text-sm text-gray-500">
+          People with access to this merchant account
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {/* Member List */}
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <CircularProgress size={24} />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {members.map((member) => (
+              <div key={member.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-800">
+                    {member.user.firstName
+                      ? `${member.user.firstName} ${member.user.lastName || ''}`.trim()
+                      : member.user.email}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {member.user.email}
+                    {!member.acceptedAt && ' · Invitation pending'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <>
+                      <Select
+                        size="small"
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as MerchantMemberRole)}
+                        sx={{ minWidth: 120, fontSize: '0.875rem' }}
+                      >
+                        {roleOptions.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                      <Button
+                        size="small"
+                        color="error"
+                        onClick={() => handleRemove(member)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        {member.acceptedAt ? 'Remove' : 'Cancel'}
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-medium">
+                      {roleOptions.find((option) => option.value === member.role)?.label}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+            {members.length === 0 && (
+              <p className="text-sm text-gray-500 py-3">No members yet.</p>
+            )}
+          </div>
+        )}
+
+        {/* Invite Form */}
+        {canInvite && (
+          <div className="pt-4 border-t border-gray-200">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Invite a team member</h4>
+            <div className="flex flex-col md:flex-row gap-3">
+              <TextField
+                label="Email"
+                type="email"
+                size="small"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Role</InputLabel>
+                <Select
+                  value={inviteRole}
+                  label="Role"
+                  onChange={(e) => setInviteRole(e.target.value as MerchantMemberRole)}
+                >
+                  {roleOptions.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="contained"
+                onClick={handleInvite}
+                disabled={inviting || !inviteEmail.trim()}
+                sx={{ textTransform: 'none' }}
+              >
+                {inviting ? 'Sending...' : 'Send Invitation'}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {roleOptions.find((option) => option.value === inviteRole)?.description}. The invitation is a sign-in link valid for 7 days.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamSection;
@@ -2,7 +2,7 @@
 // Dashboard for merchants to view transactions, billing, and impact
 // DATA FLOW: Component mount → dispatch fetchMerchant → Redux → API → Response → UI
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import {
@@ -10,6 +10,7 @@ import {
   fetchMerchantTransactions,
   fetchMerchantBilling,
   fetchAllMerchants,
+  fetchMyMemberships,
 } from '../../store/slices/merchantSlice';
 import type { TransactionWithRelations } from '../../types';
 import Navigation from '../../components/Navigation';
@@ -18,13 +19,17 @@ import LoadingSpinner from '../../components/LoadingSpinner';
 import SummaryCards from './SummaryCards';
 import TransactionTable from './TransactionTable';
 import BillingSection from './BillingSection';
+import CreditSection from './CreditSection';
 import QRCodeSection from './QRCodeSection';
 import SettingsSection from './SettingsSection';
+import TeamSection from './TeamSection';
 import Alert from '@mui/material/Alert';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
 import DownloadIcon from '@mui/icons-material/Download';
 import { useNavigation } from '../../hooks/useNavigation';
+import { merchantSelfServiceApi } from '../../api/apiClient';
+import LinkSigningKey from '../../components/LinkSigningKey';
 
 const MerchantDashboard = () => {
   const dispatch = useAppDispatch();
@@ -36,6 +41,8 @@ const MerchantDashboard = () => {
   const {
     currentMerchant,
     merchants,
+    memberships,
+    membershipsLoaded,
     transactions,
     billing,
     loading,
@@ -49,21 +56,48 @@ const MerchantDashboard = () => {
   // Check if user is admin
   const isAdmin = user?.role === 'ADMIN';
 
+  // Merchant users see the merchants they are members of
+  useEffect(() => {
+    if (!isAdmin) {
+      dispatch(fetchMyMemberships());
+    }
+  }, [dispatch, isAdmin]);
+
   // For admin without ID in URL, we need to show merchant selection
-  // For merchant users, use their user ID (which should match their merchant record)
-  const merchantId = id || (isAdmin ? undefined : user?.id);
+  // For merchant users, use the membership for the URL ID, or their first merchant
+  const membership = isAdmin
+    ? undefined
+    : id
+      ? memberships.find((m) => m.merchantId === id)
+      : memberships[0];
+  const merchantId = id || membership?.merchantId;
 
-  // Fetch merchant data on mount
+  // Balance and invoices are limited to owners and finance
+  const canViewBilling = isAdmin || membership?.role === 'OWNER' || membership?.role === 'FINANCE';
+
+  // Fetch merchant data once the merchant is known
   useEffect(() => {
     if (merchantId) {
       dispatch(fetchMerchantById(merchantId));
       dispatch(fetchMerchantTransactions({ id: merchantId }));
-      dispatch(fetchMerchantBilling(merchantId));
+      if (canViewBilling) {
+        dispatch(fetchMerchantBilling(merchantId));
+      }
     } else if (isAdmin) {
       // Admin without merchant ID - fetch all merchants for selection
       dispatch(fetchAllMerchants());
     }
-  }, [dispatch, merchantId, isAdmin]);
+  }, [dispatch, merchantId, isAdmin, canViewBilling]);
+
+  // Landing URL signing key (owners only)
+  const loadSigningKey = useCallback(
+    async () => (await merchantSelfServiceApi.getMySigningKey(merchantId)).data.data,
+    [merchantId]
+  );
+  const rotateSigningKey = useCallback(
+    async () => (await merchantSelfServiceApi.rotateMySigningKey(merchantId)).data.data,
+    [merchantId]
+  );
 
   // Handle date filter - backend now supports dateFrom/dateTo
   const handleFilter = () => {
@@ -119,6 +153,23 @@ const MerchantDashboard = () => {
   const totalAmount = transactions?.reduce((sum: number, t: TransactionWithRelations) => sum + t.amount, 0) || 0;
   const customerCount = new Set(transactions?.map((t: TransactionWithRelations) => t.userId) || []).size;
 
+  // Merchant user without an accepted membership
+  if (!isAdmin && membershipsLoaded && !membership) {
+    return (
+      <div className="min-h-screen flex flex-col bg-gray-50 pt-14">
+        <Navigation />
+        <main className="flex-1 flex items-center justify-center px-4 py-8">
+          <div className="w-full max-w-md text-center">
+            <Alert severity="info">
+              No merchant account is linked to {user?.email}. Ask the merchant owner to invite you.
+            </Alert>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   // Admin without merchant ID - show merchant selection
   if (isAdmin && !merchantId) {
     return (
@@ -192,6 +243,22 @@ const MerchantDashboard = () => {
             <p className="text-gray-600">
               Track your business&apos;s contribution to certified plastic removal.
             </p>
+            {/* Merchant switcher for staff in several merchants */}
+            {!isAdmin && memberships.length > 1 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {memberships.map((m) => (
+                  <Button
+                    key={m.merchantId}
+                    size="small"
+                    variant={m.merchantId === merchantId ? 'contained' : 'outlined'}
+                    onClick={() => goToMerchantDashboard(m.merchantId)}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    {m.merchantName}
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Error Alert */}
@@ -216,6 +283,7 @@ const MerchantDashboard = () => {
                   transactionCount={transactions?.length || 0}
                   customerCount={customerCount}
                   multiplier={currentMerchant?.multiplier || 1}
+                  credit={canViewBilling ? billing?.credit : null}
                 />
               </div>
 
@@ -231,18 +299,54 @@ const MerchantDashboard = () => {
                 />
               </div>
 
-              {/* QR Code Section */}
-              <div className="animate-fade-right-light-slow">
-                <QRCodeSection
-                  merchantId={merchantId || ''}
-                  merchantName={currentMerchant?.name}
-                />
-              </div>
+              {/* QR Code Section (admins manage products in the admin SKU manager) */}
+              {!isAdmin && merchantId && (
+                <div className="animate-fade-right-light-slow">
+                  <QRCodeSection
+                    merchantId={merchantId}
+                    merchantName={currentMerchant?.name}
+                    canEditProducts={membership?.role === 'OWNER'}
+                  />
+                </div>
+              )}
+
+              {/* Link Signing (owners sign their own e-commerce and allocation links) */}
+              {!isAdmin && merchantId && membership?.role === 'OWNER' && (
+                <div className="animate-fade-left-light-slow">
+                  <LinkSigningKey loadKey={loadSigningKey} rotateKey={rotateSigningKey} />
+                </div>
+              )}
 
               {/* Billing Section */}
-              {billing && (
+              {canViewBilling && billing && (
                 <div className="animate-fade-left-light-slow">
-                  <BillingSection billing={billing} />
+                  <BillingSection
+                    billing={billing}
+                    merchantId={merchantId}
+                    canPay={!isAdmin}
+                    onInvoicePaid={() => merchantId && dispatch(fetchMerchantBilling(merchantId))}
+                  />
+                </div>
+              )}
+
+              {/* Prepaid Credit (admins adjust credit from the admin merchant manager) */}
+              {!isAdmin && canViewBilling && merchantId && (
+                <div className="animate-fade-right-light-slow">
+                  <CreditSection
+                    merchantId={merchantId}
+                    onCreditChanged={() => dispatch(fetchMerchantBilling(merchantId))}
+                  />
+                </div>
+              )}
+
+              {/* Team Section */}
+              {merchantId && (
+                <div className="animate-fade-right-light-slow">
+                  <TeamSection
+                    merchantId={merchantId}
+                    isAdmin={isAdmin}
+                    role={membership?.role ?? null}
+                  />
                 </div>
               )}
 
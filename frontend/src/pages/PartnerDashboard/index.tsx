@@ -1,5 +1,5 @@
 // CSR26 Partner Dashboard
-// Dashboard for partners to view their merchants, transactions, and impact
+// Dashboard for partners to view their merchants, transactions, impact and commission statements
 //
 // ARCHITECTURE NOTE: This dashboard intentionally uses local state instead of Redux because:
 // 1. Partners have a separate authentication system (PARTNER_TOKEN_KEY vs TOKEN_KEY)
@@ -12,8 +12,11 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { partnerApi, getPartnerToken, clearPartnerToken } from '../../api/apiClient';
 import Navigation from '../../components/Navigation';
+import LinkSigningKey from '../../components/LinkSigningKey';
 import Footer from '../../components/Footer';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import { formatEUR, formatDate } from '../../utils/formatters';
+import type { PartnerPayoutStatus, PartnerStatement } from '../../types';
 import Alert from '@mui/material/Alert';
 import Button from '@mui/material/Button';
 import Table from '@mui/material/Table';
@@ -66,15 +69,27 @@ interface Transaction {
   sku: { code: string; name: string } | null;
 }
 
+const PAYOUT_STATUS_STYLES: Record<PartnerPayoutStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  APPROVED: { label: 'Approved', className: 'bg-blue-100 text-blue-800' },
+  PAID: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+};
+
+// Landing URL signing key, for partner links without a merchant
+const loadSigningKey = async () => (await partnerApi.getSigningKey()).data.data;
+const rotateSigningKey = async () => (await partnerApi.rotateSigningKey()).data.data;
+
 const PartnerDashboard = () => {
   const navigate = useNavigate();
 
   // State
   const [dashboard, setDashboard] = useState<PartnerDashboardData | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [statements, setStatements] = useState<PartnerStatement[]>([]);
+  const [monthlyCommission, setMonthlyCommission] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [activeTab, setActiveTab] = useState<'overview' | 'merchants' | 'transactions'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'merchants' | 'transactions' | 'statements'>('overview');
 
   // Check auth and fetch data
   useEffect(() => {
@@ -86,6 +101,7 @@ const PartnerDashboard = () => {
 
     fetchDashboard();
     fetchTransactions();
+    fetchCommission();
   }, [navigate]);
 
   const fetchDashboard = async () => {
@@ -115,6 +131,19 @@ const PartnerDashboard = () => {
     }
   };
 
+  const fetchCommission = async () => {
+    try {
+      const [report, statementList] = await Promise.all([
+        partnerApi.getSummaryReport(),
+        partnerApi.getMyStatements(),
+      ]);
+      setMonthlyCommission(report.data.data.totals.commission);
+      setStatements(statementList.data.data);
+    } catch (err) {
+      console.error('Failed to load commission:', err);
+    }
+  };
+
   const handleLogout = () => {
     clearPartnerToken();
     navigate('/partner/login');
@@ -216,7 +245,7 @@ const PartnerDashboard = () => {
 
           {/* Tab Navigation */}
           <div className="flex gap-2 mb-6 border-b border-gray-200">
-            {(['overview', 'merchants', 'transactions'] as const).map((tab) => (
+            {(['overview', 'merchants', 'transactions', 'statements'] as const).map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -265,7 +294,7 @@ const PartnerDashboard = () => {
               {/* Monthly Stats */}
               <div className="bg-white rounded-md border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold text-gray-800 mb-4">This Month</h3>
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div>
                     <p className="text-sm text-gray-500">Transactions</p>
                     <p className="text-xl font-semibold">{dashboard.stats.monthlyTransactions}</p>
@@ -282,6 +311,12 @@ const PartnerDashboard = () => {
                       {dashboard.stats.monthlyImpactKg.toFixed(2)} kg
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Commission Earned</p>
+                    <p className="text-xl font-semibold text-purple-600">
+                      {monthlyCommission !== null ? formatEUR(monthlyCommission) : '-'}
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -300,6 +335,7 @@ const PartnerDashboard = () => {
                   <div>
                     <p className="text-sm text-gray-500">Commission Rate</p>
                     <p className="font-medium">{dashboard.partner.commissionRate}%</p>
+                    <p className="text-xs text-gray-500">Applies to new transactions</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-500">Status</p>
@@ -313,6 +349,9 @@ const PartnerDashboard = () => {
                   </div>
                 </div>
               </div>
+
+              {/* Link Signing */}
+              <LinkSigningKey loadKey={loadSigningKey} rotateKey={rotateSigningKey} />
             </div>
           )}
 
@@ -423,6 +462,77 @@ const PartnerDashboard = () => {
               </div>
             </div>
           )}
+
+          {/* Statements Tab */}
+          {activeTab === 'statements' && (
+            <div className="animate-fade-up-fast">
+              <div className="bg-white rounded-md border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-800">Commission Statements</h3>
+                  <p className="text-sm text-gray-500">
+                    Issued at the start of each month for the previous month, at the rates in force when each
+                    transaction completed
+                  </p>
+                </div>
+                <TableContainer>
+                  <Table>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Period</TableCell>
+                        <TableCell align="right">Transactions</TableCell>
+                        <TableCell align="right">Revenue</TableCell>
+                        <TableCell align="right">Commission</TableCell>
+                        <TableCell>Payout</TableCell>
+                        <TableCell align="right">Statement</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {statements.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} align="center" className="py-8">
+                            <p className="text-gray-500">No statements yet</p>
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        statements.map((statement) => (
+                          <TableRow key={statement.id} hover>
+                            <TableCell>
+                              {formatDate(statement.periodStart, { year: 'numeric', month: 'long' })}
+                            </TableCell>
+                            <TableCell align="right">{statement.transactionCount}</TableCell>
+                            <TableCell align="right">{formatEUR(statement.baseAmount)}</TableCell>
+                            <TableCell align="right" className="font-medium">
+                              {formatEUR(statement.commissionAmount)}
+                            </TableCell>
+                            <TableCell>
+                              <span className={`inline-flex px-2 py-1 rounded text-xs font-medium ${
+                                PAYOUT_STATUS_STYLES[statement.payoutStatus].className
+                              }`}>
+                                {PAYOUT_STATUS_STYLES[statement.payoutStatus].label}
+                              </span>
+                              {statement.paidAt && (
+                                <span className="text-xs text-gray-500 ml-2">{formatDate(statement.paidAt)}</span>
+                              )}
+                            </TableCell>
+                            <TableCell align="right">
+                              <Button
+                                size="small"
+                                startIcon={<DownloadIcon />}
+                                onClick={() => window.open(partnerApi.getMyStatementPdfUrl(statement.id), '_blank')}
+                                sx={{ textTransform: 'none' }}
+                              >
+                                PDF
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </div>
+            </div>
+          )}
         </div>
       </main>
 
@@ -4,6 +4,7 @@
 
 import Navigation from '../../components/Navigation';
 import Footer from '../../components/Footer';
+import { LEGAL_VERSIONS } from '../../utils/legal';
 
 const PrivacyPage = () => {
   return (
@@ -19,7 +20,7 @@ const PrivacyPage = () => {
             <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">
               Privacy Policy
             </h1>
-            <p className="text-gray-500">Last updated: January 2026</p>
+            <p className="text-gray-500">Version {LEGAL_VERSIONS.PRIVACY} · Last updated: October 2026</p>
           </div>
 
           {/* Content */}
@@ -209,6 +210,13 @@ const PrivacyPage = () => {
                 </div>
               </div>
 
+              <p className="text-gray-600 leading-relaxed mt-4">
+                You can download your data, review or withdraw your consents and delete your
+                account yourself from the &quot;Your Data&quot; section of your dashboard.
+                If you withdraw your consent to this policy, your data is no longer shared with
+                certification registries.
+              </p>
+
               {/* Exception Note */}
               <div className="mt-4 p-4 bg-yellow-50 rounded-md border border-yellow-100">
                 <div className="flex items-start gap-3">
@@ -4,6 +4,7 @@
 
 import Navigation from '../../components/Navigation';
 import Footer from '../../components/Footer';
+import { LEGAL_VERSIONS } from '../../utils/legal';
 
 const TermsPage = () => {
   return (
@@ -19,7 +20,7 @@ const TermsPage = () => {
             <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">
               Terms and Conditions
             </h1>
-            <p className="text-gray-500">Last updated: January 2026</p>
+            <p className="text-gray-500">Version {LEGAL_VERSIONS.TERMS} · Last updated: January 2026</p>
           </div>
 
           {/* Content */}
@@ -16,6 +16,8 @@ import LoginPage from '../pages/Login';
 import VerifyPage from '../pages/Verify';
 import TermsPage from '../pages/Terms';
 import PrivacyPage from '../pages/Privacy';
+import AdminLoginPage from '../pages/AdminLogin';
+import AdminVerifyPage from '../pages/AdminVerify';
 import PartnerLoginPage from '../pages/PartnerLogin';
 import PartnerVerifyPage from '../pages/PartnerVerify';
 import PartnerDashboardPage from '../pages/PartnerDashboard';
@@ -58,9 +60,9 @@ const ProtectedRoute = ({
 }: ProtectedRouteProps) => {
   const { isAuthenticated, user } = useAppSelector((state) => state.auth);
 
-  // Check authentication
+  // Check authentication (admins have their own sign-in)
   if (requireAuth && !isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to={requireAdmin ? '/admin/login' : '/login'} replace />;
   }
 
   // Check admin role
@@ -122,6 +124,10 @@ const AppRoutes = () => {
         }
       />
 
+      {/* Admin sign-in (magic link + authenticator code) */}
+      <Route path="/admin/login" element={<AdminLoginPage />} />
+      <Route path="/admin/verify/:token" element={<AdminVerifyPage />} />
+
       {/* Protected admin routes */}
       <Route
         path="/admin"
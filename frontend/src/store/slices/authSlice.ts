@@ -30,9 +30,13 @@ export const registerUser = createAsyncThunk(
   async (data: RegisterRequest, { rejectWithValue }) => {
     try {
       const response = await authApi.register(data);
-      const { user, token } = response.data.data;
-      setAuthToken(token);
-      return { user, token };
+      const result = response.data.data;
+      // Existing email: the backend sent a sign-in link instead of signing in
+      if ('magicLinkSent' in result) {
+        return { user: null, token: null, magicLinkSent: true };
+      }
+      setAuthToken(result.token);
+      return { user: result.user, token: result.token, magicLinkSent: false };
     } catch (error) {
       return rejectWithValue((error as Error).message);
     }
@@ -81,12 +85,12 @@ export const getCurrentUser = createAsyncThunk(
   }
 );
 
-// Async thunk: Admin login via secret code (from landing page)
-export const adminLogin = createAsyncThunk(
-  'auth/adminLogin',
-  async (secretCode: string, { rejectWithValue }) => {
+// Async thunk: Complete admin sign-in with the TOTP code (second factor)
+export const verifyAdminSignIn = createAsyncThunk(
+  'auth/verifyAdminSignIn',
+  async ({ token: linkToken, code }: { token: string; code: string }, { rejectWithValue }) => {
     try {
-      const response = await authApi.adminLogin(secretCode);
+      const response = await authApi.verifyAdminSignIn(linkToken, code);
       const { user, token } = response.data.data;
       setAuthToken(token);
       return { user, token };
@@ -132,9 +136,12 @@ const authSlice = createSlice({
       })
       .addCase(registerUser.fulfilled, (state, action) => {
         state.loading = false;
-        state.user = action.payload.user;
-        state.token = action.payload.token;
-        state.isAuthenticated = true;
+        state.magicLinkSent = action.payload.magicLinkSent;
+        if (action.payload.user) {
+          state.user = action.payload.user;
+          state.token = action.payload.token;
+          state.isAuthenticated = true;
+        }
       })
       .addCase(registerUser.rejected, (state, action) => {
         state.loading = false;
@@ -193,19 +200,19 @@ const authSlice = createSlice({
         state.error = action.payload as string;
       });
 
-    // Admin login
+    // Admin sign-in
     builder
-      .addCase(adminLogin.pending, (state) => {
+      .addCase(verifyAdminSignIn.pending, (state) => {
         state.loading = true;
         state.error = null;
       })
-      .addCase(adminLogin.fulfilled, (state, action) => {
+      .addCase(verifyAdminSignIn.fulfilled, (state, action) => {
         state.loading = false;
         state.user = action.payload.user;
         state.token = action.payload.token;
         state.isAuthenticated = true;
       })
-      .addCase(adminLogin.rejected, (state, action) => {
+      .addCase(verifyAdminSignIn.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
       });
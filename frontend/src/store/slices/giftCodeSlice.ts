@@ -4,11 +4,13 @@
 
 import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
 import { giftCodeApi } from '../../api/apiClient';
-import type { GiftCode, ValidateGiftCodeRequest, ValidateGiftCodeResponse, BatchUploadGiftCodesRequest, GiftCodeStatus } from '../../types';
+import type { GiftCode, GiftCodeBatch, GiftCodeBatchSummary, ValidateGiftCodeRequest, ValidateGiftCodeResponse, BatchUploadGiftCodesRequest, GenerateGiftCodesRequest, GiftCodeStatus } from '../../types';
 
 interface GiftCodeState {
   // All gift codes (admin)
   giftCodes: GiftCode[];
+  // Print batches with redemption stats (admin)
+  batches: GiftCodeBatchSummary[];
   // Validation result (landing page)
   validationResult: ValidateGiftCodeResponse | null;
   // Loading states
@@ -16,14 +18,18 @@ interface GiftCodeState {
   error: string | null;
   // Last batch upload result
   lastBatchUpload: { count: number; codes: GiftCode[] } | null;
+  // Last generated batch, offered for download
+  lastGeneratedBatch: { batch: GiftCodeBatch; count: number } | null;
 }
 
 const initialState: GiftCodeState = {
   giftCodes: [],
+  batches: [],
   validationResult: null,
   loading: false,
   error: null,
   lastBatchUpload: null,
+  lastGeneratedBatch: null,
 };
 
 // Async thunk: Validate gift code (landing page)
@@ -42,7 +48,7 @@ export const validateGiftCode = createAsyncThunk(
 // Async thunk: Fetch all gift codes (admin)
 export const fetchAllGiftCodes = createAsyncThunk(
   'giftCode/fetchAll',
-  async (params: { skuCode?: string; status?: GiftCodeStatus } | undefined, { rejectWithValue }) => {
+  async (params: { skuCode?: string; status?: GiftCodeStatus; batchId?: string } | undefined, { rejectWithValue }) => {
     try {
       const response = await giftCodeApi.getAll(params);
       return response.data.data;
@@ -65,6 +71,45 @@ export const batchUploadGiftCodes = createAsyncThunk(
   }
 );
 
+// Async thunk: Generate gift codes with check characters (admin)
+export const generateGiftCodes = createAsyncThunk(
+  'giftCode/generate',
+  async (data: GenerateGiftCodesRequest, { rejectWithValue }) => {
+    try {
+      const response = await giftCodeApi.generate(data);
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Async thunk: Fetch print batches (admin)
+export const fetchGiftCodeBatches = createAsyncThunk(
+  'giftCode/fetchBatches',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await giftCodeApi.getBatches();
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Async thunk: Activate all inactive cards of a batch (admin)
+export const activateGiftCodeBatch = createAsyncThunk(
+  'giftCode/activateBatch',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await giftCodeApi.activateBatch(id);
+      return { id, activated: response.data.data.activated };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 // Async thunk: Deactivate gift code (admin)
 export const deactivateGiftCode = createAsyncThunk(
   'giftCode/deactivate',
@@ -107,6 +152,10 @@ const giftCodeSlice = createSlice({
     clearLastBatchUpload: (state) => {
       state.lastBatchUpload = null;
     },
+    // Clear last generated batch
+    clearLastGeneratedBatch: (state) => {
+      state.lastGeneratedBatch = null;
+    },
   },
   extraReducers: (builder) => {
     // Validate gift code
@@ -158,6 +207,60 @@ const giftCodeSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Generate gift codes
+    builder
+      .addCase(generateGiftCodes.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+        state.lastGeneratedBatch = null;
+      })
+      .addCase(generateGiftCodes.fulfilled, (state, action: PayloadAction<{ batch: GiftCodeBatch; count: number }>) => {
+        state.loading = false;
+        state.lastGeneratedBatch = action.payload;
+      })
+      .addCase(generateGiftCodes.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch print batches
+    builder
+      .addCase(fetchGiftCodeBatches.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchGiftCodeBatches.fulfilled, (state, action: PayloadAction<GiftCodeBatchSummary[]>) => {
+        state.loading = false;
+        state.batches = action.payload;
+      })
+      .addCase(fetchGiftCodeBatches.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Activate a batch
+    builder
+      .addCase(activateGiftCodeBatch.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(activateGiftCodeBatch.fulfilled, (state, action: PayloadAction<{ id: string; activated: number }>) => {
+        state.loading = false;
+        // Inactive cards of the batch are now unused
+        const batch = state.batches.find((b) => b.id === action.payload.id);
+        if (batch) {
+          batch.counts.UNUSED += action.payload.activated;
+          batch.counts.INACTIVE = 0;
+        }
+        state.giftCodes = state.giftCodes.map((gc) =>
+          gc.batchId === action.payload.id && gc.status === 'INACTIVE' ? { ...gc, status: 'UNUSED' } : gc
+        );
+      })
+      .addCase(activateGiftCodeBatch.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
     // Deactivate gift code
     builder
       .addCase(deactivateGiftCode.pending, (state) => {
@@ -169,7 +272,7 @@ const giftCodeSlice = createSlice({
         // Update the code in the list
         const index = state.giftCodes.findIndex(gc => gc.code === action.payload.code);
         if (index !== -1) {
-          state.giftCodes[index] = action.payload;
+          state.giftCodes[index] = { ...state.giftCodes[index], ...action.payload };
         }
       })
       .addCase(deactivateGiftCode.rejected, (state, action) => {
@@ -188,7 +291,7 @@ const giftCodeSlice = createSlice({
         // Update the code in the list
         const index = state.giftCodes.findIndex(gc => gc.code === action.payload.code);
         if (index !== -1) {
-          state.giftCodes[index] = action.payload;
+          state.giftCodes[index] = { ...state.giftCodes[index], ...action.payload };
         }
       })
       .addCase(activateGiftCode.rejected, (state, action) => {
@@ -202,6 +305,7 @@ export const {
   clearValidationResult,
   clearGiftCodeError,
   clearLastBatchUpload,
+  clearLastGeneratedBatch,
 } = giftCodeSlice.actions;
 
 export default giftCodeSlice.reducer;
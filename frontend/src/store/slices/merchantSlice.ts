@@ -3,9 +3,10 @@
 // DATA FLOW: Component → dispatch action → Redux slice calls API → Backend → DB → Response → Redux store → useSelector → UI
 
 import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
-import { merchantApi } from '../../api/apiClient';
+import { merchantApi, merchantSelfServiceApi } from '../../api/apiClient';
 import type {
   Merchant,
+  MerchantMembership,
   MerchantSummary,
   MerchantBillingInfo,
   MerchantWithCounts,
@@ -18,6 +19,9 @@ interface MerchantState {
   currentMerchant: MerchantSummary | null;
   // All merchants (for admin)
   merchants: MerchantWithCounts[];
+  // Merchants the current user is a member of (for merchant users)
+  memberships: MerchantMembership[];
+  membershipsLoaded: boolean;
   // Merchant transactions
   transactions: TransactionWithRelations[];
   transactionsTotal: number;
@@ -31,6 +35,8 @@ interface MerchantState {
 const initialState: MerchantState = {
   currentMerchant: null,
   merchants: [],
+  memberships: [],
+  membershipsLoaded: false,
   transactions: [],
   transactionsTotal: 0,
   billing: null,
@@ -51,6 +57,19 @@ export const fetchAllMerchants = createAsyncThunk(
   }
 );
 
+// Async thunk: Fetch the current user's merchant memberships
+export const fetchMyMemberships = createAsyncThunk(
+  'merchant/fetchMyMemberships',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await merchantSelfServiceApi.getMyMemberships();
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 // Async thunk: Fetch merchant by ID
 export const fetchMerchantById = createAsyncThunk(
   'merchant/fetchById',
@@ -154,6 +173,23 @@ const merchantSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Fetch current user's memberships
+    builder
+      .addCase(fetchMyMemberships.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMyMemberships.fulfilled, (state, action: PayloadAction<MerchantMembership[]>) => {
+        state.loading = false;
+        state.memberships = action.payload;
+        state.membershipsLoaded = true;
+      })
+      .addCase(fetchMyMemberships.rejected, (state, action) => {
+        state.loading = false;
+        state.membershipsLoaded = true;
+        state.error = action.payload as string;
+      });
+
     // Fetch merchant by ID
     builder
       .addCase(fetchMerchantById.pending, (state) => {
@@ -1,5 +1,5 @@
 // CSR26 SKU Slice
-// Manages SKU data: fetch by code, list all (admin)
+// Manages SKU data: fetch by code, list all (admin), review merchant drafts (admin)
 // SKU determines landing page behavior (6 cases A-F)
 // DATA FLOW: Component → dispatch action → Redux slice calls API → Backend → DB → Response → Redux store → useSelector → UI
 
@@ -88,6 +88,32 @@ export const deleteSku = createAsyncThunk(
   }
 );
 
+// Async thunk: Approve a merchant SKU draft (admin)
+export const approveSku = createAsyncThunk(
+  'sku/approve',
+  async (code: string, { rejectWithValue }) => {
+    try {
+      const response = await skuApi.approve(code);
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Async thunk: Reject a merchant SKU draft with a reason (admin)
+export const rejectSku = createAsyncThunk(
+  'sku/reject',
+  async ({ code, reason }: { code: string; reason: string }, { rejectWithValue }) => {
+    try {
+      const response = await skuApi.reject(code, reason);
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 const skuSlice = createSlice({
   name: 'sku',
   initialState,
@@ -189,6 +215,30 @@ const skuSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       });
+
+    // Approve SKU draft
+    builder
+      .addCase(approveSku.fulfilled, (state, action: PayloadAction<Sku>) => {
+        const index = state.skus.findIndex(s => s.code === action.payload.code);
+        if (index !== -1) {
+          state.skus[index] = action.payload;
+        }
+      })
+      .addCase(approveSku.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Reject SKU draft
+    builder
+      .addCase(rejectSku.fulfilled, (state, action: PayloadAction<Sku>) => {
+        const index = state.skus.findIndex(s => s.code === action.payload.code);
+        if (index !== -1) {
+          state.skus[index] = action.payload;
+        }
+      })
+      .addCase(rejectSku.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
   },
 });
 
@@ -4,7 +4,7 @@
 
 import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
 import { userApi } from '../../api/apiClient';
-import type { User, UserWithCounts, UserWithTransactions, UserListResponse } from '../../types';
+import type { User, UserWithCounts, UserWithTransactions, UserListResponse, UserLedgerResponse } from '../../types';
 
 interface UserState {
   // All users (paginated)
@@ -12,6 +12,9 @@ interface UserState {
   total: number;
   // Selected user details
   selectedUser: UserWithTransactions | null;
+  // Selected user's wallet ledger
+  selectedUserLedger: UserLedgerResponse | null;
+  ledgerLoading: boolean;
   // Loading states
   loading: boolean;
   error: string | null;
@@ -21,6 +24,8 @@ const initialState: UserState = {
   users: [],
   total: 0,
   selectedUser: null,
+  selectedUserLedger: null,
+  ledgerLoading: false,
   loading: false,
   error: null,
 };
@@ -77,6 +82,32 @@ export const adjustUserWallet = createAsyncThunk(
   }
 );
 
+// Async thunk: Delete a user's account (pseudonymization)
+export const deleteUser = createAsyncThunk(
+  'user/delete',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await userApi.delete(id);
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Async thunk: Fetch user wallet ledger
+export const fetchUserLedger = createAsyncThunk(
+  'user/fetchLedger',
+  async ({ id, limit, offset }: { id: string; limit?: number; offset?: number }, { rejectWithValue }) => {
+    try {
+      const response = await userApi.getLedger(id, { limit, offset });
+      return response.data.data;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 const userSlice = createSlice({
   name: 'user',
   initialState,
@@ -84,6 +115,7 @@ const userSlice = createSlice({
     // Clear selected user
     clearSelectedUser: (state) => {
       state.selectedUser = null;
+      state.selectedUserLedger = null;
     },
     // Clear error
     clearUserError: (state) => {
@@ -163,6 +195,42 @@ const userSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       });
+
+    // Delete user
+    builder
+      .addCase(deleteUser.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(deleteUser.fulfilled, (state, action: PayloadAction<User>) => {
+        state.loading = false;
+        // Pseudonymized in place, counts and transactions are kept
+        const index = state.users.findIndex(u => u.id === action.payload.id);
+        if (index !== -1) {
+          state.users[index] = { ...state.users[index], ...action.payload };
+        }
+        if (state.selectedUser?.id === action.payload.id) {
+          state.selectedUser = { ...state.selectedUser, ...action.payload };
+        }
+      })
+      .addCase(deleteUser.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch user wallet ledger
+    builder
+      .addCase(fetchUserLedger.pending, (state) => {
+        state.ledgerLoading = true;
+      })
+      .addCase(fetchUserLedger.fulfilled, (state, action: PayloadAction<UserLedgerResponse>) => {
+        state.ledgerLoading = false;
+        state.selectedUserLedger = action.payload;
+      })
+      .addCase(fetchUserLedger.rejected, (state, action) => {
+        state.ledgerLoading = false;
+        state.error = action.payload as string;
+      });
   },
 });
 
@@ -31,12 +31,12 @@ export const fetchWallet = createAsyncThunk(
   }
 );
 
-// Async thunk: Fetch wallet by email (for landing page before login)
-export const fetchWalletByEmail = createAsyncThunk(
-  'wallet/fetchByEmail',
-  async (email: string, { rejectWithValue }) => {
+// Async thunk: Fetch wallet after a landing page claim or payment (before login)
+export const fetchLandingWallet = createAsyncThunk(
+  'wallet/fetchLanding',
+  async (walletToken: string, { rejectWithValue }) => {
     try {
-      const response = await walletApi.getByEmail(email);
+      const response = await walletApi.getLanding(walletToken);
       return response.data.data;
     } catch (error) {
       return rejectWithValue((error as Error).message);
@@ -87,17 +87,17 @@ const walletSlice = createSlice({
         state.error = action.payload as string;
       });
 
-    // Fetch wallet by email
+    // Fetch landing wallet
     builder
-      .addCase(fetchWalletByEmail.pending, (state) => {
+      .addCase(fetchLandingWallet.pending, (state) => {
         state.loading = true;
         state.error = null;
       })
-      .addCase(fetchWalletByEmail.fulfilled, (state, action: PayloadAction<WalletSummary>) => {
+      .addCase(fetchLandingWallet.fulfilled, (state, action: PayloadAction<WalletSummary>) => {
         state.loading = false;
         state.wallet = action.payload;
       })
-      .addCase(fetchWalletByEmail.rejected, (state, action) => {
+      .addCase(fetchLandingWallet.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
       });
@@ -12,26 +12,35 @@ export const UserStatus = {
   CERTIFIED: 'CERTIFIED' as const,
 };
 
-export type PaymentMode = 'CLAIM' | 'PAY' | 'GIFT_CARD' | 'ALLOCATION';
+export type PaymentMode = 'CLAIM' | 'PAY' | 'GIFT_CARD' | 'ALLOCATION' | 'ADJUSTMENT';
 export const PaymentMode = {
   CLAIM: 'CLAIM' as const,
   PAY: 'PAY' as const,
   GIFT_CARD: 'GIFT_CARD' as const,
   ALLOCATION: 'ALLOCATION' as const,
+  ADJUSTMENT: 'ADJUSTMENT' as const,    // Admin wallet correction, not revenue
 };
 
-export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED';
+export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED' | 'DISPUTED' | 'REVERSED';
 export const PaymentStatus = {
   PENDING: 'PENDING' as const,
   COMPLETED: 'COMPLETED' as const,
   FAILED: 'FAILED' as const,
+  REFUNDED: 'REFUNDED' as const,
+  DISPUTED: 'DISPUTED' as const,
+  REVERSED: 'REVERSED' as const,
 };
 
-export type GiftCodeStatus = 'UNUSED' | 'USED' | 'DEACTIVATED';
+export type SkuStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED';
+
+export type GiftCodeStatus = 'INACTIVE' | 'UNUSED' | 'PARTIALLY_USED' | 'USED' | 'DEACTIVATED' | 'EXPIRED';
 export const GiftCodeStatus = {
+  INACTIVE: 'INACTIVE' as const,
   UNUSED: 'UNUSED' as const,
+  PARTIALLY_USED: 'PARTIALLY_USED' as const,
   USED: 'USED' as const,
   DEACTIVATED: 'DEACTIVATED' as const,
+  EXPIRED: 'EXPIRED' as const,
 };
 
 export type UserRole = 'USER' | 'MERCHANT' | 'ADMIN';
@@ -41,6 +50,18 @@ export const UserRole = {
   ADMIN: 'ADMIN' as const,
 };
 
+export type MerchantMemberRole = 'OWNER' | 'FINANCE' | 'VIEWER';
+
+export type LedgerEntryType = 'CREDIT' | 'DEBIT';
+
+export type LedgerReason = 'TRANSACTION' | 'MATURATION' | 'ADMIN_ADJUSTMENT' | 'OPENING_BALANCE' | 'CORRECTION' | 'REVERSAL';
+
+export type WebhookEventStatus = 'RECEIVED' | 'PROCESSED' | 'IGNORED' | 'FAILED';
+
+export type JobRunStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+
+export type CronJob = 'daily' | 'monthly' | 'all';
+
 // ============================================
 // DATABASE MODELS (match Prisma models)
 // ============================================
@@ -62,10 +83,44 @@ export interface User {
   status: UserStatus;
   corsairExported: boolean;
   corsairId: string | null;
+  deletedAt: string | null; // Set when the account was deleted (personal data pseudonymized)
   createdAt: string;        // ISO date string
   updatedAt: string;        // ISO date string
 }
 
+// Format of a personal data export
+export type DataExportFormat = 'json' | 'zip';
+
+// ============================================
+// CONSENT TYPES
+// ============================================
+
+export type ConsentType = 'TERMS' | 'PRIVACY' | 'MARKETING';
+
+export interface Consent {
+  id: string;
+  userId: string;
+  type: ConsentType;
+  version: string;
+  source: string;           // landing, dashboard
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  withdrawnAt: string | null;
+}
+
+export interface ConsentStatus {
+  type: ConsentType;
+  currentVersion: string;
+  active: Consent | null;   // Latest consent not withdrawn
+  upToDate: boolean;        // Active consent is for the current version
+}
+
+export interface UserConsents {
+  consents: ConsentStatus[];
+  history: Consent[];
+}
+
 export interface Transaction {
   id: string;
   userId: string;
@@ -79,8 +134,13 @@ export interface Transaction {
   partnerId: string | null;
   merchantId: string | null;
   giftCodeUsed: string | null;
+  note: string | null;                          // Reason of admin adjustments/manual transactions
+  metadata: Record<string, unknown> | null;     // e.g. { source: 'WALLET_ADJUSTMENT', actorId }
   weightGrams: number | null;
   multiplier: number | null;
+  reversalOfId: string | null;    // Set on compensating transactions
+  reversalReason: string | null;
+  prepaid: boolean;               // Paid from the merchant's prepaid credit, never invoiced
   createdAt: string;        // ISO date string
 }
 
@@ -95,19 +155,108 @@ export interface Sku {
   paymentRequired: boolean;
   validationRequired: boolean;
   active: boolean;
+  claimTokenRequired: boolean;          // CLAIM only with a printed claim token
   merchantId: string | null;
+  maturationScheduleId: string | null;  // null = merchant schedule, then global default
+  status: SkuStatus;                    // Merchant drafts start as PENDING_APPROVAL
+  submittedById: string | null;
+  reviewedById: string | null;
+  reviewedAt: string | null;            // ISO date string
+  reviewNote: string | null;            // Rejection reason
   createdAt: string;        // ISO date string
   updatedAt: string;        // ISO date string
   merchant?: MerchantBasic | null;
 }
 
+// Fields a merchant can set on a SKU draft
+export interface SkuDraftRequest {
+  code?: string;
+  name: string;
+  description?: string;
+  paymentMode: PaymentMode;
+  price?: number;
+  weightGrams?: number | null;
+  multiplier?: number;
+}
+
+// Landing page URL of an approved SKU, encoded in the product QR code
+export interface SkuLandingLink {
+  code: string;
+  name: string;
+  url: string;
+  expiresAt: string;
+}
+
+// Claim tokens: single-use / N-use codes printed in QR codes of CLAIM products
+export type ClaimTokenStatus = 'ISSUED' | 'REDEEMED' | 'EXPIRED';
+
+export interface ClaimTokenBatch {
+  id: string;
+  merchantId: string;
+  skuCode: string;
+  quantity: number;
+  maxUses: number;
+  expiresAt: string | null;
+  createdById: string | null;
+  createdAt: string;
+}
+
+export interface ClaimTokenBatchSummary extends ClaimTokenBatch {
+  skuName: string;
+  counts: Record<ClaimTokenStatus, number>;
+}
+
+export interface CreateClaimTokenBatchRequest {
+  skuCode: string;
+  quantity: number;
+  maxUses?: number;
+  expiresInDays?: number;
+}
+
+// Secret merchants and partners use to sign their own landing URLs
+export interface LandingSigningKeyInfo {
+  secret: string;
+  createdAt: string;
+  rotatedAt: string | null;
+}
+
 export interface GiftCode {
   code: string;
   skuCode: string;
+  batchId: string | null;
   status: GiftCodeStatus;
-  usedByUserId: string | null;
-  usedAt: string | null;    // ISO date string
-  createdAt: string;        // ISO date string
+  faceValue: number | null;     // Decimal from backend, null = SKU price
+  redeemedAmount: number;       // Decimal from backend
+  checkCharacter: boolean;      // Generated here, may be typed in any case
+  activatedAt: string | null;   // ISO date string
+  expiresAt: string | null;     // ISO date string
+  usedByUserId: string | null;  // Last redemption
+  usedAt: string | null;        // ISO date string
+  createdAt: string;            // ISO date string
+  sku?: Pick<Sku, 'code' | 'name' | 'price'>;
+  batch?: Pick<GiftCodeBatch, 'id' | 'name' | 'distributor'> | null;
+}
+
+// Named print run of gift cards, shipped to one distributor
+export interface GiftCodeBatch {
+  id: string;
+  name: string;
+  skuCode: string;
+  distributor: string | null;
+  faceValue: number | null;     // Decimal from backend, null = SKU price
+  activationRequired: boolean;
+  expiresAt: string | null;     // ISO date string
+  createdById: string | null;
+  createdAt: string;            // ISO date string
+}
+
+export interface GiftCodeBatchSummary extends GiftCodeBatch {
+  skuName: string;
+  quantity: number;
+  counts: Record<GiftCodeStatus, number>;
+  totalValue: number;
+  redeemedValue: number;
+  redemptionRate: number;       // % of sold cards with at least one redemption
 }
 
 export interface Merchant {
@@ -121,7 +270,20 @@ export interface Merchant {
   lastBillingDate: string | null;
   stripeAccountId: string | null;
   partnerId: string | null;
+  maturationScheduleId: string | null;  // null = global default
   active: boolean;          // Merchant active status
+  // Billing details printed on invoices
+  legalName: string | null;             // null = name
+  vatId: string | null;                 // With country prefix, e.g. DE123456789
+  billingAddress: string | null;
+  billingPostalCode: string | null;
+  billingCity: string | null;
+  billingCountry: string;               // ISO country code, e.g. IT
+  // Prepaid credit
+  creditBalance: number;                // EUR, Decimal from backend
+  creditExhaustedAction: CreditExhaustedAction;
+  lowCreditThreshold: number | null;    // null = no alert
+  monthlySpendingCap: number | null;    // null = no cap
   createdAt: string;        // ISO date string
   updatedAt: string;        // ISO date string
 }
@@ -132,20 +294,75 @@ export interface MerchantBasic {
   multiplier?: number;
 }
 
+// How VAT applies to an invoice
+export type VatTreatment = 'DOMESTIC' | 'REVERSE_CHARGE' | 'OUTSIDE_EU';
+
 export interface Invoice {
   id: string;
   merchantId: string;
+  number: string | null;    // e.g. 2026/00042, gap-free per fiscal year
+  fiscalYear: number | null;
+  sequence: number | null;
+  issuedAt: string | null;  // ISO date string
   periodStart: string;      // ISO date string
   periodEnd: string;        // ISO date string
   transactionCount: number;
   totalImpactKg: number;    // Decimal from backend
-  amount: number;           // Decimal from backend
+  netAmount: number | null; // Decimal from backend, null on invoices issued before VAT
+  vatRate: number | null;   // Percent
+  vatAmount: number | null;
+  vatTreatment: VatTreatment | null;
+  amount: number;           // Decimal from backend, total payable
+  billingName: string | null;       // Buyer details as issued
+  billingAddress: string | null;
+  billingVatId: string | null;
+  billingCountry: string | null;
+  emailedAt: string | null; // ISO date string
   paid: boolean;
   paidAt: string | null;    // ISO date string
   stripePaymentId: string | null;
+  paymentProcessingAt: string | null; // ISO date string, online payment settling (SEPA)
+  paymentError: string | null;        // Last failed payment attempt
   createdAt: string;        // ISO date string
 }
 
+// Online payment state of an invoice
+export type InvoicePaymentState = 'PAID' | 'PROCESSING' | 'PENDING' | 'FAILED';
+
+export interface InvoicePaymentIntent {
+  clientSecret: string;
+  paymentIntentId: string;
+  amount: number;
+}
+
+export interface InvoicePaymentSyncResult {
+  invoiceId: string;
+  state: InvoicePaymentState;
+  updated: boolean;
+  message: string;
+}
+
+// A merchant's balance against the transactions not billed yet
+export interface MerchantBillingReconciliation {
+  merchantId: string;
+  merchantName: string;
+  currentBalance: number;
+  unbilledAmount: number;
+  unbilledTransactions: number;
+  oldestUnbilledAt: string | null;  // ISO date string
+  difference: number;               // currentBalance - unbilledAmount
+  mismatched: boolean;
+}
+
+export interface BillingReconciliationReport {
+  generatedAt: string;
+  merchantsChecked: number;
+  mismatchedCount: number;
+  totalBalance: number;
+  totalUnbilled: number;
+  merchants: MerchantBillingReconciliation[];   // Mismatched first
+}
+
 export interface Setting {
   key: string;
   value: string;
@@ -153,6 +370,117 @@ export interface Setting {
   updatedAt: string;        // ISO date string
 }
 
+export interface WalletLedgerEntry {
+  id: string;
+  userId: string;
+  type: LedgerEntryType;
+  reason: LedgerReason;
+  amountEur: number;        // Signed delta, Decimal from backend
+  impactKg: number;         // Signed delta, Decimal from backend
+  maturedKg: number;        // Signed delta, Decimal from backend
+  pendingKg: number;        // Signed delta, Decimal from backend
+  transactionId: string | null;
+  actorId: string | null;
+  note: string | null;
+  createdAt: string;        // ISO date string
+}
+
+export interface WebhookEvent {
+  id: string;
+  stripeEventId: string;
+  type: string;
+  payload: unknown;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  processedAt: string | null; // ISO date string
+  createdAt: string;          // ISO date string
+  updatedAt: string;          // ISO date string
+}
+
+// Outcome of one cron task within a run
+export interface CronTaskResult {
+  task: string;               // e.g. daily-maturation, monthly-billing
+  success: boolean;
+  skipped?: boolean;          // Already running in another process
+  startedAt: string;          // ISO date string
+  completedAt: string;        // ISO date string
+  result?: unknown;
+  error?: string;
+}
+
+// Stored cron run (scheduler, manual or retry)
+export interface JobRun {
+  id: string;
+  job: CronJob;
+  status: JobRunStatus;
+  trigger: 'scheduler' | 'manual' | 'retry';
+  triggeredById: string | null;
+  triggeredBy: { email: string } | null;
+  retryOfId: string | null;
+  results: CronTaskResult[] | null;
+  tasksRun: number;
+  tasksFailed: number;
+  error: string | null;
+  startedAt: string;          // ISO date string
+  completedAt: string | null; // ISO date string
+  durationMs: number | null;
+}
+
+export interface CronRunResult {
+  runId: string;
+  job: CronJob;
+  status: JobRunStatus;
+  startedAt: string;
+  completedAt: string;
+  tasksRun: number;
+  tasksSucceeded: number;
+  tasksFailed: number;
+  results: CronTaskResult[];
+}
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  dailyHour: number;
+  monthlyHour: number;
+  nextDailyRun: string | null;  // ISO date string
+  nextMonthlyRun: string | null; // ISO date string
+}
+
+export type AuditEntityType =
+  | 'Setting'
+  | 'User'
+  | 'Transaction'
+  | 'Merchant'
+  | 'MerchantMember'
+  | 'Partner'
+  | 'PartnerStatement'
+  | 'Sku'
+  | 'GiftCode'
+  | 'GiftCodeBatch'
+  | 'ClaimTokenBatch'
+  | 'Invoice'
+  | 'MaturationSchedule'
+  | 'WebhookEvent'
+  | 'Billing'
+  | 'CorsairExport'
+  | 'Cron';
+
+// Record of a privileged mutation (who did what, with before/after snapshots)
+export interface AuditLog {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;             // e.g. setting.update, wallet.adjust
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;          // ISO date string
+}
+
 export interface MagicLink {
   id: string;
   userId: string;
@@ -177,6 +505,7 @@ export interface ApiErrorResponse {
     message: string;
     code?: string;
     details?: unknown;
+    requestId?: string;       // Matches the server logs, quote it in support requests
   };
 }
 
@@ -193,6 +522,35 @@ export interface AuthResponse {
   token: string;
 }
 
+// Landing form registration: a session for a new user, a sign-in link for an existing email
+export type RegisterResponse =
+  | AuthResponse
+  | { magicLinkSent: true; message: string; magicLinkUrl?: string };
+
+// Admin sign-in step after opening the link: enrolled admins only enter a code,
+// others first add the secret to their authenticator app
+export interface AdminSignInChallenge {
+  email: string;
+  enrolled: boolean;
+  secret?: string;            // Base32 key for manual entry
+  otpauthUrl?: string;        // otpauth:// URI with the same key
+}
+
+export interface AdminAccount {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  createdAt: string;
+  totpEnabledAt: string | null; // null = authenticator not set up yet
+}
+
+export interface CreateAdminAccountResponse {
+  admin: AdminAccount;
+  message: string;
+  magicLinkUrl?: string;      // Development only
+}
+
 export interface RegisterRequest {
   email: string;
   firstName?: string;
@@ -203,6 +561,9 @@ export interface RegisterRequest {
   postalCode?: string;
   country?: string;
   state?: string;
+  // Consents ticked on the landing form
+  termsAccepted?: boolean;
+  marketingOptIn?: boolean;
 }
 
 // ============================================
@@ -219,6 +580,7 @@ export interface LandingParams {
   email?: string;      // Pre-filled email (from allocation)
   weight?: number;     // Dynamic weight in grams (e-commerce)
   multiplier?: number; // Multiplier override
+  token?: string;      // Claim token from a printed QR code
 }
 
 // Form data from landing page - matches all 6 cases
@@ -238,8 +600,9 @@ export interface LandingFormData {
   country?: string;
   state?: string;
 
-  // Terms
+  // Terms (recorded as TERMS and PRIVACY consents) and marketing opt-in
   termsAccepted?: boolean;
+  marketingOptIn?: boolean;
 
   // Payment specific
   amount?: number;
@@ -274,6 +637,13 @@ export interface CreateTransactionRequest {
   partnerId?: string;
   weightGrams?: number;
   multiplier?: number;
+  // Signed landing URL parameters, required for CLAIM and ALLOCATION
+  landing?: Record<string, string>;
+  // Claim token from a printed QR code (CLAIM only)
+  claimToken?: string;
+  // Consents given on the landing form
+  termsAccepted?: boolean;
+  marketingOptIn?: boolean;
   email: string;
   firstName?: string;
   lastName?: string;
@@ -285,6 +655,10 @@ export interface CreateTransactionRequest {
   state?: string;
 }
 
+export interface CreateTransactionResponse extends Transaction {
+  walletToken: string | null; // Short-lived, reads the wallet on the landing thank-you screen (new or signed-in users only)
+}
+
 export interface TransactionWithRelations extends Transaction {
   user?: User;
   sku?: Sku | null;
@@ -296,6 +670,14 @@ export interface TransactionListResponse {
   total: number;
 }
 
+export interface ReverseTransactionResult {
+  original: Transaction;
+  reversal: Transaction;      // Compensating transaction (negated amounts)
+  merchantCredited: number;   // Credited back to the merchant balance (CLAIM/ALLOCATION)
+  giftCodeReset: boolean;
+  userDowngraded: boolean;
+}
+
 // ============================================
 // WALLET TYPES
 // ============================================
@@ -312,9 +694,43 @@ export interface WalletSummary {
   upcomingMaturations?: Array<{
     amount: number;
     date: string;
+    label: string;
+  }>;
+  maturationSchedules?: Array<{
+    name: string;
+    tranches: MaturationTranche[];
   }>;
 }
 
+// ============================================
+// MATURATION SCHEDULE TYPES
+// ============================================
+
+export interface MaturationTranche {
+  label: string;            // "Immediate", "Mid-term", "Final"
+  percent: number;          // Share of the impact, all tranches sum to 100
+  weeks: number;            // Weeks after the transaction (0 = immediately)
+}
+
+export interface MaturationSchedule {
+  id: string;
+  name: string;
+  description: string | null;
+  tranches: MaturationTranche[];
+  active: boolean;
+  createdAt: string;        // ISO date string
+  updatedAt: string;        // ISO date string
+}
+
+export interface MaturationScheduleWithCounts extends MaturationSchedule {
+  isDefault: boolean;
+  _count: {
+    skus: number;
+    merchants: number;
+    transactions: number;
+  };
+}
+
 // ============================================
 // GIFT CODE TYPES
 // ============================================
@@ -326,17 +742,35 @@ export interface ValidateGiftCodeRequest {
 
 export interface ValidateGiftCodeResponse {
   valid: boolean;
-  amount?: number;
+  amount?: number;          // Balance left on the card
+  faceValue?: number;
+  expiresAt?: string | null;
   impactKg?: number;
   impactDisplay?: string;
   message?: string;
 }
 
-export interface BatchUploadGiftCodesRequest {
+// Print batch the codes belong to
+export interface GiftCodeBatchOptions {
   skuCode: string;
+  name?: string;
+  distributor?: string;
+  faceValue?: number;       // Default = SKU price
+  activationRequired?: boolean;
+  expiresAt?: string;       // ISO date
+}
+
+export interface BatchUploadGiftCodesRequest extends GiftCodeBatchOptions {
   codes: string[];
 }
 
+// Codes generated by the server, with a check character
+export interface GenerateGiftCodesRequest extends GiftCodeBatchOptions {
+  quantity: number;
+}
+
+export type GiftCodeBatchDownloadFormat = 'csv' | 'pdf';
+
 // ============================================
 // MERCHANT TYPES
 // ============================================
@@ -357,6 +791,99 @@ export interface MerchantBillingInfo {
   nextBillingDate: string | null;
   lastBillingDate: string | null;
   invoices: Invoice[];
+  credit: MerchantCreditStatus;
+}
+
+// ============================================
+// MERCHANT PREPAID CREDIT TYPES
+// ============================================
+
+// What happens to claims once the prepaid credit runs out
+export type CreditExhaustedAction = 'BILL' | 'PAUSE';
+
+export type CreditPackUnit = 'EUR' | 'KG';
+
+export type CreditPurchaseStatus = 'PENDING' | 'PROCESSING' | 'PAID' | 'FAILED';
+
+export type MerchantCreditReason = 'PURCHASE' | 'USAGE' | 'REVERSAL' | 'ADJUSTMENT';
+
+export interface MerchantCreditStatus {
+  creditBalance: number;
+  creditKg: number;                 // Balance in kg at today's price per kg
+  pricePerKg: number;
+  creditExhaustedAction: CreditExhaustedAction;
+  lowCreditThreshold: number | null;
+  monthlySpendingCap: number | null;
+  monthSpend: number;               // Claims this calendar month
+  paused: boolean;                  // New claims are currently rejected
+  pausedReason: string | null;
+}
+
+export interface CreditPackOffer {
+  id: string;
+  unit: CreditPackUnit;
+  quantity: number;                 // EUR or kg
+  creditAmount: number;             // EUR of credit added
+  netAmount: number;
+  vatAmount: number;
+  amount: number;                   // Charged, VAT included
+}
+
+export interface MerchantCreditPurchase {
+  id: string;
+  merchantId: string;
+  packId: string;
+  unit: CreditPackUnit;
+  quantity: number;
+  creditAmount: number;
+  netAmount: number;
+  vatAmount: number;
+  amount: number;
+  status: CreditPurchaseStatus;
+  stripePaymentId: string | null;
+  paymentError: string | null;
+  paidAt: string | null;
+  createdById: string | null;
+  createdAt: string;
+}
+
+export interface MerchantCreditEntry {
+  id: string;
+  merchantId: string;
+  reason: MerchantCreditReason;
+  amount: number;                   // Signed, EUR
+  balanceAfter: number;
+  transactionId: string | null;
+  purchaseId: string | null;
+  actorId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface MerchantCreditOverview {
+  status: MerchantCreditStatus;
+  packs: CreditPackOffer[];
+  purchases: MerchantCreditPurchase[];
+  entries: MerchantCreditEntry[];
+}
+
+export interface CreditPurchasePayment {
+  purchase: MerchantCreditPurchase;
+  clientSecret: string;
+  paymentIntentId: string;
+}
+
+export interface CreditPurchaseSyncResult {
+  purchaseId: string;
+  status: CreditPurchaseStatus;
+  updated: boolean;
+  message: string;
+}
+
+export interface MerchantCreditSettings {
+  creditExhaustedAction?: CreditExhaustedAction;
+  lowCreditThreshold?: number | null;
+  monthlySpendingCap?: number | null;
 }
 
 export interface MerchantWithCounts extends Merchant {
@@ -366,6 +893,57 @@ export interface MerchantWithCounts extends Merchant {
   };
 }
 
+export interface MerchantMember {
+  id: string;
+  merchantId: string;
+  userId: string;
+  role: MerchantMemberRole;
+  invitedById: string | null;
+  acceptedAt: string | null;  // null = invitation pending
+  createdAt: string;          // ISO date string
+  updatedAt: string;          // ISO date string
+  user: { id: string; email: string; firstName: string | null; lastName: string | null };
+}
+
+// A merchant the current user belongs to
+export interface MerchantMembership {
+  merchantId: string;
+  merchantName: string;
+  role: MerchantMemberRole;
+}
+
+export interface InviteMerchantMemberResponse {
+  member: MerchantMember;
+  message: string;
+  magicLinkUrl?: string;      // Development only
+}
+
+// ============================================
+// PARTNER COMMISSION TYPES
+// ============================================
+
+export type PartnerPayoutStatus = 'PENDING' | 'APPROVED' | 'PAID';
+
+// Monthly commission statement, produced by the monthly cron
+export interface PartnerStatement {
+  id: string;
+  partnerId: string;
+  periodStart: string;        // ISO date string
+  periodEnd: string;          // ISO date string
+  transactionCount: number;
+  baseAmount: number;         // Decimal from backend, commissionable revenue
+  commissionAmount: number;   // Decimal from backend, due to the partner
+  payoutStatus: PartnerPayoutStatus;
+  approvedAt: string | null;  // ISO date string
+  approvedById: string | null;
+  paidAt: string | null;      // ISO date string
+  paidById: string | null;
+  paymentReference: string | null;
+  createdAt: string;          // ISO date string
+  updatedAt: string;          // ISO date string
+  partner: { id: string; name: string };
+}
+
 // ============================================
 // SETTINGS TYPES
 // ============================================
@@ -376,6 +954,7 @@ export const SettingKey = {
   CERTIFICATION_THRESHOLD: 'CERTIFICATION_THRESHOLD',
   DEFAULT_MULTIPLIER: 'DEFAULT_MULTIPLIER',
   MONTHLY_BILLING_MINIMUM: 'MONTHLY_BILLING_MINIMUM',
+  VAT_RATE: 'VAT_RATE',
 } as const;
 
 export type SettingKeyType = typeof SettingKey[keyof typeof SettingKey];
@@ -420,6 +999,7 @@ export interface PaymentIntentResponse {
   clientSecret: string;
   paymentIntentId: string;
   transactionId?: string; // Returned by createIntent, used for confirmPayment
+  walletToken?: string | null; // Returned by createIntent, reads the wallet once the payment completes
 }
 
 // ============================================
@@ -486,3 +1066,21 @@ export interface UserListResponse {
   limit: number;
   offset: number;
 }
+
+export interface LedgerBalances {
+  walletBalance: number;
+  walletImpactKg: number;
+  maturedImpactKg: number;
+  pendingImpactKg: number;
+}
+
+export interface UserLedgerResponse {
+  entries: WalletLedgerEntry[];
+  total: number;
+  balances: {
+    userId: string;
+    ledger: LedgerBalances;
+    wallet: LedgerBalances;
+    inSync: boolean;
+  };
+}
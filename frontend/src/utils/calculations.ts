@@ -82,8 +82,8 @@ export const determineLandingCase = (
   sku: Sku | null,
   params: LandingParams
 ): LandingCase => {
-  // Case ADMIN: Admin login via special SKU code (e.g., ADMIN-ACCESS-2026)
-  // Check URL param first before SKU lookup (SKU may not exist in database)
+  // Case ADMIN: ADMIN-* codes route to the admin sign-in form; the code itself grants no access
+  // Check URL param first before SKU lookup (there is no SKU row for these codes)
   if (params.sku && params.sku.toUpperCase().startsWith('ADMIN-')) {
     return 'ADMIN';
   }
@@ -164,6 +164,12 @@ export const formatPaymentStatus = (status: string): { text: string; color: 'suc
       return { text: 'Pending', color: 'warning' };
     case 'FAILED':
       return { text: 'Failed', color: 'error' };
+    case 'REFUNDED':
+      return { text: 'Refunded', color: 'default' };
+    case 'DISPUTED':
+      return { text: 'Disputed', color: 'error' };
+    case 'REVERSED':
+      return { text: 'Reversed', color: 'default' };
     default:
       return { text: status, color: 'default' };
   }
@@ -196,6 +202,8 @@ export const formatPaymentMode = (mode: string): string => {
       return 'Gift Card';
     case 'ALLOCATION':
       return 'Allocation';
+    case 'ADJUSTMENT':
+      return 'Adjustment';
     default:
       return mode;
   }
@@ -211,6 +219,13 @@ export const formatNumber = (num: number, decimals: number = 0): string => {
   }).format(num);
 };
 
+/**
+ * Format a prepaid credit pack, e.g. "€100.00 credit" or "1,000 kg credit"
+ */
+export const formatCreditPack = (pack: { unit: 'EUR' | 'KG'; quantity: number }): string => {
+  return pack.unit === 'KG' ? `${formatNumber(Number(pack.quantity))} kg credit` : `${formatEUR(pack.quantity)} credit`;
+};
+
 /**
  * Format file size
  */
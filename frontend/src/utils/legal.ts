@@ -0,0 +1,18 @@
+// CSR26 Legal Document Versions
+// Version of the Terms and Privacy pages, recorded with each consent by the backend
+// Must match CURRENT_CONSENT_VERSIONS in the backend consent service, bump both when a text changes
+
+import type { ConsentType } from '../types';
+
+export const LEGAL_VERSIONS: Record<ConsentType, string> = {
+  TERMS: '2026-01',
+  PRIVACY: '2026-10',
+  MARKETING: '2026-10',
+};
+
+// Readable names for consent types
+export const CONSENT_LABELS: Record<ConsentType, string> = {
+  TERMS: 'Terms of Service',
+  PRIVACY: 'Privacy Policy',
+  MARKETING: 'Marketing emails',
+};